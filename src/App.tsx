@@ -7,8 +7,17 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Meals from "./pages/Meals";
+import MealDetail from "./pages/MealDetail";
+import BowlBuilder from "./pages/BowlBuilder";
 import Checkout from "./pages/Checkout";
 import Admin from "./pages/Admin";
+import PrepList from "./pages/PrepList";
+import DeliveryRun from "./pages/DeliveryRun";
+import Orders from "./pages/Orders";
+import OrderDetail from "./pages/OrderDetail";
+import PaymentReturn from "./pages/PaymentReturn";
+import MockPayment from "./pages/MockPayment";
+import TrackOrder from "./pages/TrackOrder";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,8 +33,17 @@ const App = () => (
           <Route path="/auth" element={<Auth />} />
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/meals" element={<Meals />} />
+          <Route path="/meals/:id" element={<MealDetail />} />
+          <Route path="/bowl" element={<BowlBuilder />} />
           <Route path="/checkout" element={<Checkout />} />
+          <Route path="/orders" element={<Orders />} />
+          <Route path="/orders/:id" element={<OrderDetail />} />
           <Route path="/admin" element={<Admin />} />
+          <Route path="/admin/prep" element={<PrepList />} />
+          <Route path="/admin/deliveries" element={<DeliveryRun />} />
+          <Route path="/payment/return" element={<PaymentReturn />} />
+          <Route path="/payment/mock" element={<MockPayment />} />
+          <Route path="/track/:token" element={<TrackOrder />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { addressSchema, malaysianStates, type AddressInput } from "@/lib/addresses";
+import { checkServiceability, type DeliveryZone } from "@/lib/zones";
+
+type FieldErrors = Partial<Record<keyof AddressInput, string>>;
+
+export const AddressForm = ({
+  initialValues,
+  saving,
+  onSubmit,
+  onCancel,
+}: {
+  initialValues: AddressInput;
+  saving: boolean;
+  onSubmit: (values: AddressInput) => void;
+  onCancel: () => void;
+}) => {
+  const [values, setValues] = useState<AddressInput>(initialValues);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [zone, setZone] = useState<DeliveryZone | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!/^\d{5}$/.test(values.postcode)) {
+      setZone(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    checkServiceability(values.postcode).then(({ zone, error }) => {
+      if (!cancelled && !error) setZone(zone);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [values.postcode]);
+
+  const setField = <K extends keyof AddressInput>(field: K, value: AddressInput[K]) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = addressSchema.safeParse(values);
+    if (!result.success) {
+      const fieldErrors: FieldErrors = {};
+      for (const issue of result.error.issues) {
+        const field = issue.path[0] as keyof AddressInput;
+        fieldErrors[field] ??= issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+    onSubmit(result.data);
+  };
+
+  const fieldError = (field: keyof AddressInput) =>
+    errors[field] && <p className="text-xs text-destructive mt-1">{errors[field]}</p>;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="address-label">label</Label>
+          <Input
+            id="address-label"
+            placeholder="home, office..."
+            value={values.label}
+            onChange={(e) => setField("label", e.target.value)}
+            className="mt-1"
+          />
+          {fieldError("label")}
+        </div>
+        <div>
+          <Label htmlFor="address-unit">unit / block</Label>
+          <Input
+            id="address-unit"
+            placeholder="A-12-3"
+            value={values.unit}
+            onChange={(e) => setField("unit", e.target.value)}
+            className="mt-1"
+          />
+          {fieldError("unit")}
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="address-building">building / condo name</Label>
+        <Input
+          id="address-building"
+          placeholder="optional"
+          value={values.building}
+          onChange={(e) => setField("building", e.target.value)}
+          className="mt-1"
+        />
+        {fieldError("building")}
+      </div>
+      <div>
+        <Label htmlFor="address-street">street</Label>
+        <Input
+          id="address-street"
+          placeholder="jalan ..."
+          value={values.street}
+          onChange={(e) => setField("street", e.target.value)}
+          className="mt-1"
+        />
+        {fieldError("street")}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="address-postcode">postcode</Label>
+          <Input
+            id="address-postcode"
+            inputMode="numeric"
+            maxLength={5}
+            placeholder="50450"
+            value={values.postcode}
+            onChange={(e) => setField("postcode", e.target.value.replace(/\D/g, ""))}
+            className="mt-1"
+          />
+          {fieldError("postcode")}
+          {zone === null && (
+            <p className="text-xs text-destructive mt-1">sorry, we don't deliver to this postcode yet</p>
+          )}
+          {zone && (
+            <p className="text-xs text-primary mt-1">
+              we deliver here ({zone.name}, RM {zone.delivery_fee.toFixed(2)} delivery)
+            </p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="address-city">city</Label>
+          <Input
+            id="address-city"
+            value={values.city}
+            onChange={(e) => setField("city", e.target.value)}
+            className="mt-1"
+          />
+          {fieldError("city")}
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="address-state">state</Label>
+        <Select value={values.state} onValueChange={(value) => setField("state", value as AddressInput["state"])}>
+          <SelectTrigger id="address-state" className="mt-1">
+            <SelectValue placeholder="choose a state" />
+          </SelectTrigger>
+          <SelectContent>
+            {malaysianStates.map((state) => (
+              <SelectItem key={state} value={state}>
+                {state}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {fieldError("state")}
+      </div>
+      <div>
+        <Label htmlFor="address-notes">guardhouse / lobby notes</Label>
+        <Textarea
+          id="address-notes"
+          placeholder="e.g. register at guardhouse, lobby B"
+          value={values.delivery_notes}
+          onChange={(e) => setField("delivery_notes", e.target.value)}
+          className="mt-1"
+        />
+        {fieldError("delivery_notes")}
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="address-default"
+          checked={values.is_default}
+          onCheckedChange={(checked) => setField("is_default", checked === true)}
+        />
+        <Label htmlFor="address-default" className="font-normal">
+          use as my default address
+        </Label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          cancel
+        </Button>
+        <Button type="submit" disabled={saving}>
+          {saving ? "saving..." : "save address"}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { AddressForm } from "@/components/AddressForm";
+import { useToast } from "@/hooks/use-toast";
+import { emptyAddressInput, formatAddress, type Address, type AddressInput } from "@/lib/addresses";
+import { startGuestSession } from "@/lib/guest";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+export const AddressPicker = ({
+  value,
+  onChange,
+  allowGuest = false,
+}: {
+  value: string | null;
+  onChange: (address: Address | null) => void;
+  allowGuest?: boolean;
+}) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<Address | "new" | null>(null);
+  const [startingGuest, setStartingGuest] = useState(false);
+
+  useEffect(() => {
+    loadAddresses();
+  }, []);
+
+  const loadAddresses = async (selectId?: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+    setUserId(user.id);
+
+    const { data, error } = await supabase
+      .from("addresses")
+      .select("*")
+      .order("is_default", { ascending: false })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast({
+        title: "error loading addresses",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      const list = data || [];
+      setAddresses(list);
+      const selected =
+        list.find((a) => a.id === (selectId ?? value)) ?? list.find((a) => a.is_default) ?? list[0] ?? null;
+      onChange(selected);
+    }
+    setLoading(false);
+  };
+
+  const saveAddress = async (values: AddressInput) => {
+    if (!userId) return;
+    setSaving(true);
+
+    const row = {
+      label: values.label,
+      unit: values.unit,
+      building: values.building || null,
+      street: values.street,
+      postcode: values.postcode,
+      city: values.city,
+      state: values.state,
+      delivery_notes: values.delivery_notes || null,
+      is_default: values.is_default,
+    };
+
+    const { data, error } =
+      editing && editing !== "new"
+        ? await supabase.from("addresses").update(row).eq("id", editing.id).select().single()
+        : await supabase.from("addresses").insert({ ...row, user_id: userId }).select().single();
+
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error saving address",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEditing(null);
+    loadAddresses(data.id);
+  };
+
+  const deleteAddress = async (addressId: string) => {
+    const { error } = await supabase.from("addresses").delete().eq("id", addressId);
+    if (error) {
+      toast({
+        title: "error deleting address",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadAddresses(value === addressId ? undefined : value ?? undefined);
+  };
+
+  const continueAsGuest = async () => {
+    setStartingGuest(true);
+    const { error } = await startGuestSession();
+    setStartingGuest(false);
+
+    if (error) {
+      toast({
+        title: "error starting guest checkout",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadAddresses();
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">loading addresses...</p>;
+  }
+
+  if (!userId) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          {allowGuest ? "sign in, or check out as a guest with just your email" : "sign in to choose a delivery address"}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => navigate("/auth")}>
+            sign in
+          </Button>
+          {allowGuest && (
+            <Button size="sm" onClick={continueAsGuest} disabled={startingGuest}>
+              {startingGuest ? "starting..." : "continue as guest"}
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {addresses.length > 0 && (
+        <RadioGroup
+          value={value ?? undefined}
+          onValueChange={(id) => onChange(addresses.find((a) => a.id === id) ?? null)}
+        >
+          {addresses.map((address) => (
+            <div key={address.id} className="flex items-start gap-3 rounded-md border border-primary/20 p-3">
+              <RadioGroupItem value={address.id} id={`address-${address.id}`} className="mt-1" />
+              <Label htmlFor={`address-${address.id}`} className="flex-1 font-normal cursor-pointer">
+                <div className="flex items-center gap-2 font-medium">
+                  {address.label}
+                  {address.is_default && <Badge variant="secondary">default</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">{formatAddress(address)}</div>
+                {address.delivery_notes && (
+                  <div className="text-xs text-muted-foreground mt-1 italic">{address.delivery_notes}</div>
+                )}
+              </Label>
+              <div className="flex">
+                <Button variant="ghost" size="icon" onClick={() => setEditing(address)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => deleteAddress(address.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </RadioGroup>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => setEditing("new")} className="gap-2">
+        <Plus className="w-4 h-4" />
+        add new address
+      </Button>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "new address" : "edit address"}</DialogTitle>
+          </DialogHeader>
+          {editing !== null && (
+            <AddressForm
+              initialValues={
+                editing === "new"
+                  ? { ...emptyAddressInput, is_default: addresses.length === 0 }
+                  : {
+                      label: editing.label,
+                      unit: editing.unit,
+                      building: editing.building ?? "",
+                      street: editing.street,
+                      postcode: editing.postcode,
+                      city: editing.city,
+                      state: editing.state as AddressInput["state"],
+                      delivery_notes: editing.delivery_notes ?? "",
+                      is_default: editing.is_default,
+                    }
+              }
+              saving={saving}
+              onSubmit={saveAddress}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
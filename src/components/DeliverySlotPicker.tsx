@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  addDays,
+  formatWindow,
+  getDeliverySlots,
+  malaysiaToday,
+  parseDateKey,
+  toDateKey,
+  type DeliverySlot,
+} from "@/lib/slots";
+import type { DeliveryZone } from "@/lib/zones";
+
+export interface SelectedSlot {
+  date: string;
+  windowId: string;
+}
+
+export const DeliverySlotPicker = ({
+  zone,
+  value,
+  onChange,
+  currentSlot,
+}: {
+  zone: DeliveryZone;
+  value: SelectedSlot | null;
+  onChange: (slot: SelectedSlot | null) => void;
+  // The slot an order being changed already holds; it stays selectable even when full
+  currentSlot?: SelectedSlot;
+}) => {
+  const today = malaysiaToday();
+  const firstDay = zone.same_day_cutoff ? today : addDays(today, 1);
+  const lastDay = addDays(today, zone.booking_horizon_days);
+
+  const [date, setDate] = useState(value?.date ?? firstDay);
+  const [slots, setSlots] = useState<DeliverySlot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSlots();
+  }, [zone.id, date]);
+
+  const loadSlots = async () => {
+    setLoading(true);
+    const { slots: loaded } = await getDeliverySlots(zone.id, date);
+    const slots = loaded.map((slot) =>
+      currentSlot?.date === date && currentSlot.windowId === slot.window_id
+        ? { ...slot, available: true, reason: null }
+        : slot
+    );
+    setSlots(slots);
+    setLoading(false);
+
+    // Drop a selection that was filled or closed since it was picked
+    if (value && (value.date !== date || !slots.some((s) => s.window_id === value.windowId && s.available))) {
+      onChange(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={parseDateKey(date)}
+        onSelect={(day) => day && setDate(toDateKey(day))}
+        disabled={(day) => {
+          const key = toDateKey(day);
+          return key < firstDay || key > lastDay;
+        }}
+        fromDate={parseDateKey(firstDay)}
+        toDate={parseDateKey(lastDay)}
+        className="rounded-md border border-primary/20 w-fit"
+      />
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">loading time slots...</p>
+      ) : slots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">no delivery windows set up for {zone.name}</p>
+      ) : (
+        <RadioGroup
+          value={value?.date === date ? value.windowId : ""}
+          onValueChange={(windowId) => onChange({ date, windowId })}
+          className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+        >
+          {slots.map((slot) => (
+            <Label
+              key={slot.window_id}
+              htmlFor={`slot-${slot.window_id}`}
+              className={`flex items-center gap-3 rounded-md border border-primary/20 p-3 font-normal ${
+                slot.available ? "cursor-pointer" : "opacity-50 cursor-not-allowed"
+              }`}
+            >
+              <RadioGroupItem value={slot.window_id} id={`slot-${slot.window_id}`} disabled={!slot.available} />
+              <div>
+                <div className="font-medium">{formatWindow(slot.start_time, slot.end_time)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {currentSlot?.date === date && currentSlot.windowId === slot.window_id
+                    ? "your current slot"
+                    : slot.available
+                      ? `${slot.capacity - slot.booked} left`
+                      : slot.reason}
+                </div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+      )}
+    </div>
+  );
+};
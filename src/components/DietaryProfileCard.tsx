@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  allergens,
+  diets,
+  emptyDietaryProfile,
+  loadDietaryProfile,
+  saveDietaryProfile,
+  type DietaryProfile,
+} from "@/lib/dietary";
+
+const toggle = (values: string[], value: string, checked: boolean) =>
+  checked ? [...values, value] : values.filter((v) => v !== value);
+
+export const DietaryProfileCard = () => {
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<DietaryProfile>(emptyDietaryProfile);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  const loadProfile = async () => {
+    const { profile } = await loadDietaryProfile();
+    if (profile) setProfile(profile);
+    setLoading(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await saveDietaryProfile(profile);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error saving dietary profile",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "dietary profile saved",
+      description: "we'll flag meals that don't suit you",
+    });
+  };
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader>
+        <CardTitle>dietary profile</CardTitle>
+        <CardDescription>we'll flag meals that don't suit you and warn you at checkout</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">loading...</p>
+        ) : (
+          <>
+            <div>
+              <Label>i only eat meals that are</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
+                {diets.map((diet) => (
+                  <Label key={diet.value} className="flex items-center gap-2 font-normal cursor-pointer">
+                    <Checkbox
+                      checked={profile.diets.includes(diet.value)}
+                      onCheckedChange={(checked) =>
+                        setProfile({ ...profile, diets: toggle(profile.diets, diet.value, checked === true) })
+                      }
+                    />
+                    {diet.label}
+                  </Label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label>i'm allergic to</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
+                {allergens.map((allergen) => (
+                  <Label key={allergen.value} className="flex items-center gap-2 font-normal cursor-pointer">
+                    <Checkbox
+                      checked={profile.allergens.includes(allergen.value)}
+                      onCheckedChange={(checked) =>
+                        setProfile({
+                          ...profile,
+                          allergens: toggle(profile.allergens, allergen.value, checked === true),
+                        })
+                      }
+                    />
+                    {allergen.label}
+                  </Label>
+                ))}
+              </div>
+            </div>
+            <Label className="flex items-center justify-between gap-4 font-normal cursor-pointer">
+              <span>hide meals that don't suit me instead of flagging them</span>
+              <Switch
+                checked={profile.hide_unsafe}
+                onCheckedChange={(hide_unsafe) => setProfile({ ...profile, hide_unsafe })}
+              />
+            </Label>
+          </>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleSave} disabled={loading || saving}>
+          {saving ? "saving..." : "save profile"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
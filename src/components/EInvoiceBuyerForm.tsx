@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatAddress, type Address } from "@/lib/addresses";
+import { buyerIdTypes, einvoiceBuyerSchema, type BuyerIdType, type EInvoiceBuyerInput } from "@/lib/einvoices";
+
+type FieldErrors = Partial<Record<keyof EInvoiceBuyerInput, string>>;
+
+// Select has no empty value, so "delivery" stands for using each order's delivery address
+const DELIVERY_ADDRESS = "delivery";
+
+export const EInvoiceBuyerForm = ({
+  initialValues,
+  saving,
+  onSubmit,
+  onCancel,
+}: {
+  initialValues: EInvoiceBuyerInput;
+  saving: boolean;
+  onSubmit: (values: EInvoiceBuyerInput) => void;
+  onCancel: () => void;
+}) => {
+  const [values, setValues] = useState<EInvoiceBuyerInput>(initialValues);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [addresses, setAddresses] = useState<Address[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from("addresses")
+      .select("*")
+      .order("is_default", { ascending: false })
+      .then(({ data }) => setAddresses(data || []));
+  }, []);
+
+  const setField = <K extends keyof EInvoiceBuyerInput>(field: K, value: EInvoiceBuyerInput[K]) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = einvoiceBuyerSchema.safeParse(values);
+    if (!result.success) {
+      const fieldErrors: FieldErrors = {};
+      for (const issue of result.error.issues) {
+        const field = issue.path[0] as keyof EInvoiceBuyerInput;
+        fieldErrors[field] ??= issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+    onSubmit(result.data);
+  };
+
+  const fieldError = (field: keyof EInvoiceBuyerInput) =>
+    errors[field] && <p className="text-xs text-destructive mt-1">{errors[field]}</p>;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="einvoice-name">name (as registered with LHDN)</Label>
+        <Input
+          id="einvoice-name"
+          value={values.name}
+          onChange={(e) => setField("name", e.target.value)}
+          className="mt-1"
+        />
+        {fieldError("name")}
+      </div>
+      <div>
+        <Label htmlFor="einvoice-tin">tax identification number (TIN)</Label>
+        <Input
+          id="einvoice-tin"
+          placeholder="IG12345678090"
+          value={values.tin}
+          onChange={(e) => setField("tin", e.target.value)}
+          className="mt-1 font-mono"
+        />
+        {fieldError("tin")}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>identification</Label>
+          <Select value={values.id_type} onValueChange={(value) => setField("id_type", value as BuyerIdType)}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {buyerIdTypes.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="einvoice-id-number">number</Label>
+          <Input
+            id="einvoice-id-number"
+            value={values.id_number}
+            onChange={(e) => setField("id_number", e.target.value)}
+            className="mt-1"
+          />
+          {fieldError("id_number")}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="einvoice-phone">contact number</Label>
+          <Input
+            id="einvoice-phone"
+            type="tel"
+            placeholder="+60123456789"
+            value={values.phone}
+            onChange={(e) => setField("phone", e.target.value)}
+            className="mt-1"
+          />
+          {fieldError("phone")}
+        </div>
+        <div>
+          <Label htmlFor="einvoice-email">email (optional)</Label>
+          <Input
+            id="einvoice-email"
+            type="email"
+            value={values.email ?? ""}
+            onChange={(e) => setField("email", e.target.value)}
+            className="mt-1"
+          />
+          {fieldError("email")}
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="einvoice-sst">SST registration number (businesses only)</Label>
+        <Input
+          id="einvoice-sst"
+          value={values.sst_number ?? ""}
+          onChange={(e) => setField("sst_number", e.target.value)}
+          className="mt-1"
+        />
+        {fieldError("sst_number")}
+      </div>
+      <div>
+        <Label>billing address</Label>
+        <Select
+          value={values.address_id ?? DELIVERY_ADDRESS}
+          onValueChange={(value) => setField("address_id", value === DELIVERY_ADDRESS ? null : value)}
+        >
+          <SelectTrigger className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DELIVERY_ADDRESS}>the order's delivery address</SelectItem>
+            {addresses.map((address) => (
+              <SelectItem key={address.id} value={address.id}>
+                {address.label}: {formatAddress(address)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          cancel
+        </Button>
+        <Button type="submit" disabled={saving}>
+          {saving ? "saving..." : "save and request"}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { EInvoiceBuyerForm } from "@/components/EInvoiceBuyerForm";
+import { useToast } from "@/hooks/use-toast";
+import {
+  einvoiceStatusLabels,
+  einvoiceValidationUrl,
+  requestOrderEInvoice,
+  type EInvoice,
+  type EInvoiceBuyer,
+  type EInvoiceBuyerInput,
+} from "@/lib/einvoices";
+import { ExternalLink } from "lucide-react";
+
+const emptyBuyer: EInvoiceBuyerInput = {
+  name: "",
+  tin: "",
+  id_type: "NRIC",
+  id_number: "",
+  sst_number: "",
+  email: "",
+  phone: "",
+  address_id: null,
+};
+
+// Lets a customer ask for an e-invoice in their own name for a paid order.
+// Orders nobody asks for go on the month's consolidated e-invoice instead.
+export const EInvoicePanel = ({
+  orderId,
+  einvoiceId,
+}: {
+  orderId: string;
+  einvoiceId: string | null;
+}) => {
+  const { toast } = useToast();
+  const [einvoice, setEInvoice] = useState<EInvoice | null>(null);
+  const [buyer, setBuyer] = useState<EInvoiceBuyer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [requesting, setRequesting] = useState(false);
+
+  useEffect(() => {
+    loadEInvoice();
+  }, [orderId, einvoiceId]);
+
+  const loadEInvoice = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    const [{ data: einvoiceRow }, { data: buyerRow }] = await Promise.all([
+      supabase.from("einvoices").select("*").eq("order_id", orderId).maybeSingle(),
+      supabase
+        .from("einvoice_buyers")
+        .select("name, tin, id_type, id_number, sst_number, email, phone, address_id")
+        .eq("user_id", user?.id ?? "")
+        .maybeSingle(),
+    ]);
+
+    setEInvoice(einvoiceRow as EInvoice | null);
+    setBuyer(buyerRow as EInvoiceBuyer | null);
+    setLoading(false);
+  };
+
+  const requestEInvoice = async () => {
+    setRequesting(true);
+    const { error } = await requestOrderEInvoice(orderId);
+    setRequesting(false);
+
+    if (error) {
+      toast({
+        title: "error requesting e-invoice",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "e-invoice submitted",
+      description: "it's been sent to LHDN MyInvois in your name",
+    });
+    loadEInvoice();
+  };
+
+  const saveBuyer = async (values: EInvoiceBuyerInput) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    const { error } = await supabase.from("einvoice_buyers").upsert(
+      {
+        user_id: user.id,
+        name: values.name,
+        tin: values.tin,
+        id_type: values.id_type,
+        id_number: values.id_number,
+        sst_number: values.sst_number || null,
+        email: values.email || null,
+        phone: values.phone,
+        address_id: values.address_id,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" }
+    );
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error saving e-invoice details",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEditing(false);
+    await loadEInvoice();
+    requestEInvoice();
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">loading e-invoice...</p>;
+  }
+
+  const retryable = einvoice && ["invalid", "rejected"].includes(einvoice.status);
+  const validationUrl = einvoice && einvoiceValidationUrl(einvoice);
+
+  return (
+    <div className="space-y-3">
+      {einvoice ? (
+        <div className="space-y-1 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono">{einvoice.code}</span>
+            <Badge variant={einvoice.status === "valid" ? "default" : retryable ? "destructive" : "secondary"}>
+              {einvoiceStatusLabels[einvoice.status]}
+            </Badge>
+          </div>
+          {validationUrl && (
+            <a
+              href={validationUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-primary hover:underline"
+            >
+              view on MyInvois
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
+      ) : einvoiceId ? (
+        <p className="text-sm text-muted-foreground">
+          this order was reported on the month's consolidated e-invoice to the general public
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          need an e-invoice in your own name? request one before the month ends, otherwise the order goes on
+          our consolidated e-invoice.
+        </p>
+      )}
+
+      {((!einvoice && !einvoiceId) || retryable) && (
+        <div className="flex flex-col gap-2">
+          <Button
+            variant="outline"
+            disabled={requesting}
+            onClick={() => (buyer ? requestEInvoice() : setEditing(true))}
+            className="w-full"
+          >
+            {requesting ? "submitting..." : retryable ? "submit again" : "request e-invoice"}
+          </Button>
+          {buyer && (
+            <Button variant="link" size="sm" onClick={() => setEditing(true)}>
+              update details for {buyer.name} ({buyer.tin})
+            </Button>
+          )}
+        </div>
+      )}
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>e-invoice details</DialogTitle>
+            <DialogDescription>
+              these go on the LHDN MyInvois e-invoice and are saved for your next orders.
+            </DialogDescription>
+          </DialogHeader>
+          <EInvoiceBuyerForm
+            initialValues={
+              buyer
+                ? { ...buyer, sst_number: buyer.sst_number ?? "", email: buyer.email ?? "" }
+                : emptyBuyer
+            }
+            saving={saving}
+            onSubmit={saveBuyer}
+            onCancel={() => setEditing(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AddressPicker } from "@/components/AddressPicker";
+import { DeliverySlotPicker, type SelectedSlot } from "@/components/DeliverySlotPicker";
+import { useToast } from "@/hooks/use-toast";
+import type { Address } from "@/lib/addresses";
+import { cartLineKey, describeModifiers, parseCartLineKey, type LineModifier } from "@/lib/modifiers";
+import { DELIVERY_INSTRUCTIONS_MAX, modifyOrder, type OrderChangeResult } from "@/lib/orders";
+import { findZoneForAddress, type DeliveryZone } from "@/lib/zones";
+import { Minus, Plus, Trash2 } from "lucide-react";
+
+export interface EditableOrder {
+  id: string;
+  address_id: string | null;
+  delivery_date: string | null;
+  delivery_window_id: string | null;
+  delivery_instructions: string | null;
+  order_items: {
+    meal_id: string;
+    option_ids: string[];
+    modifiers: LineModifier[];
+    note: string | null;
+    quantity: number;
+    price_at_purchase: number;
+    meals: { name: string } | null;
+  }[];
+}
+
+interface MenuMeal {
+  id: string;
+  name: string;
+  price: number;
+}
+
+// Keyed like cart lines plus the kitchen note, so the same meal with
+// different options or notes stays apart and keeps its note
+const lineKey = (mealId: string, optionIds: string[], note: string | null) =>
+  `${cartLineKey(mealId, optionIds)}|${note ?? ""}`;
+
+const parseLineKey = (key: string) => {
+  const split = key.indexOf("|");
+  return { ...parseCartLineKey(key.slice(0, split)), note: key.slice(split + 1) || null };
+};
+
+const toQuantities = (order: EditableOrder) =>
+  order.order_items.reduce<Record<string, number>>((quantities, item) => {
+    const key = lineKey(item.meal_id, item.option_ids, item.note);
+    quantities[key] = (quantities[key] || 0) + item.quantity;
+    return quantities;
+  }, {});
+
+// Mounted fresh each time it opens, so it starts from the order as it is now
+export const EditOrderDialog = ({
+  order,
+  open,
+  onOpenChange,
+  onChanged,
+}: {
+  order: EditableOrder;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: (result: OrderChangeResult) => void;
+}) => {
+  const { toast } = useToast();
+  const [quantities, setQuantities] = useState<Record<string, number>>(() => toQuantities(order));
+  const [menu, setMenu] = useState<MenuMeal[]>([]);
+  const [address, setAddress] = useState<Address | null>(null);
+  // undefined while the address is being checked
+  const [zone, setZone] = useState<DeliveryZone | null | undefined>(null);
+  const currentSlot =
+    order.delivery_date && order.delivery_window_id
+      ? { date: order.delivery_date, windowId: order.delivery_window_id }
+      : undefined;
+  const [slot, setSlot] = useState<SelectedSlot | null>(currentSlot ?? null);
+  const [instructions, setInstructions] = useState(order.delivery_instructions ?? "");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadMenu();
+  }, []);
+
+  useEffect(() => {
+    if (!address) {
+      setZone(null);
+      return;
+    }
+
+    setZone(undefined);
+    findZoneForAddress(address).then(({ zone }) => setZone(zone));
+  }, [address]);
+
+  const loadMenu = async () => {
+    const { data } = await supabase
+      .from("meals")
+      .select("id, name, price")
+      .eq("is_available", true)
+      .eq("is_custom_bowl", false)
+      .order("name", { ascending: true });
+    setMenu(data || []);
+  };
+
+  const lineName = (key: string) => {
+    const { meal_id } = parseLineKey(key);
+    const item = order.order_items.find((item) => lineKey(item.meal_id, item.option_ids, item.note) === key);
+    const name = item?.meals?.name ?? menu.find((meal) => meal.id === meal_id)?.name ?? "unknown meal";
+    return item?.modifiers.length ? `${name} (${describeModifiers(item.modifiers)})` : name;
+  };
+
+  const lineNote = (key: string) => parseLineKey(key).note;
+
+  const setQuantity = (key: string, quantity: number) => {
+    setQuantities((current) => {
+      const next = { ...current };
+      if (quantity > 0) {
+        next[key] = quantity;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const lines = Object.entries(quantities);
+  const addableMeals = menu.filter((meal) => !quantities[lineKey(meal.id, [], null)]);
+
+  const handleSave = async () => {
+    if (!address || !slot) return;
+    setSaving(true);
+    const { result, error } = await modifyOrder(order.id, {
+      items: lines.map(([key, quantity]) => ({ ...parseLineKey(key), quantity })),
+      addressId: address.id,
+      deliveryDate: slot.date,
+      deliveryWindowId: slot.windowId,
+      deliveryInstructions: instructions.trim(),
+    });
+    setSaving(false);
+
+    if (error || !result) {
+      toast({
+        title: "error changing order",
+        description: error?.message ?? "please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onOpenChange(false);
+    onChanged(result);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>change order</DialogTitle>
+          <DialogDescription>
+            meals you keep stay at the price you paid. anything you add is charged at today's menu price.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>meals</Label>
+            <div className="mt-2 space-y-2">
+              {lines.map(([key, quantity]) => (
+                <div key={key} className="flex items-center justify-between gap-2 text-sm">
+                  <div>
+                    <span className="font-medium">{lineName(key)}</span>
+                    {lineNote(key) && <p className="text-xs text-muted-foreground">note: {lineNote(key)}</p>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setQuantity(key, quantity - 1)}>
+                      <Minus className="w-3 h-3" />
+                    </Button>
+                    <span className="w-6 text-center">{quantity}</span>
+                    <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setQuantity(key, quantity + 1)}>
+                      <Plus className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setQuantity(key, 0)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {lines.length === 0 && (
+                <p className="text-sm text-muted-foreground">add a meal, or cancel the order instead</p>
+              )}
+              {addableMeals.length > 0 && (
+                <Select value="" onValueChange={(mealId) => setQuantity(lineKey(mealId, [], null), 1)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="add a meal" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {addableMeals.map((meal) => (
+                      <SelectItem key={meal.id} value={meal.id}>
+                        {meal.name} (RM {meal.price.toFixed(2)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <Label>delivery address</Label>
+            <div className="mt-2">
+              <AddressPicker value={address?.id ?? order.address_id} onChange={setAddress} />
+            </div>
+            {address && zone === null && (
+              <p className="text-sm text-destructive mt-2">sorry, we don't deliver to this address yet</p>
+            )}
+          </div>
+
+          {zone && (
+            <div>
+              <Label>delivery slot</Label>
+              <div className="mt-2">
+                <DeliverySlotPicker key={zone.id} zone={zone} value={slot} onChange={setSlot} currentSlot={currentSlot} />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="edit-delivery-instructions">instructions for the rider</Label>
+            <Textarea
+              id="edit-delivery-instructions"
+              className="mt-2"
+              placeholder="e.g. leave at guardhouse, call on arrival"
+              maxLength={DELIVERY_INSTRUCTIONS_MAX}
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            keep as is
+          </Button>
+          <Button onClick={handleSave} disabled={saving || lines.length === 0 || !address || !zone || !slot}>
+            {saving ? "saving..." : "save changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { upgradeGuestAccount } from "@/lib/guest";
+
+// Offered to guests after they order: turns the anonymous session into a
+// full account without losing the orders already placed with it
+export const GuestUpgradeCard = ({
+  defaultEmail = "",
+  onUpgraded,
+}: {
+  defaultEmail?: string;
+  onUpgraded?: () => void;
+}) => {
+  const { toast } = useToast();
+  const [email, setEmail] = useState(defaultEmail);
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const { pendingConfirmation, error } = await upgradeGuestAccount(email.trim(), password);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error creating account",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "account created",
+      description: pendingConfirmation
+        ? "check your inbox to confirm your email, then sign in with it next time"
+        : "your orders are saved to your new account",
+    });
+    onUpgraded?.();
+  };
+
+  return (
+    <Card className="w-full max-w-md border-primary/20">
+      <CardHeader>
+        <CardTitle>keep your order history</CardTitle>
+        <CardDescription>set a password to turn this guest checkout into an account</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="upgrade-email">email</Label>
+            <Input
+              id="upgrade-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="upgrade-password">password</Label>
+            <Input
+              id="upgrade-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={6}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving ? "creating account..." : "create account"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
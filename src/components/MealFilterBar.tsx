@@ -0,0 +1,141 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  emptyMealFilters,
+  hasActiveFilters,
+  mealSortOptions,
+  rangeFields,
+  type MealFilters,
+  type MealSort,
+  type RangeField,
+} from "@/lib/meals";
+import { ChevronDown, Search, X } from "lucide-react";
+
+const parseBound = (value: string) => (value === "" || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+export const MealFilterBar = ({
+  filters,
+  tags,
+  onChange,
+}: {
+  filters: MealFilters;
+  tags: string[];
+  onChange: (filters: MealFilters) => void;
+}) => {
+  const setBound = (field: RangeField, bound: "min" | "max", value: string) => {
+    onChange({
+      ...filters,
+      ranges: { ...filters.ranges, [field]: { ...filters.ranges[field], [bound]: parseBound(value) } },
+    });
+  };
+
+  const toggleTag = (tag: string, pressed: boolean) => {
+    onChange({
+      ...filters,
+      tags: pressed ? [...filters.tags, tag] : filters.tags.filter((t) => t !== tag),
+    });
+  };
+
+  const activeRanges = rangeFields.filter(({ field }) => {
+    const range = filters.ranges[field];
+    return range?.min !== undefined || range?.max !== undefined;
+  }).length;
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="search meals"
+            value={filters.q}
+            onChange={(e) => onChange({ ...filters, q: e.target.value })}
+            className="pl-9"
+          />
+        </div>
+        <Select value={filters.sort} onValueChange={(sort) => onChange({ ...filters, sort: sort as MealSort })}>
+          <SelectTrigger className="sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {mealSortOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.value === "relevance" && !filters.q.trim() ? "name" : option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <Toggle
+              key={tag}
+              size="sm"
+              variant="outline"
+              pressed={filters.tags.includes(tag)}
+              onPressedChange={(pressed) => toggleTag(tag, pressed)}
+            >
+              {tag}
+            </Toggle>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Collapsible className="flex-1">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-1 px-0 text-muted-foreground">
+              macros and price{activeRanges > 0 && ` (${activeRanges})`}
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+              {rangeFields.map(({ field, label, unit }) => (
+                <div key={field}>
+                  <Label>
+                    {label} ({unit})
+                  </Label>
+                  <div className="flex items-center gap-1 mt-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="min"
+                      value={filters.ranges[field]?.min ?? ""}
+                      onChange={(e) => setBound(field, "min", e.target.value)}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="max"
+                      value={filters.ranges[field]?.max ?? ""}
+                      onChange={(e) => setBound(field, "max", e.target.value)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+        {hasActiveFilters(filters) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1 self-start"
+            onClick={() => onChange({ ...emptyMealFilters, sort: filters.sort })}
+          >
+            <X className="w-4 h-4" />
+            clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
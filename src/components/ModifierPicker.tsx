@@ -0,0 +1,92 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { type ModifierGroup, type ModifierOption } from "@/lib/modifiers";
+import { formatRM } from "@/lib/pricing";
+
+const describeDelta = (option: ModifierOption) => {
+  const parts = [];
+  if (Number(option.price_delta) !== 0) {
+    parts.push(`${Number(option.price_delta) > 0 ? "+" : "-"}${formatRM(Math.abs(Number(option.price_delta)))}`);
+  }
+  if (option.protein_delta !== 0) parts.push(`${option.protein_delta > 0 ? "+" : ""}${option.protein_delta}g protein`);
+  if (option.calories_delta !== 0) parts.push(`${option.calories_delta > 0 ? "+" : ""}${option.calories_delta} kcal`);
+  return parts.join(" · ");
+};
+
+export const ModifierPicker = ({
+  groups,
+  selected,
+  onChange,
+}: {
+  groups: ModifierGroup[];
+  selected: string[];
+  onChange: (optionIds: string[]) => void;
+}) => {
+  // Swaps the group's picks for the given ones, leaving other groups alone
+  const setGroup = (group: ModifierGroup, optionIds: string[]) => {
+    const groupIds = group.modifier_options.map((option) => option.id);
+    onChange([...selected.filter((id) => !groupIds.includes(id)), ...optionIds]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => {
+        const picked = group.modifier_options.filter((option) => selected.includes(option.id)).map((option) => option.id);
+
+        if (group.max_selections === 1) {
+          return (
+            <div key={group.id}>
+              <Label>{group.name}</Label>
+              <RadioGroup
+                value={picked[0] ?? "regular"}
+                onValueChange={(id) => setGroup(group, id === "regular" ? [] : [id])}
+                className="mt-2 space-y-1"
+              >
+                <Label className="flex items-center gap-2 font-normal cursor-pointer">
+                  <RadioGroupItem value="regular" />
+                  regular
+                </Label>
+                {group.modifier_options.map((option) => (
+                  <Label key={option.id} className="flex items-center gap-2 font-normal cursor-pointer">
+                    <RadioGroupItem value={option.id} />
+                    <span className="flex-1">{option.name}</span>
+                    <span className="text-xs text-muted-foreground">{describeDelta(option)}</span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+          );
+        }
+
+        const full = group.max_selections !== null && picked.length >= group.max_selections;
+        return (
+          <div key={group.id}>
+            <Label>
+              {group.name}
+              {group.max_selections !== null && ` (up to ${group.max_selections})`}
+            </Label>
+            <div className="mt-2 space-y-1">
+              {group.modifier_options.map((option) => (
+                <Label key={option.id} className="flex items-center gap-2 font-normal cursor-pointer">
+                  <Checkbox
+                    checked={picked.includes(option.id)}
+                    disabled={full && !picked.includes(option.id)}
+                    onCheckedChange={(checked) =>
+                      setGroup(
+                        group,
+                        checked === true ? [...picked, option.id] : picked.filter((id) => id !== option.id)
+                      )
+                    }
+                  />
+                  <span className="flex-1">{option.name}</span>
+                  <span className="text-xs text-muted-foreground">{describeDelta(option)}</span>
+                </Label>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { changeSettlementLabels, type OrderChange } from "@/lib/orders";
+import { formatDeliveryDate, formatWindow } from "@/lib/slots";
+
+const formatSlot = (slot: { date: string | null; start: string | null; end: string | null }) =>
+  slot.date
+    ? `${formatDeliveryDate(slot.date)}${slot.start && slot.end ? `, ${formatWindow(slot.start, slot.end)}` : ""}`
+    : "no slot";
+
+export const OrderChangesList = ({
+  orderId,
+  customerId,
+  onRetrySettlement,
+}: {
+  orderId: string;
+  customerId: string;
+  // Admins can retry a refund that hasn't gone through
+  onRetrySettlement?: () => void;
+}) => {
+  const [changes, setChanges] = useState<OrderChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadChanges();
+
+    // Settlements update as refunds and top-up payments come through
+    const channel = supabase
+      .channel(`order-changes:${orderId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "order_changes", filter: `order_id=eq.${orderId}` },
+        (payload) => {
+          const change = payload.new as OrderChange;
+          if (!change?.id) return;
+          setChanges((current) =>
+            current.some((c) => c.id === change.id)
+              ? current.map((c) => (c.id === change.id ? change : c))
+              : [...current, change]
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId]);
+
+  const loadChanges = async () => {
+    const { data } = await supabase
+      .from("order_changes")
+      .select("id, kind, changed_by, details, reason, previous_total, new_total, balance_due, settlement, created_at")
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: true });
+
+    setChanges((data || []) as unknown as OrderChange[]);
+    setLoading(false);
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">loading changes...</p>;
+  }
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">no changes since the order was placed</p>;
+  }
+
+  const actor = (change: OrderChange) =>
+    change.changed_by === null ? "system" : change.changed_by === customerId ? "customer" : "staff";
+
+  return (
+    <ol className="space-y-3">
+      {changes.map((change) => (
+        <li key={change.id} className="text-sm border-l-2 border-primary/20 pl-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="font-medium">{change.kind === "cancelled" ? "cancelled" : "changed"}</p>
+            {change.settlement !== "none" && (
+              <Badge variant={change.settlement === "payment_due" ? "destructive" : "secondary"}>
+                {changeSettlementLabels[change.settlement]}
+                {(change.settlement === "payment_due" || change.settlement === "refund_pending") &&
+                  ` RM ${Math.abs(change.balance_due).toFixed(2)}`}
+              </Badge>
+            )}
+            {change.settlement === "refund_pending" && onRetrySettlement && (
+              <Button size="sm" variant="outline" onClick={onRetrySettlement}>
+                retry refund
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {new Date(change.created_at).toLocaleString()} • {actor(change)}
+          </p>
+          <ul className="mt-1 space-y-0.5">
+            {change.details.items?.map((item, index) => (
+              <li key={index}>
+                {item.name ?? "unknown meal"}
+                {item.modifiers?.length ? ` (${item.modifiers.join(", ")})` : ""}
+                {item.note ? ` "${item.note}"` : ""}: {item.from} → {item.to}
+              </li>
+            ))}
+            {change.details.address && <li>address: {change.details.address.to}</li>}
+            {change.details.instructions && (
+              <li>delivery instructions: {change.details.instructions.to ?? "removed"}</li>
+            )}
+            {change.details.slot && (
+              <li>
+                slot: {formatSlot(change.details.slot.from)} → {formatSlot(change.details.slot.to)}
+              </li>
+            )}
+            {change.reason && <li className="text-muted-foreground">"{change.reason}"</li>}
+            {change.kind === "modified" && change.new_total !== change.previous_total && (
+              <li className="text-muted-foreground">
+                total RM {change.previous_total.toFixed(2)} → RM {change.new_total.toFixed(2)}
+              </li>
+            )}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+};
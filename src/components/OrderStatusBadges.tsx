@@ -0,0 +1,31 @@
+import { Badge } from "@/components/ui/badge";
+import { formatOrderStatus } from "@/lib/orders";
+
+export const OrderStatusBadges = ({
+  status,
+  paymentStatus,
+}: {
+  status: string;
+  paymentStatus: string;
+}) => (
+  <div className="flex gap-2">
+    <Badge
+      variant={
+        status === "delivered"
+          ? "default"
+          : status === "cancelled" || status === "failed"
+            ? "destructive"
+            : "secondary"
+      }
+    >
+      {formatOrderStatus(status)}
+    </Badge>
+    <Badge
+      variant={
+        paymentStatus === "paid" ? "default" : paymentStatus === "failed" ? "destructive" : "secondary"
+      }
+    >
+      {paymentStatus}
+    </Badge>
+  </div>
+);
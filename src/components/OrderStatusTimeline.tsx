@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatOrderStatus, type OrderStatusChange } from "@/lib/orders";
+
+export const OrderStatusTimeline = ({
+  orderId,
+  customerId,
+}: {
+  orderId: string;
+  customerId: string;
+}) => {
+  const [history, setHistory] = useState<OrderStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+
+    const channel = supabase
+      .channel(`order-history:${orderId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "order_status_history", filter: `order_id=eq.${orderId}` },
+        (payload) => {
+          const change = payload.new as OrderStatusChange;
+          setHistory((current) => (current.some((c) => c.id === change.id) ? current : [...current, change]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId]);
+
+  const loadHistory = async () => {
+    const { data } = await supabase
+      .from("order_status_history")
+      .select("id, from_status, to_status, changed_by, created_at")
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: true });
+
+    setHistory(data || []);
+    setLoading(false);
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">no status changes yet</p>;
+  }
+
+  const actor = (change: OrderStatusChange) =>
+    change.changed_by === null ? "system" : change.changed_by === customerId ? "customer" : "staff";
+
+  return (
+    <ol className="relative border-l border-primary/20 ml-2 space-y-3">
+      {history.map((change, index) => (
+        <li key={change.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+              index === history.length - 1 ? "bg-primary" : "bg-muted-foreground/40"
+            }`}
+          />
+          <p className="text-sm font-medium">{formatOrderStatus(change.to_status)}</p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(change.created_at).toLocaleString()} • {actor(change)}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
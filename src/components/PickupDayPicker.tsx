@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { Calendar } from "@/components/ui/calendar";
+import { getPickupDays, type PickupDay, type PickupPoint } from "@/lib/pickup";
+import { formatDeliveryDate, formatWindow, parseDateKey, toDateKey } from "@/lib/slots";
+
+export const PickupDayPicker = ({
+  point,
+  value,
+  onChange,
+}: {
+  point: PickupPoint;
+  value: string | null;
+  onChange: (date: string | null) => void;
+}) => {
+  const [days, setDays] = useState<PickupDay[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadDays();
+  }, [point.id]);
+
+  const loadDays = async () => {
+    setLoading(true);
+    const { days } = await getPickupDays(point.id);
+    setDays(days);
+    setLoading(false);
+
+    // Drop a selection that was filled or closed since it was picked
+    if (value && !days.some((day) => day.pickup_date === value && day.available)) {
+      onChange(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">loading pickup days...</p>;
+  }
+
+  const open = days.filter((day) => day.available);
+  if (open.length === 0) {
+    return <p className="text-sm text-muted-foreground">{point.name} has no pickup days left to book</p>;
+  }
+
+  const selected = days.find((day) => day.pickup_date === value);
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={value ? parseDateKey(value) : undefined}
+        onSelect={(day) => onChange(day ? toDateKey(day) : null)}
+        disabled={(day) => !open.some((d) => d.pickup_date === toDateKey(day))}
+        fromDate={parseDateKey(days[0].pickup_date)}
+        toDate={parseDateKey(days[days.length - 1].pickup_date)}
+        className="rounded-md border border-primary/20 w-fit"
+      />
+      {selected && (
+        <p className="text-sm">
+          collect on {formatDeliveryDate(selected.pickup_date)}, {formatWindow(selected.opens_at, selected.closes_at)}
+          <span className="text-muted-foreground"> ({selected.capacity - selected.booked} left)</span>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { formatOpeningHours, type PickupPoint } from "@/lib/pickup";
+
+export const PickupPointPicker = ({
+  value,
+  onChange,
+}: {
+  value: string | null;
+  onChange: (point: PickupPoint | null) => void;
+}) => {
+  const [points, setPoints] = useState<PickupPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadPoints();
+  }, []);
+
+  const loadPoints = async () => {
+    const { data } = await supabase
+      .from("pickup_points")
+      .select("*")
+      .eq("is_active", true)
+      .order("name", { ascending: true });
+    setPoints(data || []);
+    setLoading(false);
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">loading pickup points...</p>;
+  }
+
+  if (points.length === 0) {
+    return <p className="text-sm text-muted-foreground">no pickup points are open right now</p>;
+  }
+
+  return (
+    <RadioGroup
+      value={value ?? ""}
+      onValueChange={(id) => onChange(points.find((point) => point.id === id) ?? null)}
+      className="space-y-2"
+    >
+      {points.map((point) => (
+        <Label
+          key={point.id}
+          htmlFor={`pickup-${point.id}`}
+          className="flex items-start gap-3 rounded-md border border-primary/20 p-3 font-normal cursor-pointer"
+        >
+          <RadioGroupItem value={point.id} id={`pickup-${point.id}`} className="mt-0.5" />
+          <div>
+            <div className="font-medium">{point.name}</div>
+            <div className="text-xs text-muted-foreground">{point.address}</div>
+            <div className="text-xs text-muted-foreground">{formatOpeningHours(point)}</div>
+            {point.instructions && <div className="text-xs text-muted-foreground mt-1 italic">{point.instructions}</div>}
+          </div>
+        </Label>
+      ))}
+    </RadioGroup>
+  );
+};
@@ -0,0 +1,51 @@
+import { formatRate, formatRM, type PriceBreakdown } from "@/lib/pricing";
+
+export const PriceBreakdownLines = ({
+  breakdown,
+  deliveryLabel,
+  promoCode,
+  totalLabel = "total",
+}: {
+  breakdown: PriceBreakdown;
+  deliveryLabel?: string;
+  promoCode?: string | null;
+  totalLabel?: string;
+}) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-sm">
+      <span className="text-muted-foreground">subtotal:</span>
+      <span className="font-medium">{formatRM(breakdown.subtotal)}</span>
+    </div>
+    {breakdown.discount_amount > 0 && (
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">discount{promoCode ? ` (${promoCode})` : ""}:</span>
+        <span className="font-medium">-{formatRM(breakdown.discount_amount)}</span>
+      </div>
+    )}
+    {breakdown.service_charge > 0 && (
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">service charge:</span>
+        <span className="font-medium">{formatRM(breakdown.service_charge)}</span>
+      </div>
+    )}
+    <div className="flex justify-between text-sm">
+      <span className="text-muted-foreground">
+        delivery{deliveryLabel ? ` (${deliveryLabel})` : ""}
+        {breakdown.delivery_distance_km !== null && ` • ${breakdown.delivery_distance_km.toFixed(1)} km`}:
+      </span>
+      <span className="font-medium">
+        {breakdown.delivery_fee === 0 && promoCode ? "free" : formatRM(breakdown.delivery_fee)}
+      </span>
+    </div>
+    {breakdown.sst_rate > 0 && (
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">SST ({formatRate(breakdown.sst_rate)}):</span>
+        <span className="font-medium">{formatRM(breakdown.sst_amount)}</span>
+      </div>
+    )}
+    <div className="flex justify-between text-lg font-bold">
+      <span>{totalLabel}:</span>
+      <span className="text-primary">{formatRM(breakdown.total_price)}</span>
+    </div>
+  </div>
+);
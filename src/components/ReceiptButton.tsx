@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { downloadReceipt } from "@/lib/receipts";
+import { FileDown } from "lucide-react";
+
+export const ReceiptButton = ({
+  orderId,
+  invoiceNumber,
+  iconOnly = false,
+  ...props
+}: {
+  orderId: string;
+  invoiceNumber: string;
+  iconOnly?: boolean;
+} & Omit<ButtonProps, "onClick">) => {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState(false);
+
+  const handleDownload = async (event: React.MouseEvent) => {
+    // Receipts sit inside clickable order cards
+    event.stopPropagation();
+    setDownloading(true);
+    const { error } = await downloadReceipt(orderId, invoiceNumber);
+    setDownloading(false);
+
+    if (error) {
+      toast({
+        title: "error downloading receipt",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size={iconOnly ? "icon" : "sm"}
+      title={`download ${invoiceNumber}`}
+      disabled={downloading}
+      onClick={handleDownload}
+      className={iconOnly ? undefined : "gap-2"}
+      {...props}
+    >
+      <FileDown className="w-4 h-4" />
+      {!iconOnly && (downloading ? "preparing..." : "receipt")}
+    </Button>
+  );
+};
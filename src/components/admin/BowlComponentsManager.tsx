@@ -0,0 +1,439 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { bowlUnits, formatAmount, unitLabel, type BowlCategory, type BowlComponent, type BowlUnit } from "@/lib/bowls";
+import { allergenLabel, allergens, diets } from "@/lib/dietary";
+import { formatRM } from "@/lib/pricing";
+import { Pencil, Plus } from "lucide-react";
+
+interface ComponentFormValues {
+  category: string;
+  name: string;
+  unit: BowlUnit;
+  min_amount: string;
+  default_amount: string;
+  max_amount: string;
+  price: string;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fats: string;
+  dietary_tags: string[];
+  allergens: string[];
+  sort_order: string;
+  is_available: boolean;
+}
+
+const emptyComponent: ComponentFormValues = {
+  category: "base",
+  name: "",
+  unit: "portion",
+  min_amount: "1",
+  default_amount: "1",
+  max_amount: "2",
+  price: "",
+  calories: "0",
+  protein: "0",
+  carbs: "0",
+  fats: "0",
+  dietary_tags: [],
+  allergens: [],
+  sort_order: "0",
+  is_available: true,
+};
+
+const toggle = (values: string[], value: string, checked: boolean) =>
+  checked ? [...values, value] : values.filter((v) => v !== value);
+
+const macroFields = ["calories", "protein", "carbs", "fats"] as const;
+
+export const BowlComponentsManager = () => {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<BowlCategory[]>([]);
+  const [components, setComponents] = useState<BowlComponent[]>([]);
+  const [editing, setEditing] = useState<BowlComponent | "new" | null>(null);
+  const [values, setValues] = useState<ComponentFormValues>(emptyComponent);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadComponents();
+  }, []);
+
+  const loadComponents = async () => {
+    const [{ data: categoryRows }, { data, error }] = await Promise.all([
+      supabase.from("bowl_categories").select("*").order("sort_order", { ascending: true }),
+      supabase
+        .from("bowl_components")
+        .select("*")
+        .order("sort_order", { ascending: true })
+        .order("name", { ascending: true }),
+    ]);
+
+    if (error) {
+      toast({
+        title: "error loading bowl components",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setCategories(categoryRows || []);
+      setComponents((data || []) as BowlComponent[]);
+    }
+  };
+
+  const openEditor = (component: BowlComponent | "new") => {
+    setValues(
+      component === "new"
+        ? emptyComponent
+        : {
+            category: component.category,
+            name: component.name,
+            unit: component.unit,
+            min_amount: component.min_amount.toString(),
+            default_amount: component.default_amount.toString(),
+            max_amount: component.max_amount.toString(),
+            price: Number(component.price).toFixed(2),
+            calories: Number(component.calories).toString(),
+            protein: Number(component.protein).toString(),
+            carbs: Number(component.carbs).toString(),
+            fats: Number(component.fats).toString(),
+            dietary_tags: component.dietary_tags,
+            allergens: component.allergens,
+            sort_order: component.sort_order.toString(),
+            is_available: component.is_available,
+          }
+    );
+    setEditing(component);
+  };
+
+  const saveComponent = async () => {
+    const minAmount = parseInt(values.min_amount) || 1;
+    const defaultAmount = parseInt(values.default_amount) || minAmount;
+    const maxAmount = parseInt(values.max_amount) || defaultAmount;
+    if (defaultAmount < minAmount || maxAmount < defaultAmount) {
+      toast({
+        title: "invalid amounts",
+        description: "the default must be between the least and the most a customer can pick",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const row = {
+      category: values.category,
+      name: values.name.trim(),
+      unit: values.unit,
+      min_amount: minAmount,
+      default_amount: defaultAmount,
+      max_amount: maxAmount,
+      price: parseFloat(values.price) || 0,
+      calories: parseFloat(values.calories) || 0,
+      protein: parseFloat(values.protein) || 0,
+      carbs: parseFloat(values.carbs) || 0,
+      fats: parseFloat(values.fats) || 0,
+      dietary_tags: values.dietary_tags,
+      allergens: values.allergens,
+      sort_order: parseInt(values.sort_order) || 0,
+      is_available: values.is_available,
+      updated_at: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    const { error } =
+      editing && editing !== "new"
+        ? await supabase.from("bowl_components").update(row).eq("id", editing.id)
+        : await supabase.from("bowl_components").insert(row);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error saving bowl component",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "bowl component saved" });
+    setEditing(null);
+    loadComponents();
+  };
+
+  const toggleComponent = async (component: BowlComponent, isAvailable: boolean) => {
+    const { error } = await supabase
+      .from("bowl_components")
+      .update({ is_available: isAvailable, updated_at: new Date().toISOString() })
+      .eq("id", component.id);
+
+    if (error) {
+      toast({
+        title: "error updating bowl component",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadComponents();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <p className="text-sm text-muted-foreground">
+          changes reprice bowls customers have already built. sold-out components take those bowls off sale until
+          they're back. components can't be deleted once they're in a bowl, so mark them sold out to retire them.
+        </p>
+        <Button onClick={() => openEditor("new")} className="gap-2 shrink-0">
+          <Plus className="w-4 h-4" />
+          new component
+        </Button>
+      </div>
+
+      {categories.map((category) => {
+        const rows = components.filter((component) => component.category === category.id);
+        return (
+          <Card key={category.id} className="border-primary/20">
+            <CardHeader>
+              <CardTitle className="text-lg">{category.name}</CardTitle>
+              <CardDescription>
+                customers choose {category.min_choices > 0 ? `${category.min_choices} to ` : "up to "}
+                {category.max_choices}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rows.length === 0 && <p className="text-sm text-muted-foreground">no components yet</p>}
+              {rows.map((component) => (
+                <div
+                  key={component.id}
+                  className="flex justify-between items-start gap-4 border-b last:border-0 pb-3 last:pb-0"
+                >
+                  <div className="text-sm">
+                    <div className="font-medium">{component.name}</div>
+                    <div className="text-muted-foreground">
+                      {formatRM(Number(component.price))} · {Number(component.calories)}cal ·{" "}
+                      {Number(component.protein)}g protein · {Number(component.carbs)}g carbs ·{" "}
+                      {Number(component.fats)}g fats {unitLabel(component.unit)}
+                    </div>
+                    <div className="text-muted-foreground">
+                      at least {formatAmount(component, component.min_amount)}, default{" "}
+                      {formatAmount(component, component.default_amount)}, at most{" "}
+                      {formatAmount(component, component.max_amount)}
+                      {component.allergens.length > 0 &&
+                        ` · contains ${component.allergens.map(allergenLabel).join(", ")}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={component.is_available ? "default" : "secondary"}>
+                      {component.is_available ? "available" : "sold out"}
+                    </Badge>
+                    <Switch
+                      checked={component.is_available}
+                      onCheckedChange={(checked) => toggleComponent(component, checked)}
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => openEditor(component)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "new bowl component" : "edit bowl component"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="component-name">name</Label>
+                <Input
+                  id="component-name"
+                  maxLength={60}
+                  value={values.name}
+                  onChange={(e) => setValues({ ...values, name: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>category</Label>
+                <Select value={values.category} onValueChange={(category) => setValues({ ...values, category })}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-4">
+              <div>
+                <Label>sold</Label>
+                <Select
+                  value={values.unit}
+                  onValueChange={(unit) => setValues({ ...values, unit: unit as BowlUnit })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {bowlUnits.map((unit) => (
+                      <SelectItem key={unit.value} value={unit.value}>
+                        {unit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="component-min">at least ({values.unit === "gram" ? "g" : "portions"})</Label>
+                <Input
+                  id="component-min"
+                  type="number"
+                  min={1}
+                  value={values.min_amount}
+                  onChange={(e) => setValues({ ...values, min_amount: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="component-default">default ({values.unit === "gram" ? "g" : "portions"})</Label>
+                <Input
+                  id="component-default"
+                  type="number"
+                  min={1}
+                  value={values.default_amount}
+                  onChange={(e) => setValues({ ...values, default_amount: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="component-max">at most ({values.unit === "gram" ? "g" : "portions"})</Label>
+                <Input
+                  id="component-max"
+                  type="number"
+                  min={1}
+                  value={values.max_amount}
+                  onChange={(e) => setValues({ ...values, max_amount: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div>
+              <Label>price and macros {unitLabel(values.unit)}</Label>
+              <div className="grid grid-cols-5 gap-2 mt-1">
+                <div>
+                  <Label htmlFor="component-price" className="text-xs text-muted-foreground">
+                    price (RM)
+                  </Label>
+                  <Input
+                    id="component-price"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={values.price}
+                    onChange={(e) => setValues({ ...values, price: e.target.value })}
+                  />
+                </div>
+                {macroFields.map((field) => (
+                  <div key={field}>
+                    <Label htmlFor={`component-${field}`} className="text-xs text-muted-foreground">
+                      {field === "calories" ? "kcal" : `${field} (g)`}
+                    </Label>
+                    <Input
+                      id={`component-${field}`}
+                      type="number"
+                      min={0}
+                      step="0.1"
+                      value={values[field]}
+                      onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label>suitable for</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
+                {diets.map((diet) => (
+                  <Label key={diet.value} className="flex items-center gap-2 font-normal cursor-pointer">
+                    <Checkbox
+                      checked={values.dietary_tags.includes(diet.value)}
+                      onCheckedChange={(checked) =>
+                        setValues({ ...values, dietary_tags: toggle(values.dietary_tags, diet.value, checked === true) })
+                      }
+                    />
+                    {diet.label}
+                  </Label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label>contains</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
+                {allergens.map((allergen) => (
+                  <Label key={allergen.value} className="flex items-center gap-2 font-normal cursor-pointer">
+                    <Checkbox
+                      checked={values.allergens.includes(allergen.value)}
+                      onCheckedChange={(checked) =>
+                        setValues({ ...values, allergens: toggle(values.allergens, allergen.value, checked === true) })
+                      }
+                    />
+                    {allergen.label}
+                  </Label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div>
+                <Label htmlFor="component-sort">position in its category</Label>
+                <Input
+                  id="component-sort"
+                  type="number"
+                  value={values.sort_order}
+                  onChange={(e) => setValues({ ...values, sort_order: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="component-available"
+                  checked={values.is_available}
+                  onCheckedChange={(checked) => setValues({ ...values, is_available: checked })}
+                />
+                <Label htmlFor="component-available" className="font-normal">
+                  available
+                </Label>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                cancel
+              </Button>
+              <Button onClick={saveComponent} disabled={saving || !values.name.trim() || values.price === ""}>
+                {saving ? "saving..." : "save component"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
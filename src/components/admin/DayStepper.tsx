@@ -0,0 +1,21 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { addDays, formatDeliveryDate, malaysiaToday } from "@/lib/slots";
+
+// Moves a staff page between delivery days, a day at a time
+export const DayStepper = ({ date, onChange }: { date: string; onChange: (date: string) => void }) => (
+  <div className="flex items-center gap-2 print:hidden">
+    <Button variant="outline" size="icon" onClick={() => onChange(addDays(date, -1))}>
+      <ChevronLeft className="w-4 h-4" />
+    </Button>
+    <span className="w-44 text-center font-medium">{formatDeliveryDate(date)}</span>
+    <Button variant="outline" size="icon" onClick={() => onChange(addDays(date, 1))}>
+      <ChevronRight className="w-4 h-4" />
+    </Button>
+    {date !== malaysiaToday() && (
+      <Button variant="ghost" size="sm" onClick={() => onChange(malaysiaToday())}>
+        today
+      </Button>
+    )}
+  </div>
+);
@@ -0,0 +1,500 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { formatTime, formatWindow, type DeliveryWindow } from "@/lib/slots";
+import { parsePolygon, parsePostcodeList, type DeliveryZone } from "@/lib/zones";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+interface ZoneFormValues {
+  name: string;
+  postcodes: string;
+  polygon: string;
+  min_order: string;
+  delivery_fee: string;
+  is_active: boolean;
+  next_day_cutoff: string;
+  same_day_cutoff: string;
+  booking_horizon_days: string;
+  change_cutoff_hours: string;
+}
+
+const emptyZone: ZoneFormValues = {
+  name: "",
+  postcodes: "",
+  polygon: "",
+  min_order: "0",
+  delivery_fee: "0",
+  is_active: true,
+  next_day_cutoff: "20:00",
+  same_day_cutoff: "",
+  booking_horizon_days: "14",
+  change_cutoff_hours: "12",
+};
+
+export const DeliveryZonesManager = () => {
+  const { toast } = useToast();
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [editing, setEditing] = useState<DeliveryZone | "new" | null>(null);
+  const [values, setValues] = useState<ZoneFormValues>(emptyZone);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadZones();
+  }, []);
+
+  const loadZones = async () => {
+    const { data, error } = await supabase
+      .from("delivery_zones")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      toast({
+        title: "error loading zones",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setZones(data || []);
+    }
+  };
+
+  const openEditor = (zone: DeliveryZone | "new") => {
+    setValues(
+      zone === "new"
+        ? emptyZone
+        : {
+            name: zone.name,
+            postcodes: zone.postcodes.join(", "),
+            polygon: zone.polygon ? JSON.stringify(zone.polygon) : "",
+            min_order: zone.min_order.toString(),
+            delivery_fee: zone.delivery_fee.toString(),
+            is_active: zone.is_active,
+            next_day_cutoff: zone.next_day_cutoff.slice(0, 5),
+            same_day_cutoff: zone.same_day_cutoff?.slice(0, 5) ?? "",
+            booking_horizon_days: zone.booking_horizon_days.toString(),
+            change_cutoff_hours: zone.change_cutoff_hours.toString(),
+          }
+    );
+    setEditing(zone);
+  };
+
+  const saveZone = async () => {
+    const { postcodes, invalid } = parsePostcodeList(values.postcodes);
+    if (invalid.length > 0) {
+      toast({
+        title: "invalid postcodes",
+        description: invalid.join(", "),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let polygon;
+    try {
+      polygon = parsePolygon(values.polygon);
+    } catch (error) {
+      toast({
+        title: "invalid polygon",
+        description: error instanceof Error ? error.message : "polygon must be valid json",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const row = {
+      name: values.name.trim(),
+      postcodes,
+      polygon,
+      min_order: parseFloat(values.min_order) || 0,
+      delivery_fee: parseFloat(values.delivery_fee) || 0,
+      is_active: values.is_active,
+      next_day_cutoff: values.next_day_cutoff || "20:00",
+      same_day_cutoff: values.same_day_cutoff || null,
+      booking_horizon_days: parseInt(values.booking_horizon_days) || 14,
+      change_cutoff_hours: Number.isNaN(parseInt(values.change_cutoff_hours)) ? 12 : parseInt(values.change_cutoff_hours),
+      updated_at: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    const { error } =
+      editing && editing !== "new"
+        ? await supabase.from("delivery_zones").update(row).eq("id", editing.id)
+        : await supabase.from("delivery_zones").insert(row);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error saving zone",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "zone saved" });
+    setEditing(null);
+    loadZones();
+  };
+
+  const toggleZone = async (zone: DeliveryZone, isActive: boolean) => {
+    const { error } = await supabase
+      .from("delivery_zones")
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq("id", zone.id);
+
+    if (error) {
+      toast({
+        title: "error updating zone",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadZones();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => openEditor("new")} className="gap-2">
+          <Plus className="w-4 h-4" />
+          new zone
+        </Button>
+      </div>
+
+      {zones.length === 0 && (
+        <Card className="border-primary/20">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              no delivery zones yet. customers can't place orders until at least one zone is active.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {zones.map((zone) => (
+        <Card key={zone.id} className="border-primary/20">
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle className="text-lg">{zone.name}</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {zone.postcodes.length} postcodes{zone.polygon ? " + polygon" : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={zone.is_active ? "default" : "secondary"}>
+                  {zone.is_active ? "active" : "paused"}
+                </Badge>
+                <Switch checked={zone.is_active} onCheckedChange={(checked) => toggleZone(zone, checked)} />
+                <Button variant="ghost" size="icon" onClick={() => openEditor(zone)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">minimum order:</span>
+              <span className="font-medium">RM {zone.min_order.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">delivery fee:</span>
+              <span className="font-medium">RM {zone.delivery_fee.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">cut-offs:</span>
+              <span className="font-medium">
+                next day by {formatTime(zone.next_day_cutoff)}
+                {zone.same_day_cutoff ? `, same day by ${formatTime(zone.same_day_cutoff)}` : ", no same day"}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">bookable:</span>
+              <span className="font-medium">{zone.booking_horizon_days} days ahead</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">customer changes:</span>
+              <span className="font-medium">until {zone.change_cutoff_hours}h before the slot</span>
+            </div>
+            <DeliveryWindowsEditor zoneId={zone.id} />
+          </CardContent>
+        </Card>
+      ))}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "new delivery zone" : "edit delivery zone"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="zone-name">name</Label>
+              <Input
+                id="zone-name"
+                value={values.name}
+                onChange={(e) => setValues({ ...values, name: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="zone-postcodes">postcodes</Label>
+              <Textarea
+                id="zone-postcodes"
+                placeholder="50450, 50088, 59200"
+                value={values.postcodes}
+                onChange={(e) => setValues({ ...values, postcodes: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="zone-polygon">polygon (optional)</Label>
+              <Textarea
+                id="zone-polygon"
+                placeholder="[[3.16, 101.70], [3.16, 101.72], [3.14, 101.72], [3.14, 101.70]]"
+                value={values.polygon}
+                onChange={(e) => setValues({ ...values, polygon: e.target.value })}
+                className="mt-1 font-mono text-xs"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="zone-min-order">minimum order (RM)</Label>
+                <Input
+                  id="zone-min-order"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={values.min_order}
+                  onChange={(e) => setValues({ ...values, min_order: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="zone-fee">delivery fee (RM)</Label>
+                <Input
+                  id="zone-fee"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={values.delivery_fee}
+                  onChange={(e) => setValues({ ...values, delivery_fee: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="zone-next-day-cutoff">next-day cut-off</Label>
+                <Input
+                  id="zone-next-day-cutoff"
+                  type="time"
+                  value={values.next_day_cutoff}
+                  onChange={(e) => setValues({ ...values, next_day_cutoff: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="zone-same-day-cutoff">same-day cut-off</Label>
+                <Input
+                  id="zone-same-day-cutoff"
+                  type="time"
+                  value={values.same_day_cutoff}
+                  onChange={(e) => setValues({ ...values, same_day_cutoff: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="zone-horizon">days bookable</Label>
+                <Input
+                  id="zone-horizon"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={values.booking_horizon_days}
+                  onChange={(e) => setValues({ ...values, booking_horizon_days: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              cut-offs are in Malaysia time. leave same-day empty to only take orders for tomorrow onwards.
+            </p>
+            <div>
+              <Label htmlFor="zone-change-cutoff">changes allowed until (hours before the slot)</Label>
+              <Input
+                id="zone-change-cutoff"
+                type="number"
+                min={0}
+                max={168}
+                value={values.change_cutoff_hours}
+                onChange={(e) => setValues({ ...values, change_cutoff_hours: e.target.value })}
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                customers can change or cancel pending and confirmed orders until then. set it to when the kitchen
+                starts preparing.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="zone-active"
+                checked={values.is_active}
+                onCheckedChange={(checked) => setValues({ ...values, is_active: checked })}
+              />
+              <Label htmlFor="zone-active" className="font-normal">
+                active
+              </Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                cancel
+              </Button>
+              <Button onClick={saveZone} disabled={saving || !values.name.trim()}>
+                {saving ? "saving..." : "save zone"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+const DeliveryWindowsEditor = ({ zoneId }: { zoneId: string }) => {
+  const { toast } = useToast();
+  const [windows, setWindows] = useState<DeliveryWindow[]>([]);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [capacity, setCapacity] = useState("10");
+
+  useEffect(() => {
+    loadWindows();
+  }, [zoneId]);
+
+  const loadWindows = async () => {
+    const { data, error } = await supabase
+      .from("delivery_windows")
+      .select("*")
+      .eq("zone_id", zoneId)
+      .order("start_time", { ascending: true });
+
+    if (error) {
+      toast({
+        title: "error loading delivery windows",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setWindows(data || []);
+    }
+  };
+
+  const addWindow = async () => {
+    const { error } = await supabase.from("delivery_windows").insert({
+      zone_id: zoneId,
+      start_time: startTime,
+      end_time: endTime,
+      capacity: parseInt(capacity) || 1,
+    });
+
+    if (error) {
+      toast({
+        title: "error adding window",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setStartTime("");
+    setEndTime("");
+    loadWindows();
+  };
+
+  const updateWindow = async (id: string, changes: Partial<Pick<DeliveryWindow, "capacity" | "is_active">>) => {
+    const { error } = await supabase.from("delivery_windows").update(changes).eq("id", id);
+
+    if (error) {
+      toast({
+        title: "error updating window",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadWindows();
+  };
+
+  const deleteWindow = async (id: string) => {
+    const { error } = await supabase.from("delivery_windows").delete().eq("id", id);
+
+    if (error) {
+      toast({
+        title: "error deleting window",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadWindows();
+  };
+
+  return (
+    <div className="border-t pt-3 mt-3 space-y-2">
+      <p className="text-sm font-medium">delivery windows</p>
+      {windows.length === 0 && (
+        <p className="text-sm text-muted-foreground">no windows yet, so this zone can't take bookings</p>
+      )}
+      {windows.map((window) => (
+        <div key={window.id} className="flex items-center gap-2 text-sm">
+          <span className="flex-1">{formatWindow(window.start_time, window.end_time)}</span>
+          <Input
+            type="number"
+            min={1}
+            defaultValue={window.capacity}
+            onBlur={(e) => {
+              const value = parseInt(e.target.value);
+              if (value > 0 && value !== window.capacity) {
+                updateWindow(window.id, { capacity: value });
+              }
+            }}
+            className="w-20 h-8"
+            aria-label="capacity"
+          />
+          <Switch
+            checked={window.is_active}
+            onCheckedChange={(checked) => updateWindow(window.id, { is_active: checked })}
+          />
+          <Button variant="ghost" size="icon" onClick={() => deleteWindow(window.id)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-end gap-2">
+        <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className="h-8" />
+        <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className="h-8" />
+        <Input
+          type="number"
+          min={1}
+          value={capacity}
+          onChange={(e) => setCapacity(e.target.value)}
+          className="w-20 h-8"
+          aria-label="capacity"
+        />
+        <Button size="sm" variant="outline" onClick={addWindow} disabled={!startTime || !endTime}>
+          add
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  einvoiceStatusLabels,
+  einvoiceValidationUrl,
+  submitConsolidatedEInvoice,
+  type EInvoice,
+} from "@/lib/einvoices";
+import { ExternalLink, Send } from "lucide-react";
+
+// The last six finished months as "YYYY-MM", newest first
+const finishedMonths = (now = new Date()) =>
+  Array.from({ length: 6 }, (_, i) => {
+    const month = new Date(now.getFullYear(), now.getMonth() - 1 - i, 1);
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, "0")}`;
+  });
+
+const formatMonth = (period: string) =>
+  new Date(`${period}-01T00:00:00`).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+
+export const EInvoicesManager = () => {
+  const { toast } = useToast();
+  const [einvoices, setEInvoices] = useState<EInvoice[]>([]);
+  const [period, setPeriod] = useState(finishedMonths()[0]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadEInvoices();
+  }, []);
+
+  const loadEInvoices = async () => {
+    const { data, error } = await supabase
+      .from("einvoices")
+      .select("id, kind, code, order_id, period_start, period_end, adapter, status, document_uuid, long_id, errors, created_at")
+      .order("created_at", { ascending: false })
+      .limit(100);
+
+    if (error) {
+      toast({
+        title: "error loading e-invoices",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setEInvoices((data || []) as EInvoice[]);
+  };
+
+  const consolidate = async () => {
+    setSubmitting(true);
+    const { einvoice, error } = await submitConsolidatedEInvoice(period);
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "error submitting consolidated e-invoice",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "consolidated e-invoice submitted",
+      description: `${einvoice?.code} covers ${formatMonth(period)}'s remaining B2C sales`,
+    });
+    loadEInvoices();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-primary/20 max-w-2xl">
+        <CardHeader>
+          <CardTitle>monthly consolidation</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            paid orders without their own e-invoice are reported to LHDN on one consolidated e-invoice per
+            month, due within 7 days of the month ending.
+          </p>
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label>month</Label>
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {finishedMonths().map((month) => (
+                    <SelectItem key={month} value={month}>
+                      {formatMonth(month)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={consolidate} disabled={submitting} className="gap-2">
+              <Send className="w-4 h-4" />
+              {submitting ? "submitting..." : "submit"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {einvoices.length === 0 && (
+        <Card className="border-primary/20">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">no e-invoices submitted yet</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {einvoices.map((einvoice) => {
+        const validationUrl = einvoiceValidationUrl(einvoice);
+
+        return (
+          <Card key={einvoice.id} className="border-primary/20">
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-lg font-mono">{einvoice.code}</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {einvoice.kind === "consolidated"
+                      ? `consolidated, ${einvoice.period_start} – ${einvoice.period_end}`
+                      : `order #${einvoice.order_id?.slice(0, 8) ?? "deleted"}`}
+                    {` • ${new Date(einvoice.created_at).toLocaleString()}`}
+                    {einvoice.adapter === "stub" && " • stub"}
+                  </p>
+                </div>
+                <Badge
+                  variant={
+                    einvoice.status === "valid"
+                      ? "default"
+                      : ["invalid", "rejected"].includes(einvoice.status)
+                        ? "destructive"
+                        : "secondary"
+                  }
+                >
+                  {einvoiceStatusLabels[einvoice.status]}
+                </Badge>
+              </div>
+            </CardHeader>
+            {(validationUrl || einvoice.errors) && (
+              <CardContent className="space-y-2 text-sm">
+                {validationUrl && (
+                  <a
+                    href={validationUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex items-center gap-1 text-primary hover:underline"
+                  >
+                    view on MyInvois
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+                {einvoice.errors && (
+                  <pre className="whitespace-pre-wrap rounded-md bg-muted p-2 text-xs">
+                    {JSON.stringify(einvoice.errors, null, 2)}
+                  </pre>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,395 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { formatOpeningHours, weekdays, type PickupPoint } from "@/lib/pickup";
+import { formatTime } from "@/lib/slots";
+import { Pencil, Plus } from "lucide-react";
+
+interface PickupPointFormValues {
+  name: string;
+  address: string;
+  instructions: string;
+  open_days: number[];
+  opens_at: string;
+  closes_at: string;
+  daily_capacity: string;
+  next_day_cutoff: string;
+  same_day_cutoff: string;
+  booking_horizon_days: string;
+  change_cutoff_hours: string;
+  is_active: boolean;
+}
+
+const emptyPoint: PickupPointFormValues = {
+  name: "",
+  address: "",
+  instructions: "",
+  open_days: [1, 2, 3, 4, 5],
+  opens_at: "11:00",
+  closes_at: "19:00",
+  daily_capacity: "30",
+  next_day_cutoff: "20:00",
+  same_day_cutoff: "",
+  booking_horizon_days: "14",
+  change_cutoff_hours: "12",
+  is_active: true,
+};
+
+export const PickupPointsManager = () => {
+  const { toast } = useToast();
+  const [points, setPoints] = useState<PickupPoint[]>([]);
+  const [editing, setEditing] = useState<PickupPoint | "new" | null>(null);
+  const [values, setValues] = useState<PickupPointFormValues>(emptyPoint);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPoints();
+  }, []);
+
+  const loadPoints = async () => {
+    const { data, error } = await supabase
+      .from("pickup_points")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      toast({
+        title: "error loading pickup points",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setPoints(data || []);
+    }
+  };
+
+  const openEditor = (point: PickupPoint | "new") => {
+    setValues(
+      point === "new"
+        ? emptyPoint
+        : {
+            name: point.name,
+            address: point.address,
+            instructions: point.instructions ?? "",
+            open_days: point.open_days,
+            opens_at: point.opens_at.slice(0, 5),
+            closes_at: point.closes_at.slice(0, 5),
+            daily_capacity: point.daily_capacity.toString(),
+            next_day_cutoff: point.next_day_cutoff.slice(0, 5),
+            same_day_cutoff: point.same_day_cutoff?.slice(0, 5) ?? "",
+            booking_horizon_days: point.booking_horizon_days.toString(),
+            change_cutoff_hours: point.change_cutoff_hours.toString(),
+            is_active: point.is_active,
+          }
+    );
+    setEditing(point);
+  };
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setValues({
+      ...values,
+      open_days: checked
+        ? [...values.open_days, day].sort((a, b) => a - b)
+        : values.open_days.filter((d) => d !== day),
+    });
+  };
+
+  const savePoint = async () => {
+    if (values.closes_at <= values.opens_at) {
+      toast({
+        title: "invalid opening hours",
+        description: "closing time must be after opening time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const row = {
+      name: values.name.trim(),
+      address: values.address.trim(),
+      instructions: values.instructions.trim() || null,
+      open_days: values.open_days,
+      opens_at: values.opens_at,
+      closes_at: values.closes_at,
+      daily_capacity: parseInt(values.daily_capacity) || 1,
+      next_day_cutoff: values.next_day_cutoff || "20:00",
+      same_day_cutoff: values.same_day_cutoff || null,
+      booking_horizon_days: parseInt(values.booking_horizon_days) || 14,
+      change_cutoff_hours: Number.isNaN(parseInt(values.change_cutoff_hours)) ? 12 : parseInt(values.change_cutoff_hours),
+      is_active: values.is_active,
+      updated_at: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    const { error } =
+      editing && editing !== "new"
+        ? await supabase.from("pickup_points").update(row).eq("id", editing.id)
+        : await supabase.from("pickup_points").insert(row);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error saving pickup point",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "pickup point saved" });
+    setEditing(null);
+    loadPoints();
+  };
+
+  const togglePoint = async (point: PickupPoint, isActive: boolean) => {
+    const { error } = await supabase
+      .from("pickup_points")
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq("id", point.id);
+
+    if (error) {
+      toast({
+        title: "error updating pickup point",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadPoints();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => openEditor("new")} className="gap-2">
+          <Plus className="w-4 h-4" />
+          new pickup point
+        </Button>
+      </div>
+
+      {points.length === 0 && (
+        <Card className="border-primary/20">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">
+              no pickup points yet. customers only see self-collect once a pickup point is active.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {points.map((point) => (
+        <Card key={point.id} className="border-primary/20">
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle className="text-lg">{point.name}</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">{point.address}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={point.is_active ? "default" : "secondary"}>
+                  {point.is_active ? "active" : "paused"}
+                </Badge>
+                <Switch checked={point.is_active} onCheckedChange={(checked) => togglePoint(point, checked)} />
+                <Button variant="ghost" size="icon" onClick={() => openEditor(point)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">open:</span>
+              <span className="font-medium">{formatOpeningHours(point)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">daily capacity:</span>
+              <span className="font-medium">{point.daily_capacity} orders</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">cut-offs:</span>
+              <span className="font-medium">
+                next day by {formatTime(point.next_day_cutoff)}
+                {point.same_day_cutoff ? `, same day by ${formatTime(point.same_day_cutoff)}` : ", no same day"}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">bookable:</span>
+              <span className="font-medium">{point.booking_horizon_days} days ahead</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">customer cancellations:</span>
+              <span className="font-medium">until {point.change_cutoff_hours}h before opening</span>
+            </div>
+            {point.instructions && <p className="text-sm text-muted-foreground italic">{point.instructions}</p>}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "new pickup point" : "edit pickup point"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="pickup-name">name</Label>
+              <Input
+                id="pickup-name"
+                placeholder="kitchen, partner gym, office..."
+                value={values.name}
+                onChange={(e) => setValues({ ...values, name: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pickup-address">address</Label>
+              <Textarea
+                id="pickup-address"
+                value={values.address}
+                onChange={(e) => setValues({ ...values, address: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pickup-instructions">where to collect (optional)</Label>
+              <Input
+                id="pickup-instructions"
+                placeholder="e.g. front desk, ask for the dailyfragments shelf"
+                maxLength={300}
+                value={values.instructions}
+                onChange={(e) => setValues({ ...values, instructions: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>open on</Label>
+              <div className="flex flex-wrap gap-3 mt-2">
+                {weekdays.map((day) => (
+                  <label key={day.value} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={values.open_days.includes(day.value)}
+                      onCheckedChange={(checked) => toggleDay(day.value, checked === true)}
+                    />
+                    {day.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="pickup-opens">opens</Label>
+                <Input
+                  id="pickup-opens"
+                  type="time"
+                  value={values.opens_at}
+                  onChange={(e) => setValues({ ...values, opens_at: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="pickup-closes">closes</Label>
+                <Input
+                  id="pickup-closes"
+                  type="time"
+                  value={values.closes_at}
+                  onChange={(e) => setValues({ ...values, closes_at: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="pickup-capacity">orders per day</Label>
+                <Input
+                  id="pickup-capacity"
+                  type="number"
+                  min={1}
+                  value={values.daily_capacity}
+                  onChange={(e) => setValues({ ...values, daily_capacity: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="pickup-next-day-cutoff">next-day cut-off</Label>
+                <Input
+                  id="pickup-next-day-cutoff"
+                  type="time"
+                  value={values.next_day_cutoff}
+                  onChange={(e) => setValues({ ...values, next_day_cutoff: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="pickup-same-day-cutoff">same-day cut-off</Label>
+                <Input
+                  id="pickup-same-day-cutoff"
+                  type="time"
+                  value={values.same_day_cutoff}
+                  onChange={(e) => setValues({ ...values, same_day_cutoff: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="pickup-horizon">days bookable</Label>
+                <Input
+                  id="pickup-horizon"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={values.booking_horizon_days}
+                  onChange={(e) => setValues({ ...values, booking_horizon_days: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              times are in Malaysia time. leave same-day empty to only take pickups for tomorrow onwards.
+            </p>
+            <div>
+              <Label htmlFor="pickup-change-cutoff">cancellations allowed until (hours before opening)</Label>
+              <Input
+                id="pickup-change-cutoff"
+                type="number"
+                min={0}
+                max={168}
+                value={values.change_cutoff_hours}
+                onChange={(e) => setValues({ ...values, change_cutoff_hours: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="pickup-active"
+                checked={values.is_active}
+                onCheckedChange={(checked) => setValues({ ...values, is_active: checked })}
+              />
+              <Label htmlFor="pickup-active" className="font-normal">
+                active
+              </Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                cancel
+              </Button>
+              <Button
+                onClick={savePoint}
+                disabled={saving || !values.name.trim() || !values.address.trim() || values.open_days.length === 0}
+              >
+                {saving ? "saving..." : "save pickup point"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
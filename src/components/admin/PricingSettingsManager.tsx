@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { deliveryFeeModes, type DeliveryFeeMode } from "@/lib/pricing";
+
+// Rates are edited as percentages and stored as fractions
+interface PricingFormValues {
+  sst_percent: string;
+  sst_on_delivery: boolean;
+  service_charge_percent: string;
+  delivery_fee_mode: DeliveryFeeMode;
+  flat_delivery_fee: string;
+  kitchen_lat: string;
+  kitchen_lng: string;
+  distance_base_fee: string;
+  distance_fee_per_km: string;
+}
+
+const toPercent = (rate: number) => Number((rate * 100).toFixed(2)).toString();
+
+export const PricingSettingsManager = () => {
+  const { toast } = useToast();
+  const [values, setValues] = useState<PricingFormValues | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    const { data, error } = await supabase.from("pricing_settings").select("*").single();
+
+    if (error) {
+      toast({
+        title: "error loading pricing",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setValues({
+      sst_percent: toPercent(data.sst_rate),
+      sst_on_delivery: data.sst_on_delivery,
+      service_charge_percent: toPercent(data.service_charge_rate),
+      delivery_fee_mode: data.delivery_fee_mode as DeliveryFeeMode,
+      flat_delivery_fee: data.flat_delivery_fee.toString(),
+      kitchen_lat: data.kitchen_lat?.toString() ?? "",
+      kitchen_lng: data.kitchen_lng?.toString() ?? "",
+      distance_base_fee: data.distance_base_fee.toString(),
+      distance_fee_per_km: data.distance_fee_per_km.toString(),
+    });
+  };
+
+  const saveSettings = async () => {
+    if (!values) return;
+
+    const kitchenLat = values.kitchen_lat ? parseFloat(values.kitchen_lat) : null;
+    const kitchenLng = values.kitchen_lng ? parseFloat(values.kitchen_lng) : null;
+    if (values.delivery_fee_mode === "distance" && (kitchenLat === null || kitchenLng === null)) {
+      toast({
+        title: "kitchen location required",
+        description: "distance-based delivery fees need the kitchen's coordinates",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("pricing_settings")
+      .update({
+        sst_rate: (parseFloat(values.sst_percent) || 0) / 100,
+        sst_on_delivery: values.sst_on_delivery,
+        service_charge_rate: (parseFloat(values.service_charge_percent) || 0) / 100,
+        delivery_fee_mode: values.delivery_fee_mode,
+        flat_delivery_fee: parseFloat(values.flat_delivery_fee) || 0,
+        kitchen_lat: kitchenLat,
+        kitchen_lng: kitchenLng,
+        distance_base_fee: parseFloat(values.distance_base_fee) || 0,
+        distance_fee_per_km: parseFloat(values.distance_fee_per_km) || 0,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", true);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error saving pricing",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "pricing saved",
+      description: "new orders will be charged with these settings",
+    });
+    loadSettings();
+  };
+
+  if (!values) {
+    return <p className="text-muted-foreground">loading pricing...</p>;
+  }
+
+  return (
+    <Card className="border-primary/20 max-w-2xl">
+      <CardHeader>
+        <CardTitle>pricing</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="pricing-sst">SST rate (%)</Label>
+            <Input
+              id="pricing-sst"
+              type="number"
+              min={0}
+              step="0.01"
+              value={values.sst_percent}
+              onChange={(e) => setValues({ ...values, sst_percent: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="pricing-service-charge">service charge (%)</Label>
+            <Input
+              id="pricing-service-charge"
+              type="number"
+              min={0}
+              step="0.01"
+              value={values.service_charge_percent}
+              onChange={(e) => setValues({ ...values, service_charge_percent: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="pricing-sst-delivery"
+            checked={values.sst_on_delivery}
+            onCheckedChange={(checked) => setValues({ ...values, sst_on_delivery: checked })}
+          />
+          <Label htmlFor="pricing-sst-delivery" className="font-normal">
+            charge SST on the delivery fee
+          </Label>
+        </div>
+
+        <div>
+          <Label>delivery fee</Label>
+          <Select
+            value={values.delivery_fee_mode}
+            onValueChange={(value) => setValues({ ...values, delivery_fee_mode: value as DeliveryFeeMode })}
+          >
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {deliveryFeeModes.map((mode) => (
+                <SelectItem key={mode.value} value={mode.value}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {values.delivery_fee_mode === "flat" && (
+          <div>
+            <Label htmlFor="pricing-flat-fee">flat delivery fee (RM)</Label>
+            <Input
+              id="pricing-flat-fee"
+              type="number"
+              min={0}
+              step="0.01"
+              value={values.flat_delivery_fee}
+              onChange={(e) => setValues({ ...values, flat_delivery_fee: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+        )}
+
+        {values.delivery_fee_mode === "distance" && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="pricing-kitchen-lat">kitchen latitude</Label>
+                <Input
+                  id="pricing-kitchen-lat"
+                  type="number"
+                  step="0.000001"
+                  value={values.kitchen_lat}
+                  onChange={(e) => setValues({ ...values, kitchen_lat: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="pricing-kitchen-lng">kitchen longitude</Label>
+                <Input
+                  id="pricing-kitchen-lng"
+                  type="number"
+                  step="0.000001"
+                  value={values.kitchen_lng}
+                  onChange={(e) => setValues({ ...values, kitchen_lng: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="pricing-base-fee">base fee (RM)</Label>
+                <Input
+                  id="pricing-base-fee"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={values.distance_base_fee}
+                  onChange={(e) => setValues({ ...values, distance_base_fee: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="pricing-per-km">per km (RM)</Label>
+                <Input
+                  id="pricing-per-km"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={values.distance_fee_per_km}
+                  onChange={(e) => setValues({ ...values, distance_fee_per_km: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              addresses without coordinates fall back to their delivery zone's fee.
+            </p>
+          </>
+        )}
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button onClick={saveSettings} disabled={saving}>
+          {saving ? "saving..." : "save pricing"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -0,0 +1,464 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { formatRM } from "@/lib/pricing";
+import {
+  describeDiscount,
+  discountTypes,
+  normalizePromoCode,
+  promotionState,
+  type DiscountType,
+  type Promotion,
+} from "@/lib/promotions";
+import { Plus, Receipt } from "lucide-react";
+
+interface PromotionFormValues {
+  code: string;
+  description: string;
+  discount_type: DiscountType;
+  discount_value: string;
+  max_discount: string;
+  min_spend: string;
+  starts_at: string;
+  ends_at: string;
+  usage_limit: string;
+  per_user_limit: string;
+  first_order_only: boolean;
+}
+
+interface Redemption {
+  id: string;
+  order_id: string;
+  user_id: string;
+  discount_amount: number;
+  created_at: string;
+  orders: {
+    status: string;
+    total_price: number;
+  } | null;
+}
+
+// ISO timestamp <-> the "YYYY-MM-DDTHH:mm" a datetime-local input works in
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+const emptyPromotion = (): PromotionFormValues => ({
+  code: "",
+  description: "",
+  discount_type: "percent",
+  discount_value: "10",
+  max_discount: "",
+  min_spend: "0",
+  starts_at: toLocalInput(new Date().toISOString()),
+  ends_at: "",
+  usage_limit: "",
+  per_user_limit: "1",
+  first_order_only: false,
+});
+
+const parseOptionalInt = (value: string) => (value.trim() ? parseInt(value) || null : null);
+
+export const PromotionsManager = () => {
+  const { toast } = useToast();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [redemptionCounts, setRedemptionCounts] = useState<Record<string, number>>({});
+  const [creating, setCreating] = useState(false);
+  const [values, setValues] = useState<PromotionFormValues>(emptyPromotion);
+  const [saving, setSaving] = useState(false);
+  const [reviewing, setReviewing] = useState<Promotion | null>(null);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [emails, setEmails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadPromotions();
+  }, []);
+
+  const loadPromotions = async () => {
+    const { data, error } = await supabase
+      .from("promotions")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({
+        title: "error loading promotions",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setPromotions((data || []) as Promotion[]);
+
+    const { data: redemptionRows } = await supabase.from("promotion_redemptions").select("promotion_id");
+    const counts: Record<string, number> = {};
+    (redemptionRows || []).forEach((row) => {
+      counts[row.promotion_id] = (counts[row.promotion_id] || 0) + 1;
+    });
+    setRedemptionCounts(counts);
+  };
+
+  const openCreator = () => {
+    setValues(emptyPromotion());
+    setCreating(true);
+  };
+
+  const savePromotion = async () => {
+    const code = normalizePromoCode(values.code);
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      toast({
+        title: "invalid code",
+        description: "use 3-32 letters, numbers, dashes or underscores",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("promotions").insert({
+      code,
+      description: values.description.trim() || null,
+      discount_type: values.discount_type,
+      discount_value: values.discount_type === "free_delivery" ? 0 : parseFloat(values.discount_value) || 0,
+      max_discount:
+        values.discount_type === "percent" && values.max_discount ? parseFloat(values.max_discount) || null : null,
+      min_spend: parseFloat(values.min_spend) || 0,
+      starts_at: values.starts_at ? new Date(values.starts_at).toISOString() : new Date().toISOString(),
+      ends_at: values.ends_at ? new Date(values.ends_at).toISOString() : null,
+      usage_limit: parseOptionalInt(values.usage_limit),
+      per_user_limit: parseOptionalInt(values.per_user_limit),
+      first_order_only: values.first_order_only,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "error saving promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "promotion created", description: code });
+    setCreating(false);
+    loadPromotions();
+  };
+
+  const togglePromotion = async (promotion: Promotion, isActive: boolean) => {
+    const { error } = await supabase
+      .from("promotions")
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq("id", promotion.id);
+
+    if (error) {
+      toast({
+        title: "error updating promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    loadPromotions();
+  };
+
+  const openRedemptions = async (promotion: Promotion) => {
+    setReviewing(promotion);
+    setRedemptions([]);
+
+    const { data, error } = await supabase
+      .from("promotion_redemptions")
+      .select("id, order_id, user_id, discount_amount, created_at, orders(status, total_price)")
+      .eq("promotion_id", promotion.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({
+        title: "error loading redemptions",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setRedemptions(data || []);
+
+    const userIds = Array.from(new Set((data || []).map((r) => r.user_id)));
+    if (userIds.length > 0) {
+      const { data: profiles } = await supabase.from("profiles").select("id, email").in("id", userIds);
+      setEmails(Object.fromEntries((profiles || []).map((p) => [p.id, p.email])));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openCreator} className="gap-2">
+          <Plus className="w-4 h-4" />
+          new promo code
+        </Button>
+      </div>
+
+      {promotions.length === 0 && (
+        <Card className="border-primary/20">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">no promo codes yet</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {promotions.map((promotion) => {
+        const state = promotionState(promotion);
+        const uses = redemptionCounts[promotion.id] || 0;
+
+        return (
+          <Card key={promotion.id} className="border-primary/20">
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-lg font-mono">{promotion.code}</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {describeDiscount(promotion)}
+                    {promotion.description && ` • ${promotion.description}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={state === "live" ? "default" : "secondary"}>{state}</Badge>
+                  <Switch
+                    checked={promotion.is_active}
+                    onCheckedChange={(checked) => togglePromotion(promotion, checked)}
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">minimum spend:</span>
+                <span className="font-medium">{formatRM(promotion.min_spend)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">valid:</span>
+                <span className="font-medium">
+                  {new Date(promotion.starts_at).toLocaleString()} –{" "}
+                  {promotion.ends_at ? new Date(promotion.ends_at).toLocaleString() : "no end date"}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">limits:</span>
+                <span className="font-medium">
+                  {promotion.usage_limit ? `${promotion.usage_limit} total` : "unlimited"}
+                  {promotion.per_user_limit && `, ${promotion.per_user_limit} per customer`}
+                  {promotion.first_order_only && ", first orders only"}
+                </span>
+              </div>
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-muted-foreground">redemptions:</span>
+                <Button variant="link" size="sm" className="h-auto p-0 gap-1" onClick={() => openRedemptions(promotion)}>
+                  <Receipt className="w-4 h-4" />
+                  {uses}
+                  {promotion.usage_limit && ` / ${promotion.usage_limit}`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>new promo code</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promo-code">code</Label>
+                <Input
+                  id="promo-code"
+                  placeholder="LAUNCH20"
+                  value={values.code}
+                  onChange={(e) => setValues({ ...values, code: e.target.value })}
+                  className="mt-1 uppercase"
+                />
+              </div>
+              <div>
+                <Label>discount</Label>
+                <Select
+                  value={values.discount_type}
+                  onValueChange={(value) => setValues({ ...values, discount_type: value as DiscountType })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {discountTypes.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="promo-description">description (optional)</Label>
+              <Input
+                id="promo-description"
+                value={values.description}
+                onChange={(e) => setValues({ ...values, description: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            {values.discount_type !== "free_delivery" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="promo-value">{values.discount_type === "percent" ? "percent off" : "RM off"}</Label>
+                  <Input
+                    id="promo-value"
+                    type="number"
+                    min={0}
+                    step={values.discount_type === "percent" ? "1" : "0.01"}
+                    value={values.discount_value}
+                    onChange={(e) => setValues({ ...values, discount_value: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                {values.discount_type === "percent" && (
+                  <div>
+                    <Label htmlFor="promo-max">maximum discount (RM, optional)</Label>
+                    <Input
+                      id="promo-max"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={values.max_discount}
+                      onChange={(e) => setValues({ ...values, max_discount: e.target.value })}
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            <div>
+              <Label htmlFor="promo-min-spend">minimum spend (RM)</Label>
+              <Input
+                id="promo-min-spend"
+                type="number"
+                min={0}
+                step="0.01"
+                value={values.min_spend}
+                onChange={(e) => setValues({ ...values, min_spend: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promo-starts">starts</Label>
+                <Input
+                  id="promo-starts"
+                  type="datetime-local"
+                  value={values.starts_at}
+                  onChange={(e) => setValues({ ...values, starts_at: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-ends">ends (optional)</Label>
+                <Input
+                  id="promo-ends"
+                  type="datetime-local"
+                  value={values.ends_at}
+                  onChange={(e) => setValues({ ...values, ends_at: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="promo-usage-limit">total uses (optional)</Label>
+                <Input
+                  id="promo-usage-limit"
+                  type="number"
+                  min={1}
+                  value={values.usage_limit}
+                  onChange={(e) => setValues({ ...values, usage_limit: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="promo-per-user">uses per customer (optional)</Label>
+                <Input
+                  id="promo-per-user"
+                  type="number"
+                  min={1}
+                  value={values.per_user_limit}
+                  onChange={(e) => setValues({ ...values, per_user_limit: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="promo-first-order"
+                checked={values.first_order_only}
+                onCheckedChange={(checked) => setValues({ ...values, first_order_only: checked })}
+              />
+              <Label htmlFor="promo-first-order" className="font-normal">
+                first orders only
+              </Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCreating(false)}>
+                cancel
+              </Button>
+              <Button onClick={savePromotion} disabled={saving || !values.code.trim()}>
+                {saving ? "saving..." : "create promo code"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{reviewing?.code} redemptions</DialogTitle>
+          </DialogHeader>
+          {redemptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">no redemptions yet</p>
+          ) : (
+            <div className="space-y-2">
+              {redemptions.map((redemption) => (
+                <div key={redemption.id} className="flex justify-between items-start text-sm border-b pb-2">
+                  <div>
+                    <p className="font-medium">order #{redemption.order_id.slice(0, 8)}</p>
+                    <p className="text-muted-foreground">
+                      {emails[redemption.user_id] ?? "unknown"} • {new Date(redemption.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium">
+                      {reviewing?.discount_type === "free_delivery"
+                        ? "free delivery"
+                        : `-${formatRM(redemption.discount_amount)}`}
+                    </p>
+                    {redemption.orders && <p className="text-muted-foreground">{redemption.orders.status}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
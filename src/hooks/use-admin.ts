@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+// Sends anyone who isn't an admin away from the staff pages
+export const useAdminAccess = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [checking, setChecking] = useState(true);
+
+  useEffect(() => {
+    checkAdminAccess();
+  }, []);
+
+  const checkAdminAccess = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const { data: roles } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "admin")
+      .maybeSingle();
+
+    if (!roles) {
+      toast({
+        title: "access denied",
+        description: "you do not have admin privileges",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+      return;
+    }
+
+    setIsAdmin(true);
+    setChecking(false);
+  };
+
+  return { isAdmin, checking };
+};
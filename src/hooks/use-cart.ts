@@ -0,0 +1,223 @@
+import * as React from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { cartLineKey, parseCartLineKey } from "@/lib/modifiers";
+
+// line key (meal id plus chosen options, see cartLineKey) -> quantity
+export type Cart = Record<string, number>;
+
+// line key -> unit price when the line was added, to spot price changes
+export type CartPrices = Record<string, number>;
+
+type State = {
+  items: Cart;
+  prices: CartPrices;
+  userId: string | null;
+  loading: boolean;
+};
+
+const LOCAL_CART_KEY = "cart";
+const LOCAL_PRICES_KEY = "cart_prices";
+
+const readLocal = <T>(key: string): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || "{}");
+  } catch {
+    return {} as T;
+  }
+};
+
+const readLocalCart = () => readLocal<Cart>(LOCAL_CART_KEY);
+const readLocalPrices = () => readLocal<CartPrices>(LOCAL_PRICES_KEY);
+
+const writeLocalCart = (items: Cart, prices: CartPrices) => {
+  if (Object.keys(items).length === 0) {
+    localStorage.removeItem(LOCAL_CART_KEY);
+    localStorage.removeItem(LOCAL_PRICES_KEY);
+  } else {
+    localStorage.setItem(LOCAL_CART_KEY, JSON.stringify(items));
+    localStorage.setItem(LOCAL_PRICES_KEY, JSON.stringify(pricesFor(items, prices)));
+  }
+};
+
+// Drops prices of lines no longer in the cart
+const pricesFor = (items: Cart, prices: CartPrices): CartPrices =>
+  Object.fromEntries(Object.entries(prices).filter(([key]) => key in items));
+
+export const toCartLines = (items: Cart, prices: CartPrices = {}) =>
+  Object.entries(items).map(([key, quantity]) => ({ ...parseCartLineKey(key), quantity, unit_price: prices[key] }));
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { items: readLocalCart(), prices: readLocalPrices(), userId: null, loading: true };
+
+function setState(partial: Partial<State>) {
+  memoryState = { ...memoryState, ...partial };
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+let channel: RealtimeChannel | null = null;
+let sessionUserId: string | null | undefined;
+let initialized = false;
+
+async function loadServerCart() {
+  const { data, error } = await supabase.from("cart_items").select("meal_id, option_ids, quantity, unit_price");
+  if (!error) {
+    setState({
+      items: Object.fromEntries((data || []).map((item) => [cartLineKey(item.meal_id, item.option_ids), item.quantity])),
+      prices: Object.fromEntries(
+        (data || [])
+          .filter((item) => item.unit_price !== null)
+          .map((item) => [cartLineKey(item.meal_id, item.option_ids), item.unit_price])
+      ),
+    });
+  }
+}
+
+async function handleSession(userId: string | null) {
+  if (userId === sessionUserId) return;
+  sessionUserId = userId;
+
+  if (channel) {
+    supabase.removeChannel(channel);
+    channel = null;
+  }
+
+  if (!userId) {
+    setState({ userId: null, items: readLocalCart(), prices: readLocalPrices(), loading: false });
+    return;
+  }
+
+  // Fold whatever was added while signed out into the account's cart
+  const localCart = readLocalCart();
+  if (Object.keys(localCart).length > 0) {
+    const { error } = await supabase.rpc("merge_cart", { _items: toCartLines(localCart, readLocalPrices()) });
+    if (!error) {
+      writeLocalCart({}, {});
+    }
+  }
+
+  setState({ userId });
+  await loadServerCart();
+  setState({ loading: false });
+
+  // RLS limits these events to the signed-in user's own cart
+  channel = supabase
+    .channel(`cart:${userId}`)
+    .on("postgres_changes", { event: "*", schema: "public", table: "cart_items" }, () => {
+      loadServerCart();
+    })
+    .subscribe();
+}
+
+function init() {
+  if (initialized) return;
+  initialized = true;
+
+  supabase.auth.onAuthStateChange((_event, session) => {
+    // Defer so supabase calls don't run inside the auth callback
+    setTimeout(() => handleSession(session?.user.id ?? null), 0);
+  });
+
+  // Keep anonymous carts in sync across tabs
+  window.addEventListener("storage", (event) => {
+    if ((event.key === LOCAL_CART_KEY || event.key === LOCAL_PRICES_KEY) && !memoryState.userId) {
+      setState({ items: readLocalCart(), prices: readLocalPrices() });
+    }
+  });
+}
+
+// key is a cart line key; for a plain meal that's just its id. price is
+// the line's price as shown when adding it; the server cart records its
+// own, so it's only kept for signed-out carts
+async function setQuantity(key: string, quantity: number, price?: number) {
+  const items = { ...memoryState.items };
+  const prices = { ...memoryState.prices };
+  if (quantity < 1) {
+    delete items[key];
+  } else {
+    items[key] = quantity;
+    if (price !== undefined && !(key in prices)) {
+      prices[key] = price;
+    }
+  }
+  setState({ items, prices: pricesFor(items, prices) });
+
+  if (!memoryState.userId) {
+    writeLocalCart(items, prices);
+    return { error: null };
+  }
+
+  const { meal_id, option_ids } = parseCartLineKey(key);
+  const { error } = await supabase.rpc("set_cart_item", {
+    _meal_id: meal_id,
+    _quantity: quantity,
+    _option_ids: option_ids,
+  });
+  if (error) {
+    await loadServerCart();
+  }
+  return { error };
+}
+
+function addItem(key: string, quantity = 1, price?: number) {
+  return setQuantity(key, (memoryState.items[key] || 0) + quantity, price);
+}
+
+function removeItem(key: string) {
+  return setQuantity(key, 0);
+}
+
+// Lines without a price are recorded at the meal's current price
+async function replaceCart(items: Cart, prices: CartPrices = {}) {
+  setState({ items, prices: pricesFor(items, prices) });
+
+  if (!memoryState.userId) {
+    writeLocalCart(items, prices);
+    return { error: null };
+  }
+
+  const { error } = await supabase.rpc("replace_cart", { _items: toCartLines(items, prices) });
+  if (error) {
+    await loadServerCart();
+  }
+  return { error };
+}
+
+function clearCart() {
+  return replaceCart({});
+}
+
+function useCart() {
+  const [state, setLocalState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    init();
+    listeners.push(setLocalState);
+    setLocalState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  const itemCount = Object.values(state.items).reduce((sum, qty) => sum + qty, 0);
+
+  return {
+    cart: state.items,
+    prices: state.prices,
+    itemCount,
+    loading: state.loading,
+    addItem,
+    setQuantity,
+    removeItem,
+    replaceCart,
+    clearCart,
+  };
+}
+
+export { useCart };
@@ -14,221 +14,2072 @@ export type Database = {
   }
   public: {
     Tables: {
-      macro_goals: {
+      addresses: {
         Row: {
+          building: string | null
+          city: string
+          coordinates_source: string | null
           created_at: string
-          daily_calories: number
-          daily_carbs: number
-          daily_fats: number
-          daily_protein: number
+          delivery_notes: string | null
           id: string
+          is_default: boolean
+          label: string
+          lat: number | null
+          lng: number | null
+          postcode: string
+          state: string
+          street: string
+          unit: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          building?: string | null
+          city: string
+          coordinates_source?: string | null
           created_at?: string
-          daily_calories?: number
-          daily_carbs?: number
-          daily_fats?: number
-          daily_protein?: number
+          delivery_notes?: string | null
           id?: string
+          is_default?: boolean
+          label?: string
+          lat?: number | null
+          lng?: number | null
+          postcode: string
+          state: string
+          street: string
+          unit: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          building?: string | null
+          city?: string
+          coordinates_source?: string | null
           created_at?: string
-          daily_calories?: number
-          daily_carbs?: number
-          daily_fats?: number
-          daily_protein?: number
+          delivery_notes?: string | null
           id?: string
+          is_default?: boolean
+          label?: string
+          lat?: number | null
+          lng?: number | null
+          postcode?: string
+          state?: string
+          street?: string
+          unit?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "addresses_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bowl_categories: {
+        Row: {
+          id: string
+          max_choices: number
+          min_choices: number
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          id: string
+          max_choices: number
+          min_choices?: number
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          id?: string
+          max_choices?: number
+          min_choices?: number
+          name?: string
+          sort_order?: number
+        }
         Relationships: []
       }
-      meals: {
+      bowl_components: {
         Row: {
+          allergens: string[]
           calories: number
           carbs: number
+          category: string
           created_at: string
-          description: string | null
+          default_amount: number
+          dietary_tags: string[]
           fats: number
           id: string
-          image_url: string | null
           is_available: boolean
+          max_amount: number
+          min_amount: number
           name: string
           price: number
           protein: number
+          sort_order: number
+          unit: string
+          updated_at: string
         }
         Insert: {
-          calories: number
-          carbs: number
+          allergens?: string[]
+          calories?: number
+          carbs?: number
+          category: string
           created_at?: string
-          description?: string | null
-          fats: number
+          default_amount?: number
+          dietary_tags?: string[]
+          fats?: number
           id?: string
-          image_url?: string | null
           is_available?: boolean
+          max_amount?: number
+          min_amount?: number
           name: string
           price: number
-          protein: number
+          protein?: number
+          sort_order?: number
+          unit?: string
+          updated_at?: string
         }
         Update: {
+          allergens?: string[]
           calories?: number
           carbs?: number
+          category?: string
           created_at?: string
-          description?: string | null
+          default_amount?: number
+          dietary_tags?: string[]
           fats?: number
           id?: string
-          image_url?: string | null
           is_available?: boolean
+          max_amount?: number
+          min_amount?: number
           name?: string
           price?: number
           protein?: number
+          sort_order?: number
+          unit?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bowl_components_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "bowl_categories"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      order_items: {
+      bowl_meal_components: {
+        Row: {
+          amount: number
+          component_id: string
+          meal_id: string
+        }
+        Insert: {
+          amount: number
+          component_id: string
+          meal_id: string
+        }
+        Update: {
+          amount?: number
+          component_id?: string
+          meal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bowl_meal_components_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "bowl_components"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bowl_meal_components_meal_id_fkey"
+            columns: ["meal_id"]
+            isOneToOne: false
+            referencedRelation: "meals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cart_items: {
         Row: {
+          cart_id: string
           created_at: string
           id: string
           meal_id: string
-          order_id: string
-          price_at_purchase: number
+          option_ids: string[]
           quantity: number
+          unit_price: number | null
+          updated_at: string
         }
         Insert: {
+          cart_id: string
           created_at?: string
           id?: string
           meal_id: string
-          order_id: string
-          price_at_purchase: number
-          quantity?: number
+          option_ids?: string[]
+          quantity: number
+          unit_price?: number | null
+          updated_at?: string
         }
         Update: {
+          cart_id?: string
           created_at?: string
           id?: string
           meal_id?: string
-          order_id?: string
-          price_at_purchase?: number
+          option_ids?: string[]
           quantity?: number
+          unit_price?: number | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_meal_id_fkey"
-            columns: ["meal_id"]
+            foreignKeyName: "cart_items_cart_id_fkey"
+            columns: ["cart_id"]
             isOneToOne: false
-            referencedRelation: "meals"
+            referencedRelation: "carts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "cart_items_meal_id_fkey"
+            columns: ["meal_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "meals"
             referencedColumns: ["id"]
           },
         ]
       }
-      orders: {
+      carts: {
         Row: {
           created_at: string
-          delivery_address: string
-          delivery_lat: number | null
-          delivery_lng: number | null
           id: string
-          payment_status: string
-          status: string
-          total_price: number
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          delivery_address: string
-          delivery_lat?: number | null
-          delivery_lng?: number | null
           id?: string
-          payment_status?: string
-          status?: string
-          total_price: number
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          delivery_address?: string
-          delivery_lat?: number | null
-          delivery_lng?: number | null
           id?: string
-          payment_status?: string
-          status?: string
-          total_price?: number
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      profiles: {
+      delivery_windows: {
         Row: {
+          capacity: number
           created_at: string
-          email: string
-          full_name: string | null
+          end_time: string
           id: string
-          phone: string | null
-          updated_at: string
+          is_active: boolean
+          start_time: string
+          zone_id: string
         }
         Insert: {
+          capacity: number
           created_at?: string
-          email: string
-          full_name?: string | null
+          end_time: string
+          id?: string
+          is_active?: boolean
+          start_time: string
+          zone_id: string
+        }
+        Update: {
+          capacity?: number
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          start_time?: string
+          zone_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_windows_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_zones: {
+        Row: {
+          booking_horizon_days: number
+          change_cutoff_hours: number
+          created_at: string
+          delivery_fee: number
           id: string
-          phone?: string | null
+          is_active: boolean
+          min_order: number
+          name: string
+          next_day_cutoff: string
+          polygon: Json | null
+          postcodes: string[]
+          same_day_cutoff: string | null
+          updated_at: string
+        }
+        Insert: {
+          booking_horizon_days?: number
+          change_cutoff_hours?: number
+          created_at?: string
+          delivery_fee?: number
+          id?: string
+          is_active?: boolean
+          min_order?: number
+          name: string
+          next_day_cutoff?: string
+          polygon?: Json | null
+          postcodes?: string[]
+          same_day_cutoff?: string | null
           updated_at?: string
         }
         Update: {
+          booking_horizon_days?: number
+          change_cutoff_hours?: number
           created_at?: string
-          email?: string
-          full_name?: string | null
+          delivery_fee?: number
           id?: string
-          phone?: string | null
+          is_active?: boolean
+          min_order?: number
+          name?: string
+          next_day_cutoff?: string
+          polygon?: Json | null
+          postcodes?: string[]
+          same_day_cutoff?: string | null
           updated_at?: string
         }
         Relationships: []
       }
-      user_roles: {
+      dietary_profiles: {
+        Row: {
+          allergens: string[]
+          created_at: string
+          diets: string[]
+          hide_unsafe: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allergens?: string[]
+          created_at?: string
+          diets?: string[]
+          hide_unsafe?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allergens?: string[]
+          created_at?: string
+          diets?: string[]
+          hide_unsafe?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      einvoice_buyers: {
         Row: {
+          address_id: string | null
           created_at: string
+          email: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
+          id_number: string
+          id_type: string
+          name: string
+          phone: string
+          sst_number: string | null
+          tin: string
+          updated_at: string
           user_id: string
         }
         Insert: {
+          address_id?: string | null
           created_at?: string
+          email?: string | null
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
+          id_number: string
+          id_type: string
+          name: string
+          phone: string
+          sst_number?: string | null
+          tin: string
+          updated_at?: string
           user_id: string
         }
         Update: {
+          address_id?: string | null
           created_at?: string
+          email?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          id_number?: string
+          id_type?: string
+          name?: string
+          phone?: string
+          sst_number?: string | null
+          tin?: string
+          updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "einvoice_buyers_address_id_fkey"
+            columns: ["address_id"]
+            isOneToOne: false
+            referencedRelation: "addresses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      einvoices: {
+        Row: {
+          adapter: string
+          code: string
+          created_at: string
+          document: Json
+          document_uuid: string | null
+          errors: Json | null
+          id: string
+          kind: string
+          long_id: string | null
+          order_id: string | null
+          period_end: string | null
+          period_start: string | null
+          status: string
+          submission_uid: string | null
+          updated_at: string
+        }
+        Insert: {
+          adapter: string
+          code: string
+          created_at?: string
+          document: Json
+          document_uuid?: string | null
+          errors?: Json | null
+          id?: string
+          kind: string
+          long_id?: string | null
+          order_id?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          status?: string
+          submission_uid?: string | null
+          updated_at?: string
+        }
+        Update: {
+          adapter?: string
+          code?: string
+          created_at?: string
+          document?: Json
+          document_uuid?: string | null
+          errors?: Json | null
+          id?: string
+          kind?: string
+          long_id?: string | null
+          order_id?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          status?: string
+          submission_uid?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "einvoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_counters: {
+        Row: {
+          last_number: number
+          year: number
+        }
+        Insert: {
+          last_number?: number
+          year: number
+        }
+        Update: {
+          last_number?: number
+          year?: number
+        }
         Relationships: []
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      has_role: {
-        Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+      macro_goals: {
+        Row: {
+          created_at: string
+          daily_calories: number
+          daily_carbs: number
+          daily_fats: number
+          daily_protein: number
+          id: string
+          updated_at: string
+          user_id: string
         }
-        Returns: boolean
+        Insert: {
+          created_at?: string
+          daily_calories?: number
+          daily_carbs?: number
+          daily_fats?: number
+          daily_protein?: number
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          daily_calories?: number
+          daily_carbs?: number
+          daily_fats?: number
+          daily_protein?: number
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      meals: {
+        Row: {
+          allergens: string[]
+          bowl_signature: string | null
+          calories: number
+          carbs: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          dietary_tags: string[]
+          fats: number
+          fibre: number | null
+          id: string
+          image_url: string | null
+          image_urls: string[]
+          ingredients: string[]
+          is_available: boolean
+          is_custom_bowl: boolean
+          name: string
+          preparation_instructions: string | null
+          price: number
+          protein: number
+          protein_per_100kcal: number | null
+          protein_per_ringgit: number | null
+          reheating_instructions: string | null
+          search_vector: unknown
+          sodium: number | null
+          sugar: number | null
+          tags: string[]
+        }
+        Insert: {
+          allergens?: string[]
+          bowl_signature?: string | null
+          calories: number
+          carbs: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          dietary_tags?: string[]
+          fats: number
+          fibre?: number | null
+          id?: string
+          image_url?: string | null
+          image_urls?: string[]
+          ingredients?: string[]
+          is_available?: boolean
+          is_custom_bowl?: boolean
+          name: string
+          preparation_instructions?: string | null
+          price: number
+          protein: number
+          protein_per_100kcal?: never
+          protein_per_ringgit?: never
+          reheating_instructions?: string | null
+          search_vector?: never
+          sodium?: number | null
+          sugar?: number | null
+          tags?: string[]
+        }
+        Update: {
+          allergens?: string[]
+          bowl_signature?: string | null
+          calories?: number
+          carbs?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          dietary_tags?: string[]
+          fats?: number
+          fibre?: number | null
+          id?: string
+          image_url?: string | null
+          image_urls?: string[]
+          ingredients?: string[]
+          is_available?: boolean
+          is_custom_bowl?: boolean
+          name?: string
+          preparation_instructions?: string | null
+          price?: number
+          protein?: number
+          protein_per_100kcal?: never
+          protein_per_ringgit?: never
+          reheating_instructions?: string | null
+          search_vector?: never
+          sodium?: number | null
+          sugar?: number | null
+          tags?: string[]
+        }
+        Relationships: []
+      }
+      modifier_groups: {
+        Row: {
+          created_at: string
+          id: string
+          max_selections: number | null
+          meal_id: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_selections?: number | null
+          meal_id: string
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_selections?: number | null
+          meal_id?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_meal_id_fkey"
+            columns: ["meal_id"]
+            isOneToOne: false
+            referencedRelation: "meals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_options: {
+        Row: {
+          calories_delta: number
+          carbs_delta: number
+          created_at: string
+          fats_delta: number
+          group_id: string
+          id: string
+          is_available: boolean
+          name: string
+          price_delta: number
+          protein_delta: number
+          sort_order: number
+        }
+        Insert: {
+          calories_delta?: number
+          carbs_delta?: number
+          created_at?: string
+          fats_delta?: number
+          group_id: string
+          id?: string
+          is_available?: boolean
+          name: string
+          price_delta?: number
+          protein_delta?: number
+          sort_order?: number
+        }
+        Update: {
+          calories_delta?: number
+          carbs_delta?: number
+          created_at?: string
+          fats_delta?: number
+          group_id?: string
+          id?: string
+          is_available?: boolean
+          name?: string
+          price_delta?: number
+          protein_delta?: number
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_changes: {
+        Row: {
+          balance_due: number
+          changed_by: string | null
+          created_at: string
+          details: Json
+          id: string
+          kind: string
+          new_total: number
+          order_id: string
+          previous_total: number
+          reason: string | null
+          settlement: string
+          updated_at: string
+        }
+        Insert: {
+          balance_due?: number
+          changed_by?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          kind: string
+          new_total: number
+          order_id: string
+          previous_total: number
+          reason?: string | null
+          settlement?: string
+          updated_at?: string
+        }
+        Update: {
+          balance_due?: number
+          changed_by?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          kind?: string
+          new_total?: number
+          order_id?: string
+          previous_total?: number
+          reason?: string | null
+          settlement?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_changes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          created_at: string
+          id: string
+          meal_id: string
+          modifiers: Json
+          note: string | null
+          option_ids: string[]
+          order_id: string
+          price_at_purchase: number
+          quantity: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          meal_id: string
+          modifiers?: Json
+          note?: string | null
+          option_ids?: string[]
+          order_id: string
+          price_at_purchase: number
+          quantity?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          meal_id?: string
+          modifiers?: Json
+          note?: string | null
+          option_ids?: string[]
+          order_id?: string
+          price_at_purchase?: number
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_meal_id_fkey"
+            columns: ["meal_id"]
+            isOneToOne: false
+            referencedRelation: "meals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          address_id: string | null
+          created_at: string
+          delivery_address: string
+          delivery_address_snapshot: Json | null
+          delivery_coordinates_source: string | null
+          delivery_date: string | null
+          delivery_distance_km: number | null
+          delivery_fee: number
+          delivery_instructions: string | null
+          delivery_lat: number | null
+          delivery_lng: number | null
+          delivery_window_end: string | null
+          delivery_window_id: string | null
+          delivery_window_start: string | null
+          delivery_zone_id: string | null
+          discount_amount: number
+          einvoice_id: string | null
+          fulfilment_method: string
+          id: string
+          invoice_number: string | null
+          invoiced_at: string | null
+          payment_status: string
+          picked_up_at: string | null
+          picked_up_by: string | null
+          pickup_code: string | null
+          pickup_point_id: string | null
+          promo_code: string | null
+          promotion_id: string | null
+          service_charge: number
+          sst_amount: number
+          sst_rate: number
+          status: string
+          subtotal: number
+          total_price: number
+          tracking_token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address_id?: string | null
+          created_at?: string
+          delivery_address: string
+          delivery_address_snapshot?: Json | null
+          delivery_coordinates_source?: string | null
+          delivery_date?: string | null
+          delivery_distance_km?: number | null
+          delivery_fee?: number
+          delivery_instructions?: string | null
+          delivery_lat?: number | null
+          delivery_lng?: number | null
+          delivery_window_end?: string | null
+          delivery_window_id?: string | null
+          delivery_window_start?: string | null
+          delivery_zone_id?: string | null
+          discount_amount?: number
+          einvoice_id?: string | null
+          fulfilment_method?: string
+          id?: string
+          invoice_number?: string | null
+          invoiced_at?: string | null
+          payment_status?: string
+          picked_up_at?: string | null
+          picked_up_by?: string | null
+          pickup_code?: string | null
+          pickup_point_id?: string | null
+          promo_code?: string | null
+          promotion_id?: string | null
+          service_charge?: number
+          sst_amount?: number
+          sst_rate?: number
+          status?: string
+          subtotal?: number
+          total_price: number
+          tracking_token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address_id?: string | null
+          created_at?: string
+          delivery_address?: string
+          delivery_address_snapshot?: Json | null
+          delivery_coordinates_source?: string | null
+          delivery_date?: string | null
+          delivery_distance_km?: number | null
+          delivery_fee?: number
+          delivery_instructions?: string | null
+          delivery_lat?: number | null
+          delivery_lng?: number | null
+          delivery_window_end?: string | null
+          delivery_window_id?: string | null
+          delivery_window_start?: string | null
+          delivery_zone_id?: string | null
+          discount_amount?: number
+          einvoice_id?: string | null
+          fulfilment_method?: string
+          id?: string
+          invoice_number?: string | null
+          invoiced_at?: string | null
+          payment_status?: string
+          picked_up_at?: string | null
+          picked_up_by?: string | null
+          pickup_code?: string | null
+          pickup_point_id?: string | null
+          promo_code?: string | null
+          promotion_id?: string | null
+          service_charge?: number
+          sst_amount?: number
+          sst_rate?: number
+          status?: string
+          subtotal?: number
+          total_price?: number
+          tracking_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_address_id_fkey"
+            columns: ["address_id"]
+            isOneToOne: false
+            referencedRelation: "addresses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_delivery_zone_id_fkey"
+            columns: ["delivery_zone_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_einvoice_id_fkey"
+            columns: ["einvoice_id"]
+            isOneToOne: false
+            referencedRelation: "einvoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_delivery_window_id_fkey"
+            columns: ["delivery_window_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_windows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_pickup_point_id_fkey"
+            columns: ["pickup_point_id"]
+            isOneToOne: false
+            referencedRelation: "pickup_points"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          last_event: Json | null
+          method: string
+          order_id: string
+          provider: string
+          provider_reference: string | null
+          refunded_amount: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          last_event?: Json | null
+          method: string
+          order_id: string
+          provider: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          last_event?: Json | null
+          method?: string
+          order_id?: string
+          provider?: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pickup_points: {
+        Row: {
+          address: string
+          booking_horizon_days: number
+          change_cutoff_hours: number
+          closes_at: string
+          created_at: string
+          daily_capacity: number
+          id: string
+          instructions: string | null
+          is_active: boolean
+          name: string
+          next_day_cutoff: string
+          open_days: number[]
+          opens_at: string
+          same_day_cutoff: string | null
+          updated_at: string
+        }
+        Insert: {
+          address: string
+          booking_horizon_days?: number
+          change_cutoff_hours?: number
+          closes_at?: string
+          created_at?: string
+          daily_capacity: number
+          id?: string
+          instructions?: string | null
+          is_active?: boolean
+          name: string
+          next_day_cutoff?: string
+          open_days?: number[]
+          opens_at?: string
+          same_day_cutoff?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          booking_horizon_days?: number
+          change_cutoff_hours?: number
+          closes_at?: string
+          created_at?: string
+          daily_capacity?: number
+          id?: string
+          instructions?: string | null
+          is_active?: boolean
+          name?: string
+          next_day_cutoff?: string
+          open_days?: number[]
+          opens_at?: string
+          same_day_cutoff?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      postcode_centroids: {
+        Row: {
+          area: string
+          lat: number
+          lng: number
+          prefix: string
+          state: string
+        }
+        Insert: {
+          area: string
+          lat: number
+          lng: number
+          prefix: string
+          state: string
+        }
+        Update: {
+          area?: string
+          lat?: number
+          lng?: number
+          prefix?: string
+          state?: string
+        }
+        Relationships: []
+      }
+      pricing_settings: {
+        Row: {
+          delivery_fee_mode: string
+          distance_base_fee: number
+          distance_fee_per_km: number
+          flat_delivery_fee: number
+          id: boolean
+          kitchen_lat: number | null
+          kitchen_lng: number | null
+          service_charge_rate: number
+          sst_on_delivery: boolean
+          sst_rate: number
+          updated_at: string
+        }
+        Insert: {
+          delivery_fee_mode?: string
+          distance_base_fee?: number
+          distance_fee_per_km?: number
+          flat_delivery_fee?: number
+          id?: boolean
+          kitchen_lat?: number | null
+          kitchen_lng?: number | null
+          service_charge_rate?: number
+          sst_on_delivery?: boolean
+          sst_rate?: number
+          updated_at?: string
+        }
+        Update: {
+          delivery_fee_mode?: string
+          distance_base_fee?: number
+          distance_fee_per_km?: number
+          flat_delivery_fee?: number
+          id?: boolean
+          kitchen_lat?: number | null
+          kitchen_lng?: number | null
+          service_charge_rate?: number
+          sst_on_delivery?: boolean
+          sst_rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string | null
+          id: string
+          is_guest: boolean
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name?: string | null
+          id: string
+          is_guest?: boolean
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          id?: string
+          is_guest?: boolean
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promotion_redemptions: {
+        Row: {
+          created_at: string
+          discount_amount: number
+          id: string
+          order_id: string
+          promotion_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          discount_amount: number
+          id?: string
+          order_id: string
+          promotion_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          promotion_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          ends_at: string | null
+          first_order_only: boolean
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          min_spend: number
+          per_user_limit: number | null
+          starts_at: string
+          updated_at: string
+          usage_limit: number | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value?: number
+          ends_at?: string | null
+          first_order_only?: boolean
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_spend?: number
+          per_user_limit?: number | null
+          starts_at?: string
+          updated_at?: string
+          usage_limit?: number | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          ends_at?: string | null
+          first_order_only?: boolean
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_spend?: number
+          per_user_limit?: number | null
+          starts_at?: string
+          updated_at?: string
+          usage_limit?: number | null
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      calculate_order_pricing: {
+        Args: {
+          _discount?: number
+          _free_delivery?: boolean
+          _lat: number
+          _lng: number
+          _subtotal: number
+          _zone_fee: number
+        }
+        Returns: {
+          delivery_distance_km: number
+          delivery_fee: number
+          discount_amount: number
+          service_charge: number
+          sst_amount: number
+          sst_rate: number
+          subtotal: number
+          total_price: number
+        }[]
+      }
+      can_view_custom_bowl: {
+        Args: {
+          _meal_id: string
+        }
+        Returns: boolean
+      }
+      cancel_order: {
+        Args: {
+          _order_id: string
+          _reason?: string
+        }
+        Returns: {
+          balance_due: number
+          changed_by: string | null
+          created_at: string
+          details: Json
+          id: string
+          kind: string
+          new_total: number
+          order_id: string
+          previous_total: number
+          reason: string | null
+          settlement: string
+          updated_at: string
+        }
+      }
+      cancel_order_as: {
+        Args: {
+          _order_id: string
+          _reason?: string
+          _user_id: string
+        }
+        Returns: {
+          balance_due: number
+          changed_by: string | null
+          created_at: string
+          details: Json
+          id: string
+          kind: string
+          new_total: number
+          order_id: string
+          previous_total: number
+          reason: string | null
+          settlement: string
+          updated_at: string
+        }
+      }
+      cart_item_option_ids: {
+        Args: {
+          _item: Json
+        }
+        Returns: string[]
+      }
+      cart_subtotal: {
+        Args: {
+          _items: Json
+        }
+        Returns: number
+      }
+      check_serviceability: {
+        Args: {
+          _postcode: string
+        }
+        Returns: {
+          booking_horizon_days: number
+          change_cutoff_hours: number
+          created_at: string
+          delivery_fee: number
+          id: string
+          is_active: boolean
+          min_order: number
+          name: string
+          next_day_cutoff: string
+          polygon: Json | null
+          postcodes: string[]
+          same_day_cutoff: string | null
+          updated_at: string
+        }[]
+      }
+      confirm_pickup: {
+        Args: {
+          _code: string
+          _order_id: string
+        }
+        Returns: {
+          address_id: string | null
+          created_at: string
+          delivery_address: string
+          delivery_address_snapshot: Json | null
+          delivery_coordinates_source: string | null
+          delivery_date: string | null
+          delivery_distance_km: number | null
+          delivery_fee: number
+          delivery_instructions: string | null
+          delivery_lat: number | null
+          delivery_lng: number | null
+          delivery_window_end: string | null
+          delivery_window_id: string | null
+          delivery_window_start: string | null
+          delivery_zone_id: string | null
+          discount_amount: number
+          einvoice_id: string | null
+          fulfilment_method: string
+          id: string
+          invoice_number: string | null
+          invoiced_at: string | null
+          payment_status: string
+          picked_up_at: string | null
+          picked_up_by: string | null
+          pickup_code: string | null
+          pickup_point_id: string | null
+          promo_code: string | null
+          promotion_id: string | null
+          service_charge: number
+          sst_amount: number
+          sst_rate: number
+          status: string
+          subtotal: number
+          total_price: number
+          tracking_token: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      count_pickup_bookings: {
+        Args: {
+          _date: string
+          _pickup_point_id: string
+        }
+        Returns: number
+      }
+      count_promotion_redemptions: {
+        Args: {
+          _promotion_id: string
+          _user_id?: string
+        }
+        Returns: number
+      }
+      count_slot_bookings: {
+        Args: {
+          _date: string
+          _window_id: string
+        }
+        Returns: number
+      }
+      create_bowl: {
+        Args: {
+          _components: Json
+        }
+        Returns: string
+      }
+      delivery_slot_closed_reason: {
+        Args: {
+          _date: string
+          _window: Database["public"]["Tables"]["delivery_windows"]["Row"]
+        }
+        Returns: string
+      }
+      distance_km: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _lng1: number
+          _lng2: number
+        }
+        Returns: number
+      }
+      ensure_cart: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      find_delivery_zone: {
+        Args: {
+          _lat: number
+          _lng: number
+          _postcode: string
+        }
+        Returns: {
+          booking_horizon_days: number
+          change_cutoff_hours: number
+          created_at: string
+          delivery_fee: number
+          id: string
+          is_active: boolean
+          min_order: number
+          name: string
+          next_day_cutoff: string
+          polygon: Json | null
+          postcodes: string[]
+          same_day_cutoff: string | null
+          updated_at: string
+        }[]
+      }
+      format_address: {
+        Args: {
+          _address: Database["public"]["Tables"]["addresses"]["Row"]
+        }
+        Returns: string
+      }
+      generate_pickup_code: {
+        Args: {
+          _date: string
+          _pickup_point_id: string
+        }
+        Returns: string
+      }
+      geocode_postcode: {
+        Args: {
+          _postcode: string
+        }
+        Returns: {
+          area: string
+          lat: number
+          lng: number
+          matched_prefix: string
+        }[]
+      }
+      get_delivery_slots: {
+        Args: {
+          _date: string
+          _zone_id: string
+        }
+        Returns: {
+          available: boolean
+          booked: number
+          capacity: number
+          end_time: string
+          reason: string
+          start_time: string
+          window_id: string
+        }[]
+      }
+      get_pickup_days: {
+        Args: {
+          _pickup_point_id: string
+        }
+        Returns: {
+          available: boolean
+          booked: number
+          capacity: number
+          closes_at: string
+          opens_at: string
+          pickup_date: string
+          reason: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_order_manager: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      meal_search_query: {
+        Args: {
+          _query: string
+        }
+        Returns: unknown
+      }
+      merge_cart: {
+        Args: {
+          _items: Json
+        }
+        Returns: undefined
+      }
+      modify_order: {
+        Args: {
+          _address_id: string
+          _delivery_date: string
+          _delivery_instructions: string
+          _delivery_window_id: string
+          _items: Json
+          _order_id: string
+        }
+        Returns: {
+          balance_due: number
+          changed_by: string | null
+          created_at: string
+          details: Json
+          id: string
+          kind: string
+          new_total: number
+          order_id: string
+          previous_total: number
+          reason: string | null
+          settlement: string
+          updated_at: string
+        }
+      }
+      modify_order_as: {
+        Args: {
+          _address_id: string
+          _delivery_date: string
+          _delivery_instructions: string
+          _delivery_window_id: string
+          _items: Json
+          _order_id: string
+          _user_id: string
+        }
+        Returns: {
+          balance_due: number
+          changed_by: string | null
+          created_at: string
+          details: Json
+          id: string
+          kind: string
+          new_total: number
+          order_id: string
+          previous_total: number
+          reason: string | null
+          settlement: string
+          updated_at: string
+        }
+      }
+      next_invoice_number: {
+        Args: {
+          _at?: string
+        }
+        Returns: string
+      }
+      normalize_option_ids: {
+        Args: {
+          _option_ids: string[]
+        }
+        Returns: string[]
+      }
+      order_balance: {
+        Args: {
+          _order_id: string
+        }
+        Returns: number
+      }
+      order_change_closed_reason: {
+        Args: {
+          _order: Database["public"]["Tables"]["orders"]["Row"]
+        }
+        Returns: string
+      }
+      order_change_deadline: {
+        Args: {
+          _date: string
+          _start: string
+          _zone_id: string
+        }
+        Returns: string
+      }
+      order_status_transition_allowed: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: boolean
+      }
+      pickup_closed_reason: {
+        Args: {
+          _date: string
+          _point: Database["public"]["Tables"]["pickup_points"]["Row"]
+        }
+        Returns: string
+      }
+      place_order: {
+        Args: {
+          _address_id: string
+          _delivery_date: string
+          _delivery_instructions?: string
+          _delivery_window_id: string
+          _items: Json
+          _promo_code?: string
+        }
+        Returns: {
+          address_id: string | null
+          created_at: string
+          delivery_address: string
+          delivery_address_snapshot: Json | null
+          delivery_coordinates_source: string | null
+          delivery_date: string | null
+          delivery_distance_km: number | null
+          delivery_fee: number
+          delivery_instructions: string | null
+          delivery_lat: number | null
+          delivery_lng: number | null
+          delivery_window_end: string | null
+          delivery_window_id: string | null
+          delivery_window_start: string | null
+          delivery_zone_id: string | null
+          discount_amount: number
+          einvoice_id: string | null
+          fulfilment_method: string
+          id: string
+          invoice_number: string | null
+          invoiced_at: string | null
+          payment_status: string
+          picked_up_at: string | null
+          picked_up_by: string | null
+          pickup_code: string | null
+          pickup_point_id: string | null
+          promo_code: string | null
+          promotion_id: string | null
+          service_charge: number
+          sst_amount: number
+          sst_rate: number
+          status: string
+          subtotal: number
+          total_price: number
+          tracking_token: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      place_pickup_order: {
+        Args: {
+          _items: Json
+          _pickup_date: string
+          _pickup_point_id: string
+          _promo_code?: string
+        }
+        Returns: {
+          address_id: string | null
+          created_at: string
+          delivery_address: string
+          delivery_address_snapshot: Json | null
+          delivery_coordinates_source: string | null
+          delivery_date: string | null
+          delivery_distance_km: number | null
+          delivery_fee: number
+          delivery_instructions: string | null
+          delivery_lat: number | null
+          delivery_lng: number | null
+          delivery_window_end: string | null
+          delivery_window_id: string | null
+          delivery_window_start: string | null
+          delivery_zone_id: string | null
+          discount_amount: number
+          einvoice_id: string | null
+          fulfilment_method: string
+          id: string
+          invoice_number: string | null
+          invoiced_at: string | null
+          payment_status: string
+          picked_up_at: string | null
+          picked_up_by: string | null
+          pickup_code: string | null
+          pickup_point_id: string | null
+          promo_code: string | null
+          promotion_id: string | null
+          service_charge: number
+          sst_amount: number
+          sst_rate: number
+          status: string
+          subtotal: number
+          total_price: number
+          tracking_token: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      point_in_polygon: {
+        Args: {
+          _lat: number
+          _lng: number
+          _polygon: Json
+        }
+        Returns: boolean
+      }
+      price_bowl: {
+        Args: {
+          _components: Json
+        }
+        Returns: {
+          allergens: string[]
+          calories: number
+          carbs: number
+          dietary_tags: string[]
+          fats: number
+          ingredients: string[]
+          name: string
+          price: number
+          problem: string
+          protein: number
+          signature: string
+        }[]
+      }
+      price_meal_line: {
+        Args: {
+          _meal_id: string
+          _option_ids: string[]
+        }
+        Returns: {
+          calories: number
+          carbs: number
+          fats: number
+          modifiers: Json
+          problem: string
+          protein: number
+          unit_price: number
+        }[]
+      }
+      promotion_discount: {
+        Args: {
+          _promotion: Database["public"]["Tables"]["promotions"]["Row"]
+          _subtotal: number
+        }
+        Returns: number
+      }
+      quote_order: {
+        Args: {
+          _address_id: string
+          _items: Json
+          _promo_code?: string
+        }
+        Returns: {
+          delivery_distance_km: number
+          delivery_fee: number
+          discount_amount: number
+          service_charge: number
+          sst_amount: number
+          sst_rate: number
+          subtotal: number
+          total_price: number
+        }[]
+      }
+      quote_pickup_order: {
+        Args: {
+          _items: Json
+          _pickup_point_id: string
+          _promo_code?: string
+        }
+        Returns: {
+          delivery_distance_km: number
+          delivery_fee: number
+          discount_amount: number
+          service_charge: number
+          sst_amount: number
+          sst_rate: number
+          subtotal: number
+          total_price: number
+        }[]
+      }
+      record_order_change: {
+        Args: {
+          _details: Json
+          _kind: string
+          _new_total: number
+          _order: Database["public"]["Tables"]["orders"]["Row"]
+          _reason: string
+        }
+        Returns: {
+          balance_due: number
+          changed_by: string | null
+          created_at: string
+          details: Json
+          id: string
+          kind: string
+          new_total: number
+          order_id: string
+          previous_total: number
+          reason: string | null
+          settlement: string
+          updated_at: string
+        }
+      }
+      replace_cart: {
+        Args: {
+          _items: Json
+        }
+        Returns: undefined
+      }
+      resolve_promotion: {
+        Args: {
+          _code: string
+          _lock?: boolean
+          _subtotal: number
+          _user_id: string
+        }
+        Returns: {
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          ends_at: string | null
+          first_order_only: boolean
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          min_spend: number
+          per_user_limit: number | null
+          starts_at: string
+          updated_at: string
+          usage_limit: number | null
+        }
+      }
+      search_meals: {
+        Args: {
+          _query?: string
+        }
+        Returns: {
+          allergens: string[]
+          bowl_signature: string | null
+          calories: number
+          carbs: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          dietary_tags: string[]
+          fats: number
+          fibre: number | null
+          id: string
+          image_url: string | null
+          image_urls: string[]
+          ingredients: string[]
+          is_available: boolean
+          is_custom_bowl: boolean
+          name: string
+          preparation_instructions: string | null
+          price: number
+          protein: number
+          protein_per_100kcal: number | null
+          protein_per_ringgit: number | null
+          reheating_instructions: string | null
+          search_vector: unknown
+          sodium: number | null
+          sugar: number | null
+          tags: string[]
+        }[]
+      }
+      set_cart_item: {
+        Args: {
+          _meal_id: string
+          _option_ids?: string[]
+          _quantity: number
+        }
+        Returns: undefined
+      }
+      set_delivery_coordinates: {
+        Args: {
+          _lat: number
+          _lng: number
+          _order_id: string
+          _update_address?: boolean
+        }
+        Returns: {
+          address_id: string | null
+          created_at: string
+          delivery_address: string
+          delivery_address_snapshot: Json | null
+          delivery_coordinates_source: string | null
+          delivery_date: string | null
+          delivery_distance_km: number | null
+          delivery_fee: number
+          delivery_instructions: string | null
+          delivery_lat: number | null
+          delivery_lng: number | null
+          delivery_window_end: string | null
+          delivery_window_id: string | null
+          delivery_window_start: string | null
+          delivery_zone_id: string | null
+          discount_amount: number
+          einvoice_id: string | null
+          fulfilment_method: string
+          id: string
+          invoice_number: string | null
+          invoiced_at: string | null
+          payment_status: string
+          picked_up_at: string | null
+          picked_up_by: string | null
+          pickup_code: string | null
+          pickup_point_id: string | null
+          promo_code: string | null
+          promotion_id: string | null
+          service_charge: number
+          sst_amount: number
+          sst_rate: number
+          status: string
+          subtotal: number
+          total_price: number
+          tracking_token: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      track_order: {
+        Args: {
+          _token: string
+        }
+        Returns: Json
+      }
+      validate_cart: {
+        Args: {
+          _items: Json
+        }
+        Returns: {
+          added_price: number
+          calories: number
+          carbs: number
+          fats: number
+          meal_id: string
+          modifiers: Json
+          name: string
+          option_ids: string[]
+          price: number
+          protein: number
+          quantity: number
+          status: string
+        }[]
       }
     }
     Enums: {
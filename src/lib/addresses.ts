@@ -0,0 +1,71 @@
+import { z } from "zod";
+
+export const malaysianStates = [
+  "Johor",
+  "Kedah",
+  "Kelantan",
+  "Melaka",
+  "Negeri Sembilan",
+  "Pahang",
+  "Perak",
+  "Perlis",
+  "Pulau Pinang",
+  "Sabah",
+  "Sarawak",
+  "Selangor",
+  "Terengganu",
+  "W.P. Kuala Lumpur",
+  "W.P. Labuan",
+  "W.P. Putrajaya",
+] as const;
+
+export type MalaysianState = (typeof malaysianStates)[number];
+
+export interface Address {
+  id: string;
+  label: string;
+  unit: string;
+  building: string | null;
+  street: string;
+  postcode: string;
+  city: string;
+  state: string;
+  delivery_notes: string | null;
+  is_default: boolean;
+  lat: number | null;
+  lng: number | null;
+}
+
+// Mirrors the CHECK constraints on public.addresses
+export const addressSchema = z.object({
+  label: z.string().trim().min(1, "give this address a label").max(40),
+  unit: z.string().trim().min(1, "unit / block number is required").max(40),
+  building: z.string().trim().max(100).optional(),
+  street: z.string().trim().min(1, "street is required").max(200),
+  postcode: z.string().trim().regex(/^\d{5}$/, "postcode must be 5 digits"),
+  city: z.string().trim().min(1, "city is required").max(100),
+  state: z.enum(malaysianStates, { errorMap: () => ({ message: "choose a state" }) }),
+  delivery_notes: z.string().trim().max(300, "notes must be 300 characters or less").optional(),
+  is_default: z.boolean(),
+});
+
+export type AddressInput = z.infer<typeof addressSchema>;
+
+export const emptyAddressInput: AddressInput = {
+  label: "home",
+  unit: "",
+  building: "",
+  street: "",
+  postcode: "",
+  city: "",
+  state: "W.P. Kuala Lumpur",
+  delivery_notes: "",
+  is_default: false,
+};
+
+// Same layout as public.format_address in the database
+export const formatAddress = (address: Pick<Address, "unit" | "building" | "street" | "postcode" | "city" | "state">) =>
+  [address.unit, address.building, address.street, `${address.postcode} ${address.city}`, address.state]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
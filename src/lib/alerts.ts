@@ -0,0 +1,22 @@
+// Short two-tone chime for new orders, generated so there's no audio asset to ship.
+// Browsers only allow it after the page has had a user interaction.
+export const playNewOrderSound = () => {
+  try {
+    const context = new AudioContext();
+    [880, 1320].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + index * 0.18;
+
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.3);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch {
+    // Audio isn't available; the toast is enough
+  }
+};
@@ -0,0 +1,137 @@
+import { supabase } from "@/integrations/supabase/client";
+import { diets } from "@/lib/dietary";
+import { startGuestSession } from "@/lib/guest";
+
+export type BowlUnit = "gram" | "portion";
+
+export interface BowlCategory {
+  id: string;
+  name: string;
+  min_choices: number;
+  max_choices: number;
+  sort_order: number;
+}
+
+// Price and macros are per 100 g for gram components, per portion otherwise
+export interface BowlComponent {
+  id: string;
+  category: string;
+  name: string;
+  unit: BowlUnit;
+  min_amount: number;
+  default_amount: number;
+  max_amount: number;
+  price: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  dietary_tags: string[];
+  allergens: string[];
+  is_available: boolean;
+  sort_order: number;
+}
+
+// component id -> grams or portions
+export type BowlSelection = Record<string, number>;
+
+export interface BowlTotals {
+  price: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  dietary_tags: string[];
+  allergens: string[];
+}
+
+export const bowlUnits: { value: BowlUnit; label: string }[] = [
+  { value: "gram", label: "by weight (per 100 g)" },
+  { value: "portion", label: "by portion" },
+];
+
+// Gram amounts move in steps of this many grams in the builder
+export const GRAM_STEP = 10;
+
+export const unitLabel = (unit: BowlUnit) => (unit === "gram" ? "per 100 g" : "per portion");
+
+export const formatAmount = (component: Pick<BowlComponent, "unit">, amount: number) =>
+  component.unit === "gram" ? `${amount}g` : amount === 1 ? "1 portion" : `${amount} portions`;
+
+const factor = (component: BowlComponent, amount: number) =>
+  component.unit === "gram" ? amount / 100 : amount;
+
+export const componentPrice = (component: BowlComponent, amount: number) =>
+  Number(component.price) * factor(component, amount);
+
+// Mirrors public.price_bowl, so the builder shows what the cart will charge
+export const bowlTotals = (components: BowlComponent[], selection: BowlSelection): BowlTotals => {
+  const chosen = components.filter((component) => selection[component.id]);
+  const sum = (value: (component: BowlComponent) => number) =>
+    chosen.reduce((total, component) => total + value(component) * factor(component, selection[component.id]), 0);
+
+  return {
+    price: Math.round(sum((c) => Number(c.price)) * 100) / 100,
+    calories: Math.round(sum((c) => Number(c.calories))),
+    protein: Math.round(sum((c) => Number(c.protein))),
+    carbs: Math.round(sum((c) => Number(c.carbs))),
+    fats: Math.round(sum((c) => Number(c.fats))),
+    dietary_tags:
+      chosen.length > 0
+        ? diets.map((d) => d.value).filter((diet) => chosen.every((c) => c.dietary_tags.includes(diet)))
+        : [],
+    allergens: Array.from(new Set(chosen.flatMap((c) => c.allergens))).sort(),
+  };
+};
+
+// The first reason the bowl can't be made yet, checked category by category
+// like public.price_bowl; null once it's ready for the cart
+export const bowlProblem = (categories: BowlCategory[], components: BowlComponent[], selection: BowlSelection) => {
+  const chosen = components.filter((component) => selection[component.id]);
+  if (chosen.length === 0) return "choose what goes in your bowl";
+
+  const tooLittle = chosen.filter((component) => selection[component.id] < component.min_amount);
+  if (tooLittle.length > 0) return `choose a larger amount of ${tooLittle.map((component) => component.name).join(", ")}`;
+
+  for (const category of categories) {
+    const count = chosen.filter((component) => component.category === category.id).length;
+    if (count < category.min_choices) return `choose at least ${category.min_choices} ${category.name}`;
+  }
+  for (const category of categories) {
+    const count = chosen.filter((component) => component.category === category.id).length;
+    if (count > category.max_choices) return `choose at most ${category.max_choices} ${category.name}`;
+  }
+  return null;
+};
+
+export const loadBowlBuilder = async () => {
+  const [categories, components] = await Promise.all([
+    supabase.from("bowl_categories").select("*").order("sort_order", { ascending: true }),
+    supabase
+      .from("bowl_components")
+      .select("*")
+      .eq("is_available", true)
+      .order("sort_order", { ascending: true })
+      .order("name", { ascending: true }),
+  ]);
+  return {
+    categories: (categories.data || []) as BowlCategory[],
+    components: (components.data || []) as BowlComponent[],
+    error: categories.error ?? components.error,
+  };
+};
+
+// Priced and checked by the database; returns the custom meal to put in the
+// cart. Visitors who aren't signed in get a guest session first.
+export const createBowl = async (selection: BowlSelection) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    const { error } = await startGuestSession();
+    if (error) return { mealId: null, error };
+  }
+
+  const { data, error } = await supabase.rpc("create_bowl", {
+    _components: Object.entries(selection).map(([component_id, amount]) => ({ component_id, amount })),
+  });
+  return { mealId: data ?? null, error };
+};
@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toCartLines, type Cart, type CartPrices } from "@/hooks/use-cart";
+import { cartLineKey, type LineModifier } from "@/lib/modifiers";
+
+export type CartLineStatus = "ok" | "unavailable" | "missing" | "price_changed";
+
+export interface ValidatedCartLine {
+  meal_id: string;
+  option_ids: string[];
+  modifiers: LineModifier[];
+  quantity: number;
+  // null when the meal no longer exists
+  name: string | null;
+  // Prices and macros include the chosen options
+  price: number | null;
+  added_price: number | null;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  status: CartLineStatus;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Checks every cart line against the current menu, including meals that
+// RLS would otherwise hide once they're taken off it. Ids that aren't even
+// well-formed come back as missing so they get cleaned out too.
+export const validateCart = async (cart: Cart, prices: CartPrices) => {
+  const lines = toCartLines(cart, prices);
+  const wellFormed = (line: (typeof lines)[number]) =>
+    UUID_PATTERN.test(line.meal_id) && line.option_ids.every((id) => UUID_PATTERN.test(id));
+  const malformed = lines.filter((line) => !wellFormed(line));
+  const { data, error } = await supabase.rpc("validate_cart", {
+    _items: lines.filter(wellFormed),
+  });
+
+  return {
+    lines: [
+      ...((data || []) as unknown as ValidatedCartLine[]),
+      ...malformed.map(
+        (line): ValidatedCartLine => ({
+          meal_id: line.meal_id,
+          option_ids: line.option_ids,
+          modifiers: [],
+          quantity: line.quantity,
+          name: null,
+          price: null,
+          added_price: null,
+          calories: 0,
+          protein: 0,
+          carbs: 0,
+          fats: 0,
+          status: "missing",
+        })
+      ),
+    ],
+    error,
+  };
+};
+
+export const lineKey = (line: Pick<ValidatedCartLine, "meal_id" | "option_ids">) =>
+  cartLineKey(line.meal_id, line.option_ids);
+
+// Lines the customer has to acknowledge before paying
+export const needsAcknowledgement = (line: ValidatedCartLine) =>
+  line.status === "unavailable" || line.status === "price_changed";
+
+// The cart after acknowledging: unavailable and missing meals dropped, and
+// changed prices accepted as the new reference
+export const acknowledgedCart = (lines: ValidatedCartLine[]) => {
+  const kept = lines.filter((line) => line.status === "ok" || line.status === "price_changed");
+  return {
+    cart: Object.fromEntries(kept.map((line) => [lineKey(line), line.quantity])) as Cart,
+    prices: Object.fromEntries(kept.map((line) => [lineKey(line), line.price as number])) as CartPrices,
+  };
+};
@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type Diet = "halal" | "vegetarian" | "vegan" | "gluten_free" | "dairy_free";
+
+export type Allergen = "peanuts" | "tree_nuts" | "milk" | "egg" | "fish" | "shellfish" | "soy" | "wheat" | "sesame";
+
+export const diets: { value: Diet; label: string }[] = [
+  { value: "halal", label: "halal-certified" },
+  { value: "vegetarian", label: "vegetarian" },
+  { value: "vegan", label: "vegan" },
+  { value: "gluten_free", label: "gluten-free" },
+  { value: "dairy_free", label: "dairy-free" },
+];
+
+export const allergens: { value: Allergen; label: string }[] = [
+  { value: "peanuts", label: "peanuts" },
+  { value: "tree_nuts", label: "tree nuts" },
+  { value: "milk", label: "milk" },
+  { value: "egg", label: "egg" },
+  { value: "fish", label: "fish" },
+  { value: "shellfish", label: "shellfish" },
+  { value: "soy", label: "soy" },
+  { value: "wheat", label: "wheat" },
+  { value: "sesame", label: "sesame" },
+];
+
+export const dietLabel = (diet: string) => diets.find((d) => d.value === diet)?.label ?? diet;
+
+export const allergenLabel = (allergen: string) => allergens.find((a) => a.value === allergen)?.label ?? allergen;
+
+export interface DietaryProfile {
+  diets: string[];
+  allergens: string[];
+  hide_unsafe: boolean;
+}
+
+export interface DietaryInfo {
+  dietary_tags: string[];
+  allergens: string[];
+}
+
+export const emptyDietaryProfile: DietaryProfile = { diets: [], allergens: [], hide_unsafe: false };
+
+// Reasons a meal doesn't suit the profile: allergens it contains, then diets
+// it isn't tagged for. Empty when the meal is safe to order.
+export const dietaryConflicts = (meal: DietaryInfo, profile: DietaryProfile | null) => {
+  if (!profile) return [];
+
+  return [
+    ...profile.allergens.filter((a) => meal.allergens.includes(a)).map((a) => `contains ${allergenLabel(a)}`),
+    ...profile.diets.filter((d) => !meal.dietary_tags.includes(d)).map((d) => `not ${dietLabel(d)}`),
+  ];
+};
+
+export const hasDietaryPreferences = (profile: DietaryProfile | null) =>
+  !!profile && (profile.diets.length > 0 || profile.allergens.length > 0);
+
+// The signed-in customer's profile, or null when they haven't saved one
+export const loadDietaryProfile = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { profile: null, error: null };
+
+  const { data, error } = await supabase
+    .from("dietary_profiles")
+    .select("diets, allergens, hide_unsafe")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  return { profile: data as DietaryProfile | null, error };
+};
+
+export const saveDietaryProfile = async (profile: DietaryProfile) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: new Error("sign in to save your dietary profile") };
+
+  const { error } = await supabase
+    .from("dietary_profiles")
+    .upsert({ user_id: user.id, ...profile, updated_at: new Date().toISOString() });
+  return { error };
+};
+
+// Dietary details for the meals in a cart, keyed by meal id
+export const loadMealDietaryInfo = async (mealIds: string[]) => {
+  if (mealIds.length === 0) return { info: {} as Record<string, DietaryInfo>, error: null };
+
+  const { data, error } = await supabase
+    .from("meals")
+    .select("id, dietary_tags, allergens")
+    .in("id", mealIds);
+  return {
+    info: Object.fromEntries((data || []).map(({ id, ...info }) => [id, info])) as Record<string, DietaryInfo>,
+    error,
+  };
+};
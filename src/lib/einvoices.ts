@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionError } from "@/lib/functions";
+
+export type BuyerIdType = "NRIC" | "BRN" | "PASSPORT" | "ARMY";
+
+export type EInvoiceStatus = "submitted" | "valid" | "invalid" | "rejected" | "cancelled";
+
+export const buyerIdTypes: { value: BuyerIdType; label: string }[] = [
+  { value: "NRIC", label: "mykad / mytentera (NRIC)" },
+  { value: "PASSPORT", label: "passport" },
+  { value: "BRN", label: "business registration (BRN)" },
+  { value: "ARMY", label: "army number" },
+];
+
+export const einvoiceStatusLabels: Record<EInvoiceStatus, string> = {
+  submitted: "submitted to LHDN",
+  valid: "validated by LHDN",
+  invalid: "failed LHDN validation",
+  rejected: "rejected by LHDN",
+  cancelled: "cancelled",
+};
+
+export interface EInvoiceBuyer {
+  name: string;
+  tin: string;
+  id_type: BuyerIdType;
+  id_number: string;
+  sst_number: string | null;
+  email: string | null;
+  phone: string;
+  address_id: string | null;
+}
+
+export interface EInvoice {
+  id: string;
+  kind: "individual" | "consolidated";
+  code: string;
+  order_id: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  adapter: string;
+  status: EInvoiceStatus;
+  document_uuid: string | null;
+  long_id: string | null;
+  errors: unknown;
+  created_at: string;
+}
+
+// Mirrors the CHECK constraints on public.einvoice_buyers
+export const einvoiceBuyerSchema = z.object({
+  name: z.string().trim().min(1, "name is required").max(300),
+  tin: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{1,2}[0-9]{8,13}$/, "enter your LHDN tax identification number, e.g. IG12345678090"),
+  id_type: z.enum(["NRIC", "BRN", "PASSPORT", "ARMY"]),
+  id_number: z.string().trim().min(1, "identity or registration number is required").max(30),
+  sst_number: z.string().trim().max(35).optional(),
+  email: z.union([z.string().trim().email("enter a valid email"), z.literal("")]).optional(),
+  phone: z.string().trim().regex(/^\+?[0-9 -]{7,20}$/, "enter a contact number"),
+  address_id: z.string().nullable(),
+});
+
+export type EInvoiceBuyerInput = z.infer<typeof einvoiceBuyerSchema>;
+
+// MyInvois share link for a validated document, printable as a QR code
+export const einvoiceValidationUrl = (einvoice: Pick<EInvoice, "adapter" | "document_uuid" | "long_id">) =>
+  einvoice.adapter === "myinvois" && einvoice.document_uuid && einvoice.long_id
+    ? `https://myinvois.hasil.gov.my/${einvoice.document_uuid}/share/${einvoice.long_id}`
+    : null;
+
+const submitEInvoice = async (body: { order_id: string } | { period: string }) => {
+  const { data, error } = await supabase.functions.invoke<EInvoice>("einvoice-submit", { body });
+  return { einvoice: data, error: error ? await readFunctionError(error) : null };
+};
+
+export const requestOrderEInvoice = (orderId: string) => submitEInvoice({ order_id: orderId });
+
+// period is a finished month, "YYYY-MM"
+export const submitConsolidatedEInvoice = (period: string) => submitEInvoice({ period });
@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import { describeModifiers, type LineModifier } from "@/lib/modifiers";
+
+export interface RunOrderItem {
+  id: string;
+  quantity: number;
+  modifiers: LineModifier[];
+  note: string | null;
+  meals: { name: string } | null;
+}
+
+export interface RunOrder {
+  id: string;
+  user_id: string;
+  status: string;
+  payment_status: string;
+  fulfilment_method: string;
+  delivery_address: string;
+  delivery_instructions: string | null;
+  delivery_lat: number | null;
+  delivery_lng: number | null;
+  delivery_window_start: string | null;
+  delivery_window_end: string | null;
+  pickup_code: string | null;
+  order_items: RunOrderItem[];
+  customer: { full_name: string | null; phone: string | null } | null;
+}
+
+export interface PrepLine {
+  name: string;
+  options: string;
+  quantity: number;
+  notes: string[];
+}
+
+// Paid orders the kitchen still has to cook; pending ones aren't paid for yet
+export const PREP_STATUSES = ["confirmed", "preparing"];
+
+// Deliveries still to make, including ones already on the road
+export const DELIVERY_STATUSES = ["confirmed", "preparing", "out_for_delivery"];
+
+const RUN_ORDER_SELECT =
+  "id, user_id, status, payment_status, fulfilment_method, delivery_address, delivery_instructions, delivery_lat, delivery_lng, delivery_window_start, delivery_window_end, pickup_code, order_items(id, quantity, modifiers, note, meals(name))";
+
+// A day's orders in slot order, with the customer's name and phone for the rider
+export const loadRunOrders = async (date: string, statuses: string[], fulfilmentMethod?: string) => {
+  let query = supabase
+    .from("orders")
+    .select(RUN_ORDER_SELECT)
+    .eq("delivery_date", date)
+    .in("status", statuses)
+    .order("delivery_window_start", { ascending: true, nullsFirst: false })
+    .order("created_at", { ascending: true });
+  if (fulfilmentMethod) {
+    query = query.eq("fulfilment_method", fulfilmentMethod);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    return { orders: [] as RunOrder[], error };
+  }
+
+  const rows = (data || []) as unknown as Omit<RunOrder, "customer">[];
+  const userIds = Array.from(new Set(rows.map((order) => order.user_id)));
+  const { data: profiles } = userIds.length
+    ? await supabase.from("profiles").select("id, full_name, phone").in("id", userIds)
+    : { data: [] };
+
+  const orders: RunOrder[] = rows.map((order) => ({
+    ...order,
+    customer: profiles?.find((profile) => profile.id === order.user_id) ?? null,
+  }));
+  return { orders, error: null };
+};
+
+// Totals per meal and set of options across the day, with every kitchen note
+// attached to the line it belongs to
+export const prepLines = (orders: RunOrder[]): PrepLine[] => {
+  const lines = new Map<string, PrepLine>();
+  for (const order of orders) {
+    for (const item of order.order_items) {
+      const name = item.meals?.name ?? "unknown meal";
+      const options = describeModifiers(item.modifiers);
+      const key = `${name}|${options}`;
+      const line = lines.get(key) ?? { name, options, quantity: 0, notes: [] };
+      line.quantity += item.quantity;
+      if (item.note) {
+        line.notes.push(`${item.quantity} × #${order.id.slice(0, 8)}: ${item.note}`);
+      }
+      lines.set(key, line);
+    }
+  }
+  return Array.from(lines.values()).sort((a, b) => a.name.localeCompare(b.name) || a.options.localeCompare(b.options));
+};
+
+export const mapsUrl = (order: Pick<RunOrder, "delivery_address" | "delivery_lat" | "delivery_lng">) =>
+  order.delivery_lat !== null && order.delivery_lng !== null
+    ? `https://www.google.com/maps/search/?api=1&query=${order.delivery_lat},${order.delivery_lng}`
+    : `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(order.delivery_address)}`;
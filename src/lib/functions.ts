@@ -0,0 +1,13 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// functions.invoke reports every non-2xx as "Edge Function returned a non-2xx
+// status code"; our functions put the reason in the JSON body, so surface it
+export const readFunctionError = async (error: Error) => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) {
+      return new Error(body.details?.length ? `${body.error}: ${body.details.join("; ")}` : body.error);
+    }
+  }
+  return error;
+};
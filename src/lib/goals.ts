@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface MacroGoals {
+  daily_calories: number;
+  daily_protein: number;
+  daily_carbs: number;
+  daily_fats: number;
+}
+
+// Shown until the customer saves their own goals
+export const defaultMacroGoals: MacroGoals = {
+  daily_calories: 2000,
+  daily_protein: 150,
+  daily_carbs: 200,
+  daily_fats: 65,
+};
+
+// The signed-in customer's daily goals, or the defaults
+export const loadMacroGoals = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return defaultMacroGoals;
+
+  const { data } = await supabase
+    .from("macro_goals")
+    .select("daily_calories, daily_protein, daily_carbs, daily_fats")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  return data ?? defaultMacroGoals;
+};
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionError } from "@/lib/functions";
+import type { LineModifier } from "@/lib/modifiers";
+import type { FulfilmentMethod } from "@/lib/pickup";
+import type { PriceBreakdown } from "@/lib/pricing";
+
+// Guests are anonymous Supabase users: signed in, but without an email or password
+export const isGuest = (user: Pick<User, "is_anonymous"> | null | undefined) => !!user?.is_anonymous;
+
+export const startGuestSession = () => supabase.auth.signInAnonymously();
+
+export const guestContactSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  email: z.string().trim().email("enter a valid email so we can send your order updates"),
+  phone: z.string().trim().regex(/^\+?[0-9 -]{7,20}$/, "enter a phone number our rider can reach you on"),
+});
+
+export type GuestContact = z.infer<typeof guestContactSchema>;
+
+export interface GuestOrderInput {
+  items: { meal_id: string; option_ids?: string[]; quantity: number; note?: string }[];
+  fulfilment_method: FulfilmentMethod;
+  // The delivery day, or the pickup day for self-collect orders
+  delivery_date: string;
+  address_id?: string;
+  delivery_window_id?: string;
+  delivery_instructions?: string;
+  pickup_point_id?: string;
+  promo_code?: string;
+  contact: GuestContact;
+}
+
+// Places the order server-side and emails the guest their tracking link
+export const placeGuestOrder = async (input: GuestOrderInput) => {
+  const { data, error } = await supabase.functions.invoke<{
+    order_id: string;
+    tracking_token: string;
+    email_sent: boolean;
+  }>("guest-checkout", { body: input });
+  return { order: data, error: error ? await readFunctionError(error) : null };
+};
+
+export const trackingUrl = (token: string) => `${window.location.origin}/track/${token}`;
+
+export interface TrackedOrder extends PriceBreakdown {
+  id: string;
+  status: string;
+  payment_status: string;
+  created_at: string;
+  fulfilment_method: FulfilmentMethod;
+  pickup_code: string | null;
+  delivery_address: string;
+  delivery_date: string | null;
+  delivery_window_start: string | null;
+  delivery_window_end: string | null;
+  promo_code: string | null;
+  items: { name: string | null; modifiers: LineModifier[]; quantity: number; price_at_purchase: number }[];
+  history: { to_status: string; created_at: string }[];
+}
+
+export const trackOrder = async (token: string) => {
+  const { data, error } = await supabase.rpc("track_order", { _token: token });
+  return { order: data as unknown as TrackedOrder | null, error };
+};
+
+// Links an email and password to the guest's anonymous user. The user id
+// stays the same, so their orders, addresses and cart come along.
+export const upgradeGuestAccount = async (email: string, password: string) => {
+  const { data, error } = await supabase.auth.updateUser(
+    { email, password },
+    { emailRedirectTo: `${window.location.origin}/orders` }
+  );
+  // new_email is set while the address still needs confirming
+  return { pendingConfirmation: !!data.user?.new_email, error };
+};
@@ -0,0 +1,166 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Meal {
+  id: string;
+  name: string;
+  description: string | null;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  price: number;
+  image_url: string | null;
+  tags: string[];
+  dietary_tags: string[];
+  allergens: string[];
+  protein_per_ringgit: number | null;
+  protein_per_100kcal: number | null;
+}
+
+export interface MealDetails extends Meal {
+  image_urls: string[];
+  ingredients: string[];
+  preparation_instructions: string | null;
+  reheating_instructions: string | null;
+  fibre: number | null;
+  sugar: number | null;
+  sodium: number | null;
+}
+
+export type RangeField = "calories" | "protein" | "carbs" | "fats" | "price";
+
+export interface Range {
+  min?: number;
+  max?: number;
+}
+
+export type MealSort =
+  | "relevance"
+  | "price_asc"
+  | "price_desc"
+  | "protein_per_ringgit"
+  | "protein_per_100kcal"
+  | "protein_desc"
+  | "calories_asc";
+
+export interface MealFilters {
+  q: string;
+  ranges: Partial<Record<RangeField, Range>>;
+  tags: string[];
+  sort: MealSort;
+}
+
+export const rangeFields: { field: RangeField; label: string; unit: string }[] = [
+  { field: "calories", label: "calories", unit: "kcal" },
+  { field: "protein", label: "protein", unit: "g" },
+  { field: "carbs", label: "carbs", unit: "g" },
+  { field: "fats", label: "fats", unit: "g" },
+  { field: "price", label: "price", unit: "RM" },
+];
+
+export const mealSortOptions: { value: MealSort; label: string; column?: string; ascending?: boolean }[] = [
+  { value: "relevance", label: "best match" },
+  { value: "protein_per_ringgit", label: "protein per ringgit", column: "protein_per_ringgit", ascending: false },
+  { value: "protein_per_100kcal", label: "protein per 100 kcal", column: "protein_per_100kcal", ascending: false },
+  { value: "protein_desc", label: "most protein", column: "protein", ascending: false },
+  { value: "calories_asc", label: "fewest calories", column: "calories", ascending: true },
+  { value: "price_asc", label: "price: low to high", column: "price", ascending: true },
+  { value: "price_desc", label: "price: high to low", column: "price", ascending: false },
+];
+
+export const emptyMealFilters: MealFilters = { q: "", ranges: {}, tags: [], sort: "relevance" };
+
+// Ranges are "min-max" with either end optional: ?protein=30-&price=-20
+const parseRange = (value: string | null): Range | undefined => {
+  const match = value?.match(/^(\d+(?:\.\d+)?)?-(\d+(?:\.\d+)?)?$/);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  return {
+    min: match[1] ? Number(match[1]) : undefined,
+    max: match[2] ? Number(match[2]) : undefined,
+  };
+};
+
+export const parseMealFilters = (params: URLSearchParams): MealFilters => {
+  const sort = params.get("sort") as MealSort | null;
+  const ranges: MealFilters["ranges"] = {};
+  for (const { field } of rangeFields) {
+    const range = parseRange(params.get(field));
+    if (range) ranges[field] = range;
+  }
+
+  return {
+    q: params.get("q") ?? "",
+    ranges,
+    tags: params.get("tags")?.split(",").filter(Boolean) ?? [],
+    sort: mealSortOptions.some((option) => option.value === sort) ? sort : "relevance",
+  };
+};
+
+export const toSearchParams = (filters: MealFilters) => {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set("q", filters.q);
+  for (const { field } of rangeFields) {
+    const range = filters.ranges[field];
+    if (range && (range.min !== undefined || range.max !== undefined)) {
+      params.set(field, `${range.min ?? ""}-${range.max ?? ""}`);
+    }
+  }
+  if (filters.tags.length > 0) params.set("tags", filters.tags.join(","));
+  if (filters.sort !== "relevance") params.set("sort", filters.sort);
+  return params;
+};
+
+export const hasActiveFilters = (filters: MealFilters) =>
+  toSearchParams({ ...filters, sort: "relevance" }).toString() !== "";
+
+// Text search runs as Postgres full-text search in search_meals; ranges, tags
+// and sorting are applied on top of its results. Without another sort the
+// best matches come first, then by name. Custom bowls never show on the menu.
+export const searchMeals = async (filters: MealFilters) => {
+  let query = supabase
+    .rpc("search_meals", { _query: filters.q.trim() || undefined })
+    .eq("is_available", true)
+    .eq("is_custom_bowl", false);
+
+  for (const { field } of rangeFields) {
+    const range = filters.ranges[field];
+    if (range?.min !== undefined) query = query.gte(field, range.min);
+    if (range?.max !== undefined) query = query.lte(field, range.max);
+  }
+
+  if (filters.tags.length > 0) {
+    query = query.contains("tags", filters.tags);
+  }
+
+  const sort = mealSortOptions.find((option) => option.value === filters.sort);
+  if (sort?.column) {
+    query = query.order(sort.column, { ascending: sort.ascending, nullsFirst: false }).order("name");
+  }
+
+  const { data, error } = await query;
+  return { meals: (data || []) as Meal[], error };
+};
+
+// Every tag used on the menu, for the filter bar
+export const loadMealTags = async () => {
+  const { data } = await supabase.from("meals").select("tags").eq("is_available", true).eq("is_custom_bowl", false);
+  return Array.from(new Set((data || []).flatMap((meal) => meal.tags))).sort();
+};
+
+// Loads one meal for its detail page. RLS hides meals that are off the menu,
+// so those come back as null just like unknown ids.
+export const loadMeal = async (id: string) => {
+  const { data, error } = await supabase.from("meals").select("*").eq("id", id).maybeSingle();
+  return { meal: data as MealDetails | null, error };
+};
+
+// The card image first, then the rest of the gallery
+export const mealImages = (meal: MealDetails) =>
+  [meal.image_url, ...meal.image_urls].filter((url): url is string => !!url);
+
+// Energy from each macro at 4 / 4 / 9 kcal per gram
+export const macroCalories = (meal: Pick<Meal, "protein" | "carbs" | "fats">) => [
+  { macro: "protein", grams: meal.protein, calories: meal.protein * 4 },
+  { macro: "carbs", grams: meal.carbs, calories: meal.carbs * 4 },
+  { macro: "fats", grams: meal.fats, calories: meal.fats * 9 },
+];
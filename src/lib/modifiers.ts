@@ -0,0 +1,105 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  price_delta: number;
+  calories_delta: number;
+  protein_delta: number;
+  carbs_delta: number;
+  fats_delta: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  // null lets customers pick any number of options
+  max_selections: number | null;
+  modifier_options: ModifierOption[];
+}
+
+// What an order line records about each chosen option, as built by
+// public.price_meal_line
+export interface LineModifier {
+  option_id: string;
+  group: string;
+  name: string;
+  price_delta: number;
+  calories_delta: number;
+  protein_delta: number;
+  carbs_delta: number;
+  fats_delta: number;
+}
+
+interface MealValues {
+  price: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+// Option ids are kept sorted and distinct, matching public.normalize_option_ids
+export const normalizeOptionIds = (optionIds: string[]) => Array.from(new Set(optionIds)).sort();
+
+// Cart lines are keyed by meal plus chosen options, so a large portion and a
+// regular one of the same meal sit on separate lines. Plain meals keep
+// their bare id as the key.
+export const cartLineKey = (mealId: string, optionIds: string[] = []) => {
+  const options = normalizeOptionIds(optionIds);
+  return options.length > 0 ? `${mealId}:${options.join(",")}` : mealId;
+};
+
+export const parseCartLineKey = (key: string) => {
+  const [mealId, options = ""] = key.split(":");
+  return { meal_id: mealId, option_ids: options.split(",").filter(Boolean) };
+};
+
+// The meal's price and macros with the chosen options' deltas added on
+export const applyModifiers = <T extends MealValues>(
+  meal: T,
+  options: Pick<ModifierOption, "price_delta" | "calories_delta" | "protein_delta" | "carbs_delta" | "fats_delta">[]
+): T =>
+  options.reduce(
+    (totals, option) => ({
+      ...totals,
+      price: totals.price + Number(option.price_delta),
+      calories: totals.calories + option.calories_delta,
+      protein: totals.protein + option.protein_delta,
+      carbs: totals.carbs + option.carbs_delta,
+      fats: totals.fats + option.fats_delta,
+    }),
+    meal
+  );
+
+export const describeModifiers = (modifiers: { name: string }[] | null | undefined) =>
+  (modifiers ?? []).map((modifier) => modifier.name).join(", ");
+
+// A meal's modifier groups with their options, in menu order
+export const loadModifierGroups = async (mealId: string) => {
+  const { data, error } = await supabase
+    .from("modifier_groups")
+    .select(
+      "id, name, max_selections, sort_order, modifier_options(id, name, price_delta, calories_delta, protein_delta, carbs_delta, fats_delta, sort_order)"
+    )
+    .eq("meal_id", mealId)
+    .order("sort_order", { ascending: true })
+    .order("sort_order", { referencedTable: "modifier_options", ascending: true });
+  return { groups: (data || []) as ModifierGroup[], error };
+};
+
+// Ids of meals that have options to choose from
+export const loadCustomisableMealIds = async () => {
+  const { data } = await supabase.from("modifier_groups").select("meal_id");
+  return new Set((data || []).map((group) => group.meal_id));
+};
+
+// Checks a selection against each group's limit; null when it can be ordered
+export const selectionProblem = (groups: ModifierGroup[], optionIds: string[]) => {
+  const over = groups.find(
+    (group) =>
+      group.max_selections !== null &&
+      group.modifier_options.filter((option) => optionIds.includes(option.id)).length > group.max_selections
+  );
+  return over ? `choose at most ${over.max_selections} from ${over.name}` : null;
+};
@@ -0,0 +1,206 @@
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionError } from "@/lib/functions";
+import { cartLineKey, type LineModifier } from "@/lib/modifiers";
+
+export type OrderStatus =
+  | "pending"
+  | "confirmed"
+  | "preparing"
+  | "out_for_delivery"
+  | "ready_for_pickup"
+  | "delivered"
+  | "cancelled"
+  | "failed";
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  pending: "pending",
+  confirmed: "confirmed",
+  preparing: "preparing",
+  out_for_delivery: "out for delivery",
+  ready_for_pickup: "ready for pickup",
+  delivered: "delivered",
+  cancelled: "cancelled",
+  failed: "failed",
+};
+
+// Mirrors public.order_status_transition_allowed; the database has the final say
+export const nextOrderStatuses: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled", "failed"],
+  confirmed: ["preparing", "cancelled"],
+  preparing: ["out_for_delivery", "ready_for_pickup", "cancelled"],
+  out_for_delivery: ["delivered", "failed"],
+  ready_for_pickup: ["delivered", "failed"],
+  delivered: [],
+  cancelled: [],
+  failed: [],
+};
+
+// Pickup orders skip the rider and are only marked delivered by checking their pickup code
+export const nextStatusesFor = (status: string, fulfilmentMethod: string) =>
+  (nextOrderStatuses[status as OrderStatus] || []).filter((next) =>
+    fulfilmentMethod === "pickup" ? next !== "out_for_delivery" && next !== "delivered" : next !== "ready_for_pickup"
+  );
+
+export const isClosedOrderStatus = (status: string) => nextOrderStatuses[status as OrderStatus]?.length === 0;
+
+export const formatOrderStatus = (status: string) => orderStatusLabels[status as OrderStatus] ?? status;
+
+// Matches the length checks on orders.delivery_instructions and order_items.note
+export const DELIVERY_INSTRUCTIONS_MAX = 300;
+export const ITEM_NOTE_MAX = 200;
+
+export interface OrderStatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export type ChangeSettlement = "none" | "payment_due" | "paid" | "refund_pending" | "refunded";
+
+export const changeSettlementLabels: Record<ChangeSettlement, string> = {
+  none: "",
+  payment_due: "difference to pay",
+  paid: "difference paid",
+  refund_pending: "refund pending",
+  refunded: "refunded",
+};
+
+export interface OrderChangeDetails {
+  items?: {
+    meal_id: string;
+    name: string | null;
+    modifiers?: string[];
+    note?: string | null;
+    from: number;
+    to: number;
+  }[];
+  address?: { from: string; to: string };
+  instructions?: { from: string | null; to: string | null };
+  slot?: {
+    from: { date: string | null; start: string | null; end: string | null };
+    to: { date: string; start: string; end: string };
+  };
+}
+
+export interface OrderChange {
+  id: string;
+  kind: "modified" | "cancelled";
+  changed_by: string | null;
+  details: OrderChangeDetails;
+  reason: string | null;
+  previous_total: number;
+  new_total: number;
+  balance_due: number;
+  settlement: ChangeSettlement;
+  created_at: string;
+}
+
+// Mirrors public.order_change_closed_reason: orders can be changed while
+// pending or confirmed, until the zone's cut-off before the delivery window.
+// Malaysia has no daylight saving, so the window start is fixed at +08:00.
+export const orderChangeDeadline = (date: string | null, windowStart: string | null, cutoffHours: number | null) => {
+  if (!date || !windowStart || cutoffHours === null) return null;
+  const start = new Date(`${date}T${windowStart.slice(0, 8)}+08:00`);
+  return new Date(start.getTime() - cutoffHours * 60 * 60 * 1000);
+};
+
+export const canChangeOrder = (status: string, deadline: Date | null) =>
+  (status === "pending" || status === "confirmed") && deadline !== null && Date.now() < deadline.getTime();
+
+export interface OrderChangeResult {
+  change_id: string;
+  settlement: "none" | "payment_due" | "refund_pending" | "refunded";
+  // What's left to pay, or what's being refunded
+  amount: number;
+}
+
+export interface ModifyOrderInput {
+  items: { meal_id: string; option_ids?: string[]; note?: string | null; quantity: number }[];
+  addressId: string;
+  deliveryDate: string;
+  deliveryWindowId: string;
+  // The full new text; empty clears it
+  deliveryInstructions: string;
+}
+
+export const modifyOrder = async (orderId: string, input: ModifyOrderInput) => {
+  const { data, error } = await supabase.functions.invoke<OrderChangeResult>("modify-order", {
+    body: {
+      order_id: orderId,
+      items: input.items,
+      address_id: input.addressId,
+      delivery_date: input.deliveryDate,
+      delivery_window_id: input.deliveryWindowId,
+      delivery_instructions: input.deliveryInstructions,
+    },
+  });
+  return { result: data, error: error ? await readFunctionError(error) : null };
+};
+
+export const cancelOrder = async (orderId: string, reason: string) => {
+  const { data, error } = await supabase.functions.invoke<OrderChangeResult>("cancel-order", {
+    body: { order_id: orderId, reason },
+  });
+  return { result: data, error: error ? await readFunctionError(error) : null };
+};
+
+export interface PastOrderItem {
+  meal_id: string;
+  option_ids: string[];
+  modifiers: LineModifier[];
+  quantity: number;
+  price_at_purchase: number;
+  meals: {
+    name: string;
+  } | null;
+}
+
+export interface CurrentMeal {
+  id: string;
+  name: string;
+  price: number;
+  is_available: boolean;
+}
+
+export interface ReorderResult {
+  cart: Record<string, number>;
+  unavailable: { mealId: string; name: string }[];
+  priceChanged: { mealId: string; name: string; oldPrice: number; newPrice: number }[];
+}
+
+// Rebuilds a cart from a past order against today's menu, flagging
+// lines that can no longer be ordered or now cost something different.
+// Prices are compared on the meal alone; option changes are caught when
+// checkout revalidates the cart.
+export const buildReorder = (items: PastOrderItem[], currentMeals: CurrentMeal[]): ReorderResult => {
+  const mealsById = new Map(currentMeals.map((meal) => [meal.id, meal]));
+  const result: ReorderResult = { cart: {}, unavailable: [], priceChanged: [] };
+
+  for (const item of items) {
+    const meal = mealsById.get(item.meal_id);
+    const name = meal?.name ?? item.meals?.name ?? "unknown meal";
+
+    if (!meal || !meal.is_available) {
+      result.unavailable.push({ mealId: item.meal_id, name });
+      continue;
+    }
+
+    const key = cartLineKey(item.meal_id, item.option_ids);
+    result.cart[key] = (result.cart[key] || 0) + item.quantity;
+
+    const optionsPrice = (item.modifiers ?? []).reduce((sum, modifier) => sum + Number(modifier.price_delta), 0);
+    const mealPriceAtPurchase = Number((item.price_at_purchase - optionsPrice).toFixed(2));
+    if (meal.price !== mealPriceAtPurchase) {
+      result.priceChanged.push({
+        mealId: item.meal_id,
+        name,
+        oldPrice: mealPriceAtPurchase,
+        newPrice: meal.price,
+      });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { OrderChangeResult } from "@/lib/orders";
+
+export type PaymentMethod = "fpx" | "duitnow_qr" | "card";
+
+export type PaymentStatus = "pending" | "paid" | "failed" | "refunded";
+
+export const paymentMethods: { value: PaymentMethod; label: string; description: string }[] = [
+  { value: "fpx", label: "fpx online banking", description: "pay from any malaysian bank account" },
+  { value: "duitnow_qr", label: "duitnow qr", description: "scan with your banking or e-wallet app" },
+  { value: "card", label: "debit / credit card", description: "visa, mastercard and amex" },
+];
+
+export const paymentReturnUrl = (orderId: string) =>
+  `${window.location.origin}/payment/return?order=${orderId}`;
+
+// Creates a payment attempt for the order and sends the browser to the provider
+export const startPayment = async (orderId: string, method: PaymentMethod) => {
+  const { data, error } = await supabase.functions.invoke<{ redirect_url: string }>("create-payment", {
+    body: { order_id: orderId, method, return_url: paymentReturnUrl(orderId) },
+  });
+
+  if (error || !data?.redirect_url) {
+    return { error: error ?? new Error("payment provider did not return a redirect") };
+  }
+
+  window.location.assign(data.redirect_url);
+  return { error: null };
+};
+
+export const refundPayment = async (orderId: string) => {
+  const { data, error } = await supabase.functions.invoke<{ status: "refunded" | "pending" }>("refund-payment", {
+    body: { order_id: orderId },
+  });
+  return { status: data?.status ?? null, error };
+};
+
+// Retries the refund or top-up after a customer change that didn't settle
+export const settleOrder = async (orderId: string) => {
+  const { data, error } = await supabase.functions.invoke<Omit<OrderChangeResult, "change_id">>("settle-order", {
+    body: { order_id: orderId },
+  });
+  return { settlement: data?.settlement ?? null, error };
+};
+
+// Used by the offline mock checkout page to report the simulated outcome
+export const sendMockPaymentEvent = (reference: string, status: PaymentStatus) =>
+  supabase.functions.invoke("payment-webhook?provider=mock", {
+    body: { reference, status },
+  });
@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+import { formatWindow } from "@/lib/slots";
+
+export type FulfilmentMethod = "delivery" | "pickup";
+
+export interface PickupPoint {
+  id: string;
+  name: string;
+  address: string;
+  instructions: string | null;
+  open_days: number[];
+  opens_at: string;
+  closes_at: string;
+  daily_capacity: number;
+  next_day_cutoff: string;
+  same_day_cutoff: string | null;
+  booking_horizon_days: number;
+  change_cutoff_hours: number;
+  is_active: boolean;
+}
+
+export interface PickupDay {
+  pickup_date: string;
+  opens_at: string;
+  closes_at: string;
+  capacity: number;
+  booked: number;
+  available: boolean;
+  reason: string | null;
+}
+
+// ISO weekdays, as stored in pickup_points.open_days
+export const weekdays = [
+  { value: 1, label: "mon" },
+  { value: 2, label: "tue" },
+  { value: 3, label: "wed" },
+  { value: 4, label: "thu" },
+  { value: 5, label: "fri" },
+  { value: 6, label: "sat" },
+  { value: 7, label: "sun" },
+];
+
+// [1, 2, 3, 4, 5] -> "mon – fri", [1, 3, 5] -> "mon, wed, fri"
+export const formatOpenDays = (days: number[]) => {
+  const sorted = [...days].sort((a, b) => a - b);
+  const label = (day: number) => weekdays.find((w) => w.value === day)?.label ?? String(day);
+  if (sorted.length === 7) return "every day";
+  const consecutive = sorted.every((day, index) => index === 0 || day === sorted[index - 1] + 1);
+  return consecutive && sorted.length > 2
+    ? `${label(sorted[0])} – ${label(sorted[sorted.length - 1])}`
+    : sorted.map(label).join(", ");
+};
+
+export const formatOpeningHours = (point: Pick<PickupPoint, "open_days" | "opens_at" | "closes_at">) =>
+  `${formatOpenDays(point.open_days)}, ${formatWindow(point.opens_at, point.closes_at)}`;
+
+export const getPickupDays = async (pickupPointId: string) => {
+  const { data, error } = await supabase.rpc("get_pickup_days", { _pickup_point_id: pickupPointId });
+  return { days: (data || []) as PickupDay[], error };
+};
+
+// Staff only; marks a paid, ready order as collected when the customer's code matches
+export const confirmPickup = async (orderId: string, code: string) => {
+  const { error } = await supabase.rpc("confirm_pickup", { _order_id: orderId, _code: code });
+  return { error };
+};
@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// The amounts an order is charged, as stored on orders and returned by quote_order
+export interface PriceBreakdown {
+  subtotal: number;
+  discount_amount: number;
+  service_charge: number;
+  delivery_fee: number;
+  delivery_distance_km: number | null;
+  sst_rate: number;
+  sst_amount: number;
+  total_price: number;
+}
+
+export type DeliveryFeeMode = "flat" | "zone" | "distance";
+
+export interface PricingSettings {
+  sst_rate: number;
+  sst_on_delivery: boolean;
+  service_charge_rate: number;
+  delivery_fee_mode: DeliveryFeeMode;
+  flat_delivery_fee: number;
+  kitchen_lat: number | null;
+  kitchen_lng: number | null;
+  distance_base_fee: number;
+  distance_fee_per_km: number;
+}
+
+export const deliveryFeeModes: { value: DeliveryFeeMode; label: string }[] = [
+  { value: "zone", label: "by delivery zone" },
+  { value: "flat", label: "flat fee" },
+  { value: "distance", label: "by distance from the kitchen" },
+];
+
+export const formatRM = (amount: number) => `RM ${amount.toFixed(2)}`;
+
+// 0.06 -> "6%"
+export const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+// Priced by the database so checkout shows exactly what place_order will charge.
+// An invalid promo code fails the whole quote with the reason as the error.
+export const quoteOrder = async (
+  items: { meal_id: string; option_ids?: string[]; quantity: number }[],
+  addressId: string,
+  promoCode?: string | null
+) => {
+  const { data, error } = await supabase.rpc("quote_order", {
+    _items: items,
+    _address_id: addressId,
+    _promo_code: promoCode || undefined,
+  });
+  return { quote: (data?.[0] as PriceBreakdown | undefined) ?? null, error };
+};
+
+// Self-collect orders have no delivery fee and need no address
+export const quotePickupOrder = async (
+  items: { meal_id: string; option_ids?: string[]; quantity: number }[],
+  pickupPointId: string,
+  promoCode?: string | null
+) => {
+  const { data, error } = await supabase.rpc("quote_pickup_order", {
+    _items: items,
+    _pickup_point_id: pickupPointId,
+    _promo_code: promoCode || undefined,
+  });
+  return { quote: (data?.[0] as PriceBreakdown | undefined) ?? null, error };
+};
@@ -0,0 +1,41 @@
+export type DiscountType = "percent" | "fixed" | "free_delivery";
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  max_discount: number | null;
+  min_spend: number;
+  starts_at: string;
+  ends_at: string | null;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  first_order_only: boolean;
+  is_active: boolean;
+}
+
+export const discountTypes: { value: DiscountType; label: string }[] = [
+  { value: "percent", label: "percent off" },
+  { value: "fixed", label: "RM off" },
+  { value: "free_delivery", label: "free delivery" },
+];
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+// "20% off (up to RM 15.00)", "RM 10.00 off", "free delivery"
+export const describeDiscount = (promotion: Pick<Promotion, "discount_type" | "discount_value" | "max_discount">) => {
+  if (promotion.discount_type === "free_delivery") return "free delivery";
+  if (promotion.discount_type === "fixed") return `RM ${promotion.discount_value.toFixed(2)} off`;
+  return promotion.max_discount
+    ? `${promotion.discount_value}% off (up to RM ${promotion.max_discount.toFixed(2)})`
+    : `${promotion.discount_value}% off`;
+};
+
+export const promotionState = (promotion: Promotion, now = new Date()) => {
+  if (!promotion.is_active) return "paused";
+  if (new Date(promotion.starts_at) > now) return "scheduled";
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) return "expired";
+  return "live";
+};
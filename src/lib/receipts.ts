@@ -0,0 +1,34 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// functions.invoke only hands back binary bodies sent as octet-stream, so the
+// PDF is fetched directly with the signed-in user's token
+export const downloadReceipt = async (orderId: string, invoiceNumber: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { error: new Error("not authenticated") };
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/order-receipt`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ order_id: orderId }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    return { error: new Error(body?.error ?? "could not generate receipt") };
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${invoiceNumber}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+
+  return { error: null };
+};
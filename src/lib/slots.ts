@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface DeliverySlot {
+  window_id: string;
+  start_time: string;
+  end_time: string;
+  capacity: number;
+  booked: number;
+  available: boolean;
+  reason: string | null;
+}
+
+export interface DeliveryWindow {
+  id: string;
+  zone_id: string;
+  start_time: string;
+  end_time: string;
+  capacity: number;
+  is_active: boolean;
+}
+
+// Delivery days and cut-offs follow Malaysia time, whatever the browser's timezone
+export const malaysiaToday = () => new Date().toLocaleDateString("en-CA", { timeZone: "Asia/Kuala_Lumpur" });
+
+// "YYYY-MM-DD" <-> local Date at midnight, for the calendar
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const toDateKey = (date: Date) =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, "0"), String(date.getDate()).padStart(2, "0")].join("-");
+
+export const addDays = (key: string, days: number) => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// "13:30:00" -> "1:30pm"
+export const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours >= 12 ? "pm" : "am";
+  const hour = hours % 12 || 12;
+  return minutes ? `${hour}:${String(minutes).padStart(2, "0")}${suffix}` : `${hour}${suffix}`;
+};
+
+export const formatWindow = (start: string, end: string) => `${formatTime(start)} – ${formatTime(end)}`;
+
+export const formatDeliveryDate = (key: string) =>
+  parseDateKey(key).toLocaleDateString("en-MY", { weekday: "short", day: "numeric", month: "short" });
+
+export const getDeliverySlots = async (zoneId: string, date: string) => {
+  const { data, error } = await supabase.rpc("get_delivery_slots", { _zone_id: zoneId, _date: date });
+  return { slots: (data || []) as DeliverySlot[], error };
+};
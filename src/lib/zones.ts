@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  postcodes: string[];
+  polygon: Json | null;
+  min_order: number;
+  delivery_fee: number;
+  is_active: boolean;
+  next_day_cutoff: string;
+  same_day_cutoff: string | null;
+  booking_horizon_days: number;
+  change_cutoff_hours: number;
+}
+
+export interface PolygonPoint {
+  lat: number;
+  lng: number;
+}
+
+// Zone serving a postcode, using its bundled centroid for polygon zones
+export const checkServiceability = async (postcode: string) => {
+  const { data, error } = await supabase.rpc("check_serviceability", { _postcode: postcode });
+  return { zone: (data?.[0] as DeliveryZone | undefined) ?? null, error };
+};
+
+// Zone serving a saved address, using its stored coordinates
+export const findZoneForAddress = async (address: { postcode: string; lat: number | null; lng: number | null }) => {
+  const { data, error } = await supabase.rpc("find_delivery_zone", {
+    _postcode: address.postcode,
+    _lat: address.lat,
+    _lng: address.lng,
+  });
+  return { zone: (data?.[0] as DeliveryZone | undefined) ?? null, error };
+};
+
+// Splits on commas, spaces or new lines; returns valid postcodes and rejected tokens
+export const parsePostcodeList = (text: string) => {
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  const postcodes = Array.from(new Set(tokens.filter((t) => /^\d{5}$/.test(t)))).sort();
+  const invalid = tokens.filter((t) => !/^\d{5}$/.test(t));
+  return { postcodes, invalid };
+};
+
+// Accepts [[lat, lng], ...] or [{ lat, lng }, ...]; throws on anything else
+export const parsePolygon = (text: string): PolygonPoint[] | null => {
+  if (!text.trim()) return null;
+
+  const raw = JSON.parse(text);
+  if (!Array.isArray(raw) || raw.length < 3) {
+    throw new Error("polygon needs at least 3 points");
+  }
+
+  return raw.map((point) => {
+    const lat = Array.isArray(point) ? point[0] : point?.lat;
+    const lng = Array.isArray(point) ? point[1] : point?.lng;
+    if (typeof lat !== "number" || typeof lng !== "number") {
+      throw new Error("each polygon point needs a numeric lat and lng");
+    }
+    return { lat, lng };
+  });
+};
@@ -4,23 +4,68 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ArrowLeft, ChevronDown, ClipboardList, MapPin, MessageSquareWarning, Truck } from "lucide-react";
+import { DeliveryZonesManager } from "@/components/admin/DeliveryZonesManager";
+import { PricingSettingsManager } from "@/components/admin/PricingSettingsManager";
+import { PickupPointsManager } from "@/components/admin/PickupPointsManager";
+import { PromotionsManager } from "@/components/admin/PromotionsManager";
+import { EInvoicesManager } from "@/components/admin/EInvoicesManager";
+import { BowlComponentsManager } from "@/components/admin/BowlComponentsManager";
+import { OrderChangesList } from "@/components/OrderChangesList";
+import { OrderStatusBadges } from "@/components/OrderStatusBadges";
+import { OrderStatusTimeline } from "@/components/OrderStatusTimeline";
+import { PriceBreakdownLines } from "@/components/PriceBreakdownLines";
+import { ReceiptButton } from "@/components/ReceiptButton";
+import { formatOrderStatus, isClosedOrderStatus, nextStatusesFor } from "@/lib/orders";
+import { describeModifiers, type LineModifier } from "@/lib/modifiers";
+import { playNewOrderSound } from "@/lib/alerts";
+import { refundPayment, settleOrder } from "@/lib/payments";
+import { confirmPickup } from "@/lib/pickup";
+import type { PriceBreakdown } from "@/lib/pricing";
+import { formatDeliveryDate, formatWindow } from "@/lib/slots";
 
-interface Order {
+interface Order extends PriceBreakdown {
   id: string;
-  total_price: number;
+  user_id: string;
+  promo_code: string | null;
+  invoice_number: string | null;
   status: string;
+  fulfilment_method: string;
+  picked_up_at: string | null;
   delivery_address: string;
+  delivery_instructions: string | null;
+  delivery_lat: number | null;
+  delivery_lng: number | null;
+  delivery_coordinates_source: string | null;
+  delivery_date: string | null;
+  delivery_window_start: string | null;
+  delivery_window_end: string | null;
   payment_status: string;
   created_at: string;
   profiles: {
     email: string;
     full_name: string | null;
+    is_guest: boolean;
   };
+  order_items: OrderItem[];
 }
 
+interface OrderItem {
+  id: string;
+  quantity: number;
+  modifiers: LineModifier[];
+  note: string | null;
+  meals: { name: string } | null;
+}
+
+type OrderRow = Omit<Order, "profiles" | "order_items"> & { order_items?: OrderItem[] };
+
+const ORDER_ITEMS_SELECT = "id, quantity, modifiers, note, meals(name)";
+
 const Admin = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -32,6 +77,37 @@ const Admin = () => {
     checkAdminAccess();
   }, []);
 
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const channel = supabase
+      .channel("admin-orders")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "orders" }, async (payload) => {
+        const order = await withProfile(payload.new as OrderRow);
+        setOrders((current) => (current.some((o) => o.id === order.id) ? current : [order, ...current]));
+        playNewOrderSound();
+        toast({
+          title: "new order",
+          description: `order #${order.id.slice(0, 8)} from ${order.profiles.email}`,
+        });
+      })
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "orders" }, async (payload) => {
+        const row = payload.new as OrderRow;
+        setOrders((current) => current.map((o) => (o.id === row.id ? { ...o, ...row } : o)));
+        // Customers can change their items before the cut-off
+        const items = await loadOrderItems(row.id);
+        setOrders((current) => current.map((o) => (o.id === row.id ? { ...o, order_items: items } : o)));
+      })
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "orders" }, (payload) => {
+        setOrders((current) => current.filter((o) => o.id !== payload.old.id));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isAdmin]);
+
   const checkAdminAccess = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
@@ -63,7 +139,7 @@ const Admin = () => {
   const loadOrders = async () => {
     const { data: ordersData, error } = await supabase
       .from("orders")
-      .select("*")
+      .select(`*, order_items(${ORDER_ITEMS_SELECT})`)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -76,25 +152,32 @@ const Admin = () => {
       return;
     }
 
-    const ordersWithProfiles = await Promise.all(
-      (ordersData || []).map(async (order) => {
-        const { data: profile } = await supabase
-          .from("profiles")
-          .select("email, full_name")
-          .eq("id", order.user_id)
-          .single();
-
-        return {
-          ...order,
-          profiles: profile || { email: "unknown", full_name: null },
-        };
-      })
-    );
+    const ordersWithProfiles = await Promise.all(((ordersData || []) as unknown as OrderRow[]).map(withProfile));
 
     setOrders(ordersWithProfiles);
     setLoading(false);
   };
 
+  const withProfile = async (order: OrderRow): Promise<Order> => {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("email, full_name, is_guest")
+      .eq("id", order.user_id)
+      .single();
+
+    return {
+      ...order,
+      // Realtime rows arrive without their items
+      order_items: order.order_items ?? (await loadOrderItems(order.id)),
+      profiles: profile || { email: "unknown", full_name: null, is_guest: false },
+    };
+  };
+
+  const loadOrderItems = async (orderId: string) => {
+    const { data } = await supabase.from("order_items").select(ORDER_ITEMS_SELECT).eq("order_id", orderId);
+    return (data || []) as unknown as OrderItem[];
+  };
+
   const updateOrderStatus = async (orderId: string, status: string) => {
     const { error } = await supabase
       .from("orders")
@@ -110,12 +193,102 @@ const Admin = () => {
     } else {
       toast({
         title: "order updated",
-        description: `order status changed to ${status}`,
+        description: `order status changed to ${formatOrderStatus(status)}`,
+      });
+      loadOrders();
+    }
+  };
+
+  const setCoordinates = async (orderId: string, lat: number, lng: number) => {
+    const { error } = await supabase.rpc("set_delivery_coordinates", {
+      _order_id: orderId,
+      _lat: lat,
+      _lng: lng,
+    });
+
+    if (error) {
+      toast({
+        title: "error updating coordinates",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: "coordinates updated",
+      description: "the order and its saved address now use these coordinates",
+    });
+    loadOrders();
+    return true;
+  };
+
+  const handOverPickup = async (orderId: string, code: string) => {
+    const { error } = await confirmPickup(orderId, code);
+
+    if (error) {
+      toast({
+        title: "pickup not confirmed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: "order handed over",
+      description: `order #${orderId.slice(0, 8)} has been collected`,
+    });
+    loadOrders();
+    return true;
+  };
+
+  const refundOrder = async (orderId: string) => {
+    const { status, error } = await refundPayment(orderId);
+
+    if (error) {
+      toast({
+        title: "error refunding order",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: status === "refunded" ? "order refunded" : "refund requested",
+        description:
+          status === "refunded"
+            ? "the payment has been refunded"
+            : "the provider will confirm the refund shortly",
       });
       loadOrders();
     }
   };
 
+  const retrySettlement = async (orderId: string) => {
+    const { settlement, error } = await settleOrder(orderId);
+
+    if (error) {
+      toast({
+        title: "error settling order",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title:
+          settlement === "refunded"
+            ? "refund sent"
+            : settlement === "refund_pending"
+              ? "refund requested"
+              : "nothing left to refund",
+        description:
+          settlement === "refund_pending"
+            ? "the provider will confirm the refund shortly"
+            : `order #${orderId.slice(0, 8)} is settled`,
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -128,8 +301,20 @@ const Admin = () => {
     return null;
   }
 
-  const pendingOrders = orders.filter((o) => o.status === "pending");
-  const completedOrders = orders.filter((o) => o.status === "completed");
+  const renderOrderCard = (order: Order) => (
+    <OrderCard
+      key={order.id}
+      order={order}
+      onStatusChange={updateOrderStatus}
+      onRefund={refundOrder}
+      onRetrySettlement={retrySettlement}
+      onSetCoordinates={setCoordinates}
+      onHandOver={handOverPickup}
+    />
+  );
+
+  const openOrders = orders.filter((o) => !isClosedOrderStatus(o.status));
+  const closedOrders = orders.filter((o) => isClosedOrderStatus(o.status));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
@@ -138,35 +323,75 @@ const Admin = () => {
           <Button variant="outline" onClick={() => navigate("/dashboard")} size="icon">
             <ArrowLeft className="w-4 h-4" />
           </Button>
-          <div>
+          <div className="flex-1">
             <h1 className="text-4xl font-bold mb-2">admin panel</h1>
             <p className="text-muted-foreground">manage orders and deliveries</p>
           </div>
+          <Button variant="outline" onClick={() => navigate("/admin/prep")} className="gap-2">
+            <ClipboardList className="w-4 h-4" />
+            prep list
+          </Button>
+          <Button variant="outline" onClick={() => navigate("/admin/deliveries")} className="gap-2">
+            <Truck className="w-4 h-4" />
+            deliveries
+          </Button>
         </div>
 
-        <Tabs defaultValue="all" className="w-full">
-          <TabsList>
-            <TabsTrigger value="all">all orders ({orders.length})</TabsTrigger>
-            <TabsTrigger value="pending">pending ({pendingOrders.length})</TabsTrigger>
-            <TabsTrigger value="completed">completed ({completedOrders.length})</TabsTrigger>
+        <Tabs defaultValue="orders" className="w-full">
+          <TabsList className="mb-4">
+            <TabsTrigger value="orders">orders</TabsTrigger>
+            <TabsTrigger value="zones">delivery zones</TabsTrigger>
+            <TabsTrigger value="pickup">pickup points</TabsTrigger>
+            <TabsTrigger value="pricing">pricing</TabsTrigger>
+            <TabsTrigger value="promotions">promotions</TabsTrigger>
+            <TabsTrigger value="einvoices">e-invoices</TabsTrigger>
+            <TabsTrigger value="bowls">bowl builder</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="all" className="space-y-4">
-            {orders.map((order) => (
-              <OrderCard key={order.id} order={order} onStatusChange={updateOrderStatus} />
-            ))}
+          <TabsContent value="orders">
+            <Tabs defaultValue="all" className="w-full">
+              <TabsList>
+                <TabsTrigger value="all">all orders ({orders.length})</TabsTrigger>
+                <TabsTrigger value="open">open ({openOrders.length})</TabsTrigger>
+                <TabsTrigger value="closed">closed ({closedOrders.length})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="all" className="space-y-4">
+                {orders.map(renderOrderCard)}
+              </TabsContent>
+
+              <TabsContent value="open" className="space-y-4">
+                {openOrders.map(renderOrderCard)}
+              </TabsContent>
+
+              <TabsContent value="closed" className="space-y-4">
+                {closedOrders.map(renderOrderCard)}
+              </TabsContent>
+            </Tabs>
           </TabsContent>
 
-          <TabsContent value="pending" className="space-y-4">
-            {pendingOrders.map((order) => (
-              <OrderCard key={order.id} order={order} onStatusChange={updateOrderStatus} />
-            ))}
+          <TabsContent value="zones">
+            <DeliveryZonesManager />
           </TabsContent>
 
-          <TabsContent value="completed" className="space-y-4">
-            {completedOrders.map((order) => (
-              <OrderCard key={order.id} order={order} onStatusChange={updateOrderStatus} />
-            ))}
+          <TabsContent value="pickup">
+            <PickupPointsManager />
+          </TabsContent>
+
+          <TabsContent value="pricing">
+            <PricingSettingsManager />
+          </TabsContent>
+
+          <TabsContent value="promotions">
+            <PromotionsManager />
+          </TabsContent>
+
+          <TabsContent value="einvoices">
+            <EInvoicesManager />
+          </TabsContent>
+
+          <TabsContent value="bowls">
+            <BowlComponentsManager />
           </TabsContent>
         </Tabs>
       </div>
@@ -177,10 +402,20 @@ const Admin = () => {
 const OrderCard = ({
   order,
   onStatusChange,
+  onRefund,
+  onRetrySettlement,
+  onSetCoordinates,
+  onHandOver,
 }: {
   order: Order;
   onStatusChange: (id: string, status: string) => void;
+  onRefund: (id: string) => void;
+  onRetrySettlement: (id: string) => void;
+  onSetCoordinates: (id: string, lat: number, lng: number) => Promise<boolean>;
+  onHandOver: (id: string, code: string) => Promise<boolean>;
 }) => {
+  const pickup = order.fulfilment_method === "pickup";
+
   return (
     <Card className="border-primary/20">
       <CardHeader>
@@ -190,63 +425,222 @@ const OrderCard = ({
             <p className="text-sm text-muted-foreground mt-1">
               {order.profiles?.email || "unknown"}
               {order.profiles?.full_name && ` • ${order.profiles.full_name}`}
+              {order.profiles?.is_guest && " • guest"}
             </p>
           </div>
-          <div className="flex gap-2">
-            <Badge variant={order.status === "completed" ? "default" : "secondary"}>
-              {order.status}
-            </Badge>
-            <Badge variant={order.payment_status === "paid" ? "default" : "secondary"}>
-              {order.payment_status}
-            </Badge>
+          <div className="flex items-center gap-2">
+            {pickup && <Badge variant="outline">self-collect</Badge>}
+            <OrderStatusBadges status={order.status} paymentStatus={order.payment_status} />
           </div>
         </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">total:</span>
-            <span className="font-medium">RM {order.total_price.toFixed(2)}</span>
-          </div>
-          <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">delivery address:</span>
+            <span className="text-muted-foreground">{pickup ? "pickup point:" : "delivery address:"}</span>
             <span className="font-medium text-right max-w-xs">{order.delivery_address}</span>
           </div>
+          {order.delivery_instructions && (
+            <div className="flex items-start gap-2 rounded-md border border-primary/40 bg-primary/10 p-2 text-sm">
+              <MessageSquareWarning className="w-4 h-4 mt-0.5 shrink-0" />
+              <span className="font-medium">{order.delivery_instructions}</span>
+            </div>
+          )}
+          {!pickup && <CoordinatesRow order={order} onSave={onSetCoordinates} />}
+          {order.delivery_date && (
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{pickup ? "pickup day:" : "delivery slot:"}</span>
+              <span className="font-medium">
+                {formatDeliveryDate(order.delivery_date)}
+                {order.delivery_window_start &&
+                  order.delivery_window_end &&
+                  `, ${formatWindow(order.delivery_window_start, order.delivery_window_end)}`}
+              </span>
+            </div>
+          )}
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">ordered:</span>
             <span className="font-medium">{new Date(order.created_at).toLocaleDateString()}</span>
           </div>
+          <ul className="border-t pt-2 space-y-1 text-sm">
+            {order.order_items.map((item) => (
+              <li key={item.id}>
+                <span className="font-medium">
+                  {item.quantity} × {item.meals?.name ?? "unknown meal"}
+                </span>
+                {item.modifiers.length > 0 && (
+                  <span className="text-muted-foreground"> · {describeModifiers(item.modifiers)}</span>
+                )}
+                {item.note && (
+                  <span className="ml-2 rounded bg-accent px-1.5 py-0.5 text-accent-foreground">{item.note}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="border-t pt-2">
+            <PriceBreakdownLines breakdown={order} promoCode={order.promo_code} />
+          </div>
         </div>
         <div className="flex gap-2 mt-4">
-          {order.status === "pending" && (
-            <>
-              <Button
-                size="sm"
-                onClick={() => onStatusChange(order.id, "processing")}
-              >
-                mark processing
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => onStatusChange(order.id, "completed")}
-              >
-                mark completed
-              </Button>
-            </>
-          )}
-          {order.status === "processing" && (
+          {nextStatusesFor(order.status, order.fulfilment_method).map((status, index) => (
+            <Button
+              key={status}
+              size="sm"
+              variant={index === 0 ? "default" : "outline"}
+              onClick={() => onStatusChange(order.id, status)}
+            >
+              mark {formatOrderStatus(status)}
+            </Button>
+          ))}
+          {order.payment_status === "paid" && (
             <Button
               size="sm"
-              onClick={() => onStatusChange(order.id, "completed")}
+              variant="destructive"
+              onClick={() => onRefund(order.id)}
             >
-              mark completed
+              refund
             </Button>
           )}
+          {order.invoice_number && <ReceiptButton orderId={order.id} invoiceNumber={order.invoice_number} />}
         </div>
+        {pickup && order.status === "ready_for_pickup" && (
+          <PickupHandover orderId={order.id} paid={order.payment_status === "paid"} onHandOver={onHandOver} />
+        )}
+        {pickup && order.picked_up_at && (
+          <p className="text-sm text-muted-foreground mt-4">
+            collected {new Date(order.picked_up_at).toLocaleString()}
+          </p>
+        )}
+        <Collapsible className="mt-4">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-1 px-0 text-muted-foreground">
+              status history
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2">
+            <OrderStatusTimeline orderId={order.id} customerId={order.user_id} />
+          </CollapsibleContent>
+        </Collapsible>
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-1 px-0 text-muted-foreground">
+              customer changes
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2">
+            <OrderChangesList
+              orderId={order.id}
+              customerId={order.user_id}
+              onRetrySettlement={() => onRetrySettlement(order.id)}
+            />
+          </CollapsibleContent>
+        </Collapsible>
       </CardContent>
     </Card>
   );
 };
 
+// Staff type in the code the customer shows; the order is only handed over if it matches
+const PickupHandover = ({
+  orderId,
+  paid,
+  onHandOver,
+}: {
+  orderId: string;
+  paid: boolean;
+  onHandOver: (id: string, code: string) => Promise<boolean>;
+}) => {
+  const [code, setCode] = useState("");
+  const [checking, setChecking] = useState(false);
+
+  const handleHandOver = async () => {
+    setChecking(true);
+    if (await onHandOver(orderId, code.trim())) {
+      setCode("");
+    }
+    setChecking(false);
+  };
+
+  return (
+    <div className="mt-4 space-y-1">
+      <div className="flex items-center gap-2">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+          onKeyDown={(e) => e.key === "Enter" && code.length === 6 && handleHandOver()}
+          placeholder="pickup code"
+          inputMode="numeric"
+          maxLength={6}
+          className="h-8 w-32 font-mono tracking-widest"
+        />
+        <Button size="sm" onClick={handleHandOver} disabled={checking || code.length !== 6 || !paid}>
+          {checking ? "checking..." : "hand over"}
+        </Button>
+      </div>
+      {!paid && <p className="text-xs text-destructive">not paid yet; the customer needs to pay before collecting</p>}
+    </div>
+  );
+};
+
+const CoordinatesRow = ({
+  order,
+  onSave,
+}: {
+  order: Order;
+  onSave: (id: string, lat: number, lng: number) => Promise<boolean>;
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [lat, setLat] = useState("");
+  const [lng, setLng] = useState("");
+
+  const startEditing = () => {
+    setLat(order.delivery_lat?.toString() ?? "");
+    setLng(order.delivery_lng?.toString() ?? "");
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    const parsedLat = parseFloat(lat);
+    const parsedLng = parseFloat(lng);
+    if (Number.isNaN(parsedLat) || Number.isNaN(parsedLng)) return;
+    if (await onSave(order.id, parsedLat, parsedLng)) {
+      setEditing(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <Input value={lat} onChange={(e) => setLat(e.target.value)} placeholder="lat" className="h-8" />
+        <Input value={lng} onChange={(e) => setLng(e.target.value)} placeholder="lng" className="h-8" />
+        <Button size="sm" onClick={handleSave}>
+          save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+          cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-between items-center text-sm">
+      <span className="text-muted-foreground">coordinates:</span>
+      <span className="flex items-center gap-2 font-medium">
+        {order.delivery_lat !== null && order.delivery_lng !== null
+          ? `${order.delivery_lat.toFixed(5)}, ${order.delivery_lng.toFixed(5)}`
+          : "not located"}
+        {order.delivery_coordinates_source && (
+          <Badge variant="outline">{order.delivery_coordinates_source}</Badge>
+        )}
+        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={startEditing}>
+          <MapPin className="w-3 h-3" />
+        </Button>
+      </span>
+    </div>
+  );
+};
+
 export default Admin;
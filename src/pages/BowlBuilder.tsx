@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
+import {
+  bowlProblem,
+  bowlTotals,
+  componentPrice,
+  createBowl,
+  formatAmount,
+  GRAM_STEP,
+  loadBowlBuilder,
+  unitLabel,
+  type BowlCategory,
+  type BowlComponent,
+  type BowlSelection,
+} from "@/lib/bowls";
+import { allergenLabel, dietaryConflicts, loadDietaryProfile, type DietaryProfile } from "@/lib/dietary";
+import { defaultMacroGoals, loadMacroGoals, type MacroGoals } from "@/lib/goals";
+import { formatRM } from "@/lib/pricing";
+import { AlertTriangle, ArrowLeft, Minus, Plus, ShoppingCart } from "lucide-react";
+
+const choiceHint = (category: BowlCategory) =>
+  category.min_choices > 0
+    ? category.min_choices === category.max_choices
+      ? `choose ${category.min_choices}`
+      : `choose ${category.min_choices} to ${category.max_choices}`
+    : `up to ${category.max_choices}`;
+
+const BowlBuilder = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { itemCount: cartItemCount, addItem } = useCart();
+  const [categories, setCategories] = useState<BowlCategory[]>([]);
+  const [components, setComponents] = useState<BowlComponent[]>([]);
+  const [goals, setGoals] = useState<MacroGoals>(defaultMacroGoals);
+  const [profile, setProfile] = useState<DietaryProfile | null>(null);
+  const [selection, setSelection] = useState<BowlSelection>({});
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    loadBuilder();
+  }, []);
+
+  const loadBuilder = async () => {
+    const [{ categories, components, error }, goals, { profile }] = await Promise.all([
+      loadBowlBuilder(),
+      loadMacroGoals(),
+      loadDietaryProfile(),
+    ]);
+
+    if (error) {
+      toast({
+        title: "error loading bowl builder",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+    setCategories(categories);
+    setComponents(components);
+    setGoals(goals);
+    setProfile(profile);
+    setLoading(false);
+  };
+
+  const setAmount = (component: BowlComponent, amount: number) => {
+    setSelection((current) => {
+      const next = { ...current };
+      if (amount > 0) {
+        next[component.id] = Math.min(amount, component.max_amount);
+      } else {
+        delete next[component.id];
+      }
+      return next;
+    });
+  };
+
+  const totals = bowlTotals(components, selection);
+  const problem = bowlProblem(categories, components, selection);
+  const conflicts = dietaryConflicts(totals, profile);
+  const chosen = components.filter((component) => selection[component.id]);
+
+  const macroRows = [
+    { label: "calories", unit: "", value: totals.calories, goal: goals.daily_calories },
+    { label: "protein", unit: "g", value: totals.protein, goal: goals.daily_protein },
+    { label: "carbs", unit: "g", value: totals.carbs, goal: goals.daily_carbs },
+    { label: "fats", unit: "g", value: totals.fats, goal: goals.daily_fats },
+  ];
+
+  const addToCart = async () => {
+    setAdding(true);
+    const { mealId, error } = await createBowl(selection);
+    if (error || !mealId) {
+      setAdding(false);
+      toast({
+        title: "error building bowl",
+        description: error?.message ?? "please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { error: cartError } = await addItem(mealId, 1, totals.price);
+    setAdding(false);
+
+    if (cartError) {
+      toast({
+        title: "error adding to cart",
+        description: cartError.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "bowl added to cart",
+      description: chosen.map((component) => component.name).join(", "),
+    });
+    setSelection({});
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-muted-foreground">loading bowl builder...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={() => navigate("/meals")} size="icon">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-4xl font-bold mb-2">build a bowl</h1>
+              <p className="text-muted-foreground">pick exactly what goes in and watch your macros add up</p>
+            </div>
+          </div>
+          <Button onClick={() => navigate("/checkout")} className="gap-2">
+            <ShoppingCart className="w-4 h-4" />
+            cart ({cartItemCount})
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            {categories.map((category) => {
+              const options = components.filter((component) => component.category === category.id);
+              const picked = options.filter((component) => selection[component.id]).length;
+              if (options.length === 0) return null;
+
+              return (
+                <Card key={category.id} className="border-primary/20">
+                  <CardHeader>
+                    <CardTitle>{category.name}</CardTitle>
+                    <CardDescription>{choiceHint(category)}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {options.map((component) => {
+                      const amount = selection[component.id];
+                      const full = !amount && picked >= category.max_choices;
+                      return (
+                        <div key={component.id} className="rounded-md border border-primary/20 p-3 space-y-3">
+                          <Label className="flex items-start gap-3 font-normal cursor-pointer">
+                            <Checkbox
+                              checked={!!amount}
+                              disabled={full}
+                              onCheckedChange={(checked) =>
+                                setAmount(component, checked === true ? component.default_amount : 0)
+                              }
+                              className="mt-0.5"
+                            />
+                            <div className="flex-1">
+                              <div className="flex justify-between gap-2">
+                                <span className="font-medium">{component.name}</span>
+                                <span className="text-sm">
+                                  {formatRM(Number(component.price))} {unitLabel(component.unit)}
+                                </span>
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {Number(component.calories)}cal | {Number(component.protein)}g protein |{" "}
+                                {Number(component.carbs)}g carbs | {Number(component.fats)}g fats{" "}
+                                {unitLabel(component.unit)}
+                              </p>
+                              {component.allergens.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  contains: {component.allergens.map(allergenLabel).join(", ")}
+                                </p>
+                              )}
+                            </div>
+                          </Label>
+                          {amount > 0 && component.unit === "gram" && (
+                            <div className="flex items-center gap-3 pl-7">
+                              <Slider
+                                value={[amount]}
+                                onValueChange={(values) => setAmount(component, values[0])}
+                                min={Math.max(component.min_amount, GRAM_STEP)}
+                                max={component.max_amount}
+                                step={GRAM_STEP}
+                                className="flex-1"
+                              />
+                              <span className="w-24 text-right text-sm">
+                                {formatAmount(component, amount)} · {formatRM(componentPrice(component, amount))}
+                              </span>
+                            </div>
+                          )}
+                          {amount > 0 && component.unit === "portion" && component.max_amount > 1 && (
+                            <div className="flex items-center gap-2 pl-7">
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => setAmount(component, amount - 1 < component.min_amount ? 0 : amount - 1)}
+                              >
+                                <Minus className="w-3 h-3" />
+                              </Button>
+                              <span className="w-20 text-center text-sm">{formatAmount(component, amount)}</span>
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => setAmount(component, amount + 1)}
+                                disabled={amount >= component.max_amount}
+                              >
+                                <Plus className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              );
+            })}
+            {components.length === 0 && (
+              <Card className="border-primary/20">
+                <CardContent className="pt-6">
+                  <p className="text-center text-muted-foreground">the bowl builder isn't open right now</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div>
+            <Card className="border-primary/20 lg:sticky lg:top-6">
+              <CardHeader>
+                <CardTitle>your bowl</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {chosen.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">nothing in it yet</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {chosen.map((component) => (
+                      <li key={component.id} className="flex justify-between gap-2">
+                        <span>
+                          {component.name}{" "}
+                          <span className="text-muted-foreground">{formatAmount(component, selection[component.id])}</span>
+                        </span>
+                        <span>{formatRM(componentPrice(component, selection[component.id]))}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="space-y-4 border-t pt-4">
+                  {macroRows.map((row) => (
+                    <div key={row.label}>
+                      <div className="flex justify-between mb-2">
+                        <span className="text-sm text-muted-foreground">{row.label}</span>
+                        <span className="text-sm font-medium">
+                          {row.value}
+                          {row.unit} · {Math.round((row.value / row.goal) * 100)}% of your day
+                        </span>
+                      </div>
+                      <Progress value={Math.min((row.value / row.goal) * 100, 100)} className="h-2" />
+                    </div>
+                  ))}
+                </div>
+                {chosen.length > 0 && conflicts.length > 0 && (
+                  <div className="flex items-start gap-2 text-sm text-destructive">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>doesn't suit your dietary profile: {conflicts.join(", ")}</span>
+                  </div>
+                )}
+                <div className="flex justify-between border-t pt-4 text-lg font-bold">
+                  <span>total</span>
+                  <span className="text-primary">{formatRM(totals.price)}</span>
+                </div>
+              </CardContent>
+              <CardFooter className="flex-col items-stretch gap-2">
+                {problem && <p className="text-sm text-muted-foreground">{problem}</p>}
+                <Button onClick={addToCart} disabled={!!problem || adding} className="w-full gap-2">
+                  <Plus className="w-4 h-4" />
+                  {adding ? "adding..." : "add bowl to cart"}
+                </Button>
+              </CardFooter>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BowlBuilder;
@@ -3,11 +3,36 @@ import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Textarea } from "@/components/ui/textarea";
+import { AddressPicker } from "@/components/AddressPicker";
+import { DeliverySlotPicker, type SelectedSlot } from "@/components/DeliverySlotPicker";
+import { PickupDayPicker } from "@/components/PickupDayPicker";
+import { PickupPointPicker } from "@/components/PickupPointPicker";
+import { PriceBreakdownLines } from "@/components/PriceBreakdownLines";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Trash2 } from "lucide-react";
+import { useCart } from "@/hooks/use-cart";
+import { AlertTriangle, ArrowLeft, Tag, Trash2, X } from "lucide-react";
+import type { Address } from "@/lib/addresses";
+import { acknowledgedCart, lineKey, needsAcknowledgement, validateCart, type ValidatedCartLine } from "@/lib/cart";
+import {
+  dietaryConflicts,
+  loadDietaryProfile,
+  loadMealDietaryInfo,
+  type DietaryInfo,
+  type DietaryProfile,
+} from "@/lib/dietary";
+import { guestContactSchema, isGuest, placeGuestOrder, type GuestContact } from "@/lib/guest";
+import { describeModifiers, type LineModifier } from "@/lib/modifiers";
+import { DELIVERY_INSTRUCTIONS_MAX, ITEM_NOTE_MAX } from "@/lib/orders";
+import { paymentMethods, startPayment, type PaymentMethod } from "@/lib/payments";
+import type { FulfilmentMethod, PickupPoint } from "@/lib/pickup";
+import { formatRM, quoteOrder, quotePickupOrder, type PriceBreakdown } from "@/lib/pricing";
+import { normalizePromoCode } from "@/lib/promotions";
+import { findZoneForAddress, type DeliveryZone } from "@/lib/zones";
 
 interface Meal {
   id: string;
@@ -20,84 +45,246 @@ interface Meal {
 }
 
 interface CartItem extends Meal {
+  // Cart line key; the same meal can be on several lines with different options
+  key: string;
+  option_ids: string[];
+  modifiers: LineModifier[];
   quantity: number;
 }
 
 const Checkout = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const { cart, prices, loading: cartLoading, setQuantity, removeItem, replaceCart, clearCart } = useCart();
+  const [lines, setLines] = useState<ValidatedCartLine[]>([]);
   const [loading, setLoading] = useState(false);
-  const [deliveryAddress, setDeliveryAddress] = useState("");
+  const [deliveryAddress, setDeliveryAddress] = useState<Address | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("fpx");
+  const [fulfilment, setFulfilment] = useState<FulfilmentMethod>("delivery");
+  const [pickupPoint, setPickupPoint] = useState<PickupPoint | null>(null);
+  const [pickupDate, setPickupDate] = useState<string | null>(null);
+  // undefined while the address is being checked
+  const [zone, setZone] = useState<DeliveryZone | null | undefined>(null);
+  const [slot, setSlot] = useState<SelectedSlot | null>(null);
+  const [quote, setQuote] = useState<PriceBreakdown | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [guest, setGuest] = useState(false);
+  const [contact, setContact] = useState<GuestContact>({ name: "", email: "", phone: "" });
+  const [instructions, setInstructions] = useState("");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [dietaryProfile, setDietaryProfile] = useState<DietaryProfile | null>(null);
+  const [dietaryInfo, setDietaryInfo] = useState<Record<string, DietaryInfo>>({});
+  const [dietaryAcknowledged, setDietaryAcknowledged] = useState(false);
 
+  // Start from the address's saved delivery notes; the customer can tweak them per order
+  const chooseAddress = (address: Address | null) => {
+    if (address?.id !== deliveryAddress?.id) {
+      setInstructions(address?.delivery_notes ?? "");
+    }
+    setDeliveryAddress(address);
+  };
+
+  const cartKey = Object.entries(cart)
+    .sort()
+    .map(([mealId, quantity]) => `${mealId}:${quantity}:${prices[mealId] ?? ""}`)
+    .join(",");
+
+  useEffect(() => {
+    loadCartLines();
+    loadDietaryInfo();
+  }, [cartKey]);
+
+  // Guests check out on an anonymous session and give their contact details here
   useEffect(() => {
-    loadCartItems();
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setGuest(isGuest(session?.user));
+    });
+    return () => subscription.unsubscribe();
   }, []);
 
-  const loadCartItems = async () => {
-    const savedCart = localStorage.getItem("cart");
-    if (!savedCart) {
-      setCartItems([]);
+  useEffect(() => {
+    setSlot(null);
+    if (!deliveryAddress) {
+      setZone(null);
       return;
     }
 
-    const cart: Record<string, number> = JSON.parse(savedCart);
-    const mealIds = Object.keys(cart);
+    setZone(undefined);
+    findZoneForAddress(deliveryAddress).then(({ zone }) => setZone(zone));
+  }, [deliveryAddress]);
+
+  useEffect(() => {
+    loadQuote();
+  }, [lines, fulfilment, deliveryAddress, zone, pickupPoint, promoCode]);
+
+  // Pickup orders skip the address and delivery fee entirely
+  const requestQuote = (code: string | null) => {
+    if (fulfilment === "pickup") {
+      return pickupPoint ? quotePickupOrder(cartLines(), pickupPoint.id, code) : null;
+    }
+    return deliveryAddress && zone ? quoteOrder(cartLines(), deliveryAddress.id, code) : null;
+  };
 
-    if (mealIds.length === 0) {
-      setCartItems([]);
+  const loadQuote = async () => {
+    setQuoteError(null);
+    const request = cartItems.length > 0 ? requestQuote(promoCode) : null;
+    if (!request) {
+      setQuote(null);
       return;
     }
 
-    const { data, error } = await supabase
-      .from("meals")
-      .select("*")
-      .in("id", mealIds);
+    const { quote, error } = await request;
+
+    // The cart or address changed under an applied code; drop it and quote again
+    if (error && promoCode) {
+      toast({
+        title: "promo code removed",
+        description: error.message,
+        variant: "destructive",
+      });
+      setPromoCode(null);
+      return;
+    }
+
+    setQuote(quote);
+    setQuoteError(error?.message ?? null);
+  };
+
+  // Quotes cover what can actually be ordered; unavailable lines block checkout anyway
+  const cartLines = () =>
+    cartItems.map((item) => ({ meal_id: item.id, option_ids: item.option_ids, quantity: item.quantity }));
+
+  const applyPromo = async () => {
+    const code = normalizePromoCode(promoInput);
+    if (!code) return;
+
+    const request = requestQuote(code);
+    if (!request) {
+      toast({
+        title: fulfilment === "pickup" ? "choose a pickup point first" : "choose a delivery address first",
+        description: "promo codes are checked against your full order",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setApplyingPromo(true);
+    const { quote, error } = await request;
+    setApplyingPromo(false);
 
+    if (error) {
+      toast({
+        title: "promo code not applied",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setQuote(quote);
+    setPromoCode(code);
+    setPromoInput("");
+    toast({
+      title: "promo code applied",
+      description: code,
+    });
+  };
+
+  const loadCartLines = async () => {
+    if (!cartKey) {
+      setLines([]);
+      return;
+    }
+
+    const { lines, error } = await validateCart(cart, prices);
     if (error) {
       toast({
         title: "error loading cart",
         description: error.message,
         variant: "destructive",
       });
-    } else {
-      const items: CartItem[] = (data || []).map((meal) => ({
-        ...meal,
-        quantity: cart[meal.id],
-      }));
-      setCartItems(items);
+      return;
     }
+
+    // Deleted meals have nothing left to show, so clean them out straight away
+    const missing = lines.filter((line) => line.status === "missing");
+    if (missing.length > 0) {
+      const current = lines.filter((line) => line.status !== "missing");
+      replaceCart(Object.fromEntries(current.map((line) => [lineKey(line), line.quantity])), prices);
+      return;
+    }
+
+    setLines(lines);
+  };
+
+  // Any change to the cart means the customer has to confirm the warning again
+  const loadDietaryInfo = async () => {
+    setDietaryAcknowledged(false);
+    const [{ profile }, { info }] = await Promise.all([loadDietaryProfile(), loadMealDietaryInfo(Object.keys(cart))]);
+    setDietaryProfile(profile);
+    setDietaryInfo(info);
   };
 
-  const removeFromCart = (mealId: string) => {
-    const savedCart = localStorage.getItem("cart");
-    if (!savedCart) return;
+  const cartItems: CartItem[] = lines
+    .filter((line) => line.status === "ok" || line.status === "price_changed")
+    .map((line) => ({
+      key: lineKey(line),
+      id: line.meal_id,
+      option_ids: line.option_ids,
+      modifiers: line.modifiers,
+      name: line.name ?? "",
+      price: line.price ?? 0,
+      calories: line.calories,
+      protein: line.protein,
+      carbs: line.carbs,
+      fats: line.fats,
+      quantity: line.quantity,
+    }));
+
+  const cartIssues = lines.filter(needsAcknowledgement);
+
+  const dietaryWarnings = cartItems
+    .map((item) => ({
+      item,
+      conflicts: dietaryInfo[item.id] ? dietaryConflicts(dietaryInfo[item.id], dietaryProfile) : [],
+    }))
+    .filter(({ conflicts }) => conflicts.length > 0);
+  const dietaryBlocked = dietaryWarnings.length > 0 && !dietaryAcknowledged;
+
+  const acknowledgeChanges = async () => {
+    const { cart: updated, prices: updatedPrices } = acknowledgedCart(lines);
+    const { error } = await replaceCart(updated, updatedPrices);
+    if (error) {
+      toast({
+        title: "error updating cart",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
 
-    const cart: Record<string, number> = JSON.parse(savedCart);
-    delete cart[mealId];
-    localStorage.setItem("cart", JSON.stringify(cart));
-    loadCartItems();
+  const removeFromCart = async (key: string) => {
+    await removeItem(key);
     toast({
       title: "removed from cart",
     });
   };
 
-  const updateQuantity = (mealId: string, newQuantity: number) => {
+  const updateQuantity = (key: string, newQuantity: number) => {
     if (newQuantity < 1) {
-      removeFromCart(mealId);
+      removeFromCart(key);
       return;
     }
 
-    const savedCart = localStorage.getItem("cart");
-    if (!savedCart) return;
-
-    const cart: Record<string, number> = JSON.parse(savedCart);
-    cart[mealId] = newQuantity;
-    localStorage.setItem("cart", JSON.stringify(cart));
-    loadCartItems();
+    setQuantity(key, newQuantity);
   };
 
-  const totalPrice = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const pickup = fulfilment === "pickup";
+  const belowMinimum = !pickup && !!zone && subtotal < zone.min_order;
   const totalMacros = cartItems.reduce(
     (acc, item) => ({
       calories: acc.calories + item.calories * item.quantity,
@@ -109,10 +296,46 @@ const Checkout = () => {
   );
 
   const handlePlaceOrder = async () => {
-    if (!deliveryAddress.trim()) {
+    if (pickup && (!pickupPoint || !pickupDate)) {
+      toast({
+        title: "pickup details required",
+        description: "please choose a pickup point and day",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!pickup && !deliveryAddress) {
       toast({
         title: "delivery address required",
-        description: "please enter your delivery address",
+        description: "please choose or add a delivery address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!pickup && !zone) {
+      toast({
+        title: "outside our delivery area",
+        description: "we don't deliver to this address yet",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (belowMinimum) {
+      toast({
+        title: "minimum order not reached",
+        description: `orders to ${zone.name} need at least RM ${zone.min_order.toFixed(2)} of meals`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!pickup && !slot) {
+      toast({
+        title: "delivery slot required",
+        description: "please choose a delivery date and time",
         variant: "destructive",
       });
       return;
@@ -127,60 +350,108 @@ const Checkout = () => {
       return;
     }
 
-    setLoading(true);
-
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      navigate("/auth");
+    // The menu may have changed since the cart was last checked
+    const { lines: freshLines } = await validateCart(cart, prices);
+    if (freshLines.some((line) => line.status !== "ok")) {
+      setLines(freshLines);
+      toast({
+        title: "your cart has changed",
+        description: "review the changes to your cart before paying",
+        variant: "destructive",
+      });
       return;
     }
 
-    const { data: order, error: orderError } = await supabase
-      .from("orders")
-      .insert({
-        user_id: user.id,
-        total_price: totalPrice,
-        delivery_address: deliveryAddress,
-        status: "pending",
-        payment_status: "pending",
-      })
-      .select()
-      .single();
+    if (dietaryBlocked) {
+      toast({
+        title: "check your dietary profile",
+        description: "some meals in your cart don't suit your dietary profile",
+        variant: "destructive",
+      });
+      return;
+    }
 
-    if (orderError || !order) {
+    const guestContact = guest ? guestContactSchema.safeParse(contact) : null;
+    if (guestContact && !guestContact.success) {
       toast({
-        title: "error placing order",
-        description: orderError?.message || "unknown error",
+        title: "contact details required",
+        description: guestContact.error.issues[0].message,
         variant: "destructive",
       });
-      setLoading(false);
       return;
     }
 
-    const orderItems = cartItems.map((item) => ({
-      order_id: order.id,
+    setLoading(true);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const items = cartItems.map((item) => ({
       meal_id: item.id,
+      option_ids: item.option_ids,
       quantity: item.quantity,
-      price_at_purchase: item.price,
+      note: notes[item.key]?.trim() || undefined,
     }));
+    const deliveryInstructions = instructions.trim() || undefined;
 
-    const { error: itemsError } = await supabase
-      .from("order_items")
-      .insert(orderItems);
+    const { data: order, error: orderError } = guestContact?.success
+      ? await placeGuestOrder({
+          items,
+          fulfilment_method: fulfilment,
+          ...(pickup
+            ? { delivery_date: pickupDate, pickup_point_id: pickupPoint.id }
+            : {
+                delivery_date: slot.date,
+                address_id: deliveryAddress.id,
+                delivery_window_id: slot.windowId,
+                delivery_instructions: deliveryInstructions,
+              }),
+          promo_code: promoCode ?? undefined,
+          contact: guestContact.data,
+        }).then(({ order, error }) => ({ data: order && { id: order.order_id }, error }))
+      : pickup
+        ? await supabase.rpc("place_pickup_order", {
+            _items: items,
+            _pickup_point_id: pickupPoint.id,
+            _pickup_date: pickupDate,
+            _promo_code: promoCode ?? undefined,
+          })
+        : await supabase.rpc("place_order", {
+            _items: items,
+            _address_id: deliveryAddress.id,
+            _delivery_date: slot.date,
+            _delivery_window_id: slot.windowId,
+            _promo_code: promoCode ?? undefined,
+            _delivery_instructions: deliveryInstructions,
+          });
 
-    if (itemsError) {
+    if (orderError || !order) {
       toast({
-        title: "error saving order items",
-        description: itemsError.message,
+        title: "error placing order",
+        description: orderError?.message || "unknown error",
         variant: "destructive",
       });
     } else {
-      localStorage.removeItem("cart");
+      await clearCart();
       toast({
         title: "order placed!",
-        description: "your meal prep order has been confirmed",
+        description: "redirecting you to payment...",
       });
-      navigate("/dashboard");
+
+      const { error: paymentError } = await startPayment(order.id, paymentMethod);
+      if (paymentError) {
+        toast({
+          title: "error starting payment",
+          description: paymentError.message,
+          variant: "destructive",
+        });
+        navigate(`/payment/return?order=${order.id}`);
+      }
+      // On success the browser is already on its way to the payment provider
+      return;
     }
 
     setLoading(false);
@@ -201,7 +472,66 @@ const Checkout = () => {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 space-y-4">
-            {cartItems.length === 0 ? (
+            {cartIssues.length > 0 && (
+              <Card className="border-destructive/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <AlertTriangle className="w-5 h-5 text-destructive" />
+                    some things in your cart have changed
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  {cartIssues.map((line) => {
+                    const name = line.modifiers.length > 0 ? `${line.name} (${describeModifiers(line.modifiers)})` : line.name;
+                    return (
+                    <p key={lineKey(line)}>
+                      {line.status === "unavailable"
+                        ? `${name} is no longer available and will be removed`
+                        : `${name} is now ${formatRM(line.price ?? 0)} (was ${formatRM(line.added_price ?? 0)})`}
+                    </p>
+                    );
+                  })}
+                </CardContent>
+                <CardFooter>
+                  <Button onClick={acknowledgeChanges}>ok, update my cart</Button>
+                </CardFooter>
+              </Card>
+            )}
+
+            {dietaryWarnings.length > 0 && (
+              <Card className="border-destructive/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <AlertTriangle className="w-5 h-5 text-destructive" />
+                    some meals don't suit your dietary profile
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  {dietaryWarnings.map(({ item, conflicts }) => (
+                    <p key={item.key}>
+                      <span className="font-medium">{item.name}</span>: {conflicts.join(", ")}
+                    </p>
+                  ))}
+                </CardContent>
+                <CardFooter>
+                  <Label className="flex items-center gap-2 font-normal cursor-pointer">
+                    <Checkbox
+                      checked={dietaryAcknowledged}
+                      onCheckedChange={(checked) => setDietaryAcknowledged(checked === true)}
+                    />
+                    i understand and still want to order these meals
+                  </Label>
+                </CardFooter>
+              </Card>
+            )}
+
+            {cartLoading ? (
+              <Card className="border-primary/20">
+                <CardContent className="pt-6">
+                  <p className="text-center text-muted-foreground">loading cart...</p>
+                </CardContent>
+              </Card>
+            ) : cartItems.length === 0 ? (
               <Card className="border-primary/20">
                 <CardContent className="pt-6">
                   <p className="text-center text-muted-foreground">your cart is empty</p>
@@ -209,11 +539,14 @@ const Checkout = () => {
               </Card>
             ) : (
               cartItems.map((item) => (
-                <Card key={item.id} className="border-primary/20">
+                <Card key={item.key} className="border-primary/20">
                   <CardHeader>
                     <div className="flex justify-between items-start">
                       <div>
                         <CardTitle>{item.name}</CardTitle>
+                        {item.modifiers.length > 0 && (
+                          <p className="text-sm mt-1">{describeModifiers(item.modifiers)}</p>
+                        )}
                         <p className="text-sm text-muted-foreground mt-1">
                           {item.calories}cal | {item.protein}g protein | {item.carbs}g carbs | {item.fats}g fats
                         </p>
@@ -221,7 +554,7 @@ const Checkout = () => {
                       <Button
                         variant="ghost"
                         size="icon"
-                        onClick={() => removeFromCart(item.id)}
+                        onClick={() => removeFromCart(item.key)}
                       >
                         <Trash2 className="w-4 h-4" />
                       </Button>
@@ -233,7 +566,7 @@ const Checkout = () => {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                          onClick={() => updateQuantity(item.key, item.quantity - 1)}
                         >
                           -
                         </Button>
@@ -241,13 +574,20 @@ const Checkout = () => {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                          onClick={() => updateQuantity(item.key, item.quantity + 1)}
                         >
                           +
                         </Button>
                       </div>
                       <div className="text-xl font-bold">RM {(item.price * item.quantity).toFixed(2)}</div>
                     </div>
+                    <Input
+                      className="mt-3"
+                      placeholder="note for the kitchen, e.g. no chilli"
+                      maxLength={ITEM_NOTE_MAX}
+                      value={notes[item.key] ?? ""}
+                      onChange={(e) => setNotes({ ...notes, [item.key]: e.target.value })}
+                    />
                   </CardContent>
                 </Card>
               ))
@@ -277,37 +617,213 @@ const Checkout = () => {
                   <span className="font-medium">{totalMacros.fats}g</span>
                 </div>
                 <div className="border-t pt-2 mt-2">
-                  <div className="flex justify-between text-lg font-bold">
-                    <span>total:</span>
-                    <span className="text-primary">RM {totalPrice.toFixed(2)}</span>
-                  </div>
+                  {quote ? (
+                    <PriceBreakdownLines breakdown={quote} deliveryLabel={zone?.name} promoCode={promoCode} />
+                  ) : (
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">subtotal:</span>
+                        <span className="font-medium">{formatRM(subtotal)}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {quoteError ??
+                          (pickup
+                            ? "service charge and SST are added once you choose a pickup point"
+                            : "delivery, service charge and SST are added once you choose an address")}
+                      </p>
+                    </div>
+                  )}
+                </div>
+                <div className="border-t pt-3 mt-2">
+                  {promoCode ? (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2">
+                        <Tag className="w-4 h-4 text-primary" />
+                        <span className="font-medium">{promoCode}</span>
+                      </span>
+                      <Button variant="ghost" size="icon" onClick={() => setPromoCode(null)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="promo code"
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && applyPromo()}
+                        className="uppercase"
+                      />
+                      <Button variant="outline" onClick={applyPromo} disabled={applyingPromo || !promoInput.trim()}>
+                        {applyingPromo ? "checking..." : "apply"}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
 
             <Card className="border-primary/20">
               <CardHeader>
-                <CardTitle>delivery details</CardTitle>
+                <CardTitle>{pickup ? "pickup details" : "delivery details"}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                {guest && (
+                  <div className="space-y-3">
+                    <Label>your details</Label>
+                    <Input
+                      placeholder="name (optional)"
+                      value={contact.name}
+                      onChange={(e) => setContact({ ...contact, name: e.target.value })}
+                    />
+                    <Input
+                      type="email"
+                      placeholder="email, for your order updates"
+                      value={contact.email}
+                      onChange={(e) => setContact({ ...contact, email: e.target.value })}
+                    />
+                    <Input
+                      type="tel"
+                      placeholder="phone, for the rider"
+                      value={contact.phone}
+                      onChange={(e) => setContact({ ...contact, phone: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      we'll email you a link to track this order. you can create an account after paying.
+                    </p>
+                  </div>
+                )}
                 <div>
-                  <Label htmlFor="address">delivery address</Label>
-                  <Textarea
-                    id="address"
-                    placeholder="enter your delivery address in malaysia"
-                    value={deliveryAddress}
-                    onChange={(e) => setDeliveryAddress(e.target.value)}
-                    className="mt-1"
-                  />
+                  <Label>how do you want your order?</Label>
+                  <RadioGroup
+                    value={fulfilment}
+                    onValueChange={(value) => setFulfilment(value as FulfilmentMethod)}
+                    className="grid grid-cols-2 gap-2 mt-2"
+                  >
+                    <Label
+                      htmlFor="fulfilment-delivery"
+                      className="flex items-center gap-3 rounded-md border border-primary/20 p-3 font-normal cursor-pointer"
+                    >
+                      <RadioGroupItem value="delivery" id="fulfilment-delivery" />
+                      <span className="font-medium">delivery</span>
+                    </Label>
+                    <Label
+                      htmlFor="fulfilment-pickup"
+                      className="flex items-center gap-3 rounded-md border border-primary/20 p-3 font-normal cursor-pointer"
+                    >
+                      <RadioGroupItem value="pickup" id="fulfilment-pickup" />
+                      <span className="font-medium">self-collect</span>
+                    </Label>
+                  </RadioGroup>
+                </div>
+                {pickup ? (
+                  <>
+                    <div>
+                      <Label>pickup point</Label>
+                      <div className="mt-2">
+                        <PickupPointPicker
+                          value={pickupPoint?.id ?? null}
+                          onChange={(point) => {
+                            setPickupPoint(point);
+                            setPickupDate(null);
+                          }}
+                        />
+                      </div>
+                    </div>
+                    {pickupPoint && (
+                      <div>
+                        <Label>pickup day</Label>
+                        <div className="mt-2">
+                          <PickupDayPicker
+                            key={pickupPoint.id}
+                            point={pickupPoint}
+                            value={pickupDate}
+                            onChange={setPickupDate}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-2">
+                          we'll give you a pickup code to show at the counter. no delivery fee.
+                        </p>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                  <div>
+                    <Label>delivery address</Label>
+                    <div className="mt-2">
+                      <AddressPicker value={deliveryAddress?.id ?? null} onChange={chooseAddress} allowGuest />
+                    </div>
+                    {deliveryAddress && zone === null && (
+                      <p className="text-sm text-destructive mt-2">sorry, we don't deliver to this address yet</p>
+                    )}
+                    {belowMinimum && (
+                      <p className="text-sm text-destructive mt-2">
+                        minimum order for {zone.name} is RM {zone.min_order.toFixed(2)}
+                      </p>
+                    )}
+                  </div>
+                  {zone && (
+                    <div>
+                      <Label>delivery slot</Label>
+                      <div className="mt-2">
+                        <DeliverySlotPicker zone={zone} value={slot} onChange={setSlot} />
+                      </div>
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="delivery-instructions">instructions for the rider</Label>
+                    <Textarea
+                      id="delivery-instructions"
+                      className="mt-2"
+                      placeholder="e.g. leave at guardhouse, call on arrival"
+                      maxLength={DELIVERY_INSTRUCTIONS_MAX}
+                      value={instructions}
+                      onChange={(e) => setInstructions(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1 text-right">
+                      {instructions.length}/{DELIVERY_INSTRUCTIONS_MAX}
+                    </p>
+                  </div>
+                  </>
+                )}
+                <div>
+                  <Label>payment method</Label>
+                  <RadioGroup
+                    value={paymentMethod}
+                    onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                    className="mt-2"
+                  >
+                    {paymentMethods.map((method) => (
+                      <Label
+                        key={method.value}
+                        htmlFor={`payment-${method.value}`}
+                        className="flex items-start gap-3 rounded-md border border-primary/20 p-3 font-normal cursor-pointer"
+                      >
+                        <RadioGroupItem value={method.value} id={`payment-${method.value}`} className="mt-0.5" />
+                        <div>
+                          <div className="font-medium">{method.label}</div>
+                          <div className="text-xs text-muted-foreground">{method.description}</div>
+                        </div>
+                      </Label>
+                    ))}
+                  </RadioGroup>
                 </div>
               </CardContent>
               <CardFooter>
                 <Button
                   onClick={handlePlaceOrder}
-                  disabled={loading || cartItems.length === 0}
+                  disabled={
+                    loading ||
+                    cartItems.length === 0 ||
+                    cartIssues.length > 0 ||
+                    dietaryBlocked ||
+                    (pickup ? !pickupPoint || !pickupDate : !zone || belowMinimum || !slot) ||
+                    !quote
+                  }
                   className="w-full"
                 >
-                  {loading ? "placing order..." : "place order"}
+                  {loading ? "placing order..." : "place order & pay"}
                 </Button>
               </CardFooter>
             </Card>
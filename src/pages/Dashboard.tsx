@@ -6,27 +6,17 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Slider } from "@/components/ui/slider";
+import { DietaryProfileCard } from "@/components/DietaryProfileCard";
 import { useToast } from "@/hooks/use-toast";
-import { LogOut, UtensilsCrossed, ShoppingCart } from "lucide-react";
-
-interface MacroGoals {
-  daily_calories: number;
-  daily_protein: number;
-  daily_carbs: number;
-  daily_fats: number;
-}
+import { defaultMacroGoals, type MacroGoals } from "@/lib/goals";
+import { LogOut, UtensilsCrossed, ShoppingCart, Receipt } from "lucide-react";
 
 const Dashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
-  const [macroGoals, setMacroGoals] = useState<MacroGoals>({
-    daily_calories: 2000,
-    daily_protein: 150,
-    daily_carbs: 200,
-    daily_fats: 65,
-  });
+  const [macroGoals, setMacroGoals] = useState<MacroGoals>(defaultMacroGoals);
   const [consumed, setConsumed] = useState({
     calories: 0,
     protein: 0,
@@ -126,6 +116,10 @@ const Dashboard = () => {
               <ShoppingCart className="w-4 h-4" />
               cart
             </Button>
+            <Button variant="outline" onClick={() => navigate("/orders")} className="gap-2">
+              <Receipt className="w-4 h-4" />
+              orders
+            </Button>
             <Button variant="outline" onClick={handleSignOut} className="gap-2">
               <LogOut className="w-4 h-4" />
               sign out
@@ -230,6 +224,8 @@ const Dashboard = () => {
             </CardContent>
           </Card>
         </div>
+
+        <DietaryProfileCard />
       </div>
     </div>
   );
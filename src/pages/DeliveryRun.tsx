@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { DayStepper } from "@/components/admin/DayStepper";
+import { useAdminAccess } from "@/hooks/use-admin";
+import { useToast } from "@/hooks/use-toast";
+import { DELIVERY_STATUSES, loadRunOrders, mapsUrl, type RunOrder } from "@/lib/fulfilment";
+import { describeModifiers } from "@/lib/modifiers";
+import { formatOrderStatus, nextStatusesFor } from "@/lib/orders";
+import { formatDeliveryDate, formatWindow, malaysiaToday } from "@/lib/slots";
+import { ArrowLeft, MapPin, MessageSquareWarning, Phone, Printer } from "lucide-react";
+
+// What riders need at each door, one card per delivery in slot order
+const DeliveryRun = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { isAdmin } = useAdminAccess();
+  const [date, setDate] = useState(malaysiaToday());
+  const [orders, setOrders] = useState<RunOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (isAdmin) loadOrders();
+  }, [isAdmin, date]);
+
+  const loadOrders = async () => {
+    setLoading(true);
+    const { orders, error } = await loadRunOrders(date, DELIVERY_STATUSES, "delivery");
+    if (error) {
+      toast({
+        title: "error loading deliveries",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+    setOrders(orders);
+    setLoading(false);
+  };
+
+  const updateOrderStatus = async (orderId: string, status: string) => {
+    const { error } = await supabase.from("orders").update({ status }).eq("id", orderId);
+
+    if (error) {
+      toast({
+        title: "error updating order",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "order updated",
+        description: `order status changed to ${formatOrderStatus(status)}`,
+      });
+      loadOrders();
+    }
+  };
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6 print:bg-none print:p-0">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={() => navigate("/admin")} size="icon" className="print:hidden">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-4xl font-bold mb-2">deliveries</h1>
+              <p className="text-muted-foreground">
+                {formatDeliveryDate(date)} · {orders.length} stops
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <DayStepper date={date} onChange={setDate} />
+            <Button onClick={() => window.print()} className="gap-2 print:hidden">
+              <Printer className="w-4 h-4" />
+              print
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-muted-foreground">loading deliveries...</p>
+        ) : orders.length === 0 ? (
+          <p className="text-muted-foreground">no deliveries for this day</p>
+        ) : (
+          orders.map((order, index) => (
+            <Card key={order.id} className="border-primary/20 break-inside-avoid">
+              <CardHeader className="pb-2">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <CardTitle className="text-lg">
+                      {index + 1}. {order.customer?.full_name || `order #${order.id.slice(0, 8)}`}
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      order #{order.id.slice(0, 8)}
+                      {order.delivery_window_start &&
+                        order.delivery_window_end &&
+                        ` · ${formatWindow(order.delivery_window_start, order.delivery_window_end)}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant="secondary">{formatOrderStatus(order.status)}</Badge>
+                    {order.payment_status !== "paid" && <Badge variant="destructive">not paid</Badge>}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {order.delivery_instructions && (
+                  <div className="flex items-start gap-2 rounded-md border border-primary/40 bg-primary/10 p-2">
+                    <MessageSquareWarning className="w-5 h-5 mt-0.5 shrink-0" />
+                    <span className="font-semibold">{order.delivery_instructions}</span>
+                  </div>
+                )}
+                <a
+                  href={mapsUrl(order)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-start gap-2 text-sm hover:underline"
+                >
+                  <MapPin className="w-4 h-4 mt-0.5 shrink-0" />
+                  {order.delivery_address}
+                </a>
+                {order.customer?.phone && (
+                  <a href={`tel:${order.customer.phone}`} className="flex items-center gap-2 text-sm hover:underline">
+                    <Phone className="w-4 h-4 shrink-0" />
+                    {order.customer.phone}
+                  </a>
+                )}
+                <ul className="border-t pt-2 space-y-1 text-sm">
+                  {order.order_items.map((item) => (
+                    <li key={item.id}>
+                      <span className="font-medium">
+                        {item.quantity} × {item.meals?.name ?? "unknown meal"}
+                      </span>
+                      {item.modifiers.length > 0 && (
+                        <span className="text-muted-foreground"> · {describeModifiers(item.modifiers)}</span>
+                      )}
+                      {item.note && (
+                        <span className="ml-2 rounded bg-accent px-1.5 py-0.5 text-accent-foreground">{item.note}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+              <CardFooter className="gap-2 print:hidden">
+                {nextStatusesFor(order.status, order.fulfilment_method)
+                  .filter((status) => status === "out_for_delivery" || status === "delivered")
+                  .map((status) => (
+                    <Button key={status} size="sm" onClick={() => updateOrderStatus(order.id, status)}>
+                      mark {formatOrderStatus(status)}
+                    </Button>
+                  ))}
+              </CardFooter>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryRun;
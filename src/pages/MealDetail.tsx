@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Pie, PieChart } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
+import { allergenLabel, dietaryConflicts, dietLabel, loadDietaryProfile, type DietaryProfile } from "@/lib/dietary";
+import { loadMeal, macroCalories, mealImages, type MealDetails } from "@/lib/meals";
+import { applyModifiers, cartLineKey, loadModifierGroups, selectionProblem, type ModifierGroup } from "@/lib/modifiers";
+import { formatRM } from "@/lib/pricing";
+import { ModifierPicker } from "@/components/ModifierPicker";
+import { AlertTriangle, ArrowLeft, Minus, Plus, ShoppingCart, UtensilsCrossed } from "lucide-react";
+
+const macroChartConfig = {
+  calories: { label: "calories" },
+  protein: { label: "protein", color: "hsl(var(--primary))" },
+  carbs: { label: "carbs", color: "hsl(var(--accent))" },
+  fats: { label: "fats", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const MealDetail = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { itemCount: cartItemCount, addItem } = useCart();
+  const [meal, setMeal] = useState<MealDetails | null>(null);
+  const [profile, setProfile] = useState<DietaryProfile | null>(null);
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [quantity, setQuantity] = useState(1);
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    loadDetails();
+  }, [id]);
+
+  const loadDetails = async () => {
+    setLoading(true);
+    const [{ meal, error }, { profile }, { groups }] = await Promise.all([
+      loadMeal(id),
+      loadDietaryProfile(),
+      loadModifierGroups(id),
+    ]);
+
+    if (error) {
+      toast({
+        title: "error loading meal",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+    setMeal(meal);
+    setProfile(profile);
+    setGroups(groups);
+    setSelected([]);
+    setQuantity(1);
+    setLoading(false);
+  };
+
+  const addToCart = async () => {
+    const problem = selectionProblem(groups, selected);
+    if (problem) {
+      toast({ title: "check your options", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setAdding(true);
+    const { error } = await addItem(cartLineKey(meal.id, selected), quantity, customised.price);
+    setAdding(false);
+
+    if (error) {
+      toast({
+        title: "error adding to cart",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "added to cart",
+      description: `${quantity} × ${meal.name}${chosen.length > 0 ? ` (${chosen.map((option) => option.name).join(", ")})` : ""}`,
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-muted-foreground">loading meal...</div>
+      </div>
+    );
+  }
+
+  const images = meal ? mealImages(meal) : [];
+  const conflicts = meal ? dietaryConflicts(meal, profile) : [];
+  const chosen = groups.flatMap((group) => group.modifier_options).filter((option) => selected.includes(option.id));
+  // Price and macros follow the chosen options so the card, chart and cart agree
+  const customised = meal ? applyModifiers(meal, chosen) : null;
+  const macros = customised
+    ? macroCalories(customised).map((entry) => ({ ...entry, fill: `var(--color-${entry.macro})` }))
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={() => navigate("/meals")} size="icon">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-4xl font-bold mb-2">{meal ? meal.name : "meal not found"}</h1>
+              <p className="text-muted-foreground">
+                {meal ? meal.description : "this meal isn't on the menu right now"}
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => navigate("/checkout")} className="gap-2">
+            <ShoppingCart className="w-4 h-4" />
+            cart ({cartItemCount})
+          </Button>
+        </div>
+
+        {meal && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              {images.length === 0 ? (
+                <div className="aspect-[4/3] rounded-lg border border-primary/20 bg-muted flex items-center justify-center">
+                  <UtensilsCrossed className="w-12 h-12 text-muted-foreground" />
+                </div>
+              ) : (
+                <Carousel className="rounded-lg overflow-hidden border border-primary/20">
+                  <CarouselContent>
+                    {images.map((url, index) => (
+                      <CarouselItem key={url}>
+                        <img
+                          src={url}
+                          alt={`${meal.name} (${index + 1} of ${images.length})`}
+                          className="aspect-[4/3] w-full object-cover"
+                        />
+                      </CarouselItem>
+                    ))}
+                  </CarouselContent>
+                  {images.length > 1 && (
+                    <>
+                      <CarouselPrevious className="left-2" />
+                      <CarouselNext className="right-2" />
+                    </>
+                  )}
+                </Carousel>
+              )}
+
+              <Card className="border-primary/20">
+                <CardContent className="pt-6 space-y-4">
+                  {groups.length > 0 && (
+                    <div className="border-b pb-4">
+                      <div className="font-medium mb-3">customise</div>
+                      <ModifierPicker groups={groups} selected={selected} onChange={setSelected} />
+                    </div>
+                  )}
+                  {conflicts.length > 0 && (
+                    <div className="flex items-start gap-2 text-sm text-destructive">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      <span>doesn't suit your dietary profile: {conflicts.join(", ")}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <div className="text-3xl font-bold text-primary">{formatRM(customised.price)}</div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setQuantity(quantity - 1)}
+                        disabled={quantity <= 1}
+                      >
+                        <Minus className="w-4 h-4" />
+                      </Button>
+                      <span className="w-10 text-center">{quantity}</span>
+                      <Button variant="outline" size="icon" onClick={() => setQuantity(quantity + 1)}>
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Button onClick={addToCart} disabled={adding} className="w-full gap-2">
+                    <Plus className="w-4 h-4" />
+                    {adding ? "adding..." : `add to cart · ${formatRM(customised.price * quantity)}`}
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-4">
+              <Card className="border-primary/20">
+                <CardHeader>
+                  <CardTitle>nutrition</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={macroChartConfig} className="mx-auto aspect-square max-h-[240px]">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="macro" hideLabel />} />
+                      <Pie data={macros} dataKey="calories" nameKey="macro" innerRadius={50} strokeWidth={4} />
+                      <ChartLegend content={<ChartLegendContent nameKey="macro" />} />
+                    </PieChart>
+                  </ChartContainer>
+                  <p className="text-xs text-muted-foreground text-center mb-4">calories by macro</p>
+                  <div className="space-y-1 text-sm">
+                    <div className="flex justify-between border-b pb-1 font-medium">
+                      <span>calories</span>
+                      <span>{customised.calories} kcal</span>
+                    </div>
+                    {macros.map((entry) => (
+                      <div key={entry.macro} className="flex justify-between">
+                        <span className="text-muted-foreground">{entry.macro}</span>
+                        <span>{entry.grams}g</span>
+                      </div>
+                    ))}
+                    {meal.fibre !== null && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">fibre</span>
+                        <span>{meal.fibre}g</span>
+                      </div>
+                    )}
+                    {meal.sugar !== null && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">sugar</span>
+                        <span>{meal.sugar}g</span>
+                      </div>
+                    )}
+                    {meal.sodium !== null && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">sodium</span>
+                        <span>{meal.sodium}mg</span>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="border-primary/20">
+                <CardHeader>
+                  <CardTitle>ingredients and allergens</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                  {meal.dietary_tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {meal.dietary_tags.map((diet) => (
+                        <Badge key={diet}>{dietLabel(diet)}</Badge>
+                      ))}
+                    </div>
+                  )}
+                  <p>
+                    {meal.ingredients.length > 0
+                      ? meal.ingredients.join(", ")
+                      : "ingredient list coming soon"}
+                  </p>
+                  <p className="font-medium">
+                    {meal.allergens.length > 0
+                      ? `contains: ${meal.allergens.map(allergenLabel).join(", ")}`
+                      : "no listed allergens"}
+                  </p>
+                </CardContent>
+              </Card>
+
+              {(meal.preparation_instructions || meal.reheating_instructions) && (
+                <Card className="border-primary/20">
+                  <CardHeader>
+                    <CardTitle>storage and reheating</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    {meal.preparation_instructions && (
+                      <div>
+                        <div className="font-medium">preparation</div>
+                        <p className="text-muted-foreground">{meal.preparation_instructions}</p>
+                      </div>
+                    )}
+                    {meal.reheating_instructions && (
+                      <div>
+                        <div className="font-medium">reheating</div>
+                        <p className="text-muted-foreground">{meal.reheating_instructions}</p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MealDetail;
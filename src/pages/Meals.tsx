@@ -1,43 +1,45 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Plus, ShoppingCart } from "lucide-react";
-
-interface Meal {
-  id: string;
-  name: string;
-  description: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fats: number;
-  price: number;
-}
+import { useCart } from "@/hooks/use-cart";
+import { MealFilterBar } from "@/components/MealFilterBar";
+import { allergenLabel, dietaryConflicts, dietLabel, loadDietaryProfile, type DietaryProfile } from "@/lib/dietary";
+import { loadCustomisableMealIds } from "@/lib/modifiers";
+import { loadMealTags, parseMealFilters, searchMeals, toSearchParams, type Meal, type MealFilters } from "@/lib/meals";
+import { AlertTriangle, ArrowLeft, Plus, ShoppingCart, SlidersHorizontal, Soup } from "lucide-react";
 
 const Meals = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [meals, setMeals] = useState<Meal[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [profile, setProfile] = useState<DietaryProfile | null>(null);
+  const [customisable, setCustomisable] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
-  const [cart, setCart] = useState<Record<string, number>>({});
+  const { itemCount: cartItemCount, addItem } = useCart();
+
+  // Filters live in the URL so a filtered menu can be shared or bookmarked
+  const filters = parseMealFilters(searchParams);
+  const setFilters = (next: MealFilters) => setSearchParams(toSearchParams(next), { replace: true });
 
   useEffect(() => {
-    loadMeals();
-    const savedCart = localStorage.getItem("cart");
-    if (savedCart) {
-      setCart(JSON.parse(savedCart));
-    }
+    loadMealTags().then(setTags);
+    loadDietaryProfile().then(({ profile }) => setProfile(profile));
+    loadCustomisableMealIds().then(setCustomisable);
   }, []);
 
+  // Debounced so typing in the search box doesn't fire a query per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(loadMeals, 250);
+    return () => clearTimeout(timeout);
+  }, [searchParams.toString()]);
+
   const loadMeals = async () => {
-    const { data, error } = await supabase
-      .from("meals")
-      .select("*")
-      .eq("is_available", true);
+    const { meals, error } = await searchMeals(filters);
 
     if (error) {
       toast({
@@ -46,32 +48,32 @@ const Meals = () => {
         variant: "destructive",
       });
     } else {
-      setMeals(data || []);
+      setMeals(meals);
     }
     setLoading(false);
   };
 
-  const addToCart = (mealId: string) => {
-    const newCart = { ...cart };
-    newCart[mealId] = (newCart[mealId] || 0) + 1;
-    setCart(newCart);
-    localStorage.setItem("cart", JSON.stringify(newCart));
+  // Meals that clash with the customer's dietary profile are hidden or flagged
+  const conflicts = Object.fromEntries(meals.map((meal) => [meal.id, dietaryConflicts(meal, profile)]));
+  const hidden = profile?.hide_unsafe ? meals.filter((meal) => conflicts[meal.id].length > 0) : [];
+  const shown = meals.filter((meal) => !hidden.includes(meal));
+
+  const addToCart = async (meal: Meal) => {
+    const { error } = await addItem(meal.id, 1, meal.price);
+    if (error) {
+      toast({
+        title: "error adding to cart",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
     toast({
       title: "added to cart",
       description: "meal has been added to your cart",
     });
   };
 
-  const cartItemCount = Object.values(cart).reduce((sum, qty) => sum + qty, 0);
-
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="text-lg text-muted-foreground">loading meals...</div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
       <div className="max-w-7xl mx-auto">
@@ -85,45 +87,122 @@ const Meals = () => {
               <p className="text-muted-foreground">choose your personalized meals</p>
             </div>
           </div>
-          <Button onClick={() => navigate("/checkout")} className="gap-2">
-            <ShoppingCart className="w-4 h-4" />
-            cart ({cartItemCount})
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/bowl")} className="gap-2">
+              <Soup className="w-4 h-4" />
+              build a bowl
+            </Button>
+            <Button onClick={() => navigate("/checkout")} className="gap-2">
+              <ShoppingCart className="w-4 h-4" />
+              cart ({cartItemCount})
+            </Button>
+          </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {meals.map((meal) => (
-            <Card key={meal.id} className="border-primary/20 hover:border-primary/40 transition-colors">
-              <CardHeader>
-                <CardTitle>{meal.name}</CardTitle>
-                <CardDescription>{meal.description}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-2 gap-2 mb-4">
-                  <Badge variant="secondary" className="justify-center">
-                    {meal.calories} cal
-                  </Badge>
-                  <Badge variant="secondary" className="justify-center">
-                    {meal.protein}g protein
-                  </Badge>
-                  <Badge variant="secondary" className="justify-center">
-                    {meal.carbs}g carbs
-                  </Badge>
-                  <Badge variant="secondary" className="justify-center">
-                    {meal.fats}g fats
-                  </Badge>
-                </div>
-                <div className="text-2xl font-bold text-primary">RM {meal.price.toFixed(2)}</div>
-              </CardContent>
-              <CardFooter>
-                <Button onClick={() => addToCart(meal.id)} className="w-full gap-2">
-                  <Plus className="w-4 h-4" />
-                  add to cart
-                </Button>
-              </CardFooter>
-            </Card>
-          ))}
-        </div>
+        <MealFilterBar filters={filters} tags={tags} onChange={setFilters} />
+
+        {hidden.length > 0 && (
+          <p className="text-sm text-muted-foreground mb-4">
+            {hidden.length} {hidden.length === 1 ? "meal is" : "meals are"} hidden by your dietary profile.{" "}
+            <Button variant="link" className="h-auto p-0" onClick={() => navigate("/dashboard")}>
+              edit profile
+            </Button>
+          </p>
+        )}
+
+        {loading ? (
+          <div className="text-center text-muted-foreground py-12">loading meals...</div>
+        ) : shown.length === 0 ? (
+          <div className="text-center text-muted-foreground py-12">no meals match these filters</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {shown.map((meal) => (
+              <Card
+                key={meal.id}
+                className={
+                  conflicts[meal.id].length > 0
+                    ? "border-destructive/50"
+                    : "border-primary/20 hover:border-primary/40 transition-colors"
+                }
+              >
+                {meal.image_url && (
+                  <Link to={`/meals/${meal.id}`}>
+                    <img src={meal.image_url} alt={meal.name} className="aspect-[4/3] w-full object-cover rounded-t-lg" />
+                  </Link>
+                )}
+                <CardHeader>
+                  <CardTitle>
+                    <Link to={`/meals/${meal.id}`} className="hover:text-primary transition-colors">
+                      {meal.name}
+                    </Link>
+                  </CardTitle>
+                  <CardDescription>{meal.description}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-2 mb-4">
+                    <Badge variant="secondary" className="justify-center">
+                      {meal.calories} cal
+                    </Badge>
+                    <Badge variant="secondary" className="justify-center">
+                      {meal.protein}g protein
+                    </Badge>
+                    <Badge variant="secondary" className="justify-center">
+                      {meal.carbs}g carbs
+                    </Badge>
+                    <Badge variant="secondary" className="justify-center">
+                      {meal.fats}g fats
+                    </Badge>
+                  </div>
+                  {conflicts[meal.id].length > 0 && (
+                    <div className="flex items-start gap-2 text-sm text-destructive mb-4">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      <span>{conflicts[meal.id].join(", ")}</span>
+                    </div>
+                  )}
+                  {meal.dietary_tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {meal.dietary_tags.map((diet) => (
+                        <Badge key={diet}>{dietLabel(diet)}</Badge>
+                      ))}
+                    </div>
+                  )}
+                  {meal.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-4">
+                      {meal.tags.map((tag) => (
+                        <Badge key={tag} variant="outline">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground mb-4">
+                    {meal.allergens.length > 0
+                      ? `allergens: ${meal.allergens.map(allergenLabel).join(", ")}`
+                      : "no listed allergens"}
+                  </p>
+                  <div className="flex items-baseline justify-between">
+                    <div className="text-2xl font-bold text-primary">RM {meal.price.toFixed(2)}</div>
+                    {meal.protein_per_ringgit !== null && (
+                      <span className="text-xs text-muted-foreground">{meal.protein_per_ringgit}g protein / RM</span>
+                    )}
+                  </div>
+                </CardContent>
+                <CardFooter className="gap-2">
+                  <Button onClick={() => addToCart(meal)} className="flex-1 gap-2">
+                    <Plus className="w-4 h-4" />
+                    add to cart
+                  </Button>
+                  {customisable.has(meal.id) && (
+                    <Button variant="outline" onClick={() => navigate(`/meals/${meal.id}`)} className="gap-2">
+                      <SlidersHorizontal className="w-4 h-4" />
+                      customise
+                    </Button>
+                  )}
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { paymentMethods, sendMockPaymentEvent, type PaymentStatus } from "@/lib/payments";
+
+// Stand-in for the provider's hosted payment page when PAYMENT_PROVIDER=mock
+const MockPayment = () => {
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const [loading, setLoading] = useState(false);
+  const reference = searchParams.get("reference");
+  const amount = searchParams.get("amount");
+  const returnUrl = searchParams.get("return_url");
+  const method = paymentMethods.find((m) => m.value === searchParams.get("method"));
+
+  const completePayment = async (status: PaymentStatus) => {
+    if (!reference) return;
+    setLoading(true);
+
+    const { error } = await sendMockPaymentEvent(reference, status);
+    if (error) {
+      toast({
+        title: "mock payment failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    if (returnUrl && new URL(returnUrl, window.location.origin).origin === window.location.origin) {
+      window.location.assign(returnUrl);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
+      <Card className="w-full max-w-md border-primary/20">
+        <CardHeader>
+          <CardTitle>mock payment</CardTitle>
+          <CardDescription>
+            test provider for {method?.label ?? "payments"}. no money is moved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">reference:</span>
+            <span className="font-medium">{reference ?? "missing"}</span>
+          </div>
+          <div className="flex justify-between text-lg font-bold">
+            <span>amount:</span>
+            <span className="text-primary">RM {amount ?? "0.00"}</span>
+          </div>
+        </CardContent>
+        <CardFooter className="flex gap-2">
+          <Button onClick={() => completePayment("paid")} disabled={loading || !reference} className="flex-1">
+            approve
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => completePayment("failed")}
+            disabled={loading || !reference}
+            className="flex-1"
+          >
+            decline
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default MockPayment;
@@ -0,0 +1,534 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { EditOrderDialog } from "@/components/EditOrderDialog";
+import { EInvoicePanel } from "@/components/EInvoicePanel";
+import { OrderChangesList } from "@/components/OrderChangesList";
+import { OrderStatusBadges } from "@/components/OrderStatusBadges";
+import { OrderStatusTimeline } from "@/components/OrderStatusTimeline";
+import { PriceBreakdownLines } from "@/components/PriceBreakdownLines";
+import { ReceiptButton } from "@/components/ReceiptButton";
+import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
+import {
+  buildReorder,
+  canChangeOrder,
+  cancelOrder,
+  isClosedOrderStatus,
+  orderChangeDeadline,
+  type OrderChangeResult,
+  type ReorderResult,
+} from "@/lib/orders";
+import { applyModifiers, describeModifiers, type LineModifier } from "@/lib/modifiers";
+import type { PriceBreakdown } from "@/lib/pricing";
+import { formatDeliveryDate, formatWindow } from "@/lib/slots";
+import { ArrowLeft, CreditCard, Pencil, RotateCcw, XCircle } from "lucide-react";
+
+interface OrderDetails extends PriceBreakdown {
+  id: string;
+  user_id: string;
+  promo_code: string | null;
+  invoice_number: string | null;
+  einvoice_id: string | null;
+  status: string;
+  payment_status: string;
+  fulfilment_method: string;
+  pickup_code: string | null;
+  picked_up_at: string | null;
+  delivery_address: string;
+  delivery_instructions: string | null;
+  address_id: string | null;
+  delivery_date: string | null;
+  delivery_window_id: string | null;
+  delivery_window_start: string | null;
+  delivery_window_end: string | null;
+  created_at: string;
+  delivery_zones: { change_cutoff_hours: number } | null;
+  pickup_points: { change_cutoff_hours: number; instructions: string | null } | null;
+  order_items: {
+    id: string;
+    meal_id: string;
+    option_ids: string[];
+    modifiers: LineModifier[];
+    quantity: number;
+    price_at_purchase: number;
+    note: string | null;
+    meals: {
+      name: string;
+      price: number;
+      calories: number;
+      protein: number;
+      carbs: number;
+      fats: number;
+    } | null;
+  }[];
+}
+
+// Realtime rows carry every column; keep only what this page shows
+const pickOrderFields = (row: Record<string, unknown>) =>
+  ({
+    status: row.status,
+    payment_status: row.payment_status,
+    subtotal: row.subtotal,
+    discount_amount: row.discount_amount,
+    service_charge: row.service_charge,
+    delivery_fee: row.delivery_fee,
+    delivery_distance_km: row.delivery_distance_km,
+    sst_rate: row.sst_rate,
+    sst_amount: row.sst_amount,
+    total_price: row.total_price,
+    invoice_number: row.invoice_number,
+    einvoice_id: row.einvoice_id,
+    picked_up_at: row.picked_up_at,
+    delivery_address: row.delivery_address,
+    delivery_instructions: row.delivery_instructions,
+    address_id: row.address_id,
+    delivery_date: row.delivery_date,
+    delivery_window_id: row.delivery_window_id,
+    delivery_window_start: row.delivery_window_start,
+    delivery_window_end: row.delivery_window_end,
+  }) as Partial<OrderDetails>;
+
+const OrderDetail = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { replaceCart } = useCart();
+  const [order, setOrder] = useState<OrderDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reordering, setReordering] = useState(false);
+  const [reorderResult, setReorderResult] = useState<ReorderResult | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const [cancelOpen, setCancelOpen] = useState(false);
+
+  useEffect(() => {
+    loadOrder();
+
+    // Status and payment progress arrive live; RLS limits events to the customer's own orders
+    const channel = supabase
+      .channel(`order:${id}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "orders", filter: `id=eq.${id}` },
+        (payload) => {
+          setOrder((current) => (current ? { ...current, ...pickOrderFields(payload.new) } : current));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id]);
+
+  const loadOrder = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("orders")
+      .select(
+        "id, user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km, sst_rate, sst_amount, total_price, promo_code, invoice_number, einvoice_id, status, payment_status, fulfilment_method, pickup_code, picked_up_at, delivery_address, delivery_instructions, address_id, delivery_date, delivery_window_id, delivery_window_start, delivery_window_end, created_at, delivery_zones(change_cutoff_hours), pickup_points(change_cutoff_hours, instructions), order_items(id, meal_id, option_ids, modifiers, quantity, price_at_purchase, note, meals(name, price, calories, protein, carbs, fats))"
+      )
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        title: "error loading order",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setOrder(data as unknown as OrderDetails);
+    }
+    setLoading(false);
+  };
+
+  const handleReorder = async () => {
+    if (!order) return;
+    setReordering(true);
+
+    const mealIds = order.order_items.map((item) => item.meal_id);
+    const { data: meals, error } = await supabase
+      .from("meals")
+      .select("id, name, price, is_available")
+      .in("id", mealIds);
+
+    setReordering(false);
+
+    if (error) {
+      toast({
+        title: "error reordering",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const result = buildReorder(order.order_items, meals || []);
+    if (Object.keys(result.cart).length === 0) {
+      toast({
+        title: "nothing to reorder",
+        description: "none of the meals in this order are available anymore",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (result.unavailable.length > 0 || result.priceChanged.length > 0) {
+      setReorderResult(result);
+      return;
+    }
+
+    applyReorder(result);
+  };
+
+  const applyReorder = async (result: ReorderResult) => {
+    const { error } = await replaceCart(result.cart);
+    if (error) {
+      toast({
+        title: "error reordering",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "cart rebuilt",
+      description: "your past order has been added to your cart",
+    });
+    navigate("/checkout");
+  };
+
+  const describeSettlement = (result: OrderChangeResult) => {
+    switch (result.settlement) {
+      case "payment_due":
+        return `please pay the remaining RM ${result.amount.toFixed(2)} to keep your order`;
+      case "refund_pending":
+        return `RM ${result.amount.toFixed(2)} is being refunded to you`;
+      case "refunded":
+        return `RM ${result.amount.toFixed(2)} has been refunded to you`;
+      default:
+        return undefined;
+    }
+  };
+
+  const handleChanged = (result: OrderChangeResult) => {
+    toast({
+      title: "order changed",
+      description: describeSettlement(result) ?? "the kitchen has your updated order",
+    });
+    loadOrder();
+  };
+
+  const handleCancel = async () => {
+    if (!order) return;
+    setCancelling(true);
+    const { result, error } = await cancelOrder(order.id, cancelReason.trim());
+    setCancelling(false);
+    setCancelOpen(false);
+
+    if (error || !result) {
+      toast({
+        title: "error cancelling order",
+        description: error?.message ?? "please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "order cancelled",
+      description: describeSettlement(result),
+    });
+    loadOrder();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-muted-foreground">loading order...</div>
+      </div>
+    );
+  }
+
+  const pickup = order?.fulfilment_method === "pickup";
+  const changeDeadline = order
+    ? orderChangeDeadline(
+        order.delivery_date,
+        order.delivery_window_start,
+        (pickup ? order.pickup_points : order.delivery_zones)?.change_cutoff_hours ?? null
+      )
+    : null;
+  const changeable = !!order && canChangeOrder(order.status, changeDeadline);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="outline" onClick={() => navigate("/orders")} size="icon">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-4xl font-bold mb-2">
+              {order ? `order #${order.id.slice(0, 8)}` : "order not found"}
+            </h1>
+            {order && (
+              <p className="text-muted-foreground">
+                placed on {new Date(order.created_at).toLocaleString()}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {order && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-4">
+              {order.order_items.map((item) => {
+                // Macros as made, using the deltas recorded when the line was ordered
+                const made = item.meals ? applyModifiers(item.meals, item.modifiers) : null;
+                return (
+                <Card key={item.id} className="border-primary/20">
+                  <CardHeader>
+                    <CardTitle>{item.meals?.name ?? "unknown meal"}</CardTitle>
+                    {item.modifiers.length > 0 && (
+                      <p className="text-sm mt-1">{describeModifiers(item.modifiers)}</p>
+                    )}
+                    {made && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {made.calories}cal | {made.protein}g protein | {made.carbs}g carbs | {made.fats}g fats
+                      </p>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">
+                        {item.quantity} × RM {item.price_at_purchase.toFixed(2)}
+                      </span>
+                      <div className="text-xl font-bold">
+                        RM {(item.price_at_purchase * item.quantity).toFixed(2)}
+                      </div>
+                    </div>
+                    {item.note && <p className="text-sm italic mt-2">note: {item.note}</p>}
+                  </CardContent>
+                </Card>
+                );
+              })}
+            </div>
+
+            <div className="space-y-4">
+              <Card className="border-primary/20">
+                <CardHeader>
+                  <CardTitle>order summary</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <OrderStatusBadges status={order.status} paymentStatus={order.payment_status} />
+                  {pickup && order.pickup_code && !isClosedOrderStatus(order.status) && (
+                    <div className="rounded-md border border-primary/40 bg-primary/10 p-3 text-center">
+                      <p className="text-xs text-muted-foreground">show this code when you collect</p>
+                      <p className="text-3xl font-bold tracking-widest font-mono mt-1">{order.pickup_code}</p>
+                    </div>
+                  )}
+                  {pickup && order.picked_up_at && (
+                    <p className="text-sm text-muted-foreground">
+                      collected {new Date(order.picked_up_at).toLocaleString()}
+                    </p>
+                  )}
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">{pickup ? "pickup point:" : "delivery address:"}</span>
+                    <p className="font-medium mt-1">{order.delivery_address}</p>
+                    {pickup && order.pickup_points?.instructions && (
+                      <p className="text-muted-foreground mt-1">{order.pickup_points.instructions}</p>
+                    )}
+                  </div>
+                  {order.delivery_instructions && (
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">instructions for the rider:</span>
+                      <p className="font-medium mt-1">{order.delivery_instructions}</p>
+                    </div>
+                  )}
+                  {order.delivery_date && (
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">{pickup ? "pickup day:" : "delivery slot:"}</span>
+                      <p className="font-medium mt-1">
+                        {formatDeliveryDate(order.delivery_date)}
+                        {order.delivery_window_start &&
+                          order.delivery_window_end &&
+                          `, ${formatWindow(order.delivery_window_start, order.delivery_window_end)}`}
+                      </p>
+                    </div>
+                  )}
+                  <div className="border-t pt-2 mt-2">
+                    <PriceBreakdownLines breakdown={order} promoCode={order.promo_code} totalLabel="total paid" />
+                  </div>
+                </CardContent>
+                <CardFooter className="flex-col gap-2">
+                  {changeDeadline && changeable && (
+                    <p className="text-xs text-muted-foreground w-full">
+                      you can {pickup ? "cancel" : "change or cancel"} this order until {changeDeadline.toLocaleString()}
+                    </p>
+                  )}
+                  {changeable && (
+                    <div className="flex gap-2 w-full">
+                      {!pickup && (
+                        <Button variant="outline" onClick={() => setEditing(true)} className="flex-1 gap-2">
+                          <Pencil className="w-4 h-4" />
+                          change
+                        </Button>
+                      )}
+                      <Button variant="outline" onClick={() => setCancelOpen(true)} className="flex-1 gap-2">
+                        <XCircle className="w-4 h-4" />
+                        cancel
+                      </Button>
+                    </div>
+                  )}
+                  {order.status !== "cancelled" &&
+                    (order.payment_status === "pending" || order.payment_status === "failed") && (
+                      <Button
+                        onClick={() => navigate(`/payment/return?order=${order.id}`)}
+                        className="w-full gap-2"
+                      >
+                        <CreditCard className="w-4 h-4" />
+                        pay now
+                      </Button>
+                    )}
+                  <Button onClick={handleReorder} disabled={reordering} className="w-full gap-2">
+                    <RotateCcw className="w-4 h-4" />
+                    {reordering ? "checking menu..." : "reorder"}
+                  </Button>
+                  {order.invoice_number && (
+                    <ReceiptButton orderId={order.id} invoiceNumber={order.invoice_number} className="w-full gap-2" />
+                  )}
+                </CardFooter>
+              </Card>
+
+              {order.payment_status === "paid" && order.invoice_number && (
+                <Card className="border-primary/20">
+                  <CardHeader>
+                    <CardTitle>e-invoice</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <EInvoicePanel orderId={order.id} einvoiceId={order.einvoice_id} />
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card className="border-primary/20">
+                <CardHeader>
+                  <CardTitle>order progress</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OrderStatusTimeline orderId={order.id} customerId={order.user_id} />
+                </CardContent>
+              </Card>
+
+              <Card className="border-primary/20">
+                <CardHeader>
+                  <CardTitle>changes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OrderChangesList orderId={order.id} customerId={order.user_id} />
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {order && editing && (
+        <EditOrderDialog order={order} open={editing} onOpenChange={setEditing} onChanged={handleChanged} />
+      )}
+
+      <AlertDialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>cancel this order?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {order?.payment_status === "paid"
+                ? "we'll refund your payment to the card or account you paid with."
+                : "your delivery slot will be released."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div>
+            <Label htmlFor="cancel-reason">reason (optional)</Label>
+            <Textarea
+              id="cancel-reason"
+              value={cancelReason}
+              maxLength={500}
+              onChange={(e) => setCancelReason(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>keep order</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} disabled={cancelling}>
+              {cancelling ? "cancelling..." : "cancel order"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={reorderResult !== null} onOpenChange={(open) => !open && setReorderResult(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>some things have changed</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-3">
+                {reorderResult && reorderResult.unavailable.length > 0 && (
+                  <div>
+                    <p className="font-medium text-foreground">no longer available:</p>
+                    <ul className="list-disc pl-5">
+                      {reorderResult.unavailable.map((item) => (
+                        <li key={item.mealId}>{item.name}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {reorderResult && reorderResult.priceChanged.length > 0 && (
+                  <div>
+                    <p className="font-medium text-foreground">price changed:</p>
+                    <ul className="list-disc pl-5">
+                      {reorderResult.priceChanged.map((item) => (
+                        <li key={item.mealId}>
+                          {item.name}: RM {item.oldPrice.toFixed(2)} → RM {item.newPrice.toFixed(2)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => reorderResult && applyReorder(reorderResult)}>
+              continue to checkout
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default OrderDetail;
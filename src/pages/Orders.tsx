@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { OrderStatusBadges } from "@/components/OrderStatusBadges";
+import { ReceiptButton } from "@/components/ReceiptButton";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ChevronRight } from "lucide-react";
+
+interface OrderSummary {
+  id: string;
+  total_price: number;
+  status: string;
+  payment_status: string;
+  invoice_number: string | null;
+  created_at: string;
+  order_items: {
+    quantity: number;
+    meals: {
+      name: string;
+    } | null;
+  }[];
+}
+
+const Orders = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<OrderSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadOrders();
+
+    // RLS limits events to the customer's own orders
+    const channel = supabase
+      .channel("my-orders")
+      .on("postgres_changes", { event: "*", schema: "public", table: "orders" }, () => {
+        loadOrders();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const loadOrders = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("orders")
+      .select("id, total_price, status, payment_status, invoice_number, created_at, order_items(quantity, meals(name))")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({
+        title: "error loading orders",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setOrders(data || []);
+    }
+    setLoading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-muted-foreground">loading orders...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="outline" onClick={() => navigate("/dashboard")} size="icon">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-4xl font-bold mb-2">my orders</h1>
+            <p className="text-muted-foreground">your past meal prep orders</p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {orders.length === 0 ? (
+            <Card className="border-primary/20">
+              <CardContent className="pt-6 text-center space-y-4">
+                <p className="text-muted-foreground">you haven't placed any orders yet</p>
+                <Button onClick={() => navigate("/meals")}>browse meals</Button>
+              </CardContent>
+            </Card>
+          ) : (
+            orders.map((order) => (
+              <Card
+                key={order.id}
+                className="border-primary/20 hover:border-primary/40 transition-colors cursor-pointer"
+                onClick={() => navigate(`/orders/${order.id}`)}
+              >
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <CardTitle className="text-lg">order #{order.id.slice(0, 8)}</CardTitle>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {new Date(order.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <OrderStatusBadges status={order.status} paymentStatus={order.payment_status} />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm text-muted-foreground">
+                      {order.order_items
+                        .map((item) => `${item.quantity}× ${item.meals?.name ?? "unknown meal"}`)
+                        .join(", ")}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      {order.invoice_number && (
+                        <ReceiptButton orderId={order.id} invoiceNumber={order.invoice_number} iconOnly />
+                      )}
+                      <span className="text-xl font-bold">RM {order.total_price.toFixed(2)}</span>
+                      <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Orders;
@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { GuestUpgradeCard } from "@/components/GuestUpgradeCard";
+import { useToast } from "@/hooks/use-toast";
+import { isGuest, trackingUrl } from "@/lib/guest";
+import { paymentMethods, startPayment, type PaymentMethod } from "@/lib/payments";
+
+interface Order {
+  id: string;
+  total_price: number;
+  payment_status: string;
+  tracking_token: string;
+  payments: { amount: number; refunded_amount: number; status: string }[];
+}
+
+// Money already taken for the order, e.g. before the customer added to it
+const amountPaid = (order: Order) =>
+  order.payments
+    .filter((payment) => payment.status === "paid")
+    .reduce((sum, payment) => sum + payment.amount - payment.refunded_amount, 0);
+
+// Paying again is only offered once the last attempt has failed, or when none
+// is open, e.g. for the difference after a change to a paid order
+const canPay = (order: Order) =>
+  order.payment_status === "failed" ||
+  (order.payment_status === "pending" && !order.payments.some((payment) => payment.status === "pending"));
+
+const POLL_INTERVAL_MS = 3000;
+
+const PaymentReturn = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const orderId = searchParams.get("order");
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("fpx");
+  const [guestEmail, setGuestEmail] = useState<string | null>(null);
+
+  const loadOrder = useCallback(async () => {
+    if (!orderId) {
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("orders")
+      .select("id, total_price, payment_status, tracking_token, payments(amount, refunded_amount, status)")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        title: "error loading order",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setOrder(data);
+    }
+    setLoading(false);
+  }, [orderId, toast]);
+
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  useEffect(() => {
+    loadGuest();
+  }, []);
+
+  // Guests get their tracking link here too, and the offer to keep an account
+  const loadGuest = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !isGuest(user)) {
+      setGuestEmail(null);
+      return;
+    }
+    const { data: profile } = await supabase.from("profiles").select("email").eq("id", user.id).maybeSingle();
+    setGuestEmail(profile?.email ?? "");
+  };
+
+  // The provider's webhook may land a moment after the customer is redirected back
+  useEffect(() => {
+    if (order?.payment_status !== "pending") return;
+    const timer = setInterval(loadOrder, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [order?.payment_status, loadOrder]);
+
+  const handleRetry = async () => {
+    if (!order) return;
+    setRetrying(true);
+    const { error } = await startPayment(order.id, paymentMethod);
+    if (error) {
+      toast({
+        title: "error starting payment",
+        description: error.message,
+        variant: "destructive",
+      });
+      setRetrying(false);
+    }
+  };
+
+  const paidSoFar = order ? amountPaid(order) : 0;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-muted-foreground">checking payment...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
+      <Card className="w-full max-w-md border-primary/20">
+        <CardHeader>
+          <CardTitle>{order ? `order #${order.id.slice(0, 8)}` : "order not found"}</CardTitle>
+        </CardHeader>
+        {order && (
+          <CardContent className="space-y-4">
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">payment</span>
+              <Badge variant={order.payment_status === "paid" ? "default" : "secondary"}>
+                {order.payment_status}
+              </Badge>
+            </div>
+            <div className="flex justify-between text-lg font-bold">
+              <span>total:</span>
+              <span className="text-primary">RM {order.total_price.toFixed(2)}</span>
+            </div>
+            {paidSoFar > 0 && order.payment_status !== "paid" && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">already paid / left to pay:</span>
+                <span className="font-medium">
+                  RM {paidSoFar.toFixed(2)} / RM {Math.max(order.total_price - paidSoFar, 0).toFixed(2)}
+                </span>
+              </div>
+            )}
+            {order.payment_status === "pending" && !canPay(order) && (
+              <p className="text-sm text-muted-foreground">
+                waiting for confirmation from your bank. this page updates automatically.
+              </p>
+            )}
+            {order.payment_status === "paid" && (
+              <p className="text-sm text-muted-foreground">
+                payment received. your meal prep order has been confirmed.
+              </p>
+            )}
+            {guestEmail !== null && (
+              <p className="text-sm text-muted-foreground">
+                we've emailed you a link to{" "}
+                <a href={trackingUrl(order.tracking_token)} className="text-primary hover:underline">
+                  track this order
+                </a>
+                .
+              </p>
+            )}
+            {canPay(order) && (
+              <div>
+                <Label>{order.payment_status === "failed" ? "payment failed, try again with" : "pay with"}</Label>
+                <RadioGroup
+                  value={paymentMethod}
+                  onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                  className="mt-2"
+                >
+                  {paymentMethods.map((method) => (
+                    <div key={method.value} className="flex items-center gap-2">
+                      <RadioGroupItem value={method.value} id={`retry-${method.value}`} />
+                      <Label htmlFor={`retry-${method.value}`} className="font-normal">
+                        {method.label}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+          </CardContent>
+        )}
+        <CardFooter className="flex gap-2">
+          {order && canPay(order) && (
+            <Button onClick={handleRetry} disabled={retrying} className="flex-1">
+              {retrying ? "redirecting..." : "pay now"}
+            </Button>
+          )}
+          {guestEmail !== null && order ? (
+            <Button variant="outline" onClick={() => navigate(`/track/${order.tracking_token}`)} className="flex-1">
+              track order
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => navigate("/dashboard")} className="flex-1">
+              back to dashboard
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+      {guestEmail !== null && order && <GuestUpgradeCard defaultEmail={guestEmail} onUpgraded={loadGuest} />}
+    </div>
+  );
+};
+
+export default PaymentReturn;
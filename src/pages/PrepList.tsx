@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { DayStepper } from "@/components/admin/DayStepper";
+import { useAdminAccess } from "@/hooks/use-admin";
+import { useToast } from "@/hooks/use-toast";
+import { loadRunOrders, prepLines, PREP_STATUSES, type RunOrder } from "@/lib/fulfilment";
+import { describeModifiers } from "@/lib/modifiers";
+import { formatDeliveryDate, formatWindow, malaysiaToday } from "@/lib/slots";
+import { ArrowLeft, MessageSquareWarning, Printer } from "lucide-react";
+
+// The kitchen's printable list for a day: what to cook in total, then each
+// order to pack with its kitchen notes
+const PrepList = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { isAdmin } = useAdminAccess();
+  const [date, setDate] = useState(malaysiaToday());
+  const [orders, setOrders] = useState<RunOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (isAdmin) loadOrders();
+  }, [isAdmin, date]);
+
+  const loadOrders = async () => {
+    setLoading(true);
+    const { orders, error } = await loadRunOrders(date, PREP_STATUSES);
+    if (error) {
+      toast({
+        title: "error loading prep list",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+    setOrders(orders);
+    setLoading(false);
+  };
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  const lines = prepLines(orders);
+  const portions = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6 print:bg-none print:p-0">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={() => navigate("/admin")} size="icon" className="print:hidden">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-4xl font-bold mb-2">prep list</h1>
+              <p className="text-muted-foreground">
+                {formatDeliveryDate(date)} · {orders.length} orders · {portions} meals
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <DayStepper date={date} onChange={setDate} />
+            <Button onClick={() => window.print()} className="gap-2 print:hidden">
+              <Printer className="w-4 h-4" />
+              print
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-muted-foreground">loading prep list...</p>
+        ) : orders.length === 0 ? (
+          <p className="text-muted-foreground">no paid orders to cook for this day</p>
+        ) : (
+          <>
+            <Card className="border-primary/20 break-inside-avoid">
+              <CardHeader>
+                <CardTitle>to cook</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {lines.map((line) => (
+                    <li key={`${line.name}|${line.options}`} className="py-2">
+                      <div className="flex justify-between gap-4">
+                        <span>
+                          <span className="font-medium">{line.name}</span>
+                          {line.options && <span className="text-muted-foreground"> · {line.options}</span>}
+                        </span>
+                        <span className="text-lg font-bold">{line.quantity}</span>
+                      </div>
+                      {line.notes.length > 0 && (
+                        <ul className="mt-1 space-y-0.5 text-sm">
+                          {line.notes.map((note, index) => (
+                            <li key={index} className="rounded bg-accent px-1.5 py-0.5 text-accent-foreground">
+                              {note}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <div className="space-y-4">
+              <h2 className="text-2xl font-bold">to pack</h2>
+              {orders.map((order) => (
+                <Card key={order.id} className="border-primary/20 break-inside-avoid">
+                  <CardHeader className="pb-2">
+                    <div className="flex justify-between items-start gap-2">
+                      <CardTitle className="text-lg">
+                        order #{order.id.slice(0, 8)}
+                        {order.customer?.full_name && ` · ${order.customer.full_name}`}
+                      </CardTitle>
+                      <Badge variant="outline">
+                        {order.fulfilment_method === "pickup"
+                          ? "self-collect"
+                          : order.delivery_window_start && order.delivery_window_end
+                            ? formatWindow(order.delivery_window_start, order.delivery_window_end)
+                            : "delivery"}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <ul className="space-y-1 text-sm">
+                      {order.order_items.map((item) => (
+                        <li key={item.id}>
+                          <span className="font-medium">
+                            {item.quantity} × {item.meals?.name ?? "unknown meal"}
+                          </span>
+                          {item.modifiers.length > 0 && (
+                            <span className="text-muted-foreground"> · {describeModifiers(item.modifiers)}</span>
+                          )}
+                          {item.note && (
+                            <span className="ml-2 rounded bg-accent px-1.5 py-0.5 text-accent-foreground">
+                              {item.note}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {order.delivery_instructions && (
+                      <div className="flex items-start gap-2 rounded-md border border-primary/40 bg-primary/10 p-2 text-sm">
+                        <MessageSquareWarning className="w-4 h-4 mt-0.5 shrink-0" />
+                        <span className="font-medium">{order.delivery_instructions}</span>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrepList;
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { OrderStatusBadges } from "@/components/OrderStatusBadges";
+import { PriceBreakdownLines } from "@/components/PriceBreakdownLines";
+import { trackOrder, type TrackedOrder } from "@/lib/guest";
+import { describeModifiers } from "@/lib/modifiers";
+import { formatOrderStatus, isClosedOrderStatus } from "@/lib/orders";
+import { formatDeliveryDate, formatWindow } from "@/lib/slots";
+
+// Tracking links work without signing in, so there's no realtime channel to join
+const POLL_INTERVAL_MS = 30000;
+
+const TrackOrder = () => {
+  const navigate = useNavigate();
+  const { token } = useParams<{ token: string }>();
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadOrder = useCallback(async () => {
+    const { order } = await trackOrder(token ?? "");
+    setOrder(order);
+    setLoading(false);
+  }, [token]);
+
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  useEffect(() => {
+    if (!order?.status || isClosedOrderStatus(order.status)) return;
+    const timer = setInterval(loadOrder, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [order?.status, loadOrder]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-muted-foreground">loading order...</div>
+      </div>
+    );
+  }
+
+  const pickup = order?.fulfilment_method === "pickup";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-primary/10 p-6">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">
+            {order ? `order #${order.id.slice(0, 8)}` : "order not found"}
+          </h1>
+          <p className="text-muted-foreground">
+            {order
+              ? `placed on ${new Date(order.created_at).toLocaleString()}`
+              : "this tracking link is invalid or has been mistyped"}
+          </p>
+        </div>
+
+        {!order && <Button onClick={() => navigate("/meals")}>browse meals</Button>}
+
+        {order && (
+          <>
+            <Card className="border-primary/20">
+              <CardHeader>
+                <CardTitle>{pickup ? "pickup" : "delivery"}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <OrderStatusBadges status={order.status} paymentStatus={order.payment_status} />
+                {pickup && order.pickup_code && !isClosedOrderStatus(order.status) && (
+                  <div className="rounded-md border border-primary/40 bg-primary/10 p-3 text-center">
+                    <p className="text-xs text-muted-foreground">show this code when you collect</p>
+                    <p className="text-3xl font-bold tracking-widest font-mono mt-1">{order.pickup_code}</p>
+                  </div>
+                )}
+                <div className="text-sm">
+                  <span className="text-muted-foreground">{pickup ? "pickup point:" : "delivery address:"}</span>
+                  <p className="font-medium mt-1">{order.delivery_address}</p>
+                </div>
+                {order.delivery_date && (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">{pickup ? "pickup day:" : "delivery slot:"}</span>
+                    <p className="font-medium mt-1">
+                      {formatDeliveryDate(order.delivery_date)}
+                      {order.delivery_window_start &&
+                        order.delivery_window_end &&
+                        `, ${formatWindow(order.delivery_window_start, order.delivery_window_end)}`}
+                    </p>
+                  </div>
+                )}
+                {order.history.length > 0 && (
+                  <ol className="relative border-l border-primary/20 ml-2 space-y-3">
+                    {order.history.map((change, index) => (
+                      <li key={`${change.to_status}-${change.created_at}`} className="ml-4">
+                        <span
+                          className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                            index === order.history.length - 1 ? "bg-primary" : "bg-muted-foreground/40"
+                          }`}
+                        />
+                        <p className="text-sm font-medium">{formatOrderStatus(change.to_status)}</p>
+                        <p className="text-xs text-muted-foreground">{new Date(change.created_at).toLocaleString()}</p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-primary/20">
+              <CardHeader>
+                <CardTitle>your order</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {order.items.map((item, index) => (
+                  <div key={index} className="flex justify-between text-sm">
+                    <span>
+                      {item.quantity} × {item.name ?? "unknown meal"}
+                      {item.modifiers?.length > 0 && (
+                        <span className="text-muted-foreground"> ({describeModifiers(item.modifiers)})</span>
+                      )}
+                    </span>
+                    <span className="font-medium">RM {(item.price_at_purchase * item.quantity).toFixed(2)}</span>
+                  </div>
+                ))}
+                <div className="border-t pt-2 mt-2">
+                  <PriceBreakdownLines breakdown={order} promoCode={order.promo_code} totalLabel="total" />
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackOrder;
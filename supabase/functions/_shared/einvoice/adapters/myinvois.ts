@@ -0,0 +1,87 @@
+import { EInvoiceError, type EInvoiceAdapter } from "../types.ts";
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new EInvoiceError(`${name} is not configured`, 500);
+  }
+  return value;
+};
+
+// Sandbox by default; set MYINVOIS_BASE_URL to https://api.myinvois.hasil.gov.my for production
+const baseUrl = () => Deno.env.get("MYINVOIS_BASE_URL") ?? "https://preprod-api.myinvois.hasil.gov.my";
+
+const sha256Hex = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+// Client credentials for the taxpayer's ERP system, registered in the MyInvois portal
+const getAccessToken = async () => {
+  const response = await fetch(`${baseUrl()}/connect/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: requireEnv("MYINVOIS_CLIENT_ID"),
+      client_secret: requireEnv("MYINVOIS_CLIENT_SECRET"),
+      grant_type: "client_credentials",
+      scope: "InvoicingAPI",
+    }),
+  });
+  if (!response.ok) {
+    throw new EInvoiceError(`MyInvois login failed (${response.status})`, 502);
+  }
+  const { access_token: token } = await response.json();
+  return token as string;
+};
+
+// LHDN MyInvois document submission API. Acceptance only means the document
+// was queued; LHDN validates it asynchronously, so it stays "submitted" here.
+export const myinvoisAdapter: EInvoiceAdapter = {
+  name: "myinvois",
+
+  async submit(document, payload) {
+    const token = await getAccessToken();
+    const bytes = new TextEncoder().encode(payload);
+    const response = await fetch(`${baseUrl()}/api/v1.0/documentsubmissions`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        documents: [
+          {
+            format: "JSON",
+            document: toBase64(bytes),
+            documentHash: await sha256Hex(bytes),
+            codeNumber: document.code,
+          },
+        ],
+      }),
+    });
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok && response.status !== 202) {
+      throw new EInvoiceError(body?.error?.message ?? `MyInvois submission failed (${response.status})`, 502);
+    }
+
+    const accepted = body?.acceptedDocuments?.[0];
+    if (!accepted) {
+      return {
+        status: "rejected",
+        submissionUid: body?.submissionUid ?? null,
+        documentUuid: null,
+        longId: null,
+        errors: body?.rejectedDocuments?.[0]?.error ?? body,
+      };
+    }
+
+    return {
+      status: "submitted",
+      submissionUid: body.submissionUid,
+      documentUuid: accepted.uuid,
+      longId: null,
+      errors: null,
+    };
+  },
+};
@@ -0,0 +1,19 @@
+import type { EInvoiceAdapter } from "../types.ts";
+
+// Offline adapter: accepts every document that passed local validation and
+// makes up the identifiers MyInvois would return. The default adapter, so the
+// whole mapping runs without LHDN credentials.
+export const stubAdapter: EInvoiceAdapter = {
+  name: "stub",
+
+  async submit(document) {
+    const documentUuid = crypto.randomUUID().replace(/-/g, "").slice(0, 26).toUpperCase();
+    return {
+      status: "valid",
+      submissionUid: `stub_${crypto.randomUUID()}`,
+      documentUuid,
+      longId: `STUB${documentUuid}${document.code.replace(/[^A-Z0-9]/gi, "")}`,
+      errors: null,
+    };
+  },
+};
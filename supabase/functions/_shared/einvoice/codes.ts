@@ -0,0 +1,41 @@
+// Code lists from the LHDN MyInvois SDK (sdk.myinvois.hasil.gov.my/codes)
+
+export const INVOICE_TYPE_INVOICE = "01";
+export const DOCUMENT_VERSION = "1.0";
+export const CURRENCY = "MYR";
+export const COUNTRY_MALAYSIA = "MYS";
+// "One", for meals and for fees charged once per order
+export const UNIT_CODE = "C62";
+
+export const CLASSIFICATION_CONSOLIDATED = "004";
+export const CLASSIFICATION_OTHERS = "022";
+
+export const TAX_SERVICE = "02";
+export const TAX_NOT_APPLICABLE = "06";
+
+// Stands in for the buyer's TIN on consolidated e-invoices
+export const GENERAL_PUBLIC_TIN = "EI00000000010";
+
+export const stateCodes: Record<string, string> = {
+  Johor: "01",
+  Kedah: "02",
+  Kelantan: "03",
+  Melaka: "04",
+  "Negeri Sembilan": "05",
+  Pahang: "06",
+  "Pulau Pinang": "07",
+  Perak: "08",
+  Perlis: "09",
+  Selangor: "10",
+  Terengganu: "11",
+  Sabah: "12",
+  Sarawak: "13",
+  "W.P. Kuala Lumpur": "14",
+  "W.P. Labuan": "15",
+  "W.P. Putrajaya": "16",
+};
+
+export const STATE_NOT_APPLICABLE = "17";
+
+export const toStateCode = (state: string | null | undefined) =>
+  (state && stateCodes[state]) || STATE_NOT_APPLICABLE;
@@ -0,0 +1,84 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { stubAdapter } from "./adapters/stub.ts";
+import { myinvoisAdapter } from "./adapters/myinvois.ts";
+import { validateDocument } from "./schema.ts";
+import { toUblJson } from "./ubl.ts";
+import { EInvoiceError, type EInvoiceAdapter, type EInvoiceDocument } from "./types.ts";
+
+export * from "./types.ts";
+export { buildConsolidatedDocument, buildIndividualDocument, toSupplier } from "./model.ts";
+export { loadOrderForEInvoice, loadOrdersForConsolidation } from "./load.ts";
+export { validateDocument } from "./schema.ts";
+export { toUblJson, toUblXml } from "./ubl.ts";
+
+const adapters: Record<string, EInvoiceAdapter> = {
+  stub: stubAdapter,
+  myinvois: myinvoisAdapter,
+};
+
+// EINVOICE_ADAPTER=myinvois submits to LHDN; anything else stays offline
+export const getAdapter = () => adapters[Deno.env.get("EINVOICE_ADAPTER") ?? "stub"] ?? stubAdapter;
+
+interface SubmitOptions {
+  orderId?: string;
+  orderIds?: string[];
+}
+
+// Validates, submits and records a document, then links its orders to it.
+// A document that was rejected or failed LHDN validation can be submitted
+// again under the same code; one that is in flight or valid cannot.
+export const submitDocument = async (
+  admin: SupabaseClient,
+  document: EInvoiceDocument,
+  { orderId, orderIds = orderId ? [orderId] : [] }: SubmitOptions,
+) => {
+  validateDocument(document);
+
+  const { data: existing } = await admin
+    .from("einvoices")
+    .select("id, status")
+    .eq("code", document.code)
+    .maybeSingle();
+  if (existing && ["submitted", "valid"].includes(existing.status)) {
+    throw new EInvoiceError(`e-invoice ${document.code} has already been submitted`, 409);
+  }
+
+  const adapter = getAdapter();
+  const payload = toUblJson(document);
+  const result = await adapter.submit(document, payload);
+
+  const { data: einvoice, error } = await admin
+    .from("einvoices")
+    .upsert(
+      {
+        ...(existing ? { id: existing.id } : {}),
+        kind: document.kind,
+        code: document.code,
+        order_id: orderId ?? null,
+        period_start: document.period?.start ?? null,
+        period_end: document.period?.end ?? null,
+        document: JSON.parse(payload),
+        adapter: adapter.name,
+        status: result.status,
+        submission_uid: result.submissionUid,
+        document_uuid: result.documentUuid,
+        long_id: result.longId,
+        errors: result.errors,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "code" },
+    )
+    .select("id, code, status, document_uuid, long_id")
+    .single();
+  if (error) throw error;
+
+  if (result.status !== "rejected" && orderIds.length > 0) {
+    const { error: linkError } = await admin
+      .from("orders")
+      .update({ einvoice_id: einvoice.id })
+      .in("id", orderIds);
+    if (linkError) throw linkError;
+  }
+
+  return einvoice;
+};
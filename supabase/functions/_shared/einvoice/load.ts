@@ -0,0 +1,107 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import type { AddressFields, PricedOrder } from "./model.ts";
+import { toPostalAddress } from "./model.ts";
+import { EInvoiceError, type BuyerIdType, type Party } from "./types.ts";
+
+const ORDER_COLUMNS =
+  "id, user_id, invoice_number, payment_status, einvoice_id, delivery_address_snapshot, subtotal, discount_amount, service_charge, delivery_fee, sst_rate, sst_amount, total_price, order_items(quantity, price_at_purchase, modifiers, meals(name))";
+
+interface OrderRow {
+  id: string;
+  user_id: string;
+  invoice_number: string | null;
+  payment_status: string;
+  einvoice_id: string | null;
+  delivery_address_snapshot: AddressFields | null;
+  subtotal: number;
+  discount_amount: number;
+  service_charge: number;
+  delivery_fee: number;
+  sst_rate: number;
+  sst_amount: number;
+  total_price: number;
+  order_items: {
+    quantity: number;
+    price_at_purchase: number;
+    modifiers: { name: string }[];
+    meals: { name: string } | null;
+  }[];
+}
+
+// "Chicken Bowl (large portion, avocado)"
+const describeItem = (item: OrderRow["order_items"][number]) => {
+  const name = item.meals?.name ?? "Meal";
+  return item.modifiers.length > 0 ? `${name} (${item.modifiers.map((m) => m.name).join(", ")})` : name;
+};
+
+const toPricedOrder = (order: OrderRow): PricedOrder => ({
+  invoiceNumber: order.invoice_number ?? "",
+  items: order.order_items.map((item) => ({
+    description: describeItem(item),
+    quantity: item.quantity,
+    unitPrice: Number(item.price_at_purchase),
+  })),
+  subtotal: Number(order.subtotal),
+  discountAmount: Number(order.discount_amount),
+  serviceCharge: Number(order.service_charge),
+  deliveryFee: Number(order.delivery_fee),
+  sstRate: Number(order.sst_rate),
+  sstAmount: Number(order.sst_amount),
+  total: Number(order.total_price),
+});
+
+// A paid order with the buyer details its customer saved for e-invoicing.
+// The order is read through `reader`, so passing the caller's client limits
+// this to orders they can see.
+export const loadOrderForEInvoice = async (reader: SupabaseClient, admin: SupabaseClient, orderId: string) => {
+  const { data } = await reader.from("orders").select(ORDER_COLUMNS).eq("id", orderId).maybeSingle();
+  const order = data as OrderRow | null;
+  if (!order) {
+    throw new EInvoiceError("order not found", 404);
+  }
+  if (order.payment_status !== "paid" || !order.invoice_number) {
+    throw new EInvoiceError("e-invoices are issued once an order is paid", 409);
+  }
+
+  const { data: details } = await admin
+    .from("einvoice_buyers")
+    .select("name, tin, id_type, id_number, sst_number, email, phone, addresses(unit, building, street, postcode, city, state)")
+    .eq("user_id", order.user_id)
+    .maybeSingle();
+  if (!details) {
+    throw new EInvoiceError("the customer has not saved their e-invoice details", 409);
+  }
+
+  const buyer: Party = {
+    name: details.name,
+    tin: details.tin,
+    idType: details.id_type as BuyerIdType,
+    idNumber: details.id_number,
+    sstNumber: details.sst_number ?? "NA",
+    email: details.email,
+    phone: details.phone,
+    address: toPostalAddress(
+      (details.addresses as AddressFields | null) ?? order.delivery_address_snapshot,
+    ),
+  };
+
+  return { orderId: order.id, einvoiceId: order.einvoice_id, order: toPricedOrder(order), buyer };
+};
+
+// Paid orders in [start, end] not yet on an e-invoice of their own, i.e.
+// B2C sales to customers who didn't ask for one
+export const loadOrdersForConsolidation = async (admin: SupabaseClient, start: string, end: string) => {
+  const { data, error } = await admin
+    .from("orders")
+    .select(ORDER_COLUMNS)
+    .eq("payment_status", "paid")
+    .is("einvoice_id", null)
+    .not("invoice_number", "is", null)
+    .gte("invoiced_at", `${start}T00:00:00+08:00`)
+    .lte("invoiced_at", `${end}T23:59:59.999+08:00`)
+    .order("invoice_number");
+  if (error) throw error;
+
+  const orders = (data ?? []) as OrderRow[];
+  return { orderIds: orders.map((order) => order.id), orders: orders.map(toPricedOrder) };
+};
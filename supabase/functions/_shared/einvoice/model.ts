@@ -0,0 +1,204 @@
+import type { Seller } from "../invoices/index.ts";
+import {
+  CLASSIFICATION_CONSOLIDATED,
+  CLASSIFICATION_OTHERS,
+  COUNTRY_MALAYSIA,
+  CURRENCY,
+  GENERAL_PUBLIC_TIN,
+  STATE_NOT_APPLICABLE,
+  TAX_NOT_APPLICABLE,
+  TAX_SERVICE,
+  toStateCode,
+} from "./codes.ts";
+import type { EInvoiceDocument, EInvoiceLine, Party, PostalAddress, Supplier } from "./types.ts";
+
+// A paid order as priced by calculate_order_pricing, amounts in ringgit
+export interface PricedOrder {
+  invoiceNumber: string;
+  items: { description: string; quantity: number; unitPrice: number }[];
+  subtotal: number;
+  discountAmount: number;
+  serviceCharge: number;
+  deliveryFee: number;
+  sstRate: number;
+  sstAmount: number;
+  total: number;
+}
+
+// Address fields shared by public.addresses rows and delivery_address_snapshot
+export interface AddressFields {
+  unit: string;
+  building: string | null;
+  street: string;
+  postcode: string;
+  city: string;
+  state: string;
+}
+
+const toSen = (amount: number) => Math.round(amount * 100);
+const toRinggit = (sen: number) => sen / 100;
+
+// Splits `total` sen across `weights` in proportion, handing the rounding
+// leftovers to the largest remainders so the parts always add up exactly.
+export const allocate = (total: number, weights: number[]) => {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (sum === 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (total * w) / sum);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((a, b) => a + b, 0);
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of order) {
+    if (leftover <= 0) break;
+    parts[index] += 1;
+    leftover -= 1;
+  }
+  return parts;
+};
+
+// Orders don't record whether SST was charged on delivery, so work it out
+// from the amount: it only matches the non-delivery base when it wasn't.
+export const isDeliveryTaxed = (order: PricedOrder) => {
+  if (order.sstAmount === 0 || order.deliveryFee === 0) return false;
+  const base = order.subtotal - order.discountAmount + order.serviceCharge;
+  return toSen(base * order.sstRate) !== toSen(order.sstAmount);
+};
+
+export const toPostalAddress = (address: AddressFields | null): PostalAddress => ({
+  lines: address
+    ? [address.unit, address.building, address.street].filter((line): line is string => !!line?.trim())
+    : ["NA"],
+  city: address?.city ?? "NA",
+  postcode: address?.postcode ?? "",
+  stateCode: address ? toStateCode(address.state) : STATE_NOT_APPLICABLE,
+  countryCode: COUNTRY_MALAYSIA,
+});
+
+export const toSupplier = (seller: Seller): Supplier => ({
+  name: seller.name,
+  tin: seller.tin ?? "",
+  idType: "BRN",
+  idNumber: seller.registrationNumber ?? "",
+  sstNumber: seller.sstNumber ?? "NA",
+  email: seller.email,
+  phone: seller.phone ?? "",
+  msicCode: seller.msicCode ?? "",
+  businessActivity: seller.businessActivity ?? "",
+  address: {
+    lines: seller.address ? seller.address.split(/\n|,\s*/).filter(Boolean).slice(0, 3) : [],
+    city: seller.city ?? "",
+    postcode: seller.postcode ?? "",
+    stateCode: toStateCode(seller.state),
+    countryCode: COUNTRY_MALAYSIA,
+  },
+});
+
+// LHDN's placeholder buyer for sales to individuals who asked for no e-invoice
+export const generalPublicBuyer: Party = {
+  name: "General Public",
+  tin: GENERAL_PUBLIC_TIN,
+  idType: "BRN",
+  idNumber: "NA",
+  sstNumber: "NA",
+  email: null,
+  phone: "NA",
+  address: toPostalAddress(null),
+};
+
+const taxFields = (taxed: boolean, sstRate: number) =>
+  taxed
+    ? { taxType: TAX_SERVICE, taxRate: Number((sstRate * 100).toFixed(2)) }
+    : { taxType: TAX_NOT_APPLICABLE, taxRate: 0 };
+
+// One e-invoice for one order: a line per meal, then the service charge and
+// delivery fee. The promo discount and SST are spread over the lines in sen.
+export const buildIndividualDocument = (
+  order: PricedOrder,
+  supplier: Supplier,
+  buyer: Party,
+  issuedAt: string,
+): EInvoiceDocument => {
+  const charges = [
+    ...order.items.map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      isMeal: true,
+      taxed: order.sstAmount > 0,
+    })),
+    ...(order.serviceCharge > 0
+      ? [{ description: "Service charge", quantity: 1, unitPrice: order.serviceCharge, isMeal: false, taxed: order.sstAmount > 0 }]
+      : []),
+    ...(order.deliveryFee > 0
+      ? [{ description: "Delivery fee", quantity: 1, unitPrice: order.deliveryFee, isMeal: false, taxed: isDeliveryTaxed(order) }]
+      : []),
+  ];
+
+  const subtotals = charges.map((charge) => toSen(charge.unitPrice) * charge.quantity);
+  const discounts = allocate(
+    toSen(order.discountAmount),
+    charges.map((charge, index) => (charge.isMeal ? subtotals[index] : 0)),
+  );
+  const taxables = charges.map((charge, index) => subtotals[index] - discounts[index]);
+  const taxes = allocate(
+    toSen(order.sstAmount),
+    charges.map((charge, index) => (charge.taxed ? taxables[index] : 0)),
+  );
+
+  return {
+    kind: "individual",
+    code: order.invoiceNumber,
+    issuedAt,
+    currency: CURRENCY,
+    period: null,
+    supplier,
+    buyer,
+    lines: charges.map((charge, index): EInvoiceLine => ({
+      description: charge.description,
+      classification: CLASSIFICATION_OTHERS,
+      quantity: charge.quantity,
+      unitPrice: charge.unitPrice,
+      subtotal: toRinggit(subtotals[index]),
+      discount: toRinggit(discounts[index]),
+      taxableAmount: toRinggit(taxables[index]),
+      ...taxFields(charge.taxed, order.sstRate),
+      taxAmount: toRinggit(taxes[index]),
+    })),
+    payable: order.total,
+  };
+};
+
+// A month of B2C receipts on one e-invoice to the general public, one line
+// per receipt, as LHDN allows for buyers who did not ask for their own.
+export const buildConsolidatedDocument = (
+  orders: PricedOrder[],
+  period: { start: string; end: string },
+  supplier: Supplier,
+  issuedAt: string,
+): EInvoiceDocument => ({
+  kind: "consolidated",
+  code: `CON-${period.start.slice(0, 7)}`,
+  issuedAt,
+  currency: CURRENCY,
+  period,
+  supplier,
+  buyer: generalPublicBuyer,
+  lines: orders.map((order): EInvoiceLine => {
+    const amount = toSen(order.total) - toSen(order.sstAmount);
+    const taxable = isDeliveryTaxed(order) || order.sstAmount === 0 ? amount : amount - toSen(order.deliveryFee);
+    return {
+      description: `Receipt ${order.invoiceNumber}`,
+      classification: CLASSIFICATION_CONSOLIDATED,
+      quantity: 1,
+      unitPrice: toRinggit(amount),
+      subtotal: toRinggit(amount),
+      discount: 0,
+      taxableAmount: toRinggit(taxable),
+      ...taxFields(order.sstAmount > 0, order.sstRate),
+      taxAmount: order.sstAmount,
+    };
+  }),
+  payable: toRinggit(orders.reduce((sum, order) => sum + toSen(order.total), 0)),
+});
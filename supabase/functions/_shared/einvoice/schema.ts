@@ -0,0 +1,105 @@
+import { z } from "https://esm.sh/zod@3.25.76";
+import { GENERAL_PUBLIC_TIN, stateCodes, STATE_NOT_APPLICABLE, TAX_NOT_APPLICABLE, TAX_SERVICE } from "./codes.ts";
+import { EInvoiceError, type EInvoiceDocument } from "./types.ts";
+
+// Field rules from the MyInvois invoice v1.0 data dictionary
+const money = z.number().finite().nonnegative().multipleOf(0.01);
+
+const addressSchema = z.object({
+  lines: z.array(z.string().trim().min(1).max(150)).min(1, "address is required").max(3),
+  city: z.string().trim().min(1, "city is required").max(50),
+  postcode: z.string().max(50),
+  stateCode: z.enum([...Object.values(stateCodes), STATE_NOT_APPLICABLE] as [string, ...string[]]),
+  countryCode: z.literal("MYS"),
+});
+
+const partySchema = z.object({
+  name: z.string().trim().min(1, "name is required").max(300),
+  tin: z.string().regex(/^[A-Z]{1,2}[0-9]{8,13}$/, "TIN is not in the LHDN format"),
+  idType: z.enum(["NRIC", "BRN", "PASSPORT", "ARMY"]),
+  idNumber: z.string().trim().min(1, "registration or identity number is required").max(30),
+  sstNumber: z.string().trim().min(1).max(35),
+  email: z.string().email().max(320).nullable(),
+  phone: z.string().regex(/^(NA|\+?[0-9 -]{7,20})$/, "contact number is required"),
+  address: addressSchema,
+});
+
+const supplierSchema = partySchema.extend({
+  msicCode: z.string().regex(/^[0-9]{5}$/, "MSIC code must be 5 digits"),
+  businessActivity: z.string().trim().min(1, "business activity description is required").max(300),
+});
+
+const lineSchema = z.object({
+  description: z.string().trim().min(1).max(300),
+  classification: z.string().regex(/^[0-9]{3}$/),
+  quantity: z.number().positive(),
+  unitPrice: money,
+  subtotal: money,
+  discount: money,
+  taxableAmount: money,
+  taxType: z.enum([TAX_SERVICE, TAX_NOT_APPLICABLE]),
+  taxRate: z.number().min(0).max(100),
+  taxAmount: money,
+});
+
+export const documentSchema = z.object({
+  kind: z.enum(["individual", "consolidated"]),
+  code: z.string().trim().min(1).max(50),
+  issuedAt: z.string().datetime(),
+  currency: z.literal("MYR"),
+  period: z.object({ start: z.string().date(), end: z.string().date() }).nullable(),
+  supplier: supplierSchema,
+  buyer: partySchema,
+  lines: z.array(lineSchema).min(1, "an e-invoice needs at least one line"),
+  payable: money,
+});
+
+const near = (a: number, b: number, tolerance = 0.005) => Math.abs(a - b) <= tolerance;
+
+// Checks the document against the schema and that its amounts add up. Throws
+// an EInvoiceError listing every problem so they can be fixed in one go.
+export const validateDocument = (document: EInvoiceDocument) => {
+  const parsed = documentSchema.safeParse(document);
+  const problems = parsed.success
+    ? []
+    : parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+
+  document.lines.forEach((line, index) => {
+    const at = `lines.${index}`;
+    if (!near(line.unitPrice * line.quantity, line.subtotal)) {
+      problems.push(`${at}: subtotal does not match quantity × unit price`);
+    }
+    if (line.discount > line.subtotal) {
+      problems.push(`${at}: discount is larger than the line`);
+    }
+    if (line.taxType === TAX_NOT_APPLICABLE && (line.taxAmount !== 0 || line.taxRate !== 0)) {
+      problems.push(`${at}: tax charged on a line with no tax`);
+    }
+    // Sen rounding is spread over the lines, so allow a sen either way
+    if (line.taxType === TAX_SERVICE && !near((line.taxableAmount * line.taxRate) / 100, line.taxAmount, 0.02)) {
+      problems.push(`${at}: tax does not match the taxable amount at ${line.taxRate}%`);
+    }
+  });
+
+  const charged = document.lines.reduce((sum, line) => sum + line.subtotal - line.discount + line.taxAmount, 0);
+  if (!near(charged, document.payable)) {
+    problems.push(`lines add up to ${charged.toFixed(2)}, not the ${document.payable.toFixed(2)} charged`);
+  }
+
+  const taxed = document.lines.some((line) => line.taxType === TAX_SERVICE);
+  if (taxed && document.supplier.sstNumber === "NA") {
+    problems.push("supplier.sstNumber: service tax charged without an SST registration");
+  }
+
+  const isGeneralPublic = document.buyer.tin === GENERAL_PUBLIC_TIN;
+  if (document.kind === "consolidated" && (!isGeneralPublic || !document.period)) {
+    problems.push("consolidated e-invoices are issued to the general public for a billing period");
+  }
+  if (document.kind === "individual" && (isGeneralPublic || document.buyer.phone === "NA")) {
+    problems.push("buyer: individual e-invoices need the buyer's own TIN and contact number");
+  }
+
+  if (problems.length > 0) {
+    throw new EInvoiceError("e-invoice failed validation", 422, problems);
+  }
+};
@@ -0,0 +1,84 @@
+export type EInvoiceKind = "individual" | "consolidated";
+
+export type EInvoiceStatus = "submitted" | "valid" | "invalid" | "rejected" | "cancelled";
+
+export type BuyerIdType = "NRIC" | "BRN" | "PASSPORT" | "ARMY";
+
+export interface PostalAddress {
+  lines: string[];
+  city: string;
+  postcode: string;
+  // MyInvois state code, see codes.ts
+  stateCode: string;
+  countryCode: string;
+}
+
+export interface Party {
+  name: string;
+  tin: string;
+  idType: BuyerIdType;
+  idNumber: string;
+  // "NA" when the party is not SST-registered
+  sstNumber: string;
+  email: string | null;
+  phone: string;
+  address: PostalAddress;
+}
+
+export interface Supplier extends Party {
+  msicCode: string;
+  businessActivity: string;
+}
+
+export interface EInvoiceLine {
+  description: string;
+  classification: string;
+  quantity: number;
+  unitPrice: number;
+  // quantity × unitPrice, before the discount
+  subtotal: number;
+  discount: number;
+  // What the tax is charged on; the line amount when no tax applies
+  taxableAmount: number;
+  taxType: string;
+  taxRate: number;
+  taxAmount: number;
+}
+
+export interface EInvoiceDocument {
+  kind: EInvoiceKind;
+  // Our invoice number, or CON-YYYY-MM for a consolidated month
+  code: string;
+  issuedAt: string;
+  currency: string;
+  period: { start: string; end: string } | null;
+  supplier: Supplier;
+  buyer: Party;
+  lines: EInvoiceLine[];
+  // The order total the lines must add up to
+  payable: number;
+}
+
+export interface SubmissionResult {
+  status: EInvoiceStatus;
+  submissionUid: string | null;
+  documentUuid: string | null;
+  longId: string | null;
+  errors: unknown;
+}
+
+export interface EInvoiceAdapter {
+  name: string;
+  submit(document: EInvoiceDocument, payload: string): Promise<SubmissionResult>;
+}
+
+export class EInvoiceError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+    public details: string[] = [],
+  ) {
+    super(message);
+    this.name = "EInvoiceError";
+  }
+}
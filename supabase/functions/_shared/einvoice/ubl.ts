@@ -0,0 +1,170 @@
+import { DOCUMENT_VERSION, INVOICE_TYPE_INVOICE, UNIT_CODE } from "./codes.ts";
+import type { EInvoiceDocument, EInvoiceLine, Party, PostalAddress, Supplier } from "./types.ts";
+
+// MyInvois accepts UBL 2.1 as JSON or XML. The JSON form wraps every value in
+// an array of {"_": value, ...attributes}, which `el` builds; the XML form is
+// produced from the same tree so both always carry the same content.
+type Node = { [key: string]: Value[] | string | number | boolean };
+type Value = Node;
+
+const CAC = "urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2";
+const CBC = "urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2";
+const INVOICE = "urn:oasis:names:specification:ubl:schema:xsd:Invoice-2";
+
+const el = (value: string | number | boolean, attributes: Record<string, string> = {}): Value[] => [
+  { _: value, ...attributes },
+];
+const group = (children: Node): Value[] => [children];
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+const amount = (value: number, currency: string) => el(round2(value), { currencyID: currency });
+
+const taxScheme = () => group({ ID: el("OTH", { schemeID: "UN/ECE 5153", schemeAgencyID: "6" }) });
+
+const addressNode = (address: PostalAddress) =>
+  group({
+    CityName: el(address.city),
+    PostalZone: el(address.postcode),
+    CountrySubentityCode: el(address.stateCode),
+    AddressLine: address.lines.map((line) => ({ Line: el(line) })),
+    Country: group({ IdentificationCode: el(address.countryCode, { listID: "ISO3166-1", listAgencyID: "6" }) }),
+  });
+
+const partyNode = (party: Party | Supplier) =>
+  group({
+    ...("msicCode" in party
+      ? { IndustryClassificationCode: el(party.msicCode, { name: party.businessActivity }) }
+      : {}),
+    PartyIdentification: [
+      { ID: el(party.tin, { schemeID: "TIN" }) },
+      { ID: el(party.idNumber, { schemeID: party.idType }) },
+      { ID: el(party.sstNumber, { schemeID: "SST" }) },
+      { ID: el("NA", { schemeID: "TTX" }) },
+    ],
+    PostalAddress: addressNode(party.address),
+    PartyLegalEntity: group({ RegistrationName: el(party.name) }),
+    Contact: group({
+      Telephone: el(party.phone),
+      ...(party.email ? { ElectronicMail: el(party.email) } : {}),
+    }),
+  });
+
+const lineTotal = (line: EInvoiceLine) => round2(line.subtotal - line.discount);
+
+const lineNode = (line: EInvoiceLine, index: number, currency: string): Node => ({
+  ID: el(String(index + 1)),
+  InvoicedQuantity: el(line.quantity, { unitCode: UNIT_CODE }),
+  LineExtensionAmount: amount(lineTotal(line), currency),
+  ...(line.discount > 0
+    ? {
+        AllowanceCharge: group({
+          ChargeIndicator: el(false),
+          AllowanceChargeReason: el("Discount"),
+          Amount: amount(line.discount, currency),
+        }),
+      }
+    : {}),
+  TaxTotal: group({
+    TaxAmount: amount(line.taxAmount, currency),
+    TaxSubtotal: group({
+      TaxableAmount: amount(line.taxableAmount, currency),
+      TaxAmount: amount(line.taxAmount, currency),
+      Percent: el(line.taxRate),
+      TaxCategory: group({ ID: el(line.taxType), TaxScheme: taxScheme() }),
+    }),
+  }),
+  Item: group({
+    CommodityClassification: group({ ItemClassificationCode: el(line.classification, { listID: "CLASS" }) }),
+    Description: el(line.description),
+  }),
+  Price: group({ PriceAmount: amount(line.unitPrice, currency) }),
+  ItemPriceExtension: group({ Amount: amount(line.subtotal, currency) }),
+});
+
+// Document-level tax is summarised per tax type, as MyInvois expects
+const taxSubtotals = (document: EInvoiceDocument) => {
+  const byType = new Map<string, { taxable: number; tax: number }>();
+  for (const line of document.lines) {
+    const entry = byType.get(line.taxType) ?? { taxable: 0, tax: 0 };
+    entry.taxable += line.taxableAmount;
+    entry.tax += line.taxAmount;
+    byType.set(line.taxType, entry);
+  }
+  return [...byType].map(([type, { taxable, tax }]) => ({
+    TaxableAmount: amount(taxable, document.currency),
+    TaxAmount: amount(tax, document.currency),
+    TaxCategory: group({ ID: el(type), TaxScheme: taxScheme() }),
+  }));
+};
+
+export const toUblInvoice = (document: EInvoiceDocument): Node => {
+  const { currency } = document;
+  const [date, time] = document.issuedAt.replace(/\.\d+/, "").split("T");
+  const lineExtension = document.lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  const discount = document.lines.reduce((sum, line) => sum + line.discount, 0);
+  const tax = document.lines.reduce((sum, line) => sum + line.taxAmount, 0);
+
+  return {
+    ID: el(document.code),
+    IssueDate: el(date),
+    IssueTime: el(time.endsWith("Z") ? time : `${time}Z`),
+    InvoiceTypeCode: el(INVOICE_TYPE_INVOICE, { listVersionID: DOCUMENT_VERSION }),
+    DocumentCurrencyCode: el(currency),
+    ...(document.period
+      ? {
+          InvoicePeriod: group({
+            StartDate: el(document.period.start),
+            EndDate: el(document.period.end),
+            Description: el("Monthly"),
+          }),
+        }
+      : {}),
+    AccountingSupplierParty: group({ Party: partyNode(document.supplier) }),
+    AccountingCustomerParty: group({ Party: partyNode(document.buyer) }),
+    TaxTotal: group({
+      TaxAmount: amount(tax, currency),
+      TaxSubtotal: taxSubtotals(document),
+    }),
+    LegalMonetaryTotal: group({
+      LineExtensionAmount: amount(lineExtension, currency),
+      TaxExclusiveAmount: amount(lineExtension, currency),
+      TaxInclusiveAmount: amount(lineExtension + tax, currency),
+      AllowanceTotalAmount: amount(discount, currency),
+      PayableAmount: amount(document.payable, currency),
+    }),
+    InvoiceLine: document.lines.map((line, index) => lineNode(line, index, currency)),
+  };
+};
+
+export const toUblJson = (document: EInvoiceDocument) =>
+  JSON.stringify({ _D: INVOICE, _A: CAC, _B: CBC, Invoice: [toUblInvoice(document)] });
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Leaf elements (those holding "_") are basic components, the rest aggregates
+const toXmlElements = (name: string, values: Value[]): string =>
+  values
+    .map((value) => {
+      if ("_" in value) {
+        const { _: text, ...attributes } = value;
+        const attrs = Object.entries(attributes)
+          .map(([key, attr]) => ` ${key}="${escapeXml(String(attr))}"`)
+          .join("");
+        return `<cbc:${name}${attrs}>${escapeXml(String(text))}</cbc:${name}>`;
+      }
+      return `<cac:${name}>${toXmlChildren(value)}</cac:${name}>`;
+    })
+    .join("");
+
+const toXmlChildren = (node: Node) =>
+  Object.entries(node)
+    .map(([name, values]) => toXmlElements(name, values as Value[]))
+    .join("");
+
+export const toUblXml = (document: EInvoiceDocument) =>
+  `<?xml version="1.0" encoding="UTF-8"?>` +
+  `<Invoice xmlns="${INVOICE}" xmlns:cac="${CAC}" xmlns:cbc="${CBC}">` +
+  toXmlChildren(toUblInvoice(document)) +
+  `</Invoice>`;
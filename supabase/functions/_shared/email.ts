@@ -0,0 +1,36 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// EMAIL_PROVIDER=resend sends through Resend; otherwise messages are only
+// logged, which keeps local development and previews offline
+export const sendEmail = async (message: EmailMessage) => {
+  if (Deno.env.get("EMAIL_PROVIDER") !== "resend") {
+    console.log(`email to ${message.to}: ${message.subject}\n${message.text}`);
+    return;
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${Deno.env.get("RESEND_API_KEY")}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: Deno.env.get("EMAIL_FROM") ?? "dailyfragments <orders@dailyfragments.my>",
+      to: [message.to],
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`email provider responded ${response.status}: ${await response.text()}`);
+  }
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
@@ -0,0 +1,4 @@
+export * from "./types.ts";
+export { getSeller } from "./seller.ts";
+export { loadInvoice } from "./load.ts";
+export { renderInvoicePdf } from "./pdf.ts";
@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { getSeller } from "./seller.ts";
+import { InvoiceError, type Invoice } from "./types.ts";
+
+// Builds the invoice for an order. The order is read through `reader`, so
+// passing the caller's client limits this to orders they can see.
+export const loadInvoice = async (
+  reader: SupabaseClient,
+  admin: SupabaseClient,
+  orderId: string,
+): Promise<Invoice> => {
+  const { data: order } = await reader
+    .from("orders")
+    .select(
+      "id, user_id, invoice_number, invoiced_at, payment_status, delivery_address, subtotal, discount_amount, promo_code, service_charge, delivery_fee, sst_rate, sst_amount, total_price, order_items(quantity, price_at_purchase, modifiers, meals(name))",
+    )
+    .eq("id", orderId)
+    .maybeSingle();
+  if (!order) {
+    throw new InvoiceError("order not found", 404);
+  }
+  // A refunded order keeps its invoice, marked as refunded
+  if (!order.invoice_number || !["paid", "refunded"].includes(order.payment_status)) {
+    throw new InvoiceError("invoices are issued once an order is paid", 409);
+  }
+
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("email, full_name")
+    .eq("id", order.user_id)
+    .maybeSingle();
+
+  return {
+    invoiceNumber: order.invoice_number,
+    issuedAt: order.invoiced_at,
+    orderId: order.id,
+    paymentStatus: order.payment_status,
+    seller: getSeller(),
+    buyer: {
+      name: profile?.full_name || profile?.email || "customer",
+      email: profile?.email ?? "",
+      address: order.delivery_address,
+    },
+    lines: order.order_items.map((item: {
+      quantity: number;
+      price_at_purchase: number;
+      modifiers: { name: string }[];
+      meals: { name: string } | null;
+    }) => ({
+      description:
+        item.modifiers.length > 0
+          ? `${item.meals?.name ?? "meal"} (${item.modifiers.map((m) => m.name).join(", ")})`
+          : item.meals?.name ?? "meal",
+      quantity: item.quantity,
+      unitPrice: Number(item.price_at_purchase),
+      amount: Number(item.price_at_purchase) * item.quantity,
+    })),
+    subtotal: Number(order.subtotal),
+    discountAmount: Number(order.discount_amount),
+    promoCode: order.promo_code,
+    serviceCharge: Number(order.service_charge),
+    deliveryFee: Number(order.delivery_fee),
+    sstRate: Number(order.sst_rate),
+    sstAmount: Number(order.sst_amount),
+    total: Number(order.total_price),
+  };
+};
@@ -0,0 +1,203 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+import type { Invoice } from "./types.ts";
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const BRAND = rgb(0.13, 0.55, 0.42);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const TEXT = rgb(0.1, 0.1, 0.12);
+
+const rm = (amount: number) => `RM ${amount.toFixed(2)}`;
+
+// The standard fonts only cover Latin-1; anything else would make pdf-lib throw
+const safe = (text: string) => text.replace(/[^\x20-\x7E\u00A0-\u00FF]/g, "?");
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-MY", { timeZone: "Asia/Kuala_Lumpur", day: "numeric", month: "short", year: "numeric" });
+
+// Splits text into lines that fit within `width` at the given size
+const wrap = (text: string, font: PDFFont, size: number, width: number) => {
+  const lines: string[] = [];
+  for (const paragraph of safe(text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+export const renderInvoicePdf = async (invoice: Invoice) => {
+  const pdf = await PDFDocument.create();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const title = invoice.seller.sstNumber ? "TAX INVOICE" : "RECEIPT";
+
+  pdf.setTitle(`${title} ${invoice.invoiceNumber}`);
+  pdf.setAuthor(invoice.seller.name);
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const text = (value: string, x: number, options: { size?: number; font?: PDFFont; color?: typeof TEXT } = {}) => {
+    page.drawText(safe(value), {
+      x,
+      y,
+      size: options.size ?? 10,
+      font: options.font ?? regular,
+      color: options.color ?? TEXT,
+    });
+  };
+
+  const rightText = (value: string, right: number, options: { size?: number; font?: PDFFont; color?: typeof TEXT } = {}) => {
+    const font = options.font ?? regular;
+    text(value, right - font.widthOfTextAtSize(safe(value), options.size ?? 10), options);
+  };
+
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: MUTED,
+    });
+  };
+
+  const ensureSpace = (needed: number) => {
+    if (y - needed < MARGIN + 40) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  // Header: seller on the left, document details on the right
+  text(invoice.seller.name, MARGIN, { size: 22, font: bold, color: BRAND });
+  rightText(title, PAGE_WIDTH - MARGIN, { size: 16, font: bold });
+  y -= 18;
+
+  const sellerLines = [
+    ...wrap(invoice.seller.address, regular, 9, 260),
+    invoice.seller.registrationNumber && `Reg. No: ${invoice.seller.registrationNumber}`,
+    invoice.seller.sstNumber && `SST No: ${invoice.seller.sstNumber}`,
+    [invoice.seller.email, invoice.seller.phone].filter(Boolean).join(" | "),
+  ].filter(Boolean) as string[];
+
+  const detailLines = [
+    `No: ${invoice.invoiceNumber}`,
+    `Date: ${formatDate(invoice.issuedAt)}`,
+    `Order: #${invoice.orderId.slice(0, 8)}`,
+  ];
+
+  const headerTop = y;
+  for (const line of sellerLines) {
+    text(line, MARGIN, { size: 9, color: MUTED });
+    y -= 12;
+  }
+  const sellerBottom = y;
+  y = headerTop;
+  for (const line of detailLines) {
+    rightText(line, PAGE_WIDTH - MARGIN, { size: 9 });
+    y -= 12;
+  }
+  y = Math.min(y, sellerBottom) - 16;
+
+  // Bill to
+  text("BILL TO", MARGIN, { size: 8, font: bold, color: MUTED });
+  y -= 13;
+  text(invoice.buyer.name, MARGIN, { font: bold });
+  y -= 12;
+  if (invoice.buyer.email) {
+    text(invoice.buyer.email, MARGIN, { size: 9 });
+    y -= 12;
+  }
+  for (const line of wrap(invoice.buyer.address ?? "", regular, 9, 300)) {
+    text(line, MARGIN, { size: 9, color: MUTED });
+    y -= 12;
+  }
+  y -= 12;
+
+  // Line items
+  const qtyRight = 360;
+  const unitRight = 450;
+  const amountRight = PAGE_WIDTH - MARGIN;
+
+  const tableHeader = () => {
+    text("ITEM", MARGIN, { size: 8, font: bold, color: MUTED });
+    rightText("QTY", qtyRight, { size: 8, font: bold, color: MUTED });
+    rightText("UNIT PRICE", unitRight, { size: 8, font: bold, color: MUTED });
+    rightText("AMOUNT", amountRight, { size: 8, font: bold, color: MUTED });
+    y -= 6;
+    rule();
+    y -= 14;
+  };
+
+  tableHeader();
+  for (const line of invoice.lines) {
+    const description = wrap(line.description, regular, 10, 240);
+    ensureSpace(description.length * 12 + 6);
+    if (y === PAGE_HEIGHT - MARGIN) tableHeader();
+
+    rightText(line.quantity.toString(), qtyRight);
+    rightText(rm(line.unitPrice), unitRight);
+    rightText(rm(line.amount), amountRight);
+    for (const part of description) {
+      text(part, MARGIN);
+      y -= 12;
+    }
+    y -= 6;
+  }
+
+  rule();
+  y -= 16;
+
+  // Totals, in the same order as checkout
+  const totals: [string, string][] = [["Subtotal", rm(invoice.subtotal)]];
+  if (invoice.discountAmount > 0) {
+    totals.push([`Discount${invoice.promoCode ? ` (${invoice.promoCode})` : ""}`, `-${rm(invoice.discountAmount)}`]);
+  }
+  if (invoice.serviceCharge > 0) {
+    totals.push(["Service charge", rm(invoice.serviceCharge)]);
+  }
+  totals.push(["Delivery", rm(invoice.deliveryFee)]);
+  if (invoice.sstRate > 0) {
+    totals.push([`SST (${Number((invoice.sstRate * 100).toFixed(2))}%)`, rm(invoice.sstAmount)]);
+  }
+
+  ensureSpace(totals.length * 14 + 40);
+  for (const [label, value] of totals) {
+    rightText(label, unitRight, { size: 10, color: MUTED });
+    rightText(value, amountRight);
+    y -= 14;
+  }
+  y -= 4;
+  rightText("Total", unitRight, { size: 12, font: bold });
+  rightText(rm(invoice.total), amountRight, { size: 12, font: bold, color: BRAND });
+  y -= 28;
+
+  if (invoice.paymentStatus === "refunded") {
+    text("This order has been refunded.", MARGIN, { font: bold, color: rgb(0.75, 0.2, 0.2) });
+    y -= 14;
+  }
+
+  // Footer on every page
+  for (const [index, each] of pdf.getPages().entries()) {
+    const footer = safe(`${invoice.seller.name} | ${invoice.invoiceNumber} | page ${index + 1} of ${pdf.getPageCount()}`);
+    each.drawText(footer, {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: MUTED,
+    });
+  }
+
+  return await pdf.save();
+};
@@ -0,0 +1,19 @@
+import type { Seller } from "./types.ts";
+
+const optionalEnv = (name: string) => Deno.env.get(name)?.trim() || null;
+
+// Business details printed on every invoice, from the function's secrets
+export const getSeller = (): Seller => ({
+  name: optionalEnv("BUSINESS_NAME") ?? "dailyfragments",
+  address: optionalEnv("BUSINESS_ADDRESS") ?? "",
+  registrationNumber: optionalEnv("BUSINESS_REGISTRATION_NO"),
+  sstNumber: optionalEnv("BUSINESS_SST_NO"),
+  email: optionalEnv("BUSINESS_EMAIL"),
+  phone: optionalEnv("BUSINESS_PHONE"),
+  tin: optionalEnv("BUSINESS_TIN"),
+  msicCode: optionalEnv("BUSINESS_MSIC_CODE"),
+  businessActivity: optionalEnv("BUSINESS_ACTIVITY"),
+  city: optionalEnv("BUSINESS_CITY"),
+  postcode: optionalEnv("BUSINESS_POSTCODE"),
+  state: optionalEnv("BUSINESS_STATE"),
+});
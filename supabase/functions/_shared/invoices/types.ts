@@ -0,0 +1,58 @@
+export interface Seller {
+  name: string;
+  address: string;
+  registrationNumber: string | null;
+  // SST registration; without one the document is a plain receipt
+  sstNumber: string | null;
+  email: string | null;
+  phone: string | null;
+  // Only needed for MyInvois e-invoices
+  tin: string | null;
+  msicCode: string | null;
+  businessActivity: string | null;
+  city: string | null;
+  postcode: string | null;
+  state: string | null;
+}
+
+export interface Buyer {
+  name: string;
+  email: string;
+  address: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  // Ringgit, as stored on order_items
+  unitPrice: number;
+  amount: number;
+}
+
+export interface Invoice {
+  invoiceNumber: string;
+  issuedAt: string;
+  orderId: string;
+  paymentStatus: string;
+  seller: Seller;
+  buyer: Buyer;
+  lines: InvoiceLine[];
+  subtotal: number;
+  discountAmount: number;
+  promoCode: string | null;
+  serviceCharge: number;
+  deliveryFee: number;
+  sstRate: number;
+  sstAmount: number;
+  total: number;
+}
+
+export class InvoiceError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "InvoiceError";
+  }
+}
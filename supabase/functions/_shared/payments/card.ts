@@ -0,0 +1,12 @@
+import { createGatewayProvider } from "./gateway.ts";
+
+// Debit and credit cards through the gateway's hosted checkout, with 3-D Secure enforced
+export const cardProvider = createGatewayProvider({
+  name: "card",
+  envPrefix: "CARD",
+  intentBody: () => ({
+    payment_method: "card",
+    capture: "automatic",
+    three_d_secure: "required",
+  }),
+});
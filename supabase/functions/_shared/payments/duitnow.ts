@@ -0,0 +1,11 @@
+import { createGatewayProvider } from "./gateway.ts";
+
+// DuitNow QR; the gateway renders a QR code the customer scans with any banking or e-wallet app
+export const duitnowProvider = createGatewayProvider({
+  name: "duitnow_qr",
+  envPrefix: "DUITNOW",
+  intentBody: () => ({
+    payment_method: "duitnow_qr",
+    qr_expiry_seconds: 900,
+  }),
+});
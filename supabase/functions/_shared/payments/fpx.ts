@@ -0,0 +1,11 @@
+import { createGatewayProvider } from "./gateway.ts";
+
+// FPX online banking; the customer picks their bank on the gateway's hosted page
+export const fpxProvider = createGatewayProvider({
+  name: "fpx",
+  envPrefix: "FPX",
+  intentBody: () => ({
+    payment_method: "fpx",
+    fpx_channel: "B2C",
+  }),
+});
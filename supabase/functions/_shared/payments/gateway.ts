@@ -0,0 +1,122 @@
+import {
+  PaymentError,
+  type CreateIntentInput,
+  type PaymentProvider,
+  type PaymentStatus,
+} from "./types.ts";
+
+interface GatewayConfig {
+  name: string;
+  // Prefix for the <PREFIX>_GATEWAY_URL, <PREFIX>_API_KEY and <PREFIX>_WEBHOOK_SECRET secrets
+  envPrefix: string;
+  // Method-specific fields sent with the create-payment request
+  intentBody: (input: CreateIntentInput) => Record<string, unknown>;
+}
+
+const toSen = (amount: number) => Math.round(amount * 100);
+
+const hmacHex = async (secret: string, payload: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+const mapGatewayStatus = (status: string): PaymentStatus => {
+  switch (status) {
+    case "paid":
+    case "succeeded":
+      return "paid";
+    case "failed":
+    case "cancelled":
+    case "expired":
+      return "failed";
+    case "refunded":
+      return "refunded";
+    default:
+      return "pending";
+  }
+};
+
+// Shared HTTP + HMAC-signed webhook client used by the FPX, DuitNow QR and card adapters
+export const createGatewayProvider = ({ name, envPrefix, intentBody }: GatewayConfig): PaymentProvider => {
+  const env = (key: string) => {
+    const value = Deno.env.get(`${envPrefix}_${key}`);
+    if (!value) {
+      throw new PaymentError(`${envPrefix}_${key} is not configured`, 500);
+    }
+    return value;
+  };
+
+  const request = async (path: string, body: Record<string, unknown>) => {
+    const response = await fetch(`${env("GATEWAY_URL")}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${env("API_KEY")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new PaymentError(data.message ?? `${name} gateway returned ${response.status}`, 502);
+    }
+    return data;
+  };
+
+  return {
+    name,
+
+    async createIntent(input) {
+      const data = await request("/payments", {
+        reference: input.paymentId,
+        amount: toSen(input.amount),
+        currency: "MYR",
+        description: `dailyfragments order #${input.orderId.slice(0, 8)}`,
+        customer_email: input.customerEmail,
+        customer_name: input.customerName,
+        return_url: input.returnUrl,
+        callback_url: input.callbackUrl,
+        ...intentBody(input),
+      });
+      return { reference: data.id, redirectUrl: data.redirect_url };
+    },
+
+    async handleWebhook(req) {
+      const rawBody = await req.text();
+      const signature = req.headers.get("x-signature") ?? "";
+      const expected = await hmacHex(env("WEBHOOK_SECRET"), rawBody);
+      if (!safeEqual(signature, expected)) {
+        throw new PaymentError("invalid webhook signature", 401);
+      }
+
+      const event = JSON.parse(rawBody);
+      return { reference: event.id, status: mapGatewayStatus(event.status), raw: event };
+    },
+
+    async refund(reference, amount) {
+      const data = await request(`/payments/${reference}/refunds`, { amount: toSen(amount) });
+      return { status: data.status === "succeeded" ? "refunded" : "pending" };
+    },
+
+    async cancel(reference) {
+      await request(`/payments/${reference}/cancel`, {});
+    },
+  };
+};
@@ -0,0 +1,284 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+import { cardProvider } from "./card.ts";
+import { duitnowProvider } from "./duitnow.ts";
+import { fpxProvider } from "./fpx.ts";
+import { mockProvider } from "./mock.ts";
+import { canTransition } from "./status.ts";
+import { PaymentError, type PaymentMethod, type PaymentProvider, type PaymentStatus } from "./types.ts";
+
+export * from "./types.ts";
+export { canTransition } from "./status.ts";
+
+const providers: Record<PaymentMethod, PaymentProvider> = {
+  fpx: fpxProvider,
+  duitnow_qr: duitnowProvider,
+  card: cardProvider,
+};
+
+const mockEnabled = () => Deno.env.get("PAYMENT_PROVIDER") === "mock";
+
+export const getProviderForMethod = (method: PaymentMethod) =>
+  mockEnabled() ? mockProvider : providers[method];
+
+export const getProviderByName = (name: string | null): PaymentProvider => {
+  if (name === mockProvider.name) {
+    if (!mockEnabled()) {
+      throw new PaymentError("mock payments are disabled", 404);
+    }
+    return mockProvider;
+  }
+
+  const provider = Object.values(providers).find((p) => p.name === name);
+  if (!provider) {
+    throw new PaymentError(`unknown payment provider: ${name}`, 404);
+  }
+  return provider;
+};
+
+interface PaymentRow {
+  id: string;
+  order_id: string;
+  status: PaymentStatus;
+}
+
+// The order's payment status follows all of its payments, not just the one
+// that changed: it's paid while paid payments cover the total, pending while
+// they don't (e.g. the difference after a change failed), and refunded or
+// failed only once no payment holds money for it.
+const orderPaymentStatus = async (
+  admin: SupabaseClient,
+  orderId: string,
+): Promise<{ status: PaymentStatus; balance: number }> => {
+  const { data: payments, error } = await admin.from("payments").select("status").eq("order_id", orderId);
+  if (error) throw error;
+  const has = (status: PaymentStatus) => (payments ?? []).some((payment) => payment.status === status);
+
+  if (has("paid")) {
+    const { data, error: balanceError } = await admin.rpc("order_balance", { _order_id: orderId });
+    if (balanceError) throw balanceError;
+    const balance = Number(data);
+    return { status: balance > 0 ? "pending" : "paid", balance };
+  }
+
+  const status = (["pending", "refunded", "failed"] as PaymentStatus[]).find(has) ?? "pending";
+  return { status, balance: 0 };
+};
+
+// Moves a payment and its order to a new status. Returns false when the
+// change is not a legal transition, e.g. a webhook delivered twice.
+export const applyPaymentStatus = async (
+  admin: SupabaseClient,
+  payment: PaymentRow,
+  status: PaymentStatus,
+  event: unknown,
+) => {
+  if (payment.status === status || !canTransition(payment.status, status)) {
+    return false;
+  }
+
+  // A duplicate webhook racing this one finds the payment already moved on
+  const { data: updated, error: paymentError } = await admin
+    .from("payments")
+    .update({ status, last_event: event, updated_at: new Date().toISOString() })
+    .eq("id", payment.id)
+    .eq("status", payment.status)
+    .select("id");
+  if (paymentError) throw paymentError;
+  if (!updated || updated.length === 0) {
+    return false;
+  }
+
+  const { status: orderStatus, balance } = await orderPaymentStatus(admin, payment.order_id);
+
+  const { error: orderError } = await admin
+    .from("orders")
+    .update({ payment_status: orderStatus, updated_at: new Date().toISOString() })
+    .eq("id", payment.order_id);
+  if (orderError) throw orderError;
+
+  // A paid order is confirmed for the kitchen; the history trigger records it as a system change
+  if (status === "paid" && orderStatus === "paid") {
+    const { error: confirmError } = await admin
+      .from("orders")
+      .update({ status: "confirmed", updated_at: new Date().toISOString() })
+      .eq("id", payment.order_id)
+      .eq("status", "pending");
+    if (confirmError) throw confirmError;
+
+    // Paying the difference after an order change settles it
+    const { error: changeError } = await admin
+      .from("order_changes")
+      .update({ settlement: "paid", updated_at: new Date().toISOString() })
+      .eq("order_id", payment.order_id)
+      .eq("settlement", "payment_due");
+    if (changeError) throw changeError;
+
+    // Two attempts paid for the same order; give the extra money back
+    if (balance < 0) {
+      await settleOrderBalance(admin, payment.order_id, { type: "overpaid", payment_id: payment.id });
+    }
+  }
+
+  if (status === "refunded") {
+    await markRefundsSettled(admin, payment.order_id);
+  }
+
+  return true;
+};
+
+// Cancels the order's unpaid attempts before a new one is made, so an old
+// checkout page can't also be paid. Throws when one can no longer be
+// cancelled, e.g. the customer is paying it right now.
+export const supersedePendingPayments = async (admin: SupabaseClient, orderId: string) => {
+  const { data: payments, error } = await admin
+    .from("payments")
+    .select("id, provider, provider_reference")
+    .eq("order_id", orderId)
+    .eq("status", "pending");
+  if (error) throw error;
+
+  for (const payment of payments ?? []) {
+    if (payment.provider_reference) {
+      try {
+        await getProviderByName(payment.provider).cancel(payment.provider_reference);
+      } catch {
+        throw new PaymentError("an earlier payment for this order is still being processed", 409);
+      }
+    }
+
+    const { error: updateError } = await admin
+      .from("payments")
+      .update({ status: "failed", last_event: { type: "superseded" }, updated_at: new Date().toISOString() })
+      .eq("id", payment.id)
+      .eq("status", "pending");
+    if (updateError) throw updateError;
+  }
+};
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const markRefundsSettled = async (admin: SupabaseClient, orderId: string) => {
+  const { error } = await admin
+    .from("order_changes")
+    .update({ settlement: "refunded", updated_at: new Date().toISOString() })
+    .eq("order_id", orderId)
+    .eq("settlement", "refund_pending");
+  if (error) throw error;
+};
+
+interface RefundablePayment {
+  id: string;
+  provider: string;
+  provider_reference: string;
+  refunded_amount: number;
+}
+
+// Refunds part of a payment through its provider. The amount is recorded
+// before calling the provider so a retry can't refund the same money twice,
+// and given back if the provider call fails so the refund can be retried.
+export const refundThroughProvider = async (admin: SupabaseClient, payment: RefundablePayment, amount: number) => {
+  const refunded = Number(payment.refunded_amount);
+  const { data: claimed, error: claimError } = await admin
+    .from("payments")
+    .update({ refunded_amount: roundMoney(refunded + amount), updated_at: new Date().toISOString() })
+    .eq("id", payment.id)
+    .eq("refunded_amount", payment.refunded_amount)
+    .select("id");
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) {
+    throw new PaymentError("payment changed while refunding; try again", 409);
+  }
+
+  try {
+    return await getProviderByName(payment.provider).refund(payment.provider_reference, amount);
+  } catch (error) {
+    await admin.from("payments").update({ refunded_amount: refunded }).eq("id", payment.id);
+    throw error;
+  }
+};
+
+export type Settlement = "none" | "payment_due" | "refund_pending" | "refunded";
+
+// Brings an order's payments in line with its total after the customer
+// changes or cancels it. Overpayments are refunded through the provider,
+// newest payment first; if the order now costs more it goes back to pending
+// and create-payment charges the difference. Safe to run again.
+export const settleOrderBalance = async (admin: SupabaseClient, orderId: string, event: unknown) => {
+  const { data: payments, error: paymentsError } = await admin
+    .from("payments")
+    .select("id, order_id, provider, provider_reference, amount, refunded_amount, status")
+    .eq("order_id", orderId)
+    .eq("status", "paid")
+    .order("created_at", { ascending: false });
+  if (paymentsError) throw paymentsError;
+
+  // Unpaid orders are simply charged their new total at checkout
+  if (!payments || payments.length === 0) {
+    return { settlement: "none" as Settlement, amount: 0 };
+  }
+
+  const { data: balance, error: balanceError } = await admin.rpc("order_balance", { _order_id: orderId });
+  if (balanceError) throw balanceError;
+
+  if (balance > 0) {
+    const { error } = await admin
+      .from("orders")
+      .update({ payment_status: "pending", updated_at: new Date().toISOString() })
+      .eq("id", orderId);
+    if (error) throw error;
+    return { settlement: "payment_due" as Settlement, amount: roundMoney(balance) };
+  }
+
+  if (balance === 0) {
+    return { settlement: "none" as Settlement, amount: 0 };
+  }
+
+  let remaining = roundMoney(-balance);
+  let pending = false;
+  let fullyRefunded = 0;
+
+  for (const payment of payments) {
+    const refunded = Number(payment.refunded_amount);
+    const amount = Math.min(roundMoney(Number(payment.amount) - refunded), remaining);
+    if (amount <= 0) {
+      continue;
+    }
+
+    const refundedAmount = roundMoney(refunded + amount);
+    const result = await refundThroughProvider(admin, payment, amount);
+
+    const isFull = refundedAmount >= Number(payment.amount);
+    if (result.status === "pending") {
+      pending = true;
+    } else if (isFull) {
+      const { error } = await admin
+        .from("payments")
+        .update({ status: "refunded", last_event: event, updated_at: new Date().toISOString() })
+        .eq("id", payment.id)
+        .eq("status", "paid");
+      if (error) throw error;
+      fullyRefunded++;
+    }
+
+    remaining = roundMoney(remaining - amount);
+    if (remaining <= 0) {
+      break;
+    }
+  }
+
+  // A cancelled order has all its money back once every payment is refunded
+  if (fullyRefunded === payments.length) {
+    const { error } = await admin
+      .from("orders")
+      .update({ payment_status: "refunded", updated_at: new Date().toISOString() })
+      .eq("id", orderId);
+    if (error) throw error;
+  }
+
+  if (pending) {
+    return { settlement: "refund_pending" as Settlement, amount: roundMoney(-balance) };
+  }
+
+  await markRefundsSettled(admin, orderId);
+  return { settlement: "refunded" as Settlement, amount: roundMoney(-balance) };
+};
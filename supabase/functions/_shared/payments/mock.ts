@@ -0,0 +1,33 @@
+import { PaymentError, type PaymentProvider, type PaymentStatus } from "./types.ts";
+
+const mockStatuses: PaymentStatus[] = ["paid", "failed", "refunded"];
+
+// Offline provider: redirects to the app's /payment/mock page, which posts the
+// outcome straight back to the webhook. Only enabled with PAYMENT_PROVIDER=mock.
+export const mockProvider: PaymentProvider = {
+  name: "mock",
+
+  async createIntent(input) {
+    const reference = `mock_${input.paymentId}`;
+    const redirectUrl = new URL("/payment/mock", new URL(input.returnUrl).origin);
+    redirectUrl.searchParams.set("reference", reference);
+    redirectUrl.searchParams.set("method", input.method);
+    redirectUrl.searchParams.set("amount", input.amount.toFixed(2));
+    redirectUrl.searchParams.set("return_url", input.returnUrl);
+    return { reference, redirectUrl: redirectUrl.toString() };
+  },
+
+  async handleWebhook(req) {
+    const event = await req.json();
+    if (typeof event.reference !== "string" || !mockStatuses.includes(event.status)) {
+      throw new PaymentError("invalid mock payment event");
+    }
+    return { reference: event.reference, status: event.status, raw: event };
+  },
+
+  async refund() {
+    return { status: "refunded" };
+  },
+
+  async cancel() {},
+};
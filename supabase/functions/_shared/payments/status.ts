@@ -0,0 +1,12 @@
+import type { PaymentStatus } from "./types.ts";
+
+// pending -> paid / failed, failed -> pending (retry) / paid, paid -> refunded
+const allowedTransitions: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["paid", "failed"],
+  failed: ["pending", "paid"],
+  paid: ["refunded"],
+  refunded: [],
+};
+
+export const canTransition = (from: PaymentStatus, to: PaymentStatus) =>
+  allowedTransitions[from].includes(to);
@@ -0,0 +1,56 @@
+export type PaymentMethod = "fpx" | "duitnow_qr" | "card";
+
+export type PaymentStatus = "pending" | "paid" | "failed" | "refunded";
+
+export const paymentMethods: PaymentMethod[] = ["fpx", "duitnow_qr", "card"];
+
+export const isPaymentMethod = (value: unknown): value is PaymentMethod =>
+  typeof value === "string" && paymentMethods.includes(value as PaymentMethod);
+
+export interface CreateIntentInput {
+  paymentId: string;
+  orderId: string;
+  // Amount in ringgit, as stored on the order
+  amount: number;
+  method: PaymentMethod;
+  customerEmail: string;
+  customerName: string | null;
+  returnUrl: string;
+  callbackUrl: string;
+}
+
+export interface PaymentIntent {
+  reference: string;
+  redirectUrl: string;
+}
+
+export interface WebhookEvent {
+  reference: string;
+  status: PaymentStatus;
+  raw: unknown;
+}
+
+export interface RefundResult {
+  // "pending" means the provider will confirm the refund through the webhook
+  status: "refunded" | "pending";
+}
+
+export interface PaymentProvider {
+  name: string;
+  createIntent(input: CreateIntentInput): Promise<PaymentIntent>;
+  // Verifies the callback and translates it into a payment status change
+  handleWebhook(req: Request): Promise<WebhookEvent>;
+  refund(reference: string, amount: number): Promise<RefundResult>;
+  // Stops an unpaid attempt from being paid; throws if it can no longer be cancelled
+  cancel(reference: string): Promise<void>;
+}
+
+export class PaymentError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
@@ -0,0 +1,14 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.75.1";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Client acting as the caller, so RLS applies to everything it reads
+export const createUserClient = (req: Request) =>
+  createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+// Service role client for writes that customers are not allowed to make
+export const createAdminClient = () => createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
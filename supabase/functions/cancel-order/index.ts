@@ -0,0 +1,43 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, createUserClient } from "../_shared/supabase.ts";
+import { PaymentError, settleOrderBalance } from "../_shared/payments/index.ts";
+
+// Cancels a customer's order before the kitchen cut-off and refunds what they paid
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      throw new PaymentError("not authenticated", 401);
+    }
+
+    const { order_id, reason } = await req.json();
+
+    // Only the service role may cancel, so the refund below always follows
+    const admin = createAdminClient();
+    const { data: change, error: changeError } = await admin.rpc("cancel_order_as", {
+      _user_id: user.id,
+      _order_id: order_id,
+      _reason: typeof reason === "string" ? reason.slice(0, 500) : undefined,
+    });
+    if (changeError || !change) {
+      throw new PaymentError(changeError?.message ?? "could not cancel the order");
+    }
+
+    const settled = await settleOrderBalance(admin, change.order_id, {
+      type: "order_cancelled",
+      change_id: change.id,
+      by: user.id,
+    });
+
+    return jsonResponse({ change_id: change.id, ...settled });
+  } catch (error) {
+    console.error("cancel-order failed:", error);
+    const status = error instanceof PaymentError ? error.status : 500;
+    return jsonResponse({ error: error.message ?? "unknown error" }, status);
+  }
+});
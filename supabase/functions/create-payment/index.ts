@@ -0,0 +1,97 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, createUserClient } from "../_shared/supabase.ts";
+import { PaymentError, getProviderForMethod, isPaymentMethod, supersedePendingPayments } from "../_shared/payments/index.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      throw new PaymentError("not authenticated", 401);
+    }
+
+    const { order_id: orderId, method, return_url: returnUrl } = await req.json();
+    if (!isPaymentMethod(method)) {
+      throw new PaymentError("unsupported payment method");
+    }
+    if (typeof returnUrl !== "string" || !URL.canParse(returnUrl)) {
+      throw new PaymentError("invalid return url");
+    }
+
+    // Read through the caller's client so RLS limits this to their own orders
+    const { data: order } = await userClient
+      .from("orders")
+      .select("id, payment_status")
+      .eq("id", orderId)
+      .maybeSingle();
+    if (!order) {
+      throw new PaymentError("order not found", 404);
+    }
+    if (order.payment_status === "paid" || order.payment_status === "refunded") {
+      throw new PaymentError(`order is already ${order.payment_status}`, 409);
+    }
+
+    const admin = createAdminClient();
+    const provider = getProviderForMethod(method);
+
+    // Normally the order total; after a change to a paid order, just the difference
+    const { data: balance, error: balanceError } = await admin.rpc("order_balance", { _order_id: order.id });
+    if (balanceError) throw balanceError;
+    if (!(balance > 0)) {
+      throw new PaymentError("nothing left to pay on this order", 409);
+    }
+
+    await supersedePendingPayments(admin, order.id);
+
+    const { data: profile } = await admin
+      .from("profiles")
+      .select("email, full_name")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    const { data: payment, error: paymentError } = await admin
+      .from("payments")
+      .insert({
+        order_id: order.id,
+        provider: provider.name,
+        method,
+        amount: balance,
+        status: "pending",
+      })
+      .select()
+      .single();
+    if (paymentError) throw paymentError;
+
+    const intent = await provider.createIntent({
+      paymentId: payment.id,
+      orderId: order.id,
+      amount: Number(balance),
+      method,
+      customerEmail: profile?.email ?? user.email ?? "",
+      customerName: profile?.full_name ?? null,
+      returnUrl,
+      callbackUrl: `${Deno.env.get("SUPABASE_URL")}/functions/v1/payment-webhook?provider=${provider.name}`,
+    });
+
+    const { error: referenceError } = await admin
+      .from("payments")
+      .update({ provider_reference: intent.reference })
+      .eq("id", payment.id);
+    if (referenceError) throw referenceError;
+
+    // A retry after a failed attempt puts the order back to pending
+    if (order.payment_status === "failed") {
+      await admin.from("orders").update({ payment_status: "pending" }).eq("id", order.id);
+    }
+
+    return jsonResponse({ payment_id: payment.id, redirect_url: intent.redirectUrl });
+  } catch (error) {
+    console.error("create-payment failed:", error);
+    const status = error instanceof PaymentError ? error.status : 500;
+    return jsonResponse({ error: error.message ?? "unknown error" }, status);
+  }
+});
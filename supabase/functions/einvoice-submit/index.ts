@@ -0,0 +1,79 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, createUserClient } from "../_shared/supabase.ts";
+import { getSeller } from "../_shared/invoices/index.ts";
+import {
+  EInvoiceError,
+  buildConsolidatedDocument,
+  buildIndividualDocument,
+  loadOrderForEInvoice,
+  loadOrdersForConsolidation,
+  submitDocument,
+  toSupplier,
+} from "../_shared/einvoice/index.ts";
+
+// First and last day of a YYYY-MM month
+const monthBounds = (period: unknown) => {
+  if (typeof period !== "string" || !/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+    throw new EInvoiceError("period must be a month, e.g. 2025-10");
+  }
+  const [year, month] = period.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { start: `${period}-01`, end: `${period}-${String(lastDay).padStart(2, "0")}` };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      throw new EInvoiceError("not authenticated", 401);
+    }
+
+    const { order_id: orderId, period } = await req.json();
+    const admin = createAdminClient();
+    const supplier = toSupplier(getSeller());
+    const issuedAt = new Date().toISOString();
+
+    if (orderId) {
+      // RLS lets customers request e-invoices for their own orders and admins for any
+      const { order, buyer, einvoiceId } = await loadOrderForEInvoice(userClient, admin, orderId);
+      if (einvoiceId) {
+        const { data: current } = await admin.from("einvoices").select("kind").eq("id", einvoiceId).single();
+        if (current?.kind === "consolidated") {
+          throw new EInvoiceError("this order was already reported on a consolidated e-invoice", 409);
+        }
+      }
+
+      const document = buildIndividualDocument(order, supplier, buyer, issuedAt);
+      return jsonResponse(await submitDocument(admin, document, { orderId }));
+    }
+
+    const { data: isAdmin } = await userClient.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (!isAdmin) {
+      throw new EInvoiceError("only admins can submit consolidated e-invoices", 403);
+    }
+
+    const bounds = monthBounds(period);
+    if (bounds.end >= issuedAt.slice(0, 10)) {
+      throw new EInvoiceError("a month can only be consolidated once it has ended", 409);
+    }
+
+    const { orders, orderIds } = await loadOrdersForConsolidation(admin, bounds.start, bounds.end);
+    if (orders.length === 0) {
+      throw new EInvoiceError("no paid orders left to consolidate for this month", 404);
+    }
+
+    const document = buildConsolidatedDocument(orders, bounds, supplier, issuedAt);
+    return jsonResponse(await submitDocument(admin, document, { orderIds }));
+  } catch (error) {
+    console.error("einvoice-submit failed:", error);
+    if (error instanceof EInvoiceError) {
+      return jsonResponse({ error: error.message, details: error.details }, error.status);
+    }
+    return jsonResponse({ error: error.message ?? "unknown error" }, 500);
+  }
+});
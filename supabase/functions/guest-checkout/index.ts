@@ -0,0 +1,127 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { escapeHtml, sendEmail } from "../_shared/email.ts";
+import { createAdminClient, createUserClient } from "../_shared/supabase.ts";
+
+class CheckoutError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "CheckoutError";
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9 -]{7,20}$/;
+
+// Links always point at SITE_URL, never at a host taken from the request
+const siteUrl = () => {
+  const url = Deno.env.get("SITE_URL");
+  if (!url) {
+    throw new CheckoutError("SITE_URL is not configured", 500);
+  }
+  return url;
+};
+
+const sendTrackingLink = async (
+  email: string,
+  name: string,
+  orderId: string,
+  trackingUrl: string,
+  pickupCode: string | null,
+) => {
+  const greeting = name ? `hi ${name},` : "hi,";
+  const reference = `#${orderId.slice(0, 8)}`;
+  const pickup = pickupCode ? `show pickup code ${pickupCode} when you collect your order.` : "";
+  await sendEmail({
+    to: email,
+    subject: `your dailyfragments order ${reference}`,
+    text: `${greeting}\n\nthanks for your order ${reference}. follow it here:\n${trackingUrl}\n\n${pickup ? `${pickup}\n\n` : ""}anyone with this link can see the order, so keep it to yourself.`,
+    html: `<p>${escapeHtml(greeting)}</p><p>thanks for your order ${reference}. <a href="${escapeHtml(trackingUrl)}">track your order</a></p>${pickup ? `<p>${pickup}</p>` : ""}<p>anyone with this link can see the order, so keep it to yourself.</p>`,
+  });
+};
+
+// Places an order for a guest (an anonymous Supabase session). Records their
+// contact details on the profile, then emails them a link to track the order.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      throw new CheckoutError("not authenticated", 401);
+    }
+    if (!user.is_anonymous) {
+      throw new CheckoutError("signed-in customers check out with their account", 403);
+    }
+
+    const {
+      items,
+      fulfilment_method,
+      address_id,
+      delivery_date,
+      delivery_window_id,
+      delivery_instructions,
+      pickup_point_id,
+      promo_code,
+      contact,
+    } = await req.json();
+    const email = String(contact?.email ?? "").trim().toLowerCase();
+    const phone = String(contact?.phone ?? "").trim();
+    const name = String(contact?.name ?? "").trim().slice(0, 100);
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new CheckoutError("enter a valid email so we can send your order updates");
+    }
+    if (!PHONE_PATTERN.test(phone)) {
+      throw new CheckoutError("enter a phone number our rider can reach you on");
+    }
+
+    const site = siteUrl();
+    const admin = createAdminClient();
+    const { error: profileError } = await admin
+      .from("profiles")
+      .update({ email, phone, full_name: name, updated_at: new Date().toISOString() })
+      .eq("id", user.id);
+    if (profileError) throw profileError;
+
+    // Same pricing, slot and promo checks as a signed-in checkout
+    const { data: order, error: orderError } = fulfilment_method === "pickup"
+      ? await userClient.rpc("place_pickup_order", {
+        _items: items,
+        _pickup_point_id: pickup_point_id,
+        _pickup_date: delivery_date,
+        _promo_code: promo_code ?? undefined,
+      })
+      : await userClient.rpc("place_order", {
+        _items: items,
+        _address_id: address_id,
+        _delivery_date: delivery_date,
+        _delivery_window_id: delivery_window_id,
+        _promo_code: promo_code ?? undefined,
+        _delivery_instructions: delivery_instructions ?? undefined,
+      });
+    if (orderError || !order) {
+      throw new CheckoutError(orderError?.message ?? "could not place the order");
+    }
+
+    const trackingUrl = `${site}/track/${order.tracking_token}`;
+    let emailSent = true;
+    try {
+      await sendTrackingLink(email, name, order.id, trackingUrl, order.pickup_code);
+    } catch (error) {
+      // The order stands either way; the tracking link is also shown after payment
+      console.error("guest-checkout email failed:", error);
+      emailSent = false;
+    }
+
+    return jsonResponse({ order_id: order.id, tracking_token: order.tracking_token, email_sent: emailSent });
+  } catch (error) {
+    console.error("guest-checkout failed:", error);
+    const status = error instanceof CheckoutError ? error.status : 500;
+    return jsonResponse({ error: error.message ?? "unknown error" }, status);
+  }
+});
@@ -0,0 +1,50 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, createUserClient } from "../_shared/supabase.ts";
+import { PaymentError, settleOrderBalance } from "../_shared/payments/index.ts";
+
+// Changes a customer's order before the kitchen cut-off, then settles any
+// difference on a paid order through the payment provider
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      throw new PaymentError("not authenticated", 401);
+    }
+
+    const { order_id, items, address_id, delivery_date, delivery_window_id, delivery_instructions } = await req.json();
+
+    // The cut-off, slot, pricing and ownership checks all happen in the
+    // database. Only the service role may change orders, so the settlement
+    // below always follows.
+    const admin = createAdminClient();
+    const { data: change, error: changeError } = await admin.rpc("modify_order_as", {
+      _user_id: user.id,
+      _order_id: order_id,
+      _items: items,
+      _address_id: address_id,
+      _delivery_date: delivery_date,
+      _delivery_window_id: delivery_window_id,
+      _delivery_instructions: typeof delivery_instructions === "string" ? delivery_instructions : null,
+    });
+    if (changeError || !change) {
+      throw new PaymentError(changeError?.message ?? "could not change the order");
+    }
+
+    const settled = await settleOrderBalance(admin, change.order_id, {
+      type: "order_change",
+      change_id: change.id,
+      by: user.id,
+    });
+
+    return jsonResponse({ change_id: change.id, new_total: change.new_total, ...settled });
+  } catch (error) {
+    console.error("modify-order failed:", error);
+    const status = error instanceof PaymentError ? error.status : 500;
+    return jsonResponse({ error: error.message ?? "unknown error" }, status);
+  }
+});
@@ -0,0 +1,35 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, createUserClient } from "../_shared/supabase.ts";
+import { InvoiceError, loadInvoice, renderInvoicePdf } from "../_shared/invoices/index.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      throw new InvoiceError("not authenticated", 401);
+    }
+
+    const { order_id: orderId } = await req.json();
+
+    // RLS lets customers read their own orders and admins read every order
+    const invoice = await loadInvoice(userClient, createAdminClient(), orderId);
+    const pdf = await renderInvoicePdf(invoice);
+
+    return new Response(pdf, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${invoice.invoiceNumber}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("order-receipt failed:", error);
+    const status = error instanceof InvoiceError ? error.status : 500;
+    return jsonResponse({ error: error.message ?? "unknown error" }, status);
+  }
+});
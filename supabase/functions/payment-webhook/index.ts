@@ -0,0 +1,41 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/supabase.ts";
+import { PaymentError, applyPaymentStatus, getProviderByName, markRefundsSettled } from "../_shared/payments/index.ts";
+
+// Called by the payment providers (and the mock checkout page), so no JWT is
+// required; each provider adapter verifies its own callbacks instead.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const provider = getProviderByName(new URL(req.url).searchParams.get("provider"));
+    const event = await provider.handleWebhook(req);
+
+    const admin = createAdminClient();
+    const { data: payment } = await admin
+      .from("payments")
+      .select("id, order_id, status, amount, refunded_amount")
+      .eq("provider", provider.name)
+      .eq("provider_reference", event.reference)
+      .maybeSingle();
+    if (!payment) {
+      throw new PaymentError("payment not found", 404);
+    }
+
+    // A partial refund after an order change leaves the payment itself paid
+    if (event.status === "refunded" && Number(payment.refunded_amount) < Number(payment.amount)) {
+      await admin.from("payments").update({ last_event: event.raw, updated_at: new Date().toISOString() }).eq("id", payment.id);
+      await markRefundsSettled(admin, payment.order_id);
+      return jsonResponse({ received: true, applied: true });
+    }
+
+    const applied = await applyPaymentStatus(admin, payment, event.status, event.raw);
+    return jsonResponse({ received: true, applied });
+  } catch (error) {
+    console.error("payment-webhook failed:", error);
+    const status = error instanceof PaymentError ? error.status : 500;
+    return jsonResponse({ error: error.message ?? "unknown error" }, status);
+  }
+});
@@ -0,0 +1,56 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, createUserClient } from "../_shared/supabase.ts";
+import { PaymentError, applyPaymentStatus, refundThroughProvider } from "../_shared/payments/index.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      throw new PaymentError("not authenticated", 401);
+    }
+
+    const { data: isAdmin } = await userClient.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (!isAdmin) {
+      throw new PaymentError("only admins can refund payments", 403);
+    }
+
+    const { order_id: orderId } = await req.json();
+    const admin = createAdminClient();
+    const { data: payments } = await admin
+      .from("payments")
+      .select("id, order_id, provider, provider_reference, amount, refunded_amount, status")
+      .eq("order_id", orderId)
+      .eq("status", "paid")
+      .order("created_at", { ascending: false });
+    if (!payments || payments.length === 0) {
+      throw new PaymentError("no paid payment found for this order", 404);
+    }
+
+    // An order can have several payments after changes; refund whatever is left of each
+    let status: "refunded" | "pending" = "refunded";
+    for (const payment of payments) {
+      const remaining = Math.round((Number(payment.amount) - Number(payment.refunded_amount)) * 100) / 100;
+      const result = remaining > 0
+        ? await refundThroughProvider(admin, payment, remaining)
+        : { status: "refunded" as const };
+
+      // Otherwise the provider confirms the refund later through the webhook
+      if (result.status === "refunded") {
+        await applyPaymentStatus(admin, payment, "refunded", { type: "refund", by: user.id });
+      } else {
+        status = "pending";
+      }
+    }
+
+    return jsonResponse({ status });
+  } catch (error) {
+    console.error("refund-payment failed:", error);
+    const status = error instanceof PaymentError ? error.status : 500;
+    return jsonResponse({ error: error.message ?? "unknown error" }, status);
+  }
+});
@@ -0,0 +1,33 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, createUserClient } from "../_shared/supabase.ts";
+import { PaymentError, settleOrderBalance } from "../_shared/payments/index.ts";
+
+// Lets admins retry settling a changed or cancelled order, e.g. when the
+// provider was down as the customer made the change
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      throw new PaymentError("not authenticated", 401);
+    }
+
+    const { data: isAdmin } = await userClient.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (!isAdmin) {
+      throw new PaymentError("only admins can settle orders", 403);
+    }
+
+    const { order_id: orderId } = await req.json();
+    const settled = await settleOrderBalance(createAdminClient(), orderId, { type: "settlement_retry", by: user.id });
+
+    return jsonResponse(settled);
+  } catch (error) {
+    console.error("settle-order failed:", error);
+    const status = error instanceof PaymentError ? error.status : 500;
+    return jsonResponse({ error: error.message ?? "unknown error" }, status);
+  }
+});
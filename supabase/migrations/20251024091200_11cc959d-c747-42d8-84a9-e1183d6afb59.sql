@@ -0,0 +1,76 @@
+-- Create atomic order placement function
+-- Takes the cart as a JSON array of { meal_id, quantity }, re-reads the
+-- current meal prices, and writes the order with its items in one transaction.
+CREATE OR REPLACE FUNCTION public.place_order(_items JSONB, _delivery_address TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _line RECORD;
+  _price DECIMAL(10,2);
+  _total DECIMAL(10,2) := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF _delivery_address IS NULL OR btrim(_delivery_address) = '' THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  LOOP
+    IF _line.meal_id IS NULL OR _line.quantity IS NULL OR _line.quantity < 1 THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT price INTO _price
+    FROM public.meals
+    WHERE id = _line.meal_id AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+    END IF;
+
+    _total := _total + _price * _line.quantity;
+  END LOOP;
+
+  INSERT INTO public.orders (user_id, total_price, delivery_address, status, payment_status)
+  VALUES (_user_id, _total, btrim(_delivery_address), 'pending', 'pending')
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase)
+  SELECT _order.id, c.meal_id, c.quantity, m.price
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  ) c
+  JOIN public.meals m ON m.id = c.meal_id;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, TEXT) TO authenticated;
+
+-- Orders are only written through place_order, so clients can't insert rows
+-- that skip its checks
+DROP POLICY "Users can create their own orders" ON public.orders;
+DROP POLICY "Users can create items for their orders" ON public.order_items;
@@ -0,0 +1,151 @@
+-- Basic value constraints on orders and order items
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_total_price_non_negative CHECK (total_price >= 0);
+
+ALTER TABLE public.order_items
+  ADD CONSTRAINT order_items_quantity_positive CHECK (quantity > 0),
+  ADD CONSTRAINT order_items_price_non_negative CHECK (price_at_purchase >= 0);
+
+-- Admins and backend callers (service role, SQL) may manage any order field.
+-- Anonymous API requests also have no auth.uid(), but RLS gives them no write access.
+CREATE OR REPLACE FUNCTION public.is_order_manager()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin')
+$$;
+
+-- Force customer-created orders into pending/pending
+CREATE OR REPLACE FUNCTION public.enforce_new_order_defaults()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_order_manager() THEN
+    NEW.status := 'pending';
+    NEW.payment_status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_new_order_defaults
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_new_order_defaults();
+
+-- Keep non-admins from changing status fields
+CREATE OR REPLACE FUNCTION public.protect_order_status_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_order_manager() AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'only admins can change order status' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_order_status_fields
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.protect_order_status_fields();
+
+-- Reject line prices that differ from the current meal price
+CREATE OR REPLACE FUNCTION public.enforce_order_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _meal_price DECIMAL(10,2);
+BEGIN
+  IF public.is_order_manager() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT price INTO _meal_price
+  FROM public.meals
+  WHERE id = NEW.meal_id;
+
+  IF _meal_price IS NULL OR NEW.price_at_purchase <> _meal_price THEN
+    RAISE EXCEPTION 'price for meal % does not match the menu price', NEW.meal_id
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_item_price
+  BEFORE INSERT OR UPDATE ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_order_item_price();
+
+-- Reject totals that don't match the sum of the line items.
+-- Deferred to commit so an order and its items can be written in either order.
+CREATE OR REPLACE FUNCTION public.check_order_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _total DECIMAL(10,2);
+  _items_total DECIMAL(10,2);
+  _item_count INTEGER;
+BEGIN
+  IF TG_TABLE_NAME = 'orders' THEN
+    _order_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    _order_id := OLD.order_id;
+  ELSE
+    _order_id := NEW.order_id;
+  END IF;
+
+  SELECT total_price INTO _total
+  FROM public.orders
+  WHERE id = _order_id;
+
+  -- The order itself was deleted; its items are going with it
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0), COUNT(*)
+  INTO _items_total, _item_count
+  FROM public.order_items
+  WHERE order_id = _order_id;
+
+  IF _item_count = 0 THEN
+    RAISE EXCEPTION 'order % has no items', _order_id USING ERRCODE = '23514';
+  END IF;
+
+  IF _total <> _items_total THEN
+    RAISE EXCEPTION 'order % total % does not match its items (%)', _order_id, _total, _items_total
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_order_total
+  AFTER INSERT OR UPDATE OF total_price ON public.orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_order_total();
+
+CREATE CONSTRAINT TRIGGER check_order_items_total
+  AFTER INSERT OR UPDATE OR DELETE ON public.order_items
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_order_total();
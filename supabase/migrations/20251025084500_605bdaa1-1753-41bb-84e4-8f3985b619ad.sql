@@ -0,0 +1,38 @@
+-- Restrict order payment status to the payment lifecycle
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_payment_status_check
+  CHECK (payment_status IN ('pending', 'paid', 'failed', 'refunded'));
+
+-- Create payments table
+-- One row per payment attempt; written only by the payment edge functions.
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  provider TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('fpx', 'duitnow_qr', 'card')),
+  provider_reference TEXT,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed', 'refunded')),
+  last_event JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_reference)
+);
+
+CREATE INDEX payments_order_id_idx ON public.payments (order_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments for their orders"
+  ON public.payments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all payments"
+  ON public.payments FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
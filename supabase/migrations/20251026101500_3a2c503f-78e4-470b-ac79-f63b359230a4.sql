@@ -0,0 +1,13 @@
+-- Let customers see meals from their past orders, even once they are
+-- no longer available, so order history keeps its names and macros
+CREATE POLICY "Users can view meals from their orders"
+  ON public.meals FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.order_items
+      JOIN public.orders ON orders.id = order_items.order_id
+      WHERE order_items.meal_id = meals.id
+      AND orders.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,132 @@
+-- Create carts table
+CREATE TABLE public.carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.carts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cart"
+  ON public.carts FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Create cart items table
+CREATE TABLE public.cart_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_id UUID REFERENCES public.carts(id) ON DELETE CASCADE NOT NULL,
+  meal_id UUID REFERENCES public.meals(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (cart_id, meal_id)
+);
+
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cart items"
+  ON public.cart_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.carts
+      WHERE carts.id = cart_items.cart_id
+      AND carts.user_id = auth.uid()
+    )
+  );
+
+-- Cart changes are pushed to the user's other devices
+ALTER TABLE public.cart_items REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.cart_items;
+
+-- Returns the caller's cart id, creating the cart on first use
+CREATE OR REPLACE FUNCTION public.ensure_cart()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  INSERT INTO public.carts (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE SET updated_at = now()
+  RETURNING id INTO _cart_id;
+
+  RETURN _cart_id;
+END;
+$$;
+
+-- Sets one line's quantity; zero or less removes the line
+CREATE OR REPLACE FUNCTION public.set_cart_item(_meal_id UUID, _quantity INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.ensure_cart();
+BEGIN
+  IF _quantity < 1 THEN
+    DELETE FROM public.cart_items
+    WHERE cart_id = _cart_id AND meal_id = _meal_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.cart_items (cart_id, meal_id, quantity)
+  VALUES (_cart_id, _meal_id, _quantity)
+  ON CONFLICT (cart_id, meal_id)
+  DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+END;
+$$;
+
+-- Adds a JSON array of { meal_id, quantity } on top of the server cart.
+-- Used to fold an anonymous local cart into the account on sign-in.
+CREATE OR REPLACE FUNCTION public.merge_cart(_items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.ensure_cart();
+BEGIN
+  INSERT INTO public.cart_items (cart_id, meal_id, quantity)
+  SELECT _cart_id, (item->>'meal_id')::UUID, SUM((item->>'quantity')::INTEGER)::INTEGER
+  FROM jsonb_array_elements(COALESCE(_items, '[]'::JSONB)) AS item
+  WHERE (item->>'quantity')::INTEGER > 0
+  AND EXISTS (SELECT 1 FROM public.meals WHERE id = (item->>'meal_id')::UUID)
+  GROUP BY 2
+  ON CONFLICT (cart_id, meal_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity, updated_at = now();
+END;
+$$;
+
+-- Replaces the whole server cart, e.g. for reorders or after checkout
+CREATE OR REPLACE FUNCTION public.replace_cart(_items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.ensure_cart();
+BEGIN
+  DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+  PERFORM public.merge_cart(_items);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ensure_cart() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.set_cart_item(UUID, INTEGER) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.merge_cart(JSONB) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.replace_cart(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.ensure_cart() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_cart_item(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_cart(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_cart(JSONB) TO authenticated;
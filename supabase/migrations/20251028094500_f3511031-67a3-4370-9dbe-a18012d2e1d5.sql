@@ -0,0 +1,175 @@
+-- Create saved delivery addresses
+CREATE TABLE public.addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  label TEXT NOT NULL DEFAULT 'home' CHECK (char_length(label) BETWEEN 1 AND 40),
+  unit TEXT NOT NULL CHECK (char_length(btrim(unit)) BETWEEN 1 AND 40),
+  building TEXT CHECK (char_length(building) <= 100),
+  street TEXT NOT NULL CHECK (char_length(btrim(street)) BETWEEN 1 AND 200),
+  postcode TEXT NOT NULL CHECK (postcode ~ '^[0-9]{5}$'),
+  city TEXT NOT NULL CHECK (char_length(btrim(city)) BETWEEN 1 AND 100),
+  state TEXT NOT NULL CHECK (state IN (
+    'Johor', 'Kedah', 'Kelantan', 'Melaka', 'Negeri Sembilan', 'Pahang',
+    'Perak', 'Perlis', 'Pulau Pinang', 'Sabah', 'Sarawak', 'Selangor',
+    'Terengganu', 'W.P. Kuala Lumpur', 'W.P. Labuan', 'W.P. Putrajaya'
+  )),
+  delivery_notes TEXT CHECK (char_length(delivery_notes) <= 300),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX addresses_one_default_per_user
+  ON public.addresses (user_id)
+  WHERE is_default;
+
+ALTER TABLE public.addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own addresses"
+  ON public.addresses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own addresses"
+  ON public.addresses FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own addresses"
+  ON public.addresses FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own addresses"
+  ON public.addresses FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all addresses"
+  ON public.addresses FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Setting a new default clears the previous one
+CREATE OR REPLACE FUNCTION public.handle_default_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_default THEN
+    UPDATE public.addresses
+    SET is_default = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_default_address
+  BEFORE INSERT OR UPDATE ON public.addresses
+  FOR EACH ROW EXECUTE FUNCTION public.handle_default_address();
+
+-- Single-line form used for orders.delivery_address
+CREATE OR REPLACE FUNCTION public.format_address(_address public.addresses)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT concat_ws(', ',
+    NULLIF(btrim(_address.unit), ''),
+    NULLIF(btrim(_address.building), ''),
+    btrim(_address.street),
+    _address.postcode || ' ' || btrim(_address.city),
+    _address.state
+  )
+$$;
+
+-- Orders keep a snapshot of the address they were delivered to
+ALTER TABLE public.orders
+  ADD COLUMN address_id UUID REFERENCES public.addresses(id) ON DELETE SET NULL,
+  ADD COLUMN delivery_address_snapshot JSONB;
+
+-- place_order now takes a saved address instead of free text
+DROP FUNCTION public.place_order(JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(_items JSONB, _address_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _address public.addresses;
+  _order public.orders;
+  _line RECORD;
+  _price DECIMAL(10,2);
+  _total DECIMAL(10,2) := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  LOOP
+    IF _line.meal_id IS NULL OR _line.quantity IS NULL OR _line.quantity < 1 THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT price INTO _price
+    FROM public.meals
+    WHERE id = _line.meal_id AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+    END IF;
+
+    _total := _total + _price * _line.quantity;
+  END LOOP;
+
+  INSERT INTO public.orders (
+    user_id, total_price, delivery_address, address_id, delivery_address_snapshot, status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _total,
+    public.format_address(_address),
+    _address.id,
+    to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase)
+  SELECT _order.id, c.meal_id, c.quantity, m.price
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  ) c
+  JOIN public.meals m ON m.id = c.meal_id;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID) TO authenticated;
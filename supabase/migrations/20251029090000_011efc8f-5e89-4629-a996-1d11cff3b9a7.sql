@@ -0,0 +1,324 @@
+-- Create bundled postcode centroid dataset
+-- Malaysian postcodes are allocated in blocks, so centroids are keyed by
+-- postcode prefix (2, 3 or 5 digits) and looked up by longest match.
+-- Coordinates are approximate area centroids; admins correct individual
+-- orders and addresses by hand where a block is too coarse.
+CREATE TABLE public.postcode_centroids (
+  prefix TEXT PRIMARY KEY CHECK (prefix ~ '^[0-9]{2,5}$'),
+  area TEXT NOT NULL,
+  state TEXT NOT NULL,
+  lat DECIMAL(10,8) NOT NULL,
+  lng DECIMAL(11,8) NOT NULL
+);
+
+ALTER TABLE public.postcode_centroids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view postcode centroids"
+  ON public.postcode_centroids FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage postcode centroids"
+  ON public.postcode_centroids FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.postcode_centroids (prefix, area, state, lat, lng) VALUES
+  -- Perlis
+  ('01', 'kangar', 'Perlis', 6.4414, 100.1986),
+  ('02', 'perlis', 'Perlis', 6.5000, 100.2500),
+  -- Kedah
+  ('05', 'alor setar', 'Kedah', 6.1248, 100.3678),
+  ('06', 'jitra / kubang pasu', 'Kedah', 6.2686, 100.4216),
+  ('07', 'langkawi', 'Kedah', 6.3500, 99.8000),
+  ('08', 'sungai petani', 'Kedah', 5.6470, 100.4877),
+  ('09', 'kulim / baling', 'Kedah', 5.3650, 100.5617),
+  -- Pulau Pinang
+  ('10', 'george town', 'Pulau Pinang', 5.4141, 100.3288),
+  ('11', 'bayan lepas / air itam', 'Pulau Pinang', 5.3300, 100.2800),
+  ('12', 'butterworth', 'Pulau Pinang', 5.3991, 100.3638),
+  ('13', 'seberang perai utara', 'Pulau Pinang', 5.4300, 100.4000),
+  ('14', 'bukit mertajam / nibong tebal', 'Pulau Pinang', 5.3634, 100.4667),
+  -- Kelantan
+  ('15', 'kota bharu', 'Kelantan', 6.1254, 102.2381),
+  ('16', 'bachok / pasir mas', 'Kelantan', 6.0500, 102.2000),
+  ('17', 'tanah merah / jeli', 'Kelantan', 5.8000, 102.1500),
+  ('18', 'kuala krai / gua musang', 'Kelantan', 5.1000, 102.1000),
+  -- Terengganu
+  ('20', 'kuala terengganu', 'Terengganu', 5.3302, 103.1408),
+  ('21', 'kuala terengganu', 'Terengganu', 5.3000, 103.1000),
+  ('22', 'besut / setiu', 'Terengganu', 5.6000, 102.7000),
+  ('23', 'dungun', 'Terengganu', 4.7566, 103.4155),
+  ('24', 'kemaman', 'Terengganu', 4.2330, 103.4200),
+  -- Pahang
+  ('25', 'kuantan', 'Pahang', 3.8077, 103.3260),
+  ('26', 'pekan / kuantan', 'Pahang', 3.7000, 103.2000),
+  ('27', 'raub / lipis / jerantut', 'Pahang', 3.9000, 101.9000),
+  ('28', 'temerloh / bentong', 'Pahang', 3.4500, 102.4200),
+  ('39', 'cameron highlands', 'Pahang', 4.4700, 101.3800),
+  ('69', 'genting highlands', 'Pahang', 3.4236, 101.7932),
+  -- Perak
+  ('30', 'ipoh', 'Perak', 4.5975, 101.0901),
+  ('31', 'ipoh / kinta', 'Perak', 4.6000, 101.1000),
+  ('32', 'sitiawan / lumut', 'Perak', 4.2200, 100.7000),
+  ('33', 'kuala kangsar', 'Perak', 4.7700, 100.9400),
+  ('34', 'taiping', 'Perak', 4.8500, 100.7400),
+  ('35', 'tapah / slim river', 'Perak', 4.0300, 101.2900),
+  ('36', 'teluk intan', 'Perak', 4.0200, 101.0200),
+  -- Selangor
+  ('40', 'shah alam', 'Selangor', 3.0733, 101.5185),
+  ('41', 'klang', 'Selangor', 3.0449, 101.4456),
+  ('42', 'port klang', 'Selangor', 2.9990, 101.3900),
+  ('43', 'kajang / bangi / semenyih', 'Selangor', 2.9930, 101.7900),
+  ('430', 'kajang', 'Selangor', 2.9935, 101.7874),
+  ('435', 'semenyih', 'Selangor', 2.9500, 101.8430),
+  ('436', 'bandar baru bangi', 'Selangor', 2.9630, 101.7700),
+  ('44', 'kuala kubu bharu', 'Selangor', 3.5600, 101.6600),
+  ('45', 'kuala selangor / sabak bernam', 'Selangor', 3.3400, 101.2500),
+  ('46', 'petaling jaya', 'Selangor', 3.1073, 101.6067),
+  ('460', 'petaling jaya', 'Selangor', 3.0950, 101.6400),
+  ('47', 'subang / puchong / damansara', 'Selangor', 3.0700, 101.6000),
+  ('470', 'sungai buloh', 'Selangor', 3.2100, 101.5800),
+  ('471', 'puchong', 'Selangor', 3.0240, 101.6170),
+  ('473', 'petaling jaya', 'Selangor', 3.1000, 101.6000),
+  ('474', 'damansara', 'Selangor', 3.1300, 101.6200),
+  ('475', 'subang jaya', 'Selangor', 3.0500, 101.5850),
+  ('476', 'usj / subang jaya', 'Selangor', 3.0450, 101.5800),
+  ('478', 'kota damansara', 'Selangor', 3.1500, 101.5900),
+  ('48', 'rawang', 'Selangor', 3.3200, 101.5700),
+  ('63', 'cyberjaya', 'Selangor', 2.9213, 101.6559),
+  ('64', 'sepang / klia', 'Selangor', 2.7400, 101.7000),
+  ('68', 'ampang / selayang', 'Selangor', 3.1800, 101.7200),
+  ('680', 'ampang', 'Selangor', 3.1500, 101.7600),
+  ('681', 'batu caves / selayang', 'Selangor', 3.2400, 101.6800),
+  -- W.P. Kuala Lumpur
+  ('50', 'kuala lumpur city centre', 'W.P. Kuala Lumpur', 3.1478, 101.6953),
+  ('50450', 'klcc', 'W.P. Kuala Lumpur', 3.1579, 101.7116),
+  ('51', 'jalan ipoh / sentul', 'W.P. Kuala Lumpur', 3.1800, 101.6900),
+  ('52', 'kepong / segambut', 'W.P. Kuala Lumpur', 3.2000, 101.6500),
+  ('53', 'setapak / wangsa maju', 'W.P. Kuala Lumpur', 3.2000, 101.7300),
+  ('54', 'titiwangsa', 'W.P. Kuala Lumpur', 3.1700, 101.7100),
+  ('55', 'pudu / cheras', 'W.P. Kuala Lumpur', 3.1300, 101.7200),
+  ('56', 'cheras', 'W.P. Kuala Lumpur', 3.0900, 101.7400),
+  ('57', 'sri petaling / bukit jalil', 'W.P. Kuala Lumpur', 3.0700, 101.6900),
+  ('58', 'kuchai lama / old klang road', 'W.P. Kuala Lumpur', 3.0900, 101.6800),
+  ('59', 'bangsar / pantai', 'W.P. Kuala Lumpur', 3.1200, 101.6700),
+  ('60', 'taman tun dr ismail', 'W.P. Kuala Lumpur', 3.1400, 101.6300),
+  -- W.P. Putrajaya
+  ('62', 'putrajaya', 'W.P. Putrajaya', 2.9264, 101.6964),
+  -- Negeri Sembilan
+  ('70', 'seremban', 'Negeri Sembilan', 2.7297, 101.9381),
+  ('71', 'nilai / port dickson', 'Negeri Sembilan', 2.6000, 101.8000),
+  ('72', 'kuala pilah / jempol', 'Negeri Sembilan', 2.7400, 102.2500),
+  ('73', 'tampin / gemas', 'Negeri Sembilan', 2.4700, 102.2300),
+  -- Melaka
+  ('75', 'melaka', 'Melaka', 2.1896, 102.2501),
+  ('76', 'alor gajah', 'Melaka', 2.3100, 102.2200),
+  ('77', 'jasin / merlimau', 'Melaka', 2.3100, 102.4300),
+  ('78', 'masjid tanah', 'Melaka', 2.3500, 102.1100),
+  -- Johor
+  ('79', 'iskandar puteri', 'Johor', 1.4300, 103.6400),
+  ('80', 'johor bahru', 'Johor', 1.4927, 103.7414),
+  ('81', 'skudai / kulai / pasir gudang', 'Johor', 1.5300, 103.6600),
+  ('82', 'pontian', 'Johor', 1.4900, 103.3900),
+  ('83', 'batu pahat', 'Johor', 1.8500, 102.9300),
+  ('84', 'muar', 'Johor', 2.0442, 102.5689),
+  ('85', 'segamat', 'Johor', 2.5100, 102.8200),
+  ('86', 'kluang / mersing', 'Johor', 2.0300, 103.3200),
+  -- W.P. Labuan
+  ('87', 'labuan', 'W.P. Labuan', 5.2831, 115.2308),
+  -- Sabah
+  ('88', 'kota kinabalu', 'Sabah', 5.9804, 116.0735),
+  ('89', 'west coast / interior sabah', 'Sabah', 5.9000, 116.1000),
+  ('90', 'sandakan', 'Sabah', 5.8402, 118.1179),
+  ('91', 'tawau / lahad datu', 'Sabah', 4.2448, 117.8911),
+  -- Sarawak
+  ('93', 'kuching', 'Sarawak', 1.5533, 110.3592),
+  ('94', 'kota samarahan / serian', 'Sarawak', 1.4600, 110.4900),
+  ('95', 'sri aman / betong', 'Sarawak', 1.2400, 111.4600),
+  ('96', 'sibu / sarikei / mukah', 'Sarawak', 2.2900, 111.8300),
+  ('97', 'bintulu', 'Sarawak', 3.1700, 113.0300),
+  ('98', 'miri / limbang', 'Sarawak', 4.4000, 113.9900);
+
+-- Longest-prefix lookup for a 5-digit postcode
+CREATE OR REPLACE FUNCTION public.geocode_postcode(_postcode TEXT)
+RETURNS TABLE (lat DECIMAL(10,8), lng DECIMAL(11,8), area TEXT, matched_prefix TEXT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.lat, c.lng, c.area, c.prefix
+  FROM public.postcode_centroids c
+  WHERE _postcode ~ '^[0-9]{5}$'
+  AND left(_postcode, char_length(c.prefix)) = c.prefix
+  ORDER BY char_length(c.prefix) DESC
+  LIMIT 1
+$$;
+
+-- Coordinates on saved addresses
+ALTER TABLE public.addresses
+  ADD COLUMN lat DECIMAL(10,8),
+  ADD COLUMN lng DECIMAL(11,8),
+  ADD COLUMN coordinates_source TEXT CHECK (coordinates_source IN ('postcode', 'manual'));
+
+-- Geocode addresses from their postcode unless an admin has set them by hand.
+-- Changing the postcode discards a manual correction.
+CREATE OR REPLACE FUNCTION public.geocode_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _match RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.postcode = OLD.postcode
+    AND NEW.coordinates_source IS NOT DISTINCT FROM OLD.coordinates_source
+    AND NEW.lat IS NOT DISTINCT FROM OLD.lat
+    AND NEW.lng IS NOT DISTINCT FROM OLD.lng THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.coordinates_source = 'manual'
+    AND NOT (TG_OP = 'UPDATE' AND NEW.postcode <> OLD.postcode) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _match FROM public.geocode_postcode(NEW.postcode);
+
+  IF FOUND THEN
+    NEW.lat := _match.lat;
+    NEW.lng := _match.lng;
+    NEW.coordinates_source := 'postcode';
+  ELSE
+    NEW.lat := NULL;
+    NEW.lng := NULL;
+    NEW.coordinates_source := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER geocode_address
+  BEFORE INSERT OR UPDATE ON public.addresses
+  FOR EACH ROW EXECUTE FUNCTION public.geocode_address();
+
+-- Backfill existing addresses through the trigger above
+UPDATE public.addresses
+SET coordinates_source = 'postcode'
+WHERE lat IS NULL;
+
+-- Only admins may mark coordinates as a manual correction
+CREATE OR REPLACE FUNCTION public.protect_manual_coordinates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.coordinates_source = 'manual'
+    AND (TG_OP = 'INSERT' OR OLD.coordinates_source IS DISTINCT FROM 'manual'
+      OR NEW.lat IS DISTINCT FROM OLD.lat OR NEW.lng IS DISTINCT FROM OLD.lng)
+    AND NOT public.is_order_manager() THEN
+    RAISE EXCEPTION 'only admins can set coordinates by hand' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_manual_coordinates
+  BEFORE INSERT OR UPDATE ON public.addresses
+  FOR EACH ROW EXECUTE FUNCTION public.protect_manual_coordinates();
+
+-- Orders take their coordinates from the chosen address when placed
+ALTER TABLE public.orders
+  ADD COLUMN delivery_coordinates_source TEXT CHECK (delivery_coordinates_source IN ('postcode', 'manual'));
+
+CREATE OR REPLACE FUNCTION public.geocode_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _match RECORD;
+BEGIN
+  IF NEW.delivery_lat IS NOT NULL AND NEW.delivery_lng IS NOT NULL AND public.is_order_manager() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT lat, lng, coordinates_source AS source INTO _match
+  FROM public.addresses
+  WHERE id = NEW.address_id AND lat IS NOT NULL;
+
+  IF NOT FOUND THEN
+    SELECT g.lat, g.lng, 'postcode' AS source INTO _match
+    FROM public.geocode_postcode(NEW.delivery_address_snapshot->>'postcode') g;
+  END IF;
+
+  IF FOUND THEN
+    NEW.delivery_lat := _match.lat;
+    NEW.delivery_lng := _match.lng;
+    NEW.delivery_coordinates_source := _match.source;
+  ELSE
+    NEW.delivery_lat := NULL;
+    NEW.delivery_lng := NULL;
+    NEW.delivery_coordinates_source := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER geocode_order
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.geocode_order();
+
+-- Manual coordinate correction from the admin panel. Optionally also fixes
+-- the saved address so the customer's future orders land in the right place.
+CREATE OR REPLACE FUNCTION public.set_delivery_coordinates(
+  _order_id UUID,
+  _lat DECIMAL,
+  _lng DECIMAL,
+  _update_address BOOLEAN DEFAULT true
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'only admins can set coordinates by hand' USING ERRCODE = '42501';
+  END IF;
+
+  -- Rough bounding box around Peninsular Malaysia, Sabah, Sarawak and Labuan
+  IF _lat NOT BETWEEN 0.8 AND 7.5 OR _lng NOT BETWEEN 99.5 AND 119.5 THEN
+    RAISE EXCEPTION 'coordinates are outside malaysia' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.orders
+  SET delivery_lat = _lat,
+      delivery_lng = _lng,
+      delivery_coordinates_source = 'manual',
+      updated_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _update_address AND _order.address_id IS NOT NULL THEN
+    UPDATE public.addresses
+    SET lat = _lat, lng = _lng, coordinates_source = 'manual'
+    WHERE id = _order.address_id;
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_delivery_coordinates(UUID, DECIMAL, DECIMAL, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_delivery_coordinates(UUID, DECIMAL, DECIMAL, BOOLEAN) TO authenticated;
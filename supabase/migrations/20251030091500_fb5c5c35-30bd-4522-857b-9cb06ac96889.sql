@@ -0,0 +1,265 @@
+-- Create delivery zones
+-- A zone matches an address by exact postcode or by a polygon of
+-- { "lat": ..., "lng": ... } points around the address coordinates.
+CREATE TABLE public.delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  postcodes TEXT[] NOT NULL DEFAULT '{}',
+  polygon JSONB CHECK (polygon IS NULL OR (jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3)),
+  min_order DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_order >= 0),
+  delivery_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (cardinality(postcodes) > 0 OR polygon IS NOT NULL)
+);
+
+CREATE INDEX delivery_zones_postcodes_idx ON public.delivery_zones USING GIN (postcodes);
+
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active delivery zones"
+  ON public.delivery_zones FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage delivery zones"
+  ON public.delivery_zones FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Ray casting point-in-polygon test over a JSONB ring
+CREATE OR REPLACE FUNCTION public.point_in_polygon(_lat DECIMAL, _lng DECIMAL, _polygon JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _count INTEGER := jsonb_array_length(_polygon);
+  _inside BOOLEAN := false;
+  _i INTEGER;
+  _j INTEGER := _count - 1;
+  _lat_i DECIMAL;
+  _lng_i DECIMAL;
+  _lat_j DECIMAL;
+  _lng_j DECIMAL;
+BEGIN
+  IF _lat IS NULL OR _lng IS NULL OR _polygon IS NULL THEN
+    RETURN false;
+  END IF;
+
+  FOR _i IN 0.._count - 1 LOOP
+    _lat_i := (_polygon->_i->>'lat')::DECIMAL;
+    _lng_i := (_polygon->_i->>'lng')::DECIMAL;
+    _lat_j := (_polygon->_j->>'lat')::DECIMAL;
+    _lng_j := (_polygon->_j->>'lng')::DECIMAL;
+
+    IF ((_lat_i > _lat) <> (_lat_j > _lat))
+      AND (_lng < (_lng_j - _lng_i) * (_lat - _lat_i) / (_lat_j - _lat_i) + _lng_i) THEN
+      _inside := NOT _inside;
+    END IF;
+
+    _j := _i;
+  END LOOP;
+
+  RETURN _inside;
+END;
+$$;
+
+-- Finds the active zone serving a location. Postcode matches win over
+-- polygons, then the cheapest delivery fee.
+CREATE OR REPLACE FUNCTION public.find_delivery_zone(_postcode TEXT, _lat DECIMAL, _lng DECIMAL)
+RETURNS SETOF public.delivery_zones
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT z.*
+  FROM public.delivery_zones z
+  WHERE z.is_active
+  AND (_postcode = ANY (z.postcodes) OR public.point_in_polygon(_lat, _lng, z.polygon))
+  ORDER BY (_postcode = ANY (z.postcodes)) DESC, z.delivery_fee ASC
+  LIMIT 1
+$$;
+
+-- Serviceability check for the address form, from the postcode alone
+CREATE OR REPLACE FUNCTION public.check_serviceability(_postcode TEXT)
+RETURNS SETOF public.delivery_zones
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lat DECIMAL;
+  _lng DECIMAL;
+BEGIN
+  SELECT lat, lng INTO _lat, _lng
+  FROM public.geocode_postcode(_postcode);
+
+  RETURN QUERY
+  SELECT * FROM public.find_delivery_zone(_postcode, _lat, _lng);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.find_delivery_zone(TEXT, DECIMAL, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.find_delivery_zone(TEXT, DECIMAL, DECIMAL) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.check_serviceability(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.check_serviceability(TEXT) TO anon, authenticated;
+
+-- Orders record their zone and delivery fee
+ALTER TABLE public.orders
+  ADD COLUMN delivery_zone_id UUID REFERENCES public.delivery_zones(id) ON DELETE SET NULL,
+  ADD COLUMN delivery_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0);
+
+-- Totals now include the delivery fee
+CREATE OR REPLACE FUNCTION public.check_order_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _order public.orders;
+  _items_total DECIMAL(10,2);
+  _item_count INTEGER;
+BEGIN
+  IF TG_TABLE_NAME = 'orders' THEN
+    _order_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    _order_id := OLD.order_id;
+  ELSE
+    _order_id := NEW.order_id;
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  -- The order itself was deleted; its items are going with it
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0), COUNT(*)
+  INTO _items_total, _item_count
+  FROM public.order_items
+  WHERE order_id = _order_id;
+
+  IF _item_count = 0 THEN
+    RAISE EXCEPTION 'order % has no items', _order_id USING ERRCODE = '23514';
+  END IF;
+
+  IF _order.total_price <> _items_total + _order.delivery_fee THEN
+    RAISE EXCEPTION 'order % total % does not match its items (%) plus delivery fee (%)',
+      _order_id, _order.total_price, _items_total, _order.delivery_fee
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER check_order_total ON public.orders;
+
+CREATE CONSTRAINT TRIGGER check_order_total
+  AFTER INSERT OR UPDATE OF total_price, delivery_fee ON public.orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_order_total();
+
+-- Refuse orders outside every active zone or under the zone minimum
+CREATE OR REPLACE FUNCTION public.place_order(_items JSONB, _address_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _order public.orders;
+  _line RECORD;
+  _price DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  LOOP
+    IF _line.meal_id IS NULL OR _line.quantity IS NULL OR _line.quantity < 1 THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT price INTO _price
+    FROM public.meals
+    WHERE id = _line.meal_id AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+    END IF;
+
+    _subtotal := _subtotal + _price * _line.quantity;
+  END LOOP;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, total_price, delivery_fee, delivery_zone_id, delivery_address, address_id,
+    delivery_address_snapshot, status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _subtotal + _zone.delivery_fee,
+    _zone.delivery_fee,
+    _zone.id,
+    public.format_address(_address),
+    _address.id,
+    to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase)
+  SELECT _order.id, c.meal_id, c.quantity, m.price
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  ) c
+  JOIN public.meals m ON m.id = c.meal_id;
+
+  RETURN _order;
+END;
+$$;
@@ -0,0 +1,259 @@
+-- Booking rules per zone, in Malaysia time (Asia/Kuala_Lumpur).
+-- Next-day orders close at next_day_cutoff the day before; same-day
+-- delivery is only offered when same_day_cutoff is set.
+ALTER TABLE public.delivery_zones
+  ADD COLUMN next_day_cutoff TIME NOT NULL DEFAULT '20:00',
+  ADD COLUMN same_day_cutoff TIME,
+  ADD COLUMN booking_horizon_days INTEGER NOT NULL DEFAULT 14 CHECK (booking_horizon_days BETWEEN 1 AND 60);
+
+-- Create delivery windows
+CREATE TABLE public.delivery_windows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id UUID REFERENCES public.delivery_zones(id) ON DELETE CASCADE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time),
+  UNIQUE (zone_id, start_time, end_time)
+);
+
+ALTER TABLE public.delivery_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active delivery windows"
+  ON public.delivery_windows FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage delivery windows"
+  ON public.delivery_windows FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Orders store the booked slot, with the window times snapshotted
+ALTER TABLE public.orders
+  ADD COLUMN delivery_date DATE,
+  ADD COLUMN delivery_window_id UUID REFERENCES public.delivery_windows(id) ON DELETE SET NULL,
+  ADD COLUMN delivery_window_start TIME,
+  ADD COLUMN delivery_window_end TIME;
+
+CREATE INDEX orders_delivery_slot_idx ON public.orders (delivery_window_id, delivery_date);
+
+-- Why a window can't be booked for a date, or NULL when it can
+CREATE OR REPLACE FUNCTION public.delivery_slot_closed_reason(_window public.delivery_windows, _date DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _zone public.delivery_zones;
+  _now TIMESTAMP := now() AT TIME ZONE 'Asia/Kuala_Lumpur';
+  _today DATE := (now() AT TIME ZONE 'Asia/Kuala_Lumpur')::DATE;
+BEGIN
+  SELECT * INTO _zone FROM public.delivery_zones WHERE id = _window.zone_id;
+
+  IF NOT _window.is_active OR NOT _zone.is_active THEN
+    RETURN 'unavailable';
+  END IF;
+
+  IF _date < _today THEN
+    RETURN 'date has passed';
+  END IF;
+
+  IF _date > _today + _zone.booking_horizon_days THEN
+    RETURN 'too far ahead';
+  END IF;
+
+  IF _date = _today THEN
+    IF _zone.same_day_cutoff IS NULL THEN
+      RETURN 'no same-day delivery';
+    END IF;
+    IF _now::TIME >= _zone.same_day_cutoff OR _now::TIME >= _window.start_time THEN
+      RETURN 'cut-off passed';
+    END IF;
+  ELSIF _date = _today + 1 AND _now::TIME >= _zone.next_day_cutoff THEN
+    RETURN 'cut-off passed';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_slot_bookings(_window_id UUID, _date DATE)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.orders
+  WHERE delivery_window_id = _window_id
+  AND delivery_date = _date
+  AND status NOT IN ('cancelled', 'failed')
+$$;
+
+-- Windows for a zone on a date with their remaining capacity
+CREATE OR REPLACE FUNCTION public.get_delivery_slots(_zone_id UUID, _date DATE)
+RETURNS TABLE (
+  window_id UUID,
+  start_time TIME,
+  end_time TIME,
+  capacity INTEGER,
+  booked INTEGER,
+  available BOOLEAN,
+  reason TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    w.id,
+    w.start_time,
+    w.end_time,
+    w.capacity,
+    b.booked,
+    s.reason IS NULL AND b.booked < w.capacity,
+    COALESCE(s.reason, CASE WHEN b.booked >= w.capacity THEN 'full' END)
+  FROM public.delivery_windows w
+  CROSS JOIN LATERAL (SELECT public.count_slot_bookings(w.id, _date) AS booked) b
+  CROSS JOIN LATERAL (SELECT public.delivery_slot_closed_reason(w, _date) AS reason) s
+  WHERE w.zone_id = _zone_id AND w.is_active
+  ORDER BY w.start_time
+$$;
+
+-- place_order now books a delivery slot
+DROP FUNCTION public.place_order(JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _closed_reason TEXT;
+  _order public.orders;
+  _line RECORD;
+  _price DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  LOOP
+    IF _line.meal_id IS NULL OR _line.quantity IS NULL OR _line.quantity < 1 THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT price INTO _price
+    FROM public.meals
+    WHERE id = _line.meal_id AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+    END IF;
+
+    _subtotal := _subtotal + _price * _line.quantity;
+  END LOOP;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+    RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, total_price, delivery_fee, delivery_zone_id, delivery_address, address_id,
+    delivery_address_snapshot, delivery_date, delivery_window_id, delivery_window_start,
+    delivery_window_end, status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _subtotal + _zone.delivery_fee,
+    _zone.delivery_fee,
+    _zone.id,
+    public.format_address(_address),
+    _address.id,
+    to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    _delivery_date,
+    _window.id,
+    _window.start_time,
+    _window.end_time,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase)
+  SELECT _order.id, c.meal_id, c.quantity, m.price
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  ) c
+  JOIN public.meals m ON m.id = c.meal_id;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID) TO authenticated;
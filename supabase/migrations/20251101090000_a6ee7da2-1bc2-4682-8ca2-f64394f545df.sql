@@ -0,0 +1,102 @@
+-- Order lifecycle:
+--   pending -> confirmed -> preparing -> out_for_delivery -> delivered
+-- with cancelled available until the order leaves the kitchen and failed
+-- for orders that never get paid or can't be delivered.
+UPDATE public.orders SET status = 'preparing' WHERE status = 'processing';
+UPDATE public.orders SET status = 'delivered' WHERE status = 'completed';
+
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'confirmed', 'preparing', 'out_for_delivery', 'delivered', 'cancelled', 'failed'));
+
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _from
+    WHEN 'pending' THEN _to IN ('confirmed', 'cancelled', 'failed')
+    WHEN 'confirmed' THEN _to IN ('preparing', 'cancelled')
+    WHEN 'preparing' THEN _to IN ('out_for_delivery', 'cancelled')
+    WHEN 'out_for_delivery' THEN _to IN ('delivered', 'failed')
+    ELSE false
+  END
+$$;
+
+-- Create order status history
+CREATE TABLE public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  -- NULL for system changes such as payment webhooks
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_status_history_order_id_idx ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history of their own orders"
+  ON public.order_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all order history"
+  ON public.order_status_history FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Existing orders start their timeline at creation with their current status
+INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, status, NULL, created_at
+FROM public.orders;
+
+-- Reject status changes the lifecycle doesn't allow, for admins too
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'cannot change order status from % to %', OLD.status, NEW.status USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status_transition();
+
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_order_status_change
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.record_order_status_change();
@@ -0,0 +1,7 @@
+-- Push order and status history changes to the admin panel and customers.
+-- Realtime checks each subscriber against the tables' select policies, so
+-- customers only receive their own orders and admins receive everything.
+ALTER TABLE public.orders REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_status_history;
@@ -0,0 +1,381 @@
+-- Create pricing settings, a single row edited from the admin panel.
+-- delivery_fee_mode picks how the delivery fee is worked out:
+--   flat      flat_delivery_fee for every order
+--   zone      the delivery zone's own fee
+--   distance  distance_base_fee + distance_fee_per_km from the kitchen,
+--             falling back to the zone fee when coordinates are missing
+CREATE TABLE public.pricing_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  sst_rate DECIMAL(5,4) NOT NULL DEFAULT 0.06 CHECK (sst_rate >= 0 AND sst_rate < 1),
+  sst_on_delivery BOOLEAN NOT NULL DEFAULT false,
+  service_charge_rate DECIMAL(5,4) NOT NULL DEFAULT 0 CHECK (service_charge_rate >= 0 AND service_charge_rate < 1),
+  delivery_fee_mode TEXT NOT NULL DEFAULT 'zone' CHECK (delivery_fee_mode IN ('flat', 'zone', 'distance')),
+  flat_delivery_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (flat_delivery_fee >= 0),
+  kitchen_lat DECIMAL(9,6),
+  kitchen_lng DECIMAL(9,6),
+  distance_base_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (distance_base_fee >= 0),
+  distance_fee_per_km DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (distance_fee_per_km >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (delivery_fee_mode <> 'distance' OR (kitchen_lat IS NOT NULL AND kitchen_lng IS NOT NULL))
+);
+
+INSERT INTO public.pricing_settings (id) VALUES (true);
+
+ALTER TABLE public.pricing_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing settings"
+  ON public.pricing_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update pricing settings"
+  ON public.pricing_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Orders store the full price breakdown as charged
+ALTER TABLE public.orders
+  ADD COLUMN subtotal DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (subtotal >= 0),
+  ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  ADD COLUMN service_charge DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (service_charge >= 0),
+  ADD COLUMN sst_rate DECIMAL(5,4) NOT NULL DEFAULT 0 CHECK (sst_rate >= 0),
+  ADD COLUMN sst_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (sst_amount >= 0),
+  ADD COLUMN delivery_distance_km DECIMAL(7,2);
+
+-- Orders placed so far had no tax, service charge or discounts
+UPDATE public.orders SET subtotal = total_price - delivery_fee;
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(_lat1 DECIMAL, _lng1 DECIMAL, _lat2 DECIMAL, _lng2 DECIMAL)
+RETURNS DECIMAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT (6371 * 2 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  )))::DECIMAL
+$$;
+
+-- Price of a cart at today's menu prices; rejects bad lines and unavailable meals
+CREATE OR REPLACE FUNCTION public.cart_subtotal(_items JSONB)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _line RECORD;
+  _price DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  LOOP
+    IF _line.meal_id IS NULL OR _line.quantity IS NULL OR _line.quantity < 1 THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT price INTO _price
+    FROM public.meals
+    WHERE id = _line.meal_id AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+    END IF;
+
+    _subtotal := _subtotal + _price * _line.quantity;
+  END LOOP;
+
+  RETURN _subtotal;
+END;
+$$;
+
+-- The pricing engine. Every amount is rounded to the sen (half away from
+-- zero) before it is added up, so the stored lines always sum to the total.
+-- Malaysia's 5 sen rounding only applies to cash bills, so it isn't used here.
+CREATE OR REPLACE FUNCTION public.calculate_order_pricing(
+  _subtotal DECIMAL,
+  _zone_fee DECIMAL,
+  _lat DECIMAL,
+  _lng DECIMAL,
+  _discount DECIMAL DEFAULT 0
+)
+RETURNS TABLE (
+  subtotal DECIMAL,
+  discount_amount DECIMAL,
+  service_charge DECIMAL,
+  delivery_fee DECIMAL,
+  delivery_distance_km DECIMAL,
+  sst_rate DECIMAL,
+  sst_amount DECIMAL,
+  total_price DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.pricing_settings;
+  _discounted DECIMAL(10,2);
+  _taxable DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _settings FROM public.pricing_settings;
+
+  subtotal := ROUND(_subtotal, 2);
+  discount_amount := LEAST(ROUND(COALESCE(_discount, 0), 2), subtotal);
+  _discounted := subtotal - discount_amount;
+  service_charge := ROUND(_discounted * _settings.service_charge_rate, 2);
+
+  IF _settings.delivery_fee_mode = 'flat' THEN
+    delivery_fee := _settings.flat_delivery_fee;
+  ELSIF _settings.delivery_fee_mode = 'distance' AND _lat IS NOT NULL AND _lng IS NOT NULL THEN
+    delivery_distance_km := ROUND(public.distance_km(_settings.kitchen_lat, _settings.kitchen_lng, _lat, _lng), 2);
+    delivery_fee := ROUND(_settings.distance_base_fee + _settings.distance_fee_per_km * delivery_distance_km, 2);
+  ELSE
+    delivery_fee := ROUND(COALESCE(_zone_fee, 0), 2);
+  END IF;
+
+  _taxable := _discounted + service_charge
+    + CASE WHEN _settings.sst_on_delivery THEN delivery_fee ELSE 0 END;
+  sst_rate := _settings.sst_rate;
+  sst_amount := ROUND(_taxable * sst_rate, 2);
+
+  total_price := _discounted + service_charge + delivery_fee + sst_amount;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Totals now follow the stored breakdown, and the subtotal has to match the items
+CREATE OR REPLACE FUNCTION public.check_order_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _order public.orders;
+  _items_total DECIMAL(10,2);
+  _item_count INTEGER;
+BEGIN
+  IF TG_TABLE_NAME = 'orders' THEN
+    _order_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    _order_id := OLD.order_id;
+  ELSE
+    _order_id := NEW.order_id;
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  -- The order itself was deleted; its items are going with it
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0), COUNT(*)
+  INTO _items_total, _item_count
+  FROM public.order_items
+  WHERE order_id = _order_id;
+
+  IF _item_count = 0 THEN
+    RAISE EXCEPTION 'order % has no items', _order_id USING ERRCODE = '23514';
+  END IF;
+
+  IF _order.subtotal <> _items_total THEN
+    RAISE EXCEPTION 'order % subtotal % does not match its items (%)',
+      _order_id, _order.subtotal, _items_total
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF _order.discount_amount > _order.subtotal THEN
+    RAISE EXCEPTION 'order % discount % is more than its subtotal', _order_id, _order.discount_amount
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF _order.total_price <> _order.subtotal - _order.discount_amount + _order.service_charge
+    + _order.delivery_fee + _order.sst_amount THEN
+    RAISE EXCEPTION 'order % total % does not match its price breakdown', _order_id, _order.total_price
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER check_order_total ON public.orders;
+
+CREATE CONSTRAINT TRIGGER check_order_total
+  AFTER INSERT OR UPDATE OF total_price, subtotal, discount_amount, service_charge, delivery_fee, sst_amount
+  ON public.orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_order_total();
+
+-- Price breakdown for a cart delivered to one of the caller's addresses
+CREATE OR REPLACE FUNCTION public.quote_order(_items JSONB, _address_id UUID)
+RETURNS TABLE (
+  subtotal DECIMAL,
+  discount_amount DECIMAL,
+  service_charge DECIMAL,
+  delivery_fee DECIMAL,
+  delivery_distance_km DECIMAL,
+  sst_rate DECIMAL,
+  sst_amount DECIMAL,
+  total_price DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _address public.addresses;
+  _zone public.delivery_zones;
+BEGIN
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.calculate_order_pricing(public.cart_subtotal(_items), _zone.delivery_fee, _address.lat, _address.lng);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.quote_order(JSONB, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_order(JSONB, UUID) TO authenticated;
+
+-- place_order charges through the pricing engine
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _closed_reason TEXT;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+    RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(_subtotal, _zone.delivery_fee, _address.lat, _address.lng);
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, delivery_zone_id, delivery_address, address_id,
+    delivery_address_snapshot, delivery_date, delivery_window_id, delivery_window_start,
+    delivery_window_end, status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _zone.id,
+    public.format_address(_address),
+    _address.id,
+    to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    _delivery_date,
+    _window.id,
+    _window.start_time,
+    _window.end_time,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase)
+  SELECT _order.id, c.meal_id, c.quantity, m.price
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  ) c
+  JOIN public.meals m ON m.id = c.meal_id;
+
+  RETURN _order;
+END;
+$$;
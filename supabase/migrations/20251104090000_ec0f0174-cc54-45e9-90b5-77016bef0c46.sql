@@ -0,0 +1,422 @@
+-- Create promotions
+-- discount_type:
+--   percent        discount_value percent off the subtotal, capped at max_discount
+--   fixed          discount_value RM off the subtotal
+--   free_delivery  waives the delivery fee
+CREATE TABLE public.promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed', 'free_delivery')),
+  discount_value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  max_discount DECIMAL(10,2) CHECK (max_discount > 0),
+  min_spend DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_spend >= 0),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ends_at TIMESTAMP WITH TIME ZONE,
+  usage_limit INTEGER CHECK (usage_limit > 0),
+  per_user_limit INTEGER CHECK (per_user_limit > 0),
+  first_order_only BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at IS NULL OR ends_at > starts_at),
+  CHECK (discount_type <> 'percent' OR discount_value BETWEEN 1 AND 100),
+  CHECK (discount_type <> 'fixed' OR discount_value > 0)
+);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- Customers never list codes; they're checked through quote_order and place_order
+CREATE POLICY "Admins can manage promotions"
+  ON public.promotions FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Orders record the code they used
+ALTER TABLE public.orders
+  ADD COLUMN promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL,
+  ADD COLUMN promo_code TEXT;
+
+-- Create promotion redemptions, one per order
+CREATE TABLE public.promotion_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id UUID REFERENCES public.promotions(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  discount_amount DECIMAL(10,2) NOT NULL CHECK (discount_amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX promotion_redemptions_promotion_id_idx ON public.promotion_redemptions (promotion_id, user_id);
+
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redemptions"
+  ON public.promotion_redemptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redemptions"
+  ON public.promotion_redemptions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Redemptions on cancelled or failed orders give the use back
+CREATE OR REPLACE FUNCTION public.count_promotion_redemptions(_promotion_id UUID, _user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.promotion_redemptions r
+  JOIN public.orders o ON o.id = r.order_id
+  WHERE r.promotion_id = _promotion_id
+  AND (_user_id IS NULL OR r.user_id = _user_id)
+  AND o.status NOT IN ('cancelled', 'failed')
+$$;
+
+REVOKE ALL ON FUNCTION public.count_promotion_redemptions(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Looks up a code for a customer's cart, raising the reason it can't be used.
+-- place_order passes _lock so concurrent checkouts can't overrun the limits.
+CREATE OR REPLACE FUNCTION public.resolve_promotion(
+  _code TEXT,
+  _user_id UUID,
+  _subtotal DECIMAL,
+  _lock BOOLEAN DEFAULT false
+)
+RETURNS public.promotions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions;
+BEGIN
+  IF _lock THEN
+    SELECT * INTO _promotion FROM public.promotions WHERE code = upper(btrim(_code)) FOR UPDATE;
+  ELSE
+    SELECT * INTO _promotion FROM public.promotions WHERE code = upper(btrim(_code));
+  END IF;
+
+  IF NOT FOUND OR NOT _promotion.is_active THEN
+    RAISE EXCEPTION 'promo code % is not valid', upper(btrim(_code)) USING ERRCODE = 'P0001';
+  END IF;
+
+  IF now() < _promotion.starts_at THEN
+    RAISE EXCEPTION 'promo code % is not active yet', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _promotion.ends_at IS NOT NULL AND now() >= _promotion.ends_at THEN
+    RAISE EXCEPTION 'promo code % has expired', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _promotion.min_spend THEN
+    RAISE EXCEPTION 'promo code % needs a minimum spend of RM %', _promotion.code, _promotion.min_spend
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _promotion.usage_limit IS NOT NULL
+    AND public.count_promotion_redemptions(_promotion.id) >= _promotion.usage_limit THEN
+    RAISE EXCEPTION 'promo code % has been fully redeemed', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _promotion.per_user_limit IS NOT NULL
+    AND public.count_promotion_redemptions(_promotion.id, _user_id) >= _promotion.per_user_limit THEN
+    RAISE EXCEPTION 'you have already used promo code %', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Only orders that were paid for count, not an abandoned pending checkout.
+  -- Orders only leave pending once paid, and stay past it after a change.
+  IF _promotion.first_order_only AND EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE user_id = _user_id
+    AND status NOT IN ('cancelled', 'failed')
+    AND (status <> 'pending' OR payment_status = 'paid')
+  ) THEN
+    RAISE EXCEPTION 'promo code % is for first orders only', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN _promotion;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_promotion(TEXT, UUID, DECIMAL, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Amount a promotion takes off the subtotal; free delivery is applied to the fee instead
+CREATE OR REPLACE FUNCTION public.promotion_discount(_promotion public.promotions, _subtotal DECIMAL)
+RETURNS DECIMAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE _promotion.discount_type
+    WHEN 'percent' THEN LEAST(
+      ROUND(_subtotal * _promotion.discount_value / 100, 2),
+      COALESCE(_promotion.max_discount, _subtotal),
+      _subtotal
+    )
+    WHEN 'fixed' THEN LEAST(_promotion.discount_value, _subtotal)
+    ELSE 0
+  END
+$$;
+
+-- The pricing engine learns to waive the delivery fee
+DROP FUNCTION public.calculate_order_pricing(DECIMAL, DECIMAL, DECIMAL, DECIMAL, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.calculate_order_pricing(
+  _subtotal DECIMAL,
+  _zone_fee DECIMAL,
+  _lat DECIMAL,
+  _lng DECIMAL,
+  _discount DECIMAL DEFAULT 0,
+  _free_delivery BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  subtotal DECIMAL,
+  discount_amount DECIMAL,
+  service_charge DECIMAL,
+  delivery_fee DECIMAL,
+  delivery_distance_km DECIMAL,
+  sst_rate DECIMAL,
+  sst_amount DECIMAL,
+  total_price DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.pricing_settings;
+  _discounted DECIMAL(10,2);
+  _taxable DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _settings FROM public.pricing_settings;
+
+  subtotal := ROUND(_subtotal, 2);
+  discount_amount := LEAST(ROUND(COALESCE(_discount, 0), 2), subtotal);
+  _discounted := subtotal - discount_amount;
+  service_charge := ROUND(_discounted * _settings.service_charge_rate, 2);
+
+  IF _settings.delivery_fee_mode = 'distance' AND _lat IS NOT NULL AND _lng IS NOT NULL THEN
+    delivery_distance_km := ROUND(public.distance_km(_settings.kitchen_lat, _settings.kitchen_lng, _lat, _lng), 2);
+  END IF;
+
+  IF _free_delivery THEN
+    delivery_fee := 0;
+  ELSIF _settings.delivery_fee_mode = 'flat' THEN
+    delivery_fee := _settings.flat_delivery_fee;
+  ELSIF delivery_distance_km IS NOT NULL THEN
+    delivery_fee := ROUND(_settings.distance_base_fee + _settings.distance_fee_per_km * delivery_distance_km, 2);
+  ELSE
+    delivery_fee := ROUND(COALESCE(_zone_fee, 0), 2);
+  END IF;
+
+  _taxable := _discounted + service_charge
+    + CASE WHEN _settings.sst_on_delivery THEN delivery_fee ELSE 0 END;
+  sst_rate := _settings.sst_rate;
+  sst_amount := ROUND(_taxable * sst_rate, 2);
+
+  total_price := _discounted + service_charge + delivery_fee + sst_amount;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Quotes take an optional promo code
+DROP FUNCTION public.quote_order(JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.quote_order(_items JSONB, _address_id UUID, _promo_code TEXT DEFAULT NULL)
+RETURNS TABLE (
+  subtotal DECIMAL,
+  discount_amount DECIMAL,
+  service_charge DECIMAL,
+  delivery_fee DECIMAL,
+  delivery_distance_km DECIMAL,
+  sst_rate DECIMAL,
+  sst_amount DECIMAL,
+  total_price DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _promotion public.promotions;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, auth.uid(), _subtotal);
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.quote_order(JSONB, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_order(JSONB, UUID, TEXT) TO authenticated;
+
+-- place_order redeems the promo code alongside the order
+DROP FUNCTION public.place_order(JSONB, UUID, DATE, UUID);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID,
+  _promo_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _closed_reason TEXT;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+    RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, _user_id, _subtotal, true);
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, promotion_id, promo_code, delivery_zone_id,
+    delivery_address, address_id, delivery_address_snapshot, delivery_date, delivery_window_id,
+    delivery_window_start, delivery_window_end, status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _promotion.id,
+    _promotion.code,
+    _zone.id,
+    public.format_address(_address),
+    _address.id,
+    to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    _delivery_date,
+    _window.id,
+    _window.start_time,
+    _window.end_time,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase)
+  SELECT _order.id, c.meal_id, c.quantity, m.price
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  ) c
+  JOIN public.meals m ON m.id = c.meal_id;
+
+  IF _promotion.id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (_promotion.id, _order.id, _user_id, _pricing.discount_amount);
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT) TO authenticated;
@@ -0,0 +1,89 @@
+-- Create invoice counters, one running sequence per year.
+-- A counter row is locked while a number is taken, so numbers are never
+-- skipped when a transaction rolls back the way a sequence would.
+CREATE TABLE public.invoice_counters (
+  year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0)
+);
+
+ALTER TABLE public.invoice_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invoice counters"
+  ON public.invoice_counters FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Paid orders get a tax invoice number, e.g. INV-2025-000042
+ALTER TABLE public.orders
+  ADD COLUMN invoice_number TEXT UNIQUE,
+  ADD COLUMN invoiced_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.next_invoice_number(_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _year INTEGER := EXTRACT(YEAR FROM _at AT TIME ZONE 'Asia/Kuala_Lumpur')::INTEGER;
+  _number INTEGER;
+BEGIN
+  INSERT INTO public.invoice_counters (year, last_number)
+  VALUES (_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = public.invoice_counters.last_number + 1
+  RETURNING last_number INTO _number;
+
+  RETURN 'INV-' || _year || '-' || lpad(_number::TEXT, 6, '0');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.next_invoice_number(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Number the orders that were paid before invoices existed, oldest first
+DO $$
+DECLARE
+  _order RECORD;
+BEGIN
+  FOR _order IN
+    SELECT id, created_at
+    FROM public.orders
+    WHERE payment_status IN ('paid', 'refunded')
+    ORDER BY created_at
+  LOOP
+    UPDATE public.orders
+    SET invoice_number = public.next_invoice_number(_order.created_at), invoiced_at = _order.created_at
+    WHERE id = _order.id;
+  END LOOP;
+END;
+$$;
+
+-- Numbers an order the moment it's paid. Once issued an invoice number
+-- never changes, and only trusted callers can set one directly.
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.invoice_number IS NOT NULL THEN
+    NEW.invoice_number := OLD.invoice_number;
+    NEW.invoiced_at := OLD.invoiced_at;
+  ELSIF NEW.invoice_number IS NOT NULL AND NOT public.is_order_manager() THEN
+    NEW.invoice_number := NULL;
+    NEW.invoiced_at := NULL;
+  END IF;
+
+  IF NEW.invoice_number IS NULL AND NEW.payment_status = 'paid' THEN
+    NEW.invoice_number := public.next_invoice_number();
+    NEW.invoiced_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE triggers fire in name order; the zz_ prefix makes this one run
+-- last, so it sees the payment status the other triggers settled on
+CREATE TRIGGER zz_assign_invoice_number
+  BEFORE INSERT OR UPDATE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.assign_invoice_number();
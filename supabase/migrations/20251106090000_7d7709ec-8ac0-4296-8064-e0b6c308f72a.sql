@@ -0,0 +1,84 @@
+-- Create e-invoice buyer details, the tax identity a customer wants on
+-- their LHDN MyInvois e-invoices. Customers without one are covered by
+-- the monthly consolidated e-invoice for B2C sales.
+CREATE TABLE public.einvoice_buyers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 300),
+  tin TEXT NOT NULL CHECK (tin ~ '^[A-Z]{1,2}[0-9]{8,13}$'),
+  id_type TEXT NOT NULL CHECK (id_type IN ('NRIC', 'BRN', 'PASSPORT', 'ARMY')),
+  id_number TEXT NOT NULL CHECK (char_length(btrim(id_number)) BETWEEN 1 AND 30),
+  sst_number TEXT CHECK (sst_number IS NULL OR char_length(btrim(sst_number)) BETWEEN 1 AND 35),
+  email TEXT,
+  -- MyInvois requires a contact number for every named buyer
+  phone TEXT NOT NULL CHECK (phone ~ '^\+?[0-9 -]{7,20}$'),
+  -- Registered address; orders fall back to their delivery address
+  address_id UUID REFERENCES public.addresses(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.einvoice_buyers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own e-invoice details"
+  ON public.einvoice_buyers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own e-invoice details"
+  ON public.einvoice_buyers FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own e-invoice details"
+  ON public.einvoice_buyers FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own e-invoice details"
+  ON public.einvoice_buyers FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all e-invoice details"
+  ON public.einvoice_buyers FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create e-invoices, one per submitted MyInvois document. Individual
+-- e-invoices cover one order; consolidated ones cover a month of receipts.
+CREATE TABLE public.einvoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('individual', 'consolidated')),
+  code TEXT NOT NULL UNIQUE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL UNIQUE,
+  period_start DATE,
+  period_end DATE,
+  document JSONB NOT NULL,
+  adapter TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'valid', 'invalid', 'rejected', 'cancelled')),
+  submission_uid TEXT,
+  document_uuid TEXT,
+  long_id TEXT,
+  errors JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind <> 'consolidated' OR (period_start IS NOT NULL AND period_end IS NOT NULL))
+);
+
+ALTER TABLE public.einvoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view e-invoices for their own orders"
+  ON public.einvoices FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = einvoices.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all e-invoices"
+  ON public.einvoices FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Each paid order ends up on exactly one e-invoice
+ALTER TABLE public.orders
+  ADD COLUMN einvoice_id UUID REFERENCES public.einvoices(id) ON DELETE SET NULL;
+
+CREATE INDEX orders_einvoice_id_idx ON public.orders (einvoice_id);
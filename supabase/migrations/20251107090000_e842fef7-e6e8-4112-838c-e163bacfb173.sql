@@ -0,0 +1,184 @@
+-- Guest checkout runs on Supabase anonymous sign-ins: a guest is a real
+-- auth user without an email or password until they upgrade, so carts,
+-- addresses and orders keep working through the usual RLS policies.
+ALTER TABLE public.profiles
+  ADD COLUMN is_guest BOOLEAN NOT NULL DEFAULT false;
+
+-- Anonymous users have no email yet; the guest checkout fills it in
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, is_guest)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.email, ''),
+    COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
+    COALESCE(NEW.is_anonymous, false)
+  );
+  
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user');
+  
+  INSERT INTO public.macro_goals (user_id)
+  VALUES (NEW.id);
+  
+  RETURN NEW;
+END;
+$$;
+
+-- A guest who links an email and password keeps their user id, and with it
+-- their order history; only the profile needs to catch up
+CREATE OR REPLACE FUNCTION public.handle_user_upgrade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET email = COALESCE(NEW.email, email),
+      is_guest = COALESCE(NEW.is_anonymous, false),
+      updated_at = now()
+  WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_upgraded
+  AFTER UPDATE OF email, is_anonymous ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email OR OLD.is_anonymous IS DISTINCT FROM NEW.is_anonymous)
+  EXECUTE FUNCTION public.handle_user_upgrade();
+
+-- Unguessable per-order token behind the /track/:token link sent to guests
+ALTER TABLE public.orders
+  ADD COLUMN tracking_token TEXT NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+-- Create public order tracking: whoever holds the token sees the order's
+-- progress, without signing in on that device
+CREATE OR REPLACE FUNCTION public.track_order(_token TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'payment_status', o.payment_status,
+    'created_at', o.created_at,
+    'delivery_address', o.delivery_address,
+    'delivery_date', o.delivery_date,
+    'delivery_window_start', o.delivery_window_start,
+    'delivery_window_end', o.delivery_window_end,
+    'subtotal', o.subtotal,
+    'discount_amount', o.discount_amount,
+    'service_charge', o.service_charge,
+    'delivery_fee', o.delivery_fee,
+    'delivery_distance_km', o.delivery_distance_km,
+    'sst_rate', o.sst_rate,
+    'sst_amount', o.sst_amount,
+    'total_price', o.total_price,
+    'promo_code', o.promo_code,
+    'items', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'name', m.name,
+        'quantity', oi.quantity,
+        'price_at_purchase', oi.price_at_purchase
+      ) ORDER BY m.name), '[]'::jsonb)
+      FROM public.order_items oi
+      LEFT JOIN public.meals m ON m.id = oi.meal_id
+      WHERE oi.order_id = o.id
+    ),
+    'history', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'to_status', h.to_status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at), '[]'::jsonb)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    )
+  )
+  FROM public.orders o
+  WHERE o.tracking_token = _token
+    AND length(_token) >= 32;
+$$;
+
+REVOKE ALL ON FUNCTION public.track_order(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.track_order(TEXT) TO anon, authenticated;
+
+-- Guests can still use promo codes, except first-order and per-customer ones
+CREATE OR REPLACE FUNCTION public.resolve_promotion(
+  _code TEXT,
+  _user_id UUID,
+  _subtotal DECIMAL,
+  _lock BOOLEAN DEFAULT false
+)
+RETURNS public.promotions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions;
+BEGIN
+  IF _lock THEN
+    SELECT * INTO _promotion FROM public.promotions WHERE code = upper(btrim(_code)) FOR UPDATE;
+  ELSE
+    SELECT * INTO _promotion FROM public.promotions WHERE code = upper(btrim(_code));
+  END IF;
+
+  IF NOT FOUND OR NOT _promotion.is_active THEN
+    RAISE EXCEPTION 'promo code % is not valid', upper(btrim(_code)) USING ERRCODE = 'P0001';
+  END IF;
+
+  IF now() < _promotion.starts_at THEN
+    RAISE EXCEPTION 'promo code % is not active yet', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _promotion.ends_at IS NOT NULL AND now() >= _promotion.ends_at THEN
+    RAISE EXCEPTION 'promo code % has expired', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _promotion.min_spend THEN
+    RAISE EXCEPTION 'promo code % needs a minimum spend of RM %', _promotion.code, _promotion.min_spend
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Each guest session is a new user, so per-customer limits can't hold for guests
+  IF (_promotion.first_order_only OR _promotion.per_user_limit IS NOT NULL)
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = _user_id AND is_guest) THEN
+    RAISE EXCEPTION 'sign in or create an account to use promo code %', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _promotion.usage_limit IS NOT NULL
+    AND public.count_promotion_redemptions(_promotion.id) >= _promotion.usage_limit THEN
+    RAISE EXCEPTION 'promo code % has been fully redeemed', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _promotion.per_user_limit IS NOT NULL
+    AND public.count_promotion_redemptions(_promotion.id, _user_id) >= _promotion.per_user_limit THEN
+    RAISE EXCEPTION 'you have already used promo code %', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Only orders that were paid for count, not an abandoned pending checkout.
+  -- Orders only leave pending once paid, and stay past it after a change.
+  IF _promotion.first_order_only AND EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE user_id = _user_id
+    AND status NOT IN ('cancelled', 'failed')
+    AND (status <> 'pending' OR payment_status = 'paid')
+  ) THEN
+    RAISE EXCEPTION 'promo code % is for first orders only', _promotion.code USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN _promotion;
+END;
+$$;
@@ -0,0 +1,115 @@
+-- Remember what each cart line cost when it was added, so checkout can
+-- point out price changes before the customer pays
+ALTER TABLE public.cart_items
+  ADD COLUMN unit_price DECIMAL(10,2);
+
+UPDATE public.cart_items
+SET unit_price = meals.price
+FROM public.meals
+WHERE meals.id = cart_items.meal_id;
+
+-- New lines take the meal's current price; changing the quantity keeps
+-- the price the line was added at
+CREATE OR REPLACE FUNCTION public.set_cart_item(_meal_id UUID, _quantity INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.ensure_cart();
+BEGIN
+  IF _quantity < 1 THEN
+    DELETE FROM public.cart_items
+    WHERE cart_id = _cart_id AND meal_id = _meal_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.cart_items (cart_id, meal_id, quantity, unit_price)
+  SELECT _cart_id, _meal_id, _quantity, meals.price
+  FROM public.meals
+  WHERE meals.id = _meal_id
+  ON CONFLICT (cart_id, meal_id)
+  DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+END;
+$$;
+
+-- Adds a JSON array of { meal_id, quantity, unit_price? } on top of the
+-- server cart. unit_price is what a signed-out cart saw the meal at.
+CREATE OR REPLACE FUNCTION public.merge_cart(_items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.ensure_cart();
+BEGIN
+  INSERT INTO public.cart_items (cart_id, meal_id, quantity, unit_price)
+  SELECT
+    _cart_id,
+    meals.id,
+    SUM((item->>'quantity')::INTEGER)::INTEGER,
+    COALESCE(MIN((item->>'unit_price')::DECIMAL), meals.price)
+  FROM jsonb_array_elements(COALESCE(_items, '[]'::JSONB)) AS item
+  JOIN public.meals ON meals.id = (item->>'meal_id')::UUID
+  WHERE (item->>'quantity')::INTEGER > 0
+  GROUP BY meals.id, meals.price
+  ON CONFLICT (cart_id, meal_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity, updated_at = now();
+END;
+$$;
+
+-- Create cart revalidation: checks a JSON array of { meal_id, quantity,
+-- unit_price? } against the menu. Runs as definer because RLS hides
+-- unavailable meals, and those are exactly the lines to report.
+--   missing        the meal was deleted
+--   unavailable    the meal is off the menu
+--   price_changed  the price differs from unit_price
+CREATE OR REPLACE FUNCTION public.validate_cart(_items JSONB)
+RETURNS TABLE (
+  meal_id UUID,
+  quantity INTEGER,
+  name TEXT,
+  price DECIMAL,
+  added_price DECIMAL,
+  calories INTEGER,
+  protein INTEGER,
+  carbs INTEGER,
+  fats INTEGER,
+  status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    line.meal_id,
+    line.quantity,
+    meals.name,
+    meals.price,
+    line.added_price,
+    meals.calories,
+    meals.protein,
+    meals.carbs,
+    meals.fats,
+    CASE
+      WHEN meals.id IS NULL THEN 'missing'
+      WHEN NOT meals.is_available THEN 'unavailable'
+      WHEN line.added_price IS NOT NULL AND line.added_price <> meals.price THEN 'price_changed'
+      ELSE 'ok'
+    END
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      (item->>'quantity')::INTEGER AS quantity,
+      (item->>'unit_price')::DECIMAL AS added_price
+    FROM jsonb_array_elements(COALESCE(_items, '[]'::JSONB)) AS item
+  ) AS line
+  LEFT JOIN public.meals ON meals.id = line.meal_id
+  ORDER BY meals.name NULLS LAST;
+$$;
+
+REVOKE ALL ON FUNCTION public.validate_cart(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.validate_cart(JSONB) TO anon, authenticated;
@@ -0,0 +1,621 @@
+-- Customers can change or cancel an order while it's pending or confirmed,
+-- up to change_cutoff_hours before its delivery window starts (Malaysia time)
+ALTER TABLE public.delivery_zones
+  ADD COLUMN change_cutoff_hours INTEGER NOT NULL DEFAULT 12 CHECK (change_cutoff_hours BETWEEN 0 AND 168);
+
+-- Payments keep track of how much of them has been given back, so an order
+-- that gets cheaper can be partly refunded
+ALTER TABLE public.payments
+  ADD COLUMN refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0),
+  ADD CONSTRAINT payments_refunded_amount_check CHECK (refunded_amount <= amount);
+
+UPDATE public.payments SET refunded_amount = amount WHERE status = 'refunded';
+
+-- Create order changes
+-- One row per customer change, for the kitchen and the customer's own record.
+-- balance_due is what the customer owes once the change is made (negative
+-- when they're owed a refund); settlement tracks the payment side:
+--   none            nothing to settle, e.g. the order wasn't paid yet
+--   payment_due     the order costs more than was paid
+--   paid            the difference has been paid
+--   refund_pending  the order costs less; the refund is with the provider
+--   refunded        the refund went through
+CREATE TABLE public.order_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('modified', 'cancelled')),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- items: [{ meal_id, name, from, to }], address: { from, to }, slot: { from, to }
+  details JSONB NOT NULL DEFAULT '{}',
+  reason TEXT CHECK (char_length(reason) <= 500),
+  previous_total DECIMAL(10,2) NOT NULL,
+  new_total DECIMAL(10,2) NOT NULL,
+  balance_due DECIMAL(10,2) NOT NULL DEFAULT 0,
+  settlement TEXT NOT NULL DEFAULT 'none'
+    CHECK (settlement IN ('none', 'payment_due', 'paid', 'refund_pending', 'refunded')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_changes_order_id_idx ON public.order_changes (order_id, created_at);
+
+ALTER TABLE public.order_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view changes to their own orders"
+  ON public.order_changes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_changes.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all order changes"
+  ON public.order_changes FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_changes;
+
+-- When customers stop being able to change an order for a slot
+CREATE OR REPLACE FUNCTION public.order_change_deadline(_zone_id UUID, _date DATE, _start TIME)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ((_date + _start) AT TIME ZONE 'Asia/Kuala_Lumpur') - make_interval(hours => z.change_cutoff_hours)
+  FROM public.delivery_zones z
+  WHERE z.id = _zone_id
+$$;
+
+-- Why a customer can't change or cancel an order any more, or NULL when they can
+CREATE OR REPLACE FUNCTION public.order_change_closed_reason(_order public.orders)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF _order.status NOT IN ('pending', 'confirmed') THEN
+    RETURN 'order is ' || replace(_order.status, '_', ' ');
+  END IF;
+
+  IF _order.delivery_date IS NULL OR _order.delivery_window_start IS NULL THEN
+    RETURN 'order has no delivery slot';
+  END IF;
+
+  _deadline := public.order_change_deadline(
+    _order.delivery_zone_id,
+    _order.delivery_date,
+    _order.delivery_window_start
+  );
+
+  IF _deadline IS NULL OR now() >= _deadline THEN
+    RETURN 'cut-off passed';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- What the customer still owes on an order, or a negative amount when
+-- they've paid more than it now costs. Cancelled orders owe nothing.
+CREATE OR REPLACE FUNCTION public.order_balance(_order_id UUID)
+RETURNS DECIMAL
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN o.status = 'cancelled' THEN 0 ELSE o.total_price END
+    - COALESCE((
+      SELECT SUM(p.amount - p.refunded_amount)
+      FROM public.payments p
+      WHERE p.order_id = o.id AND p.status = 'paid'
+    ), 0)
+  FROM public.orders o
+  WHERE o.id = _order_id
+$$;
+
+REVOKE ALL ON FUNCTION public.order_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Customers may cancel their own order before the change cut-off
+CREATE OR REPLACE FUNCTION public.protect_order_status_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_order_manager() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled'
+    AND OLD.user_id = auth.uid()
+    AND public.order_change_closed_reason(OLD) IS NULL
+    AND NEW.payment_status IS NOT DISTINCT FROM OLD.payment_status
+    AND NEW.user_id IS NOT DISTINCT FROM OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'only admins can change order status' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Lines kept through an order change stay at the price they were bought at
+CREATE OR REPLACE FUNCTION public.enforce_order_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _meal_price DECIMAL(10,2);
+BEGIN
+  IF public.is_order_manager() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.meal_id = OLD.meal_id
+    AND NEW.price_at_purchase = OLD.price_at_purchase THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT price INTO _meal_price
+  FROM public.meals
+  WHERE id = NEW.meal_id;
+
+  IF _meal_price IS NULL OR NEW.price_at_purchase <> _meal_price THEN
+    RAISE EXCEPTION 'price for meal % does not match the menu price', NEW.meal_id
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Orders moved to another address are located again
+CREATE OR REPLACE FUNCTION public.geocode_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _match RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.address_id IS NOT DISTINCT FROM OLD.address_id
+    AND NEW.delivery_address_snapshot IS NOT DISTINCT FROM OLD.delivery_address_snapshot THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.delivery_lat IS NOT NULL AND NEW.delivery_lng IS NOT NULL
+    AND public.is_order_manager() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT lat, lng, coordinates_source AS source INTO _match
+  FROM public.addresses
+  WHERE id = NEW.address_id AND lat IS NOT NULL;
+
+  IF NOT FOUND THEN
+    SELECT g.lat, g.lng, 'postcode' AS source INTO _match
+    FROM public.geocode_postcode(NEW.delivery_address_snapshot->>'postcode') g;
+  END IF;
+
+  IF FOUND THEN
+    NEW.delivery_lat := _match.lat;
+    NEW.delivery_lng := _match.lng;
+    NEW.delivery_coordinates_source := _match.source;
+  ELSE
+    NEW.delivery_lat := NULL;
+    NEW.delivery_lng := NULL;
+    NEW.delivery_coordinates_source := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER geocode_order ON public.orders;
+
+CREATE TRIGGER geocode_order
+  BEFORE INSERT OR UPDATE OF address_id, delivery_address_snapshot ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.geocode_order();
+
+-- Records how a change left the order's payments. A paid order that now
+-- costs more goes back to payment pending here; the modify-order and
+-- cancel-order functions then refund overpayments through the provider, and
+-- admins can retry refunds that didn't go through with settle-order.
+CREATE OR REPLACE FUNCTION public.record_order_change(
+  _order public.orders,
+  _kind TEXT,
+  _details JSONB,
+  _reason TEXT,
+  _new_total DECIMAL
+)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance DECIMAL(10,2) := 0;
+  _change public.order_changes;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.payments WHERE order_id = _order.id AND status = 'paid') THEN
+    _balance := public.order_balance(_order.id);
+  END IF;
+
+  -- Until the difference is paid the order isn't paid for, whoever made the change
+  IF _balance > 0 THEN
+    UPDATE public.orders
+    SET payment_status = 'pending', updated_at = now()
+    WHERE id = _order.id AND payment_status = 'paid';
+  END IF;
+
+  -- The newest change carries the whole outstanding balance
+  UPDATE public.order_changes
+  SET settlement = 'none', updated_at = now()
+  WHERE order_id = _order.id AND settlement = 'payment_due';
+
+  INSERT INTO public.order_changes (
+    order_id, kind, changed_by, details, reason, previous_total, new_total, balance_due, settlement
+  )
+  VALUES (
+    _order.id,
+    _kind,
+    auth.uid(),
+    _details,
+    NULLIF(btrim(_reason), ''),
+    _order.total_price,
+    _new_total,
+    _balance,
+    CASE
+      WHEN _balance > 0 THEN 'payment_due'
+      WHEN _balance < 0 THEN 'refund_pending'
+      ELSE 'none'
+    END
+  )
+  RETURNING * INTO _change;
+
+  RETURN _change;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_order_change(public.orders, TEXT, JSONB, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Changes a customer's order before the cut-off. _items is the full new list
+-- of meals; the address and slot may be the ones the order already has.
+-- Portions the customer keeps stay at the price they paid, and anything added
+-- is charged at today's menu price.
+CREATE OR REPLACE FUNCTION public.modify_order(
+  _order_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID
+)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _closed_reason TEXT;
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _line RECORD;
+  _item public.order_items;
+  _wanted INTEGER;
+  _remove INTEGER;
+  _price DECIMAL(10,2);
+  _subtotal DECIMAL(10,2);
+  _formatted_address TEXT;
+  _slot_changed BOOLEAN;
+  _item_changes JSONB := '[]';
+  _details JSONB := '{}';
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _closed_reason := public.order_change_closed_reason(_order);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'order can no longer be changed: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _order.einvoice_id IS NOT NULL THEN
+    RAISE EXCEPTION 'this order already has an e-invoice; contact us to change it' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'an order needs at least one meal; cancel it instead' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      COALESCE(requested.meal_id, current.meal_id) AS meal_id,
+      requested.meal_id IS NOT NULL AS is_requested,
+      requested.quantity AS requested_quantity,
+      COALESCE(current.quantity, 0) AS current_quantity
+    FROM (
+      SELECT
+        (item->>'meal_id')::UUID AS meal_id,
+        SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(_items) AS item
+      GROUP BY 1
+    ) requested
+    FULL JOIN (
+      SELECT meal_id, SUM(quantity)::INTEGER AS quantity
+      FROM public.order_items
+      WHERE order_id = _order.id
+      GROUP BY 1
+    ) current ON current.meal_id = requested.meal_id
+  LOOP
+    IF _line.meal_id IS NULL
+      OR (_line.is_requested AND (_line.requested_quantity IS NULL OR _line.requested_quantity < 1)) THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    _wanted := CASE WHEN _line.is_requested THEN _line.requested_quantity ELSE 0 END;
+
+    IF _wanted > _line.current_quantity THEN
+      SELECT price INTO _price
+      FROM public.meals
+      WHERE id = _line.meal_id AND is_available = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+      END IF;
+
+      UPDATE public.order_items
+      SET quantity = quantity + (_wanted - _line.current_quantity)
+      WHERE id = (
+        SELECT id FROM public.order_items
+        WHERE order_id = _order.id AND meal_id = _line.meal_id AND price_at_purchase = _price
+        LIMIT 1
+      );
+
+      IF NOT FOUND THEN
+        INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase)
+        VALUES (_order.id, _line.meal_id, _wanted - _line.current_quantity, _price);
+      END IF;
+    ELSIF _wanted < _line.current_quantity THEN
+      _remove := _line.current_quantity - _wanted;
+
+      -- Take portions off the most recently added lines first
+      FOR _item IN
+        SELECT * FROM public.order_items
+        WHERE order_id = _order.id AND meal_id = _line.meal_id
+        ORDER BY created_at DESC, id
+        FOR UPDATE
+      LOOP
+        EXIT WHEN _remove = 0;
+
+        IF _item.quantity <= _remove THEN
+          DELETE FROM public.order_items WHERE id = _item.id;
+          _remove := _remove - _item.quantity;
+        ELSE
+          UPDATE public.order_items SET quantity = quantity - _remove WHERE id = _item.id;
+          _remove := 0;
+        END IF;
+      END LOOP;
+    END IF;
+
+    IF _wanted <> _line.current_quantity THEN
+      _item_changes := _item_changes || jsonb_build_object(
+        'meal_id', _line.meal_id,
+        'name', (SELECT name FROM public.meals WHERE id = _line.meal_id),
+        'from', _line.current_quantity,
+        'to', _wanted
+      );
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO _subtotal
+  FROM public.order_items
+  WHERE order_id = _order.id;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _slot_changed := _delivery_date IS DISTINCT FROM _order.delivery_date
+    OR _window.id IS DISTINCT FROM _order.delivery_window_id;
+
+  -- Keeping the same slot needs no checks; the order already holds its place in it
+  IF _slot_changed THEN
+    _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+    IF _closed_reason IS NOT NULL THEN
+      RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+    END IF;
+
+    IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+      RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF now() >= public.order_change_deadline(_zone.id, _delivery_date, _window.start_time) THEN
+      RAISE EXCEPTION 'that slot is too soon for the kitchen to take this order' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Usage limits were settled when the order was placed; only the minimum spend is checked again
+  IF _order.promotion_id IS NOT NULL THEN
+    SELECT * INTO _promotion FROM public.promotions WHERE id = _order.promotion_id;
+
+    IF FOUND AND _subtotal < _promotion.min_spend THEN
+      RAISE EXCEPTION 'promo code % needs a minimum spend of RM %', _promotion.code, _promotion.min_spend
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+
+  _formatted_address := public.format_address(_address);
+
+  IF jsonb_array_length(_item_changes) > 0 THEN
+    _details := _details || jsonb_build_object('items', _item_changes);
+  END IF;
+
+  IF _address.id IS DISTINCT FROM _order.address_id OR _formatted_address IS DISTINCT FROM _order.delivery_address THEN
+    _details := _details || jsonb_build_object(
+      'address', jsonb_build_object('from', _order.delivery_address, 'to', _formatted_address)
+    );
+  END IF;
+
+  IF _slot_changed THEN
+    _details := _details || jsonb_build_object(
+      'slot', jsonb_build_object(
+        'from', jsonb_build_object(
+          'date', _order.delivery_date,
+          'start', _order.delivery_window_start,
+          'end', _order.delivery_window_end
+        ),
+        'to', jsonb_build_object(
+          'date', _delivery_date,
+          'start', _window.start_time,
+          'end', _window.end_time
+        )
+      )
+    );
+  END IF;
+
+  IF _details = '{}' THEN
+    RAISE EXCEPTION 'nothing to change' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.orders
+  SET
+    subtotal = _pricing.subtotal,
+    discount_amount = _pricing.discount_amount,
+    service_charge = _pricing.service_charge,
+    delivery_fee = _pricing.delivery_fee,
+    delivery_distance_km = _pricing.delivery_distance_km,
+    sst_rate = _pricing.sst_rate,
+    sst_amount = _pricing.sst_amount,
+    total_price = _pricing.total_price,
+    delivery_zone_id = _zone.id,
+    delivery_address = _formatted_address,
+    address_id = _address.id,
+    delivery_address_snapshot = to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    delivery_date = _delivery_date,
+    delivery_window_id = _window.id,
+    delivery_window_start = _window.start_time,
+    delivery_window_end = _window.end_time,
+    updated_at = now()
+  WHERE id = _order.id;
+
+  IF _promotion.id IS NOT NULL THEN
+    UPDATE public.promotion_redemptions
+    SET discount_amount = _pricing.discount_amount
+    WHERE order_id = _order.id;
+  END IF;
+
+  RETURN public.record_order_change(_order, 'modified', _details, NULL, _pricing.total_price);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID) TO authenticated;
+
+-- Cancels a customer's order before the cut-off, freeing its slot and promo use
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _closed_reason TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _closed_reason := public.order_change_closed_reason(_order);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'order can no longer be cancelled: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = _order.id;
+
+  RETURN public.record_order_change(_order, 'cancelled', '{}', _reason, 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cancel_order(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT) TO authenticated;
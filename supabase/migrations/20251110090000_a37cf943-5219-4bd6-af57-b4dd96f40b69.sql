@@ -0,0 +1,160 @@
+-- Order-level instructions for the rider ("leave at guardhouse") and
+-- item-level notes for the kitchen ("no chilli")
+ALTER TABLE public.orders
+  ADD COLUMN delivery_instructions TEXT CHECK (char_length(delivery_instructions) <= 300);
+
+ALTER TABLE public.order_items
+  ADD COLUMN note TEXT CHECK (char_length(note) <= 200);
+
+-- place_order takes delivery instructions, and a note on each cart line
+DROP FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID,
+  _promo_code TEXT DEFAULT NULL,
+  _delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _closed_reason TEXT;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+  _instructions TEXT := NULLIF(btrim(_delivery_instructions), '');
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF char_length(_instructions) > 300 THEN
+    RAISE EXCEPTION 'delivery instructions must be 300 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) AS item
+    WHERE char_length(btrim(item->>'note')) > 200
+  ) THEN
+    RAISE EXCEPTION 'notes for the kitchen must be 200 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+    RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, _user_id, _subtotal, true);
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, promotion_id, promo_code, delivery_zone_id,
+    delivery_address, address_id, delivery_address_snapshot, delivery_date, delivery_window_id,
+    delivery_window_start, delivery_window_end, delivery_instructions, status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _promotion.id,
+    _promotion.code,
+    _zone.id,
+    public.format_address(_address),
+    _address.id,
+    to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    _delivery_date,
+    _window.id,
+    _window.start_time,
+    _window.end_time,
+    _instructions,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase, note)
+  SELECT _order.id, c.meal_id, c.quantity, m.price, c.note
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity,
+      MAX(NULLIF(btrim(item->>'note'), '')) AS note
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  ) c
+  JOIN public.meals m ON m.id = c.meal_id;
+
+  IF _promotion.id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (_promotion.id, _order.id, _user_id, _pricing.discount_amount);
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,850 @@
+-- Self-collect orders. Customers pick up at an admin-defined pickup point
+-- (the kitchen, a partner gym, an office) on a day it is open, instead of
+-- having the order delivered. Each point takes a limited number of orders a
+-- day, and the booking cut-offs work like a delivery zone's (Malaysia time).
+CREATE TABLE public.pickup_points (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  address TEXT NOT NULL CHECK (char_length(btrim(address)) BETWEEN 1 AND 300),
+  instructions TEXT CHECK (char_length(instructions) <= 300),
+  -- ISO weekdays, 1 = Monday ... 7 = Sunday
+  open_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}'
+    CHECK (cardinality(open_days) > 0 AND open_days <@ '{1,2,3,4,5,6,7}'::SMALLINT[]),
+  opens_at TIME NOT NULL DEFAULT '11:00',
+  closes_at TIME NOT NULL DEFAULT '19:00',
+  daily_capacity INTEGER NOT NULL CHECK (daily_capacity > 0),
+  next_day_cutoff TIME NOT NULL DEFAULT '20:00',
+  same_day_cutoff TIME,
+  booking_horizon_days INTEGER NOT NULL DEFAULT 14 CHECK (booking_horizon_days BETWEEN 1 AND 60),
+  change_cutoff_hours INTEGER NOT NULL DEFAULT 12 CHECK (change_cutoff_hours BETWEEN 0 AND 168),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (closes_at > opens_at)
+);
+
+ALTER TABLE public.pickup_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active pickup points"
+  ON public.pickup_points FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage pickup points"
+  ON public.pickup_points FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Pickup orders reuse delivery_date for the pickup day and snapshot the
+-- point's opening hours into delivery_window_start/end. delivery_address
+-- holds the point's name and address, so receipts and e-invoices still work.
+ALTER TABLE public.orders
+  ADD COLUMN fulfilment_method TEXT NOT NULL DEFAULT 'delivery'
+    CHECK (fulfilment_method IN ('delivery', 'pickup')),
+  ADD COLUMN pickup_point_id UUID REFERENCES public.pickup_points(id) ON DELETE SET NULL,
+  ADD COLUMN pickup_code TEXT CHECK (pickup_code ~ '^[0-9]{6}$'),
+  ADD COLUMN picked_up_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN picked_up_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD CONSTRAINT orders_pickup_code_check
+    CHECK (fulfilment_method = 'delivery' OR pickup_code IS NOT NULL);
+
+CREATE INDEX orders_pickup_day_idx ON public.orders (pickup_point_id, delivery_date);
+
+-- Pickup orders wait at the counter instead of going out with a rider
+ALTER TABLE public.orders DROP CONSTRAINT orders_status_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_status_check
+  CHECK (status IN (
+    'pending', 'confirmed', 'preparing', 'out_for_delivery', 'ready_for_pickup', 'delivered', 'cancelled', 'failed'
+  ));
+
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _from
+    WHEN 'pending' THEN _to IN ('confirmed', 'cancelled', 'failed')
+    WHEN 'confirmed' THEN _to IN ('preparing', 'cancelled')
+    WHEN 'preparing' THEN _to IN ('out_for_delivery', 'ready_for_pickup', 'cancelled')
+    WHEN 'out_for_delivery' THEN _to IN ('delivered', 'failed')
+    WHEN 'ready_for_pickup' THEN _to IN ('delivered', 'failed')
+    ELSE false
+  END
+$$;
+
+-- Deliveries go out with a rider; pickups are only handed over against their code
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'cannot change order status from % to %', OLD.status, NEW.status USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.fulfilment_method = 'pickup' THEN
+    IF NEW.status = 'out_for_delivery' THEN
+      RAISE EXCEPTION 'pickup orders are not delivered; mark it ready for pickup' USING ERRCODE = '22023';
+    END IF;
+    IF NEW.status = 'delivered' AND NEW.picked_up_at IS NULL THEN
+      RAISE EXCEPTION 'check the pickup code to hand over this order' USING ERRCODE = '22023';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'ready_for_pickup' THEN
+    RAISE EXCEPTION 'only pickup orders can be ready for pickup' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Customers can cancel before the cut-off, but never touch fulfilment or handover fields
+CREATE OR REPLACE FUNCTION public.protect_order_status_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_order_manager() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.fulfilment_method IS DISTINCT FROM OLD.fulfilment_method
+    OR NEW.pickup_point_id IS DISTINCT FROM OLD.pickup_point_id
+    OR NEW.pickup_code IS DISTINCT FROM OLD.pickup_code
+    OR NEW.picked_up_at IS DISTINCT FROM OLD.picked_up_at
+    OR NEW.picked_up_by IS DISTINCT FROM OLD.picked_up_by THEN
+    RAISE EXCEPTION 'only admins can change how an order is fulfilled' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status = 'cancelled'
+    AND OLD.user_id = auth.uid()
+    AND public.order_change_closed_reason(OLD) IS NULL
+    AND NEW.payment_status IS NOT DISTINCT FROM OLD.payment_status
+    AND NEW.user_id IS NOT DISTINCT FROM OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'only admins can change order status' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Why a pickup point can't take orders for a date, or NULL when it can
+CREATE OR REPLACE FUNCTION public.pickup_closed_reason(_point public.pickup_points, _date DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMP := now() AT TIME ZONE 'Asia/Kuala_Lumpur';
+  _today DATE := (now() AT TIME ZONE 'Asia/Kuala_Lumpur')::DATE;
+BEGIN
+  IF NOT _point.is_active THEN
+    RETURN 'unavailable';
+  END IF;
+
+  IF _date < _today THEN
+    RETURN 'date has passed';
+  END IF;
+
+  IF _date > _today + _point.booking_horizon_days THEN
+    RETURN 'too far ahead';
+  END IF;
+
+  IF NOT EXTRACT(ISODOW FROM _date)::SMALLINT = ANY (_point.open_days) THEN
+    RETURN 'closed';
+  END IF;
+
+  IF _date = _today THEN
+    IF _point.same_day_cutoff IS NULL THEN
+      RETURN 'no same-day pickup';
+    END IF;
+    IF _now::TIME >= _point.same_day_cutoff OR _now::TIME >= _point.closes_at THEN
+      RETURN 'cut-off passed';
+    END IF;
+  ELSIF _date = _today + 1 AND _now::TIME >= _point.next_day_cutoff THEN
+    RETURN 'cut-off passed';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_pickup_bookings(_pickup_point_id UUID, _date DATE)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.orders
+  WHERE pickup_point_id = _pickup_point_id
+  AND delivery_date = _date
+  AND status NOT IN ('cancelled', 'failed')
+$$;
+
+-- Every day in a pickup point's booking horizon with its remaining capacity
+CREATE OR REPLACE FUNCTION public.get_pickup_days(_pickup_point_id UUID)
+RETURNS TABLE (
+  pickup_date DATE,
+  opens_at TIME,
+  closes_at TIME,
+  capacity INTEGER,
+  booked INTEGER,
+  available BOOLEAN,
+  reason TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.day::DATE,
+    p.opens_at,
+    p.closes_at,
+    p.daily_capacity,
+    b.booked,
+    s.reason IS NULL AND b.booked < p.daily_capacity,
+    COALESCE(s.reason, CASE WHEN b.booked >= p.daily_capacity THEN 'full' END)
+  FROM public.pickup_points p
+  CROSS JOIN LATERAL generate_series(
+    (now() AT TIME ZONE 'Asia/Kuala_Lumpur')::DATE,
+    (now() AT TIME ZONE 'Asia/Kuala_Lumpur')::DATE + p.booking_horizon_days,
+    INTERVAL '1 day'
+  ) AS d(day)
+  CROSS JOIN LATERAL (SELECT public.count_pickup_bookings(p.id, d.day::DATE) AS booked) b
+  CROSS JOIN LATERAL (SELECT public.pickup_closed_reason(p, d.day::DATE) AS reason) s
+  WHERE p.id = _pickup_point_id AND p.is_active
+  ORDER BY 1
+$$;
+
+-- Changes close change_cutoff_hours before the delivery window starts, or
+-- before the pickup point opens on the pickup day
+CREATE OR REPLACE FUNCTION public.order_change_closed_reason(_order public.orders)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF _order.status NOT IN ('pending', 'confirmed') THEN
+    RETURN 'order is ' || replace(_order.status, '_', ' ');
+  END IF;
+
+  IF _order.delivery_date IS NULL OR _order.delivery_window_start IS NULL THEN
+    RETURN 'order has no delivery slot';
+  END IF;
+
+  IF _order.fulfilment_method = 'pickup' THEN
+    SELECT ((_order.delivery_date + _order.delivery_window_start) AT TIME ZONE 'Asia/Kuala_Lumpur')
+      - make_interval(hours => p.change_cutoff_hours)
+    INTO _deadline
+    FROM public.pickup_points p
+    WHERE p.id = _order.pickup_point_id;
+  ELSE
+    _deadline := public.order_change_deadline(
+      _order.delivery_zone_id,
+      _order.delivery_date,
+      _order.delivery_window_start
+    );
+  END IF;
+
+  IF _deadline IS NULL OR now() >= _deadline THEN
+    RETURN 'cut-off passed';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Six digits the customer shows at the counter; unique per point and day
+CREATE OR REPLACE FUNCTION public.generate_pickup_code(_pickup_point_id UUID, _date DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code TEXT;
+BEGIN
+  LOOP
+    _code := lpad((floor(random() * 1000000))::INTEGER::TEXT, 6, '0');
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE pickup_point_id = _pickup_point_id AND delivery_date = _date AND pickup_code = _code
+    );
+  END LOOP;
+
+  RETURN _code;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_pickup_code(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Price breakdown for a cart collected from a pickup point: no delivery fee
+-- and no address needed
+CREATE OR REPLACE FUNCTION public.quote_pickup_order(_items JSONB, _pickup_point_id UUID, _promo_code TEXT DEFAULT NULL)
+RETURNS TABLE (
+  subtotal DECIMAL,
+  discount_amount DECIMAL,
+  service_charge DECIMAL,
+  delivery_fee DECIMAL,
+  delivery_distance_km DECIMAL,
+  sst_rate DECIMAL,
+  sst_amount DECIMAL,
+  total_price DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.pickup_points WHERE id = _pickup_point_id AND is_active) THEN
+    RAISE EXCEPTION 'choose a pickup point' USING ERRCODE = '22023';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, auth.uid(), _subtotal);
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.calculate_order_pricing(
+    _subtotal,
+    0,
+    NULL,
+    NULL,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    true
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.quote_pickup_order(JSONB, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_pickup_order(JSONB, UUID, TEXT) TO authenticated;
+
+-- Places a self-collect order for a day the pickup point is open
+CREATE OR REPLACE FUNCTION public.place_pickup_order(
+  _items JSONB,
+  _pickup_point_id UUID,
+  _pickup_date DATE,
+  _promo_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _point public.pickup_points;
+  _closed_reason TEXT;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the point so concurrent checkouts can't overbook the day
+  SELECT * INTO _point
+  FROM public.pickup_points
+  WHERE id = _pickup_point_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _pickup_date IS NULL THEN
+    RAISE EXCEPTION 'choose a pickup point and day' USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.pickup_closed_reason(_point, _pickup_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'pickup day unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_pickup_bookings(_point.id, _pickup_date) >= _point.daily_capacity THEN
+    RAISE EXCEPTION '% is fully booked that day', _point.name USING ERRCODE = 'P0001';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) AS item
+    WHERE char_length(btrim(item->>'note')) > 200
+  ) THEN
+    RAISE EXCEPTION 'notes for the kitchen must be 200 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, _user_id, _subtotal, true);
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    0,
+    NULL,
+    NULL,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    true
+  );
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, promotion_id, promo_code, fulfilment_method, pickup_point_id,
+    pickup_code, delivery_address, delivery_date, delivery_window_start, delivery_window_end,
+    status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _promotion.id,
+    _promotion.code,
+    'pickup',
+    _point.id,
+    public.generate_pickup_code(_point.id, _pickup_date),
+    _point.name || ', ' || _point.address,
+    _pickup_date,
+    _point.opens_at,
+    _point.closes_at,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase, note)
+  SELECT _order.id, c.meal_id, c.quantity, m.price, c.note
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity,
+      MAX(NULLIF(btrim(item->>'note'), '')) AS note
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1
+  ) c
+  JOIN public.meals m ON m.id = c.meal_id;
+
+  IF _promotion.id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (_promotion.id, _order.id, _user_id, _pricing.discount_amount);
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_pickup_order(JSONB, UUID, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_pickup_order(JSONB, UUID, DATE, TEXT) TO authenticated;
+
+-- Staff hand over a paid pickup order once the customer's code matches
+CREATE OR REPLACE FUNCTION public.confirm_pickup(_order_id UUID, _code TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'only staff can hand over pickup orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND fulfilment_method = 'pickup'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'pickup order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _order.status <> 'ready_for_pickup' THEN
+    RAISE EXCEPTION 'order is %, not ready for pickup', replace(_order.status, '_', ' ') USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'order has not been paid' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF regexp_replace(COALESCE(_code, ''), '\s', '', 'g') <> _order.pickup_code THEN
+    RAISE EXCEPTION 'pickup code does not match' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'delivered', picked_up_at = now(), picked_up_by = auth.uid(), updated_at = now()
+  WHERE id = _order.id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.confirm_pickup(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_pickup(UUID, TEXT) TO authenticated;
+
+-- Pickup orders can only be cancelled online: switching point or method
+-- isn't supported by modify_order yet
+CREATE OR REPLACE FUNCTION public.modify_order(
+  _order_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID
+)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _closed_reason TEXT;
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _line RECORD;
+  _item public.order_items;
+  _wanted INTEGER;
+  _remove INTEGER;
+  _price DECIMAL(10,2);
+  _subtotal DECIMAL(10,2);
+  _formatted_address TEXT;
+  _slot_changed BOOLEAN;
+  _item_changes JSONB := '[]';
+  _details JSONB := '{}';
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _closed_reason := public.order_change_closed_reason(_order);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'order can no longer be changed: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _order.einvoice_id IS NOT NULL THEN
+    RAISE EXCEPTION 'this order already has an e-invoice; contact us to change it' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _order.fulfilment_method = 'pickup' THEN
+    RAISE EXCEPTION 'pickup orders can be cancelled but not changed; cancel and order again' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'an order needs at least one meal; cancel it instead' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      COALESCE(requested.meal_id, current.meal_id) AS meal_id,
+      requested.meal_id IS NOT NULL AS is_requested,
+      requested.quantity AS requested_quantity,
+      COALESCE(current.quantity, 0) AS current_quantity
+    FROM (
+      SELECT
+        (item->>'meal_id')::UUID AS meal_id,
+        SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(_items) AS item
+      GROUP BY 1
+    ) requested
+    FULL JOIN (
+      SELECT meal_id, SUM(quantity)::INTEGER AS quantity
+      FROM public.order_items
+      WHERE order_id = _order.id
+      GROUP BY 1
+    ) current ON current.meal_id = requested.meal_id
+  LOOP
+    IF _line.meal_id IS NULL
+      OR (_line.is_requested AND (_line.requested_quantity IS NULL OR _line.requested_quantity < 1)) THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    _wanted := CASE WHEN _line.is_requested THEN _line.requested_quantity ELSE 0 END;
+
+    IF _wanted > _line.current_quantity THEN
+      SELECT price INTO _price
+      FROM public.meals
+      WHERE id = _line.meal_id AND is_available = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+      END IF;
+
+      UPDATE public.order_items
+      SET quantity = quantity + (_wanted - _line.current_quantity)
+      WHERE id = (
+        SELECT id FROM public.order_items
+        WHERE order_id = _order.id AND meal_id = _line.meal_id AND price_at_purchase = _price
+        LIMIT 1
+      );
+
+      IF NOT FOUND THEN
+        INSERT INTO public.order_items (order_id, meal_id, quantity, price_at_purchase)
+        VALUES (_order.id, _line.meal_id, _wanted - _line.current_quantity, _price);
+      END IF;
+    ELSIF _wanted < _line.current_quantity THEN
+      _remove := _line.current_quantity - _wanted;
+
+      -- Take portions off the most recently added lines first
+      FOR _item IN
+        SELECT * FROM public.order_items
+        WHERE order_id = _order.id AND meal_id = _line.meal_id
+        ORDER BY created_at DESC, id
+        FOR UPDATE
+      LOOP
+        EXIT WHEN _remove = 0;
+
+        IF _item.quantity <= _remove THEN
+          DELETE FROM public.order_items WHERE id = _item.id;
+          _remove := _remove - _item.quantity;
+        ELSE
+          UPDATE public.order_items SET quantity = quantity - _remove WHERE id = _item.id;
+          _remove := 0;
+        END IF;
+      END LOOP;
+    END IF;
+
+    IF _wanted <> _line.current_quantity THEN
+      _item_changes := _item_changes || jsonb_build_object(
+        'meal_id', _line.meal_id,
+        'name', (SELECT name FROM public.meals WHERE id = _line.meal_id),
+        'from', _line.current_quantity,
+        'to', _wanted
+      );
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO _subtotal
+  FROM public.order_items
+  WHERE order_id = _order.id;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _slot_changed := _delivery_date IS DISTINCT FROM _order.delivery_date
+    OR _window.id IS DISTINCT FROM _order.delivery_window_id;
+
+  -- Keeping the same slot needs no checks; the order already holds its place in it
+  IF _slot_changed THEN
+    _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+    IF _closed_reason IS NOT NULL THEN
+      RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+    END IF;
+
+    IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+      RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF now() >= public.order_change_deadline(_zone.id, _delivery_date, _window.start_time) THEN
+      RAISE EXCEPTION 'that slot is too soon for the kitchen to take this order' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Usage limits were settled when the order was placed; only the minimum spend is checked again
+  IF _order.promotion_id IS NOT NULL THEN
+    SELECT * INTO _promotion FROM public.promotions WHERE id = _order.promotion_id;
+
+    IF FOUND AND _subtotal < _promotion.min_spend THEN
+      RAISE EXCEPTION 'promo code % needs a minimum spend of RM %', _promotion.code, _promotion.min_spend
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+
+  _formatted_address := public.format_address(_address);
+
+  IF jsonb_array_length(_item_changes) > 0 THEN
+    _details := _details || jsonb_build_object('items', _item_changes);
+  END IF;
+
+  IF _address.id IS DISTINCT FROM _order.address_id OR _formatted_address IS DISTINCT FROM _order.delivery_address THEN
+    _details := _details || jsonb_build_object(
+      'address', jsonb_build_object('from', _order.delivery_address, 'to', _formatted_address)
+    );
+  END IF;
+
+  IF _slot_changed THEN
+    _details := _details || jsonb_build_object(
+      'slot', jsonb_build_object(
+        'from', jsonb_build_object(
+          'date', _order.delivery_date,
+          'start', _order.delivery_window_start,
+          'end', _order.delivery_window_end
+        ),
+        'to', jsonb_build_object(
+          'date', _delivery_date,
+          'start', _window.start_time,
+          'end', _window.end_time
+        )
+      )
+    );
+  END IF;
+
+  IF _details = '{}' THEN
+    RAISE EXCEPTION 'nothing to change' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.orders
+  SET
+    subtotal = _pricing.subtotal,
+    discount_amount = _pricing.discount_amount,
+    service_charge = _pricing.service_charge,
+    delivery_fee = _pricing.delivery_fee,
+    delivery_distance_km = _pricing.delivery_distance_km,
+    sst_rate = _pricing.sst_rate,
+    sst_amount = _pricing.sst_amount,
+    total_price = _pricing.total_price,
+    delivery_zone_id = _zone.id,
+    delivery_address = _formatted_address,
+    address_id = _address.id,
+    delivery_address_snapshot = to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    delivery_date = _delivery_date,
+    delivery_window_id = _window.id,
+    delivery_window_start = _window.start_time,
+    delivery_window_end = _window.end_time,
+    updated_at = now()
+  WHERE id = _order.id;
+
+  IF _promotion.id IS NOT NULL THEN
+    UPDATE public.promotion_redemptions
+    SET discount_amount = _pricing.discount_amount
+    WHERE order_id = _order.id;
+  END IF;
+
+  RETURN public.record_order_change(_order, 'modified', _details, NULL, _pricing.total_price);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID) TO authenticated;
+
+-- Guests need their pickup code on the tracking page
+CREATE OR REPLACE FUNCTION public.track_order(_token TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'payment_status', o.payment_status,
+    'created_at', o.created_at,
+    'fulfilment_method', o.fulfilment_method,
+    'pickup_code', o.pickup_code,
+    'delivery_address', o.delivery_address,
+    'delivery_date', o.delivery_date,
+    'delivery_window_start', o.delivery_window_start,
+    'delivery_window_end', o.delivery_window_end,
+    'subtotal', o.subtotal,
+    'discount_amount', o.discount_amount,
+    'service_charge', o.service_charge,
+    'delivery_fee', o.delivery_fee,
+    'delivery_distance_km', o.delivery_distance_km,
+    'sst_rate', o.sst_rate,
+    'sst_amount', o.sst_amount,
+    'total_price', o.total_price,
+    'promo_code', o.promo_code,
+    'items', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'name', m.name,
+        'quantity', oi.quantity,
+        'price_at_purchase', oi.price_at_purchase
+      ) ORDER BY m.name), '[]'::jsonb)
+      FROM public.order_items oi
+      LEFT JOIN public.meals m ON m.id = oi.meal_id
+      WHERE oi.order_id = o.id
+    ),
+    'history', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'to_status', h.to_status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at), '[]'::jsonb)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    )
+  )
+  FROM public.orders o
+  WHERE o.tracking_token = _token
+    AND length(_token) >= 32;
+$$;
+
+REVOKE ALL ON FUNCTION public.track_order(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.track_order(TEXT) TO anon, authenticated;
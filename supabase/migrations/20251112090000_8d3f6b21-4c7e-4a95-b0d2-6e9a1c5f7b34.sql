@@ -0,0 +1,60 @@
+-- Menu tags ("high-protein", "bowl", "seafood") for filtering the catalog
+ALTER TABLE public.meals
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX meals_tags_idx ON public.meals USING GIN (tags);
+
+UPDATE public.meals SET tags = '{high-protein,bowl,low-fat}' WHERE name = 'grilled chicken bowl';
+UPDATE public.meals SET tags = '{high-protein,seafood,rice}' WHERE name = 'salmon teriyaki';
+UPDATE public.meals SET tags = '{rice,low-fat}' WHERE name = 'tofu stir fry';
+UPDATE public.meals SET tags = '{high-protein,bowl}' WHERE name = 'beef protein bowl';
+UPDATE public.meals SET tags = '{salad}' WHERE name = 'mediterranean salad';
+UPDATE public.meals SET tags = '{wrap}' WHERE name = 'turkey wrap';
+
+-- Value ratios the catalog sorts by, kept on the row so PostgREST can order on them
+ALTER TABLE public.meals
+  ADD COLUMN protein_per_ringgit DECIMAL(10,2)
+    GENERATED ALWAYS AS (ROUND(protein / NULLIF(price, 0), 2)) STORED,
+  ADD COLUMN protein_per_100kcal DECIMAL(10,2)
+    GENERATED ALWAYS AS (ROUND(protein * 100.0 / NULLIF(calories, 0), 2)) STORED;
+
+-- Full-text search over name (weighted higher) and description
+ALTER TABLE public.meals
+  ADD COLUMN search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('english'::REGCONFIG, COALESCE(name, '')), 'A')
+      || setweight(to_tsvector('english'::REGCONFIG, COALESCE(description, '')), 'B')
+    ) STORED;
+
+CREATE INDEX meals_search_vector_idx ON public.meals USING GIN (search_vector);
+
+-- "grill chick" -> 'grill':* & 'chick':*, so results narrow while the customer types
+CREATE OR REPLACE FUNCTION public.meal_search_query(_query TEXT)
+RETURNS TSQUERY
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('english'::REGCONFIG, string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(COALESCE(_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> ''
+$$;
+
+-- Meals matching a text search, best matches first. Runs as the caller, so
+-- RLS still hides unavailable meals; filters and other sorts are applied on
+-- top through PostgREST.
+CREATE OR REPLACE FUNCTION public.search_meals(_query TEXT DEFAULT NULL)
+RETURNS SETOF public.meals
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.*
+  FROM public.meals m
+  LEFT JOIN LATERAL (SELECT public.meal_search_query(_query) AS q) s ON true
+  WHERE s.q IS NULL OR m.search_vector @@ s.q
+  ORDER BY CASE WHEN s.q IS NULL THEN 0 ELSE ts_rank(m.search_vector, s.q) END DESC, m.name
+$$;
+
+REVOKE ALL ON FUNCTION public.search_meals(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_meals(TEXT) TO anon, authenticated;
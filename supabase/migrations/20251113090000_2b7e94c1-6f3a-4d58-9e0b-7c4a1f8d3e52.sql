@@ -0,0 +1,50 @@
+-- Dietary tags and allergens per meal. Both are fixed lists so the menu,
+-- customer profiles and conflict checks all speak the same vocabulary.
+-- "halal" means halal-certified, and vegan meals are also tagged vegetarian
+-- and dairy_free. The starter meals aren't tagged halal; it's only added
+-- once a meal's certification is confirmed.
+ALTER TABLE public.meals
+  ADD COLUMN dietary_tags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_tags <@ ARRAY['halal', 'vegetarian', 'vegan', 'gluten_free', 'dairy_free']),
+  ADD COLUMN allergens TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (allergens <@ ARRAY['peanuts', 'tree_nuts', 'milk', 'egg', 'fish', 'shellfish', 'soy', 'wheat', 'sesame']);
+
+UPDATE public.meals SET dietary_tags = '{gluten_free,dairy_free}', allergens = '{}'
+  WHERE name = 'grilled chicken bowl';
+UPDATE public.meals SET dietary_tags = '{dairy_free}', allergens = '{fish,soy,wheat,sesame}'
+  WHERE name = 'salmon teriyaki';
+UPDATE public.meals SET dietary_tags = '{vegetarian,vegan,dairy_free}', allergens = '{soy,wheat,sesame}'
+  WHERE name = 'tofu stir fry';
+UPDATE public.meals SET dietary_tags = '{gluten_free,dairy_free}', allergens = '{}'
+  WHERE name = 'beef protein bowl';
+UPDATE public.meals SET dietary_tags = '{vegetarian}', allergens = '{milk,wheat}'
+  WHERE name = 'mediterranean salad';
+UPDATE public.meals SET dietary_tags = '{}', allergens = '{wheat,egg,milk}'
+  WHERE name = 'turkey wrap';
+
+-- What each customer must have (diets) and must avoid (allergens)
+CREATE TABLE public.dietary_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  diets TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (diets <@ ARRAY['halal', 'vegetarian', 'vegan', 'gluten_free', 'dairy_free']),
+  allergens TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (allergens <@ ARRAY['peanuts', 'tree_nuts', 'milk', 'egg', 'fish', 'shellfish', 'soy', 'wheat', 'sesame']),
+  -- Hide conflicting meals from the menu instead of just flagging them
+  hide_unsafe BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.dietary_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dietary profile"
+  ON public.dietary_profiles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own dietary profile"
+  ON public.dietary_profiles FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own dietary profile"
+  ON public.dietary_profiles FOR UPDATE
+  USING (auth.uid() = user_id);
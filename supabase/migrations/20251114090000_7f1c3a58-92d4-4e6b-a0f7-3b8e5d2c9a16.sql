@@ -0,0 +1,47 @@
+-- Details for the meal page. image_url stays the card image; image_urls adds
+-- extra gallery shots after it.
+ALTER TABLE public.meals
+  ADD COLUMN image_urls TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN ingredients TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN preparation_instructions TEXT,
+  ADD COLUMN reheating_instructions TEXT,
+  ADD COLUMN fibre DECIMAL(10,2) CHECK (fibre >= 0),
+  ADD COLUMN sugar DECIMAL(10,2) CHECK (sugar >= 0),
+  ADD COLUMN sodium INTEGER CHECK (sodium >= 0);
+
+UPDATE public.meals SET
+  ingredients = '{chicken breast,quinoa,broccoli,capsicum,carrot,olive oil,garlic,black pepper,salt}',
+  preparation_instructions = 'keep refrigerated at 0-4°C and eat within 3 days of delivery.',
+  reheating_instructions = 'pierce the film and microwave on high for 2-3 minutes, stirring halfway, until piping hot.',
+  fibre = 6, sugar = 5, sodium = 480
+  WHERE name = 'grilled chicken bowl';
+UPDATE public.meals SET
+  ingredients = '{salmon fillet,brown rice,broccoli,soy sauce (soy; wheat),mirin,ginger,sesame seeds}',
+  preparation_instructions = 'keep refrigerated at 0-4°C and eat within 2 days of delivery.',
+  reheating_instructions = 'microwave on medium for 2-3 minutes until hot through. do not reheat more than once.',
+  fibre = 4, sugar = 9, sodium = 760
+  WHERE name = 'salmon teriyaki';
+UPDATE public.meals SET
+  ingredients = '{firm tofu (soy),jasmine rice,bok choy,carrot,mushroom,soy sauce (soy; wheat),sesame oil,garlic}',
+  preparation_instructions = 'keep refrigerated at 0-4°C and eat within 3 days of delivery.',
+  reheating_instructions = 'microwave on high for 2 minutes, or stir-fry in a hot pan for 3-4 minutes.',
+  fibre = 5, sugar = 6, sodium = 690
+  WHERE name = 'tofu stir fry';
+UPDATE public.meals SET
+  ingredients = '{grass-fed beef,sweet potato,spinach,kale,olive oil,rosemary,black pepper,salt}',
+  preparation_instructions = 'keep refrigerated at 0-4°C and eat within 3 days of delivery.',
+  reheating_instructions = 'microwave on high for 3 minutes, stirring halfway, until piping hot.',
+  fibre = 7, sugar = 8, sodium = 520
+  WHERE name = 'beef protein bowl';
+UPDATE public.meals SET
+  ingredients = '{chickpeas,feta (milk),kalamata olives,cucumber,tomato,red onion,whole grain pita (wheat),olive oil,lemon}',
+  preparation_instructions = 'keep refrigerated at 0-4°C and eat within 2 days of delivery. dress just before eating.',
+  reheating_instructions = 'serve cold. warm the pita in a toaster for 1 minute if you like.',
+  fibre = 9, sugar = 6, sodium = 640
+  WHERE name = 'mediterranean salad';
+UPDATE public.meals SET
+  ingredients = '{turkey breast,whole wheat tortilla (wheat),avocado,lettuce,tomato,mayonnaise (egg),cheddar (milk)}',
+  preparation_instructions = 'keep refrigerated at 0-4°C and eat within 2 days of delivery.',
+  reheating_instructions = 'best eaten cold. to warm, toast in a dry pan for 1-2 minutes each side.',
+  fibre = 5, sugar = 4, sodium = 710
+  WHERE name = 'turkey wrap';
@@ -0,0 +1,1055 @@
+-- Modifier groups per meal: portion size, protein swap, extras, removals.
+-- Every option carries a price delta and macro deltas on top of the meal.
+CREATE TABLE public.modifier_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meal_id UUID REFERENCES public.meals(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  -- NULL lets customers pick any number of options; leaving a group empty
+  -- always means the meal as it comes
+  max_selections INTEGER CHECK (max_selections > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX modifier_groups_meal_id_idx ON public.modifier_groups (meal_id);
+
+CREATE TABLE public.modifier_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID REFERENCES public.modifier_groups(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  price_delta DECIMAL(10,2) NOT NULL DEFAULT 0,
+  calories_delta INTEGER NOT NULL DEFAULT 0,
+  protein_delta INTEGER NOT NULL DEFAULT 0,
+  carbs_delta INTEGER NOT NULL DEFAULT 0,
+  fats_delta INTEGER NOT NULL DEFAULT 0,
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX modifier_options_group_id_idx ON public.modifier_options (group_id);
+
+ALTER TABLE public.modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.modifier_options ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the meal itself is
+CREATE POLICY "Anyone can view modifier groups of available meals"
+  ON public.modifier_groups FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.meals WHERE meals.id = modifier_groups.meal_id));
+
+CREATE POLICY "Admins can manage modifier groups"
+  ON public.modifier_groups FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view available modifier options"
+  ON public.modifier_options FOR SELECT
+  USING (
+    is_available = true
+    AND EXISTS (SELECT 1 FROM public.modifier_groups WHERE modifier_groups.id = modifier_options.group_id)
+  );
+
+CREATE POLICY "Admins can manage modifier options"
+  ON public.modifier_options FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Sample modifiers for the starter menu
+WITH groups AS (
+  INSERT INTO public.modifier_groups (meal_id, name, max_selections, sort_order)
+  SELECT m.id, g.name, g.max_selections, g.sort_order
+  FROM public.meals m
+  CROSS JOIN (VALUES
+    ('portion size', 1, 0),
+    ('extras', NULL::INTEGER, 2),
+    ('remove', NULL::INTEGER, 3)
+  ) AS g (name, max_selections, sort_order)
+  WHERE m.name IN ('grilled chicken bowl', 'salmon teriyaki', 'tofu stir fry', 'beef protein bowl')
+  RETURNING id, meal_id, name
+)
+INSERT INTO public.modifier_options (
+  group_id, name, price_delta, calories_delta, protein_delta, carbs_delta, fats_delta, sort_order
+)
+SELECT groups.id, o.name, o.price_delta, o.calories_delta, o.protein_delta, o.carbs_delta, o.fats_delta, o.sort_order
+FROM groups
+JOIN (VALUES
+  ('portion size', 'large portion', 6.00, 220, 18, 20, 6, 0),
+  ('extras', 'double protein', 8.00, 180, 30, 0, 6, 0),
+  ('extras', 'soft-boiled egg', 2.50, 70, 6, 0, 5, 1),
+  ('extras', 'avocado', 4.00, 120, 1, 6, 11, 2),
+  ('remove', 'no rice or grains', -2.00, -160, -4, -34, -1, 0),
+  ('remove', 'sauce on the side', 0, 0, 0, 0, 0, 1)
+) AS o (group_name, name, price_delta, calories_delta, protein_delta, carbs_delta, fats_delta, sort_order)
+  ON o.group_name = groups.name;
+
+-- Protein swaps where the meal has a clear protein to swap out
+INSERT INTO public.modifier_groups (meal_id, name, max_selections, sort_order)
+SELECT id, 'protein swap', 1, 1
+FROM public.meals
+WHERE name IN ('grilled chicken bowl', 'beef protein bowl');
+
+INSERT INTO public.modifier_options (
+  group_id, name, price_delta, calories_delta, protein_delta, carbs_delta, fats_delta, sort_order
+)
+SELECT g.id, o.name, o.price_delta, o.calories_delta, o.protein_delta, o.carbs_delta, o.fats_delta, o.sort_order
+FROM public.modifier_groups g
+JOIN public.meals m ON m.id = g.meal_id
+JOIN (VALUES
+  ('grilled chicken bowl', 'swap to salmon', 5.00, 90, -5, 0, 9, 0),
+  ('grilled chicken bowl', 'swap to tofu', -1.00, -40, -15, 4, 2, 1),
+  ('beef protein bowl', 'swap to chicken', -2.00, -70, 3, 0, -8, 0),
+  ('beef protein bowl', 'swap to tofu', -3.00, -110, -17, 4, -6, 1)
+) AS o (meal_name, name, price_delta, calories_delta, protein_delta, carbs_delta, fats_delta, sort_order)
+  ON o.meal_name = m.name
+WHERE g.name = 'protein swap';
+
+-- Option ids on a cart or order line are kept sorted and distinct, so the
+-- same choices always make the same line
+CREATE OR REPLACE FUNCTION public.normalize_option_ids(_option_ids UUID[])
+RETURNS UUID[]
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT id ORDER BY id), '{}')
+  FROM unnest(_option_ids) AS id
+  WHERE id IS NOT NULL
+$$;
+
+-- option_ids from a JSON cart line, which may leave them out
+CREATE OR REPLACE FUNCTION public.cart_item_option_ids(_item JSONB)
+RETURNS UUID[]
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT public.normalize_option_ids(ARRAY(
+    SELECT value::UUID
+    FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(_item->'option_ids') = 'array' THEN _item->'option_ids' ELSE '[]'::JSONB END
+    )
+  ))
+$$;
+
+-- Prices one meal with a set of its options. modifiers is the snapshot
+-- kept on order lines so the kitchen sees exactly what was chosen.
+-- problem is NULL when the options can be ordered together. Returns no
+-- row for unknown meals; availability of the meal itself is left to the
+-- caller.
+CREATE OR REPLACE FUNCTION public.price_meal_line(_meal_id UUID, _option_ids UUID[])
+RETURNS TABLE (
+  unit_price DECIMAL,
+  calories INTEGER,
+  protein INTEGER,
+  carbs INTEGER,
+  fats INTEGER,
+  modifiers JSONB,
+  problem TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.price + COALESCE(SUM(o.price_delta), 0),
+    (m.calories + COALESCE(SUM(o.calories_delta), 0))::INTEGER,
+    (m.protein + COALESCE(SUM(o.protein_delta), 0))::INTEGER,
+    (m.carbs + COALESCE(SUM(o.carbs_delta), 0))::INTEGER,
+    (m.fats + COALESCE(SUM(o.fats_delta), 0))::INTEGER,
+    COALESCE(
+      jsonb_agg(jsonb_build_object(
+        'option_id', o.id,
+        'group', g.name,
+        'name', o.name,
+        'price_delta', o.price_delta,
+        'calories_delta', o.calories_delta,
+        'protein_delta', o.protein_delta,
+        'carbs_delta', o.carbs_delta,
+        'fats_delta', o.fats_delta
+      ) ORDER BY g.sort_order, o.sort_order, o.name) FILTER (WHERE o.id IS NOT NULL),
+      '[]'::JSONB
+    ),
+    CASE
+      WHEN COUNT(o.id) <> cardinality(public.normalize_option_ids(_option_ids)) THEN
+        format('some options for %s are no longer offered', m.name)
+      WHEN bool_or(NOT o.is_available) THEN
+        format('some options for %s are sold out', m.name)
+      WHEN EXISTS (
+        SELECT 1
+        FROM public.modifier_options o2
+        JOIN public.modifier_groups g2 ON g2.id = o2.group_id
+        WHERE o2.id = ANY(_option_ids)
+        GROUP BY g2.id, g2.max_selections
+        HAVING COUNT(*) > g2.max_selections
+      ) THEN
+        format('too many options chosen in one group for %s', m.name)
+      WHEN m.price + COALESCE(SUM(o.price_delta), 0) < 0 THEN
+        format('these options are not valid together for %s', m.name)
+    END
+  FROM public.meals m
+  LEFT JOIN public.modifier_groups g ON g.meal_id = m.id
+  LEFT JOIN public.modifier_options o ON o.group_id = g.id AND o.id = ANY(public.normalize_option_ids(_option_ids))
+  WHERE m.id = _meal_id
+  GROUP BY m.id, m.name, m.price, m.calories, m.protein, m.carbs, m.fats
+$$;
+
+
+-- Cart lines are a meal plus the options chosen for it
+ALTER TABLE public.cart_items
+  ADD COLUMN option_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.cart_items
+  DROP CONSTRAINT cart_items_cart_id_meal_id_key,
+  ADD CONSTRAINT cart_items_cart_id_meal_id_option_ids_key UNIQUE (cart_id, meal_id, option_ids);
+
+-- Sets one line's quantity; zero or less removes the line. New lines take
+-- the current price of the meal with its options.
+DROP FUNCTION public.set_cart_item(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.set_cart_item(_meal_id UUID, _quantity INTEGER, _option_ids UUID[] DEFAULT '{}')
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.ensure_cart();
+  _options UUID[] := public.normalize_option_ids(_option_ids);
+  _line RECORD;
+BEGIN
+  IF _quantity < 1 THEN
+    DELETE FROM public.cart_items
+    WHERE cart_id = _cart_id AND meal_id = _meal_id AND option_ids = _options;
+    RETURN;
+  END IF;
+
+  SELECT * INTO _line FROM public.price_meal_line(_meal_id, _options);
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _line.problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', _line.problem USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.cart_items (cart_id, meal_id, option_ids, quantity, unit_price)
+  VALUES (_cart_id, _meal_id, _options, _quantity, _line.unit_price)
+  ON CONFLICT (cart_id, meal_id, option_ids)
+  DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+END;
+$$;
+
+-- Adds a JSON array of { meal_id, option_ids?, quantity, unit_price? } on
+-- top of the server cart. Lines whose options can't be ordered are dropped,
+-- like lines for meals that no longer exist.
+CREATE OR REPLACE FUNCTION public.merge_cart(_items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cart_id UUID := public.ensure_cart();
+BEGIN
+  INSERT INTO public.cart_items (cart_id, meal_id, option_ids, quantity, unit_price)
+  SELECT _cart_id, c.meal_id, c.option_ids, c.quantity, COALESCE(c.unit_price, p.unit_price)
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      public.cart_item_option_ids(item) AS option_ids,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity,
+      MIN((item->>'unit_price')::DECIMAL) AS unit_price
+    FROM jsonb_array_elements(COALESCE(_items, '[]'::JSONB)) AS item
+    WHERE (item->>'quantity')::INTEGER > 0
+    GROUP BY 1, 2
+  ) c
+  CROSS JOIN LATERAL public.price_meal_line(c.meal_id, c.option_ids) p
+  WHERE p.problem IS NULL
+  ON CONFLICT (cart_id, meal_id, option_ids)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity, updated_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_cart_item(UUID, INTEGER, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_cart_item(UUID, INTEGER, UUID[]) TO authenticated;
+
+-- Cart revalidation also checks each line's options. Lines whose options
+-- can no longer be ordered come back as unavailable.
+DROP FUNCTION public.validate_cart(JSONB);
+
+CREATE OR REPLACE FUNCTION public.validate_cart(_items JSONB)
+RETURNS TABLE (
+  meal_id UUID,
+  option_ids UUID[],
+  modifiers JSONB,
+  quantity INTEGER,
+  name TEXT,
+  price DECIMAL,
+  added_price DECIMAL,
+  calories INTEGER,
+  protein INTEGER,
+  carbs INTEGER,
+  fats INTEGER,
+  status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    line.meal_id,
+    line.option_ids,
+    COALESCE(p.modifiers, '[]'::JSONB),
+    line.quantity,
+    meals.name,
+    p.unit_price,
+    line.added_price,
+    p.calories,
+    p.protein,
+    p.carbs,
+    p.fats,
+    CASE
+      WHEN meals.id IS NULL THEN 'missing'
+      WHEN NOT meals.is_available OR p.problem IS NOT NULL THEN 'unavailable'
+      WHEN line.added_price IS NOT NULL AND line.added_price <> p.unit_price THEN 'price_changed'
+      ELSE 'ok'
+    END
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      public.cart_item_option_ids(item) AS option_ids,
+      (item->>'quantity')::INTEGER AS quantity,
+      (item->>'unit_price')::DECIMAL AS added_price
+    FROM jsonb_array_elements(COALESCE(_items, '[]'::JSONB)) AS item
+  ) AS line
+  LEFT JOIN public.meals ON meals.id = line.meal_id
+  LEFT JOIN LATERAL public.price_meal_line(line.meal_id, line.option_ids) p ON true
+  ORDER BY meals.name NULLS LAST, line.option_ids;
+$$;
+
+REVOKE ALL ON FUNCTION public.validate_cart(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.validate_cart(JSONB) TO anon, authenticated;
+
+-- Price of a cart at today's menu prices, options included; rejects bad
+-- lines, unavailable meals and options that can't be ordered
+CREATE OR REPLACE FUNCTION public.cart_subtotal(_items JSONB)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _line RECORD;
+  _priced RECORD;
+  _subtotal DECIMAL(10,2) := 0;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      public.cart_item_option_ids(item) AS option_ids,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1, 2
+  LOOP
+    IF _line.meal_id IS NULL OR _line.quantity IS NULL OR _line.quantity < 1 THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.meals WHERE id = _line.meal_id AND is_available = true) THEN
+      RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO _priced FROM public.price_meal_line(_line.meal_id, _line.option_ids);
+
+    IF _priced.problem IS NOT NULL THEN
+      RAISE EXCEPTION '%', _priced.problem USING ERRCODE = 'P0001';
+    END IF;
+
+    _subtotal := _subtotal + _priced.unit_price * _line.quantity;
+  END LOOP;
+
+  RETURN _subtotal;
+END;
+$$;
+
+-- Order lines record the options they were made with, plus a snapshot of
+-- their names and deltas that survives later menu edits
+ALTER TABLE public.order_items
+  ADD COLUMN option_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN modifiers JSONB NOT NULL DEFAULT '[]';
+
+-- Lines kept through an order change stay at the price they were bought
+-- at; new lines must match the menu price with their options, and always
+-- carry the server's own snapshot of those options
+CREATE OR REPLACE FUNCTION public.enforce_order_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _line RECORD;
+BEGIN
+  IF public.is_order_manager() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.meal_id = OLD.meal_id
+    AND NEW.option_ids = OLD.option_ids
+    AND NEW.modifiers = OLD.modifiers
+    AND NEW.price_at_purchase = OLD.price_at_purchase THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.option_ids := public.normalize_option_ids(NEW.option_ids);
+
+  SELECT * INTO _line
+  FROM public.price_meal_line(NEW.meal_id, NEW.option_ids);
+
+  IF NOT FOUND OR _line.problem IS NOT NULL OR NEW.price_at_purchase <> _line.unit_price THEN
+    RAISE EXCEPTION 'price for meal % does not match the menu price', NEW.meal_id
+      USING ERRCODE = '23514';
+  END IF;
+
+  NEW.modifiers := _line.modifiers;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Order lines are made from each cart line's meal and options
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID,
+  _promo_code TEXT DEFAULT NULL,
+  _delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _closed_reason TEXT;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+  _instructions TEXT := NULLIF(btrim(_delivery_instructions), '');
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF char_length(_instructions) > 300 THEN
+    RAISE EXCEPTION 'delivery instructions must be 300 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) AS item
+    WHERE char_length(btrim(item->>'note')) > 200
+  ) THEN
+    RAISE EXCEPTION 'notes for the kitchen must be 200 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+    RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, _user_id, _subtotal, true);
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, promotion_id, promo_code, delivery_zone_id,
+    delivery_address, address_id, delivery_address_snapshot, delivery_date, delivery_window_id,
+    delivery_window_start, delivery_window_end, delivery_instructions, status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _promotion.id,
+    _promotion.code,
+    _zone.id,
+    public.format_address(_address),
+    _address.id,
+    to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    _delivery_date,
+    _window.id,
+    _window.start_time,
+    _window.end_time,
+    _instructions,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, option_ids, modifiers, quantity, price_at_purchase, note)
+  SELECT _order.id, c.meal_id, c.option_ids, p.modifiers, c.quantity, p.unit_price, c.note
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      public.cart_item_option_ids(item) AS option_ids,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity,
+      MAX(NULLIF(btrim(item->>'note'), '')) AS note
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1, 2
+  ) c
+  CROSS JOIN LATERAL public.price_meal_line(c.meal_id, c.option_ids) p;
+
+  IF _promotion.id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (_promotion.id, _order.id, _user_id, _pricing.discount_amount);
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_pickup_order(
+  _items JSONB,
+  _pickup_point_id UUID,
+  _pickup_date DATE,
+  _promo_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _point public.pickup_points;
+  _closed_reason TEXT;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the point so concurrent checkouts can't overbook the day
+  SELECT * INTO _point
+  FROM public.pickup_points
+  WHERE id = _pickup_point_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _pickup_date IS NULL THEN
+    RAISE EXCEPTION 'choose a pickup point and day' USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.pickup_closed_reason(_point, _pickup_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'pickup day unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_pickup_bookings(_point.id, _pickup_date) >= _point.daily_capacity THEN
+    RAISE EXCEPTION '% is fully booked that day', _point.name USING ERRCODE = 'P0001';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) AS item
+    WHERE char_length(btrim(item->>'note')) > 200
+  ) THEN
+    RAISE EXCEPTION 'notes for the kitchen must be 200 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, _user_id, _subtotal, true);
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    0,
+    NULL,
+    NULL,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    true
+  );
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, promotion_id, promo_code, fulfilment_method, pickup_point_id,
+    pickup_code, delivery_address, delivery_date, delivery_window_start, delivery_window_end,
+    status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _promotion.id,
+    _promotion.code,
+    'pickup',
+    _point.id,
+    public.generate_pickup_code(_point.id, _pickup_date),
+    _point.name || ', ' || _point.address,
+    _pickup_date,
+    _point.opens_at,
+    _point.closes_at,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, option_ids, modifiers, quantity, price_at_purchase, note)
+  SELECT _order.id, c.meal_id, c.option_ids, p.modifiers, c.quantity, p.unit_price, c.note
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      public.cart_item_option_ids(item) AS option_ids,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity,
+      MAX(NULLIF(btrim(item->>'note'), '')) AS note
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1, 2
+  ) c
+  CROSS JOIN LATERAL public.price_meal_line(c.meal_id, c.option_ids) p;
+
+  IF _promotion.id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (_promotion.id, _order.id, _user_id, _pricing.discount_amount);
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_pickup_order(JSONB, UUID, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_pickup_order(JSONB, UUID, DATE, TEXT) TO authenticated;
+
+-- Order changes keep lines apart by their options, so adding a large
+-- portion doesn't merge into the regular one already on the order
+CREATE OR REPLACE FUNCTION public.modify_order(
+  _order_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID
+)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _closed_reason TEXT;
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _line RECORD;
+  _item public.order_items;
+  _wanted INTEGER;
+  _remove INTEGER;
+  _priced RECORD;
+  _subtotal DECIMAL(10,2);
+  _formatted_address TEXT;
+  _slot_changed BOOLEAN;
+  _item_changes JSONB := '[]';
+  _details JSONB := '{}';
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _closed_reason := public.order_change_closed_reason(_order);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'order can no longer be changed: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _order.einvoice_id IS NOT NULL THEN
+    RAISE EXCEPTION 'this order already has an e-invoice; contact us to change it' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _order.fulfilment_method = 'pickup' THEN
+    RAISE EXCEPTION 'pickup orders can be cancelled but not changed; cancel and order again' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'an order needs at least one meal; cancel it instead' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      COALESCE(requested.meal_id, current.meal_id) AS meal_id,
+      COALESCE(requested.option_ids, current.option_ids) AS option_ids,
+      requested.meal_id IS NOT NULL AS is_requested,
+      requested.quantity AS requested_quantity,
+      COALESCE(current.quantity, 0) AS current_quantity
+    FROM (
+      SELECT
+        (item->>'meal_id')::UUID AS meal_id,
+        public.cart_item_option_ids(item) AS option_ids,
+        SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(_items) AS item
+      GROUP BY 1, 2
+    ) requested
+    FULL JOIN (
+      SELECT meal_id, option_ids, SUM(quantity)::INTEGER AS quantity
+      FROM public.order_items
+      WHERE order_id = _order.id
+      GROUP BY 1, 2
+    ) current ON current.meal_id = requested.meal_id AND current.option_ids = requested.option_ids
+  LOOP
+    IF _line.meal_id IS NULL
+      OR (_line.is_requested AND (_line.requested_quantity IS NULL OR _line.requested_quantity < 1)) THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    _wanted := CASE WHEN _line.is_requested THEN _line.requested_quantity ELSE 0 END;
+
+    IF _wanted > _line.current_quantity THEN
+      IF NOT EXISTS (SELECT 1 FROM public.meals WHERE id = _line.meal_id AND is_available = true) THEN
+        RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+      END IF;
+
+      SELECT * INTO _priced FROM public.price_meal_line(_line.meal_id, _line.option_ids);
+
+      IF _priced.problem IS NOT NULL THEN
+        RAISE EXCEPTION '%', _priced.problem USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.order_items
+      SET quantity = quantity + (_wanted - _line.current_quantity)
+      WHERE id = (
+        SELECT id FROM public.order_items
+        WHERE order_id = _order.id
+          AND meal_id = _line.meal_id
+          AND option_ids = _line.option_ids
+          AND price_at_purchase = _priced.unit_price
+        LIMIT 1
+      );
+
+      IF NOT FOUND THEN
+        INSERT INTO public.order_items (order_id, meal_id, option_ids, modifiers, quantity, price_at_purchase)
+        VALUES (
+          _order.id,
+          _line.meal_id,
+          _line.option_ids,
+          _priced.modifiers,
+          _wanted - _line.current_quantity,
+          _priced.unit_price
+        );
+      END IF;
+    ELSIF _wanted < _line.current_quantity THEN
+      _remove := _line.current_quantity - _wanted;
+
+      -- Take portions off the most recently added lines first
+      FOR _item IN
+        SELECT * FROM public.order_items
+        WHERE order_id = _order.id AND meal_id = _line.meal_id AND option_ids = _line.option_ids
+        ORDER BY created_at DESC, id
+        FOR UPDATE
+      LOOP
+        EXIT WHEN _remove = 0;
+
+        IF _item.quantity <= _remove THEN
+          DELETE FROM public.order_items WHERE id = _item.id;
+          _remove := _remove - _item.quantity;
+        ELSE
+          UPDATE public.order_items SET quantity = quantity - _remove WHERE id = _item.id;
+          _remove := 0;
+        END IF;
+      END LOOP;
+    END IF;
+
+    IF _wanted <> _line.current_quantity THEN
+      _item_changes := _item_changes || jsonb_build_object(
+        'meal_id', _line.meal_id,
+        'name', (SELECT name FROM public.meals WHERE id = _line.meal_id),
+        'modifiers', (
+          SELECT COALESCE(jsonb_agg(modifier->>'name'), '[]'::JSONB)
+          FROM public.price_meal_line(_line.meal_id, _line.option_ids) p
+          CROSS JOIN LATERAL jsonb_array_elements(p.modifiers) AS modifier
+        ),
+        'from', _line.current_quantity,
+        'to', _wanted
+      );
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO _subtotal
+  FROM public.order_items
+  WHERE order_id = _order.id;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _slot_changed := _delivery_date IS DISTINCT FROM _order.delivery_date
+    OR _window.id IS DISTINCT FROM _order.delivery_window_id;
+
+  -- Keeping the same slot needs no checks; the order already holds its place in it
+  IF _slot_changed THEN
+    _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+    IF _closed_reason IS NOT NULL THEN
+      RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+    END IF;
+
+    IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+      RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF now() >= public.order_change_deadline(_zone.id, _delivery_date, _window.start_time) THEN
+      RAISE EXCEPTION 'that slot is too soon for the kitchen to take this order' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Usage limits were settled when the order was placed; only the minimum spend is checked again
+  IF _order.promotion_id IS NOT NULL THEN
+    SELECT * INTO _promotion FROM public.promotions WHERE id = _order.promotion_id;
+
+    IF FOUND AND _subtotal < _promotion.min_spend THEN
+      RAISE EXCEPTION 'promo code % needs a minimum spend of RM %', _promotion.code, _promotion.min_spend
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+
+  _formatted_address := public.format_address(_address);
+
+  IF jsonb_array_length(_item_changes) > 0 THEN
+    _details := _details || jsonb_build_object('items', _item_changes);
+  END IF;
+
+  IF _address.id IS DISTINCT FROM _order.address_id OR _formatted_address IS DISTINCT FROM _order.delivery_address THEN
+    _details := _details || jsonb_build_object(
+      'address', jsonb_build_object('from', _order.delivery_address, 'to', _formatted_address)
+    );
+  END IF;
+
+  IF _slot_changed THEN
+    _details := _details || jsonb_build_object(
+      'slot', jsonb_build_object(
+        'from', jsonb_build_object(
+          'date', _order.delivery_date,
+          'start', _order.delivery_window_start,
+          'end', _order.delivery_window_end
+        ),
+        'to', jsonb_build_object(
+          'date', _delivery_date,
+          'start', _window.start_time,
+          'end', _window.end_time
+        )
+      )
+    );
+  END IF;
+
+  IF _details = '{}' THEN
+    RAISE EXCEPTION 'nothing to change' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.orders
+  SET
+    subtotal = _pricing.subtotal,
+    discount_amount = _pricing.discount_amount,
+    service_charge = _pricing.service_charge,
+    delivery_fee = _pricing.delivery_fee,
+    delivery_distance_km = _pricing.delivery_distance_km,
+    sst_rate = _pricing.sst_rate,
+    sst_amount = _pricing.sst_amount,
+    total_price = _pricing.total_price,
+    delivery_zone_id = _zone.id,
+    delivery_address = _formatted_address,
+    address_id = _address.id,
+    delivery_address_snapshot = to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    delivery_date = _delivery_date,
+    delivery_window_id = _window.id,
+    delivery_window_start = _window.start_time,
+    delivery_window_end = _window.end_time,
+    updated_at = now()
+  WHERE id = _order.id;
+
+  IF _promotion.id IS NOT NULL THEN
+    UPDATE public.promotion_redemptions
+    SET discount_amount = _pricing.discount_amount
+    WHERE order_id = _order.id;
+  END IF;
+
+  RETURN public.record_order_change(_order, 'modified', _details, NULL, _pricing.total_price);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID) TO authenticated;
+
+-- Tracking pages list each line's options
+CREATE OR REPLACE FUNCTION public.track_order(_token TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', o.id,
+    'status', o.status,
+    'payment_status', o.payment_status,
+    'created_at', o.created_at,
+    'fulfilment_method', o.fulfilment_method,
+    'pickup_code', o.pickup_code,
+    'delivery_address', o.delivery_address,
+    'delivery_date', o.delivery_date,
+    'delivery_window_start', o.delivery_window_start,
+    'delivery_window_end', o.delivery_window_end,
+    'subtotal', o.subtotal,
+    'discount_amount', o.discount_amount,
+    'service_charge', o.service_charge,
+    'delivery_fee', o.delivery_fee,
+    'delivery_distance_km', o.delivery_distance_km,
+    'sst_rate', o.sst_rate,
+    'sst_amount', o.sst_amount,
+    'total_price', o.total_price,
+    'promo_code', o.promo_code,
+    'items', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'name', m.name,
+        'modifiers', oi.modifiers,
+        'quantity', oi.quantity,
+        'price_at_purchase', oi.price_at_purchase
+      ) ORDER BY m.name), '[]'::jsonb)
+      FROM public.order_items oi
+      LEFT JOIN public.meals m ON m.id = oi.meal_id
+      WHERE oi.order_id = o.id
+    ),
+    'history', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'to_status', h.to_status,
+        'created_at', h.created_at
+      ) ORDER BY h.created_at), '[]'::jsonb)
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    )
+  )
+  FROM public.orders o
+  WHERE o.tracking_token = _token
+    AND length(_token) >= 32;
+$$;
+
+REVOKE ALL ON FUNCTION public.track_order(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.track_order(TEXT) TO anon, authenticated;
@@ -0,0 +1,402 @@
+-- Build-your-own bowls. Customers pick components from each category; a
+-- finished bowl becomes a custom meal row, so the cart, checkout, order
+-- changes, kitchen view and invoices handle it like any other meal.
+CREATE TABLE public.bowl_categories (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  min_choices INTEGER NOT NULL DEFAULT 0 CHECK (min_choices >= 0),
+  max_choices INTEGER NOT NULL CHECK (max_choices >= min_choices AND max_choices > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.bowl_categories (id, name, min_choices, max_choices, sort_order) VALUES
+  ('base', 'base', 1, 2, 1),
+  ('protein', 'protein', 1, 2, 2),
+  ('vegetable', 'vegetables', 0, 4, 3),
+  ('sauce', 'sauces', 0, 2, 4),
+  ('topping', 'toppings', 0, 3, 5);
+
+-- Price and macros are per 100 g for components sold by weight, and per
+-- portion otherwise. Amounts are grams or portions to match.
+CREATE TABLE public.bowl_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category TEXT REFERENCES public.bowl_categories(id) NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  unit TEXT NOT NULL DEFAULT 'portion' CHECK (unit IN ('gram', 'portion')),
+  -- The least a customer can pick, so a few grams can't make a near-free bowl
+  min_amount INTEGER NOT NULL DEFAULT 1 CHECK (min_amount > 0),
+  default_amount INTEGER NOT NULL DEFAULT 1 CHECK (default_amount >= min_amount),
+  max_amount INTEGER NOT NULL DEFAULT 1 CHECK (max_amount >= default_amount),
+  price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+  calories DECIMAL(7,2) NOT NULL DEFAULT 0 CHECK (calories >= 0),
+  protein DECIMAL(7,2) NOT NULL DEFAULT 0 CHECK (protein >= 0),
+  carbs DECIMAL(7,2) NOT NULL DEFAULT 0 CHECK (carbs >= 0),
+  fats DECIMAL(7,2) NOT NULL DEFAULT 0 CHECK (fats >= 0),
+  dietary_tags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_tags <@ ARRAY['halal', 'vegetarian', 'vegan', 'gluten_free', 'dairy_free']),
+  allergens TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (allergens <@ ARRAY['peanuts', 'tree_nuts', 'milk', 'egg', 'fish', 'shellfish', 'soy', 'wheat', 'sesame']),
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX bowl_components_category_idx ON public.bowl_components (category);
+
+ALTER TABLE public.bowl_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bowl_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view bowl categories"
+  ON public.bowl_categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage bowl categories"
+  ON public.bowl_categories FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view available bowl components"
+  ON public.bowl_components FOR SELECT
+  USING (is_available = true);
+
+CREATE POLICY "Admins can manage bowl components"
+  ON public.bowl_components FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Starter components, without halal tags until certificates are on file
+INSERT INTO public.bowl_components
+  (category, name, unit, min_amount, default_amount, max_amount, price, calories, protein, carbs, fats, dietary_tags, allergens, sort_order)
+VALUES
+  ('base', 'brown rice', 'gram', 100, 150, 300, 1.20, 112, 2.6, 23.5, 0.9, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 1),
+  ('base', 'quinoa', 'gram', 100, 150, 300, 2.50, 120, 4.4, 21.3, 1.9, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 2),
+  ('base', 'wholemeal noodles', 'gram', 100, 150, 300, 1.50, 140, 5.5, 27, 1.2, '{vegetarian,vegan,dairy_free}', '{wheat}', 3),
+  ('base', 'mixed greens', 'gram', 50, 80, 200, 1.50, 20, 1.5, 3.5, 0.2, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 4),
+  ('protein', 'grilled chicken breast', 'gram', 80, 120, 300, 4.50, 165, 31, 0, 3.6, '{gluten_free,dairy_free}', '{}', 1),
+  ('protein', 'lean beef', 'gram', 80, 120, 300, 6.50, 187, 26, 0, 9, '{gluten_free,dairy_free}', '{}', 2),
+  ('protein', 'baked salmon', 'gram', 80, 120, 250, 8.00, 208, 20, 0, 13, '{gluten_free,dairy_free}', '{fish}', 3),
+  ('protein', 'firm tofu', 'gram', 100, 150, 300, 2.50, 144, 15.8, 3.5, 8.7, '{vegetarian,vegan,gluten_free,dairy_free}', '{soy}', 4),
+  ('protein', 'two boiled eggs', 'portion', 1, 1, 3, 2.00, 155, 12.6, 1.1, 10.6, '{vegetarian,gluten_free,dairy_free}', '{egg}', 5),
+  ('vegetable', 'broccoli', 'portion', 1, 1, 2, 1.50, 30, 2.5, 6, 0.3, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 1),
+  ('vegetable', 'roasted sweet potato', 'portion', 1, 1, 2, 2.00, 90, 2, 20, 0.1, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 2),
+  ('vegetable', 'edamame', 'portion', 1, 1, 2, 2.00, 95, 9, 7, 4, '{vegetarian,vegan,gluten_free,dairy_free}', '{soy}', 3),
+  ('vegetable', 'cherry tomatoes', 'portion', 1, 1, 2, 1.00, 15, 0.7, 3, 0.2, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 4),
+  ('vegetable', 'sauteed spinach', 'portion', 1, 1, 2, 1.50, 25, 2.5, 3, 1, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 5),
+  ('sauce', 'sesame ginger dressing', 'portion', 1, 1, 2, 0.80, 70, 0.5, 3, 6.5, '{vegetarian,vegan,dairy_free}', '{soy,wheat,sesame}', 1),
+  ('sauce', 'yoghurt tzatziki', 'portion', 1, 1, 2, 1.00, 45, 3, 3, 2.5, '{vegetarian,gluten_free}', '{milk}', 2),
+  ('sauce', 'sambal belacan', 'portion', 1, 1, 2, 0.80, 40, 0.5, 4, 2.5, '{gluten_free,dairy_free}', '{shellfish}', 3),
+  ('sauce', 'lemon herb vinaigrette', 'portion', 1, 1, 2, 0.80, 60, 0, 1, 6.5, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 4),
+  ('topping', 'avocado', 'portion', 1, 1, 2, 3.00, 80, 1, 4, 7.5, '{vegetarian,vegan,gluten_free,dairy_free}', '{}', 1),
+  ('topping', 'toasted almonds', 'portion', 1, 1, 2, 1.50, 90, 3.2, 3, 7.7, '{vegetarian,vegan,gluten_free,dairy_free}', '{tree_nuts}', 2),
+  ('topping', 'feta', 'portion', 1, 1, 2, 2.00, 75, 4, 1.2, 6, '{vegetarian,gluten_free}', '{milk}', 3),
+  ('topping', 'soft-boiled egg', 'portion', 1, 1, 2, 1.50, 70, 6, 0.5, 5, '{vegetarian,gluten_free,dairy_free}', '{egg}', 4),
+  ('topping', 'toasted sesame seeds', 'portion', 1, 1, 2, 0.50, 30, 1, 1, 2.5, '{vegetarian,vegan,gluten_free,dairy_free}', '{sesame}', 5);
+
+-- Custom bowls are meals that stay off the menu. The signature (component
+-- ids with amounts) lets identical bowls share one meal row, and created_by
+-- is whoever first built it.
+ALTER TABLE public.meals
+  ADD COLUMN is_custom_bowl BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN bowl_signature TEXT UNIQUE,
+  ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX meals_created_by_idx ON public.meals (created_by, created_at) WHERE is_custom_bowl;
+
+-- Custom bowls stay off the public menu and search. Only whoever built a
+-- bowl, has it in their cart or ordered it can read it; an identical bowl
+-- built by someone else shares the row but is only visible once it's theirs.
+DROP POLICY "Anyone can view available meals" ON public.meals;
+
+CREATE POLICY "Anyone can view available meals"
+  ON public.meals FOR SELECT
+  USING (is_available = true AND NOT is_custom_bowl);
+
+CREATE OR REPLACE FUNCTION public.can_view_custom_bowl(_meal_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM public.meals WHERE id = _meal_id AND created_by = auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM public.cart_items
+      JOIN public.carts ON carts.id = cart_items.cart_id
+      WHERE cart_items.meal_id = _meal_id
+      AND carts.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.order_items
+      JOIN public.orders ON orders.id = order_items.order_id
+      WHERE order_items.meal_id = _meal_id
+      AND orders.user_id = auth.uid()
+    )
+  )
+$$;
+
+REVOKE ALL ON FUNCTION public.can_view_custom_bowl(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.can_view_custom_bowl(UUID) TO anon, authenticated;
+
+CREATE POLICY "Users can view their custom bowls"
+  ON public.meals FOR SELECT
+  USING (is_custom_bowl AND public.can_view_custom_bowl(id));
+
+-- Search is for the menu, so it never returns custom bowls, not even the
+-- customer's own
+CREATE OR REPLACE FUNCTION public.search_meals(_query TEXT DEFAULT NULL)
+RETURNS SETOF public.meals
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.*
+  FROM public.meals m
+  LEFT JOIN LATERAL (SELECT public.meal_search_query(_query) AS q) s ON true
+  WHERE NOT m.is_custom_bowl
+  AND (s.q IS NULL OR m.search_vector @@ s.q)
+  ORDER BY CASE WHEN s.q IS NULL THEN 0 ELSE ts_rank(m.search_vector, s.q) END DESC, m.name
+$$;
+
+CREATE TABLE public.bowl_meal_components (
+  meal_id UUID REFERENCES public.meals(id) ON DELETE CASCADE NOT NULL,
+  -- Components bowls use are never deleted, only marked sold out
+  component_id UUID REFERENCES public.bowl_components(id) ON DELETE RESTRICT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  PRIMARY KEY (meal_id, component_id)
+);
+
+CREATE INDEX bowl_meal_components_component_id_idx ON public.bowl_meal_components (component_id);
+
+ALTER TABLE public.bowl_meal_components ENABLE ROW LEVEL SECURITY;
+
+-- A bowl's components are as private as the bowl
+CREATE POLICY "Users can view components of bowls they can see"
+  ON public.bowl_meal_components FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.meals WHERE meals.id = bowl_meal_components.meal_id));
+
+CREATE POLICY "Admins can manage custom bowl components"
+  ON public.bowl_meal_components FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Prices a JSON array of { component_id, amount }. Always returns one row;
+-- problem is NULL when the bowl can be made. Diets are the ones every
+-- component has, allergens the ones any component has.
+CREATE OR REPLACE FUNCTION public.price_bowl(_components JSONB)
+RETURNS TABLE (
+  name TEXT,
+  price DECIMAL,
+  calories INTEGER,
+  protein INTEGER,
+  carbs INTEGER,
+  fats INTEGER,
+  ingredients TEXT[],
+  dietary_tags TEXT[],
+  allergens TEXT[],
+  signature TEXT,
+  problem TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH requested AS (
+    SELECT
+      (item->>'component_id')::UUID AS component_id,
+      SUM((item->>'amount')::INTEGER)::INTEGER AS amount
+    FROM jsonb_array_elements(COALESCE(_components, '[]'::JSONB)) AS item
+    GROUP BY 1
+  ),
+  chosen AS (
+    SELECT
+      r.component_id,
+      r.amount,
+      c.name,
+      c.category,
+      c.min_amount,
+      c.max_amount,
+      c.is_available,
+      c.price,
+      c.calories,
+      c.protein,
+      c.carbs,
+      c.fats,
+      c.dietary_tags,
+      c.allergens,
+      CASE WHEN c.unit = 'gram' THEN r.amount / 100.0 ELSE r.amount END AS factor,
+      CASE
+        WHEN c.unit = 'gram' THEN format('%s %sg', c.name, r.amount)
+        WHEN r.amount > 1 THEN format('%s ×%s', c.name, r.amount)
+        ELSE c.name
+      END AS label,
+      cat.sort_order AS category_order,
+      c.sort_order
+    FROM requested r
+    LEFT JOIN public.bowl_components c ON c.id = r.component_id
+    LEFT JOIN public.bowl_categories cat ON cat.id = c.category
+  ),
+  categories AS (
+    SELECT cat.name, cat.min_choices, cat.max_choices, cat.sort_order, COUNT(ch.component_id) AS chosen
+    FROM public.bowl_categories cat
+    LEFT JOIN chosen ch ON ch.category = cat.id
+    GROUP BY cat.id
+  )
+  SELECT
+    'custom bowl: ' || string_agg(label, ', ' ORDER BY category_order, sort_order, name),
+    ROUND(SUM(price * factor), 2),
+    ROUND(SUM(calories * factor))::INTEGER,
+    ROUND(SUM(protein * factor))::INTEGER,
+    ROUND(SUM(carbs * factor))::INTEGER,
+    ROUND(SUM(fats * factor))::INTEGER,
+    COALESCE(array_agg(name ORDER BY category_order, sort_order, name) FILTER (WHERE name IS NOT NULL), '{}'),
+    ARRAY(
+      SELECT diet
+      FROM unnest(ARRAY['halal', 'vegetarian', 'vegan', 'gluten_free', 'dairy_free']) AS diet
+      WHERE EXISTS (SELECT 1 FROM chosen)
+      AND NOT EXISTS (SELECT 1 FROM chosen WHERE NOT diet = ANY(COALESCE(chosen.dietary_tags, '{}')))
+    ),
+    ARRAY(
+      SELECT DISTINCT allergen
+      FROM chosen, unnest(chosen.allergens) AS allergen
+      ORDER BY allergen
+    ),
+    string_agg(component_id::TEXT || ':' || amount, ',' ORDER BY component_id),
+    COALESCE(
+      CASE
+        WHEN COUNT(*) = 0 THEN 'choose what goes in your bowl'
+        WHEN COUNT(name) < COUNT(*) THEN 'some of these ingredients are no longer offered'
+        WHEN bool_or(NOT is_available) THEN
+          format('sold out: %s', string_agg(name, ', ') FILTER (WHERE NOT is_available))
+        WHEN bool_or(amount IS NULL OR amount < 1) THEN 'amounts must be more than zero'
+        WHEN bool_or(amount < min_amount) THEN
+          format('choose a larger amount of %s', string_agg(name, ', ') FILTER (WHERE amount < min_amount))
+        WHEN bool_or(amount > max_amount) THEN
+          format('choose a smaller amount of %s', string_agg(name, ', ') FILTER (WHERE amount > max_amount))
+      END,
+      (
+        SELECT format('choose at least %s %s', min_choices, categories.name)
+        FROM categories
+        WHERE chosen < min_choices
+        ORDER BY sort_order
+        LIMIT 1
+      ),
+      (
+        SELECT format('choose at most %s %s', max_choices, categories.name)
+        FROM categories
+        WHERE chosen > max_choices
+        ORDER BY sort_order
+        LIMIT 1
+      )
+    )
+  FROM chosen
+$$;
+
+-- Turns a finished bowl into the meal the cart line points at. A bowl that
+-- has been made before reuses its meal as it is, since other carts and
+-- orders may point at it; refresh_custom_bowls already keeps it in step with
+-- its components. Each customer can only build so many new bowls an hour.
+CREATE OR REPLACE FUNCTION public.create_bowl(_components JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _bowl RECORD;
+  _meal_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _bowl FROM public.price_bowl(_components);
+
+  IF _bowl.problem IS NOT NULL THEN
+    RAISE EXCEPTION '%', _bowl.problem USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT id INTO _meal_id FROM public.meals WHERE bowl_signature = _bowl.signature;
+
+  IF FOUND THEN
+    RETURN _meal_id;
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.meals
+    WHERE is_custom_bowl AND created_by = _user_id AND created_at > now() - INTERVAL '1 hour'
+  ) >= 20 THEN
+    RAISE EXCEPTION 'you''ve built a lot of new bowls just now; try again later' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.meals (
+    name, calories, protein, carbs, fats, price, ingredients, dietary_tags, allergens,
+    is_custom_bowl, bowl_signature, created_by
+  )
+  VALUES (
+    _bowl.name, _bowl.calories, _bowl.protein, _bowl.carbs, _bowl.fats, _bowl.price,
+    _bowl.ingredients, _bowl.dietary_tags, _bowl.allergens, true, _bowl.signature, _user_id
+  )
+  ON CONFLICT (bowl_signature) DO NOTHING
+  RETURNING id INTO _meal_id;
+
+  -- Someone else made the same bowl at the same moment
+  IF _meal_id IS NULL THEN
+    SELECT id INTO _meal_id FROM public.meals WHERE bowl_signature = _bowl.signature;
+    RETURN _meal_id;
+  END IF;
+
+  INSERT INTO public.bowl_meal_components (meal_id, component_id, amount)
+  SELECT _meal_id, (item->>'component_id')::UUID, SUM((item->>'amount')::INTEGER)
+  FROM jsonb_array_elements(_components) AS item
+  GROUP BY 2;
+
+  RETURN _meal_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.price_bowl(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.price_bowl(JSONB) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.create_bowl(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_bowl(JSONB) TO authenticated;
+
+-- Custom bowls follow their components: a price or macro change reprices
+-- them, and a sold-out component takes them off sale until it's back.
+-- Carts holding them see the change when checkout revalidates.
+CREATE OR REPLACE FUNCTION public.refresh_custom_bowls()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.meals m
+  SET
+    name = COALESCE(b.name, m.name),
+    price = COALESCE(b.price, m.price),
+    calories = COALESCE(b.calories, m.calories),
+    protein = COALESCE(b.protein, m.protein),
+    carbs = COALESCE(b.carbs, m.carbs),
+    fats = COALESCE(b.fats, m.fats),
+    ingredients = b.ingredients,
+    dietary_tags = b.dietary_tags,
+    allergens = b.allergens,
+    is_available = b.problem IS NULL
+  FROM (
+    SELECT meal_id, jsonb_agg(jsonb_build_object('component_id', component_id, 'amount', amount)) AS components
+    FROM public.bowl_meal_components
+    WHERE meal_id IN (SELECT meal_id FROM public.bowl_meal_components WHERE component_id = NEW.id)
+    GROUP BY meal_id
+  ) s
+  CROSS JOIN LATERAL public.price_bowl(s.components) b
+  WHERE m.id = s.meal_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_custom_bowls
+  AFTER UPDATE ON public.bowl_components
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_custom_bowls();
@@ -0,0 +1,96 @@
+-- A change that leaves a paid order costing more puts it back to payment
+-- pending (see record_order_change), including when the customer made it
+CREATE OR REPLACE FUNCTION public.protect_order_status_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_order_manager() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.fulfilment_method IS DISTINCT FROM OLD.fulfilment_method
+    OR NEW.pickup_point_id IS DISTINCT FROM OLD.pickup_point_id
+    OR NEW.pickup_code IS DISTINCT FROM OLD.pickup_code
+    OR NEW.picked_up_at IS DISTINCT FROM OLD.picked_up_at
+    OR NEW.picked_up_by IS DISTINCT FROM OLD.picked_up_by THEN
+    RAISE EXCEPTION 'only admins can change how an order is fulfilled' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status = 'cancelled'
+    AND OLD.user_id = auth.uid()
+    AND public.order_change_closed_reason(OLD) IS NULL
+    AND NEW.payment_status IS NOT DISTINCT FROM OLD.payment_status
+    AND NEW.user_id IS NOT DISTINCT FROM OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- A change that leaves a paid order short puts it back to payment pending
+  IF OLD.payment_status = 'paid'
+    AND NEW.payment_status = 'pending'
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.user_id IS NOT DISTINCT FROM OLD.user_id
+    AND public.order_balance(OLD.id) > 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'only admins can change order status' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Customers change and cancel orders only through the modify-order and
+-- cancel-order functions, which settle paid orders with the provider right
+-- after. These run the change as the customer, so ownership checks, triggers
+-- and the change history see them rather than the service role.
+CREATE OR REPLACE FUNCTION public.modify_order_as(
+  _user_id UUID,
+  _order_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID
+)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  PERFORM set_config('request.jwt.claim.sub', _user_id::TEXT, true);
+  RETURN public.modify_order(_order_id, _items, _address_id, _delivery_date, _delivery_window_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_order_as(_user_id UUID, _order_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  PERFORM set_config('request.jwt.claim.sub', _user_id::TEXT, true);
+  RETURN public.cancel_order(_order_id, _reason);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.cancel_order(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.modify_order_as(UUID, UUID, JSONB, UUID, DATE, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.modify_order_as(UUID, UUID, JSONB, UUID, DATE, UUID) TO service_role;
+REVOKE ALL ON FUNCTION public.cancel_order_as(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_order_as(UUID, UUID, TEXT) TO service_role;
@@ -0,0 +1,638 @@
+-- Two cart lines for the same meal with different kitchen notes stay two
+-- order lines, so neither note is lost
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID,
+  _promo_code TEXT DEFAULT NULL,
+  _delivery_instructions TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _closed_reason TEXT;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+  _instructions TEXT := NULLIF(btrim(_delivery_instructions), '');
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF char_length(_instructions) > 300 THEN
+    RAISE EXCEPTION 'delivery instructions must be 300 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) AS item
+    WHERE char_length(btrim(item->>'note')) > 200
+  ) THEN
+    RAISE EXCEPTION 'notes for the kitchen must be 200 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+    RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, _user_id, _subtotal, true);
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, promotion_id, promo_code, delivery_zone_id,
+    delivery_address, address_id, delivery_address_snapshot, delivery_date, delivery_window_id,
+    delivery_window_start, delivery_window_end, delivery_instructions, status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _promotion.id,
+    _promotion.code,
+    _zone.id,
+    public.format_address(_address),
+    _address.id,
+    to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    _delivery_date,
+    _window.id,
+    _window.start_time,
+    _window.end_time,
+    _instructions,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, option_ids, modifiers, quantity, price_at_purchase, note)
+  SELECT _order.id, c.meal_id, c.option_ids, p.modifiers, c.quantity, p.unit_price, c.note
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      public.cart_item_option_ids(item) AS option_ids,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity,
+      NULLIF(btrim(item->>'note'), '') AS note
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1, 2, 4
+  ) c
+  CROSS JOIN LATERAL public.price_meal_line(c.meal_id, c.option_ids) p;
+
+  IF _promotion.id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (_promotion.id, _order.id, _user_id, _pricing.discount_amount);
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(JSONB, UUID, DATE, UUID, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_pickup_order(
+  _items JSONB,
+  _pickup_point_id UUID,
+  _pickup_date DATE,
+  _promo_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _point public.pickup_points;
+  _closed_reason TEXT;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the point so concurrent checkouts can't overbook the day
+  SELECT * INTO _point
+  FROM public.pickup_points
+  WHERE id = _pickup_point_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _pickup_date IS NULL THEN
+    RAISE EXCEPTION 'choose a pickup point and day' USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.pickup_closed_reason(_point, _pickup_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'pickup day unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_pickup_bookings(_point.id, _pickup_date) >= _point.daily_capacity THEN
+    RAISE EXCEPTION '% is fully booked that day', _point.name USING ERRCODE = 'P0001';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) AS item
+    WHERE char_length(btrim(item->>'note')) > 200
+  ) THEN
+    RAISE EXCEPTION 'notes for the kitchen must be 200 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, _user_id, _subtotal, true);
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    0,
+    NULL,
+    NULL,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    true
+  );
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, promotion_id, promo_code, fulfilment_method, pickup_point_id,
+    pickup_code, delivery_address, delivery_date, delivery_window_start, delivery_window_end,
+    status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _promotion.id,
+    _promotion.code,
+    'pickup',
+    _point.id,
+    public.generate_pickup_code(_point.id, _pickup_date),
+    _point.name || ', ' || _point.address,
+    _pickup_date,
+    _point.opens_at,
+    _point.closes_at,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, option_ids, modifiers, quantity, price_at_purchase, note)
+  SELECT _order.id, c.meal_id, c.option_ids, p.modifiers, c.quantity, p.unit_price, c.note
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      public.cart_item_option_ids(item) AS option_ids,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity,
+      NULLIF(btrim(item->>'note'), '') AS note
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1, 2, 4
+  ) c
+  CROSS JOIN LATERAL public.price_meal_line(c.meal_id, c.option_ids) p;
+
+  IF _promotion.id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (_promotion.id, _order.id, _user_id, _pricing.discount_amount);
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_pickup_order(JSONB, UUID, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_pickup_order(JSONB, UUID, DATE, TEXT) TO authenticated;
+
+-- Order changes carry the kitchen notes and delivery instructions. A line is
+-- its meal, options and note, so kept portions keep their notes; a portion
+-- given a new note counts as taken off and added again. The instructions are
+-- the full new text, like the address and slot.
+DROP FUNCTION public.modify_order_as(UUID, UUID, JSONB, UUID, DATE, UUID);
+DROP FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID);
+
+CREATE OR REPLACE FUNCTION public.modify_order(
+  _order_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID,
+  _delivery_instructions TEXT
+)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _closed_reason TEXT;
+  _address public.addresses;
+  _zone public.delivery_zones;
+  _window public.delivery_windows;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _line RECORD;
+  _item public.order_items;
+  _wanted INTEGER;
+  _remove INTEGER;
+  _priced RECORD;
+  _subtotal DECIMAL(10,2);
+  _formatted_address TEXT;
+  _slot_changed BOOLEAN;
+  _item_changes JSONB := '[]';
+  _details JSONB := '{}';
+  _instructions TEXT := NULLIF(btrim(_delivery_instructions), '');
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _closed_reason := public.order_change_closed_reason(_order);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'order can no longer be changed: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _order.einvoice_id IS NOT NULL THEN
+    RAISE EXCEPTION 'this order already has an e-invoice; contact us to change it' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _order.fulfilment_method = 'pickup' THEN
+    RAISE EXCEPTION 'pickup orders can be cancelled but not changed; cancel and order again' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'an order needs at least one meal; cancel it instead' USING ERRCODE = '22023';
+  END IF;
+
+  IF char_length(_instructions) > 300 THEN
+    RAISE EXCEPTION 'delivery instructions must be 300 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) AS item
+    WHERE char_length(btrim(item->>'note')) > 200
+  ) THEN
+    RAISE EXCEPTION 'notes for the kitchen must be 200 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _address
+  FROM public.addresses
+  WHERE id = _address_id AND user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'delivery address required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _zone
+  FROM public.find_delivery_zone(_address.postcode, _address.lat, _address.lng);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'we do not deliver to postcode % yet', _address.postcode USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR _line IN
+    SELECT
+      COALESCE(requested.meal_id, current.meal_id) AS meal_id,
+      COALESCE(requested.option_ids, current.option_ids) AS option_ids,
+      COALESCE(requested.note, current.note) AS note,
+      requested.meal_id IS NOT NULL AS is_requested,
+      requested.quantity AS requested_quantity,
+      COALESCE(current.quantity, 0) AS current_quantity
+    FROM (
+      SELECT
+        (item->>'meal_id')::UUID AS meal_id,
+        public.cart_item_option_ids(item) AS option_ids,
+        NULLIF(btrim(item->>'note'), '') AS note,
+        SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(_items) AS item
+      GROUP BY 1, 2, 3
+    ) requested
+    FULL JOIN (
+      SELECT meal_id, option_ids, note, SUM(quantity)::INTEGER AS quantity
+      FROM public.order_items
+      WHERE order_id = _order.id
+      GROUP BY 1, 2, 3
+    ) current ON current.meal_id = requested.meal_id
+      AND current.option_ids = requested.option_ids
+      AND COALESCE(current.note, '') = COALESCE(requested.note, '')
+  LOOP
+    IF _line.meal_id IS NULL
+      OR (_line.is_requested AND (_line.requested_quantity IS NULL OR _line.requested_quantity < 1)) THEN
+      RAISE EXCEPTION 'invalid cart line' USING ERRCODE = '22023';
+    END IF;
+
+    _wanted := CASE WHEN _line.is_requested THEN _line.requested_quantity ELSE 0 END;
+
+    IF _wanted > _line.current_quantity THEN
+      IF NOT EXISTS (SELECT 1 FROM public.meals WHERE id = _line.meal_id AND is_available = true) THEN
+        RAISE EXCEPTION 'meal % is no longer available', _line.meal_id USING ERRCODE = 'P0002';
+      END IF;
+
+      SELECT * INTO _priced FROM public.price_meal_line(_line.meal_id, _line.option_ids);
+
+      IF _priced.problem IS NOT NULL THEN
+        RAISE EXCEPTION '%', _priced.problem USING ERRCODE = 'P0001';
+      END IF;
+
+      UPDATE public.order_items
+      SET quantity = quantity + (_wanted - _line.current_quantity)
+      WHERE id = (
+        SELECT id FROM public.order_items
+        WHERE order_id = _order.id
+          AND meal_id = _line.meal_id
+          AND option_ids = _line.option_ids
+          AND note IS NOT DISTINCT FROM _line.note
+          AND price_at_purchase = _priced.unit_price
+        LIMIT 1
+      );
+
+      IF NOT FOUND THEN
+        INSERT INTO public.order_items (order_id, meal_id, option_ids, modifiers, quantity, price_at_purchase, note)
+        VALUES (
+          _order.id,
+          _line.meal_id,
+          _line.option_ids,
+          _priced.modifiers,
+          _wanted - _line.current_quantity,
+          _priced.unit_price,
+          _line.note
+        );
+      END IF;
+    ELSIF _wanted < _line.current_quantity THEN
+      _remove := _line.current_quantity - _wanted;
+
+      -- Take portions off the most recently added lines first
+      FOR _item IN
+        SELECT * FROM public.order_items
+        WHERE order_id = _order.id
+          AND meal_id = _line.meal_id
+          AND option_ids = _line.option_ids
+          AND note IS NOT DISTINCT FROM _line.note
+        ORDER BY created_at DESC, id
+        FOR UPDATE
+      LOOP
+        EXIT WHEN _remove = 0;
+
+        IF _item.quantity <= _remove THEN
+          DELETE FROM public.order_items WHERE id = _item.id;
+          _remove := _remove - _item.quantity;
+        ELSE
+          UPDATE public.order_items SET quantity = quantity - _remove WHERE id = _item.id;
+          _remove := 0;
+        END IF;
+      END LOOP;
+    END IF;
+
+    IF _wanted <> _line.current_quantity THEN
+      _item_changes := _item_changes || jsonb_build_object(
+        'meal_id', _line.meal_id,
+        'name', (SELECT name FROM public.meals WHERE id = _line.meal_id),
+        'modifiers', (
+          SELECT COALESCE(jsonb_agg(modifier->>'name'), '[]'::JSONB)
+          FROM public.price_meal_line(_line.meal_id, _line.option_ids) p
+          CROSS JOIN LATERAL jsonb_array_elements(p.modifiers) AS modifier
+        ),
+        'note', _line.note,
+        'from', _line.current_quantity,
+        'to', _wanted
+      );
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO _subtotal
+  FROM public.order_items
+  WHERE order_id = _order.id;
+
+  IF _subtotal < _zone.min_order THEN
+    RAISE EXCEPTION 'minimum order for % is RM %', _zone.name, _zone.min_order USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the window so concurrent checkouts can't overbook it
+  SELECT * INTO _window
+  FROM public.delivery_windows
+  WHERE id = _delivery_window_id AND zone_id = _zone.id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _delivery_date IS NULL THEN
+    RAISE EXCEPTION 'choose a delivery slot for %', _zone.name USING ERRCODE = '22023';
+  END IF;
+
+  _slot_changed := _delivery_date IS DISTINCT FROM _order.delivery_date
+    OR _window.id IS DISTINCT FROM _order.delivery_window_id;
+
+  -- Keeping the same slot needs no checks; the order already holds its place in it
+  IF _slot_changed THEN
+    _closed_reason := public.delivery_slot_closed_reason(_window, _delivery_date);
+    IF _closed_reason IS NOT NULL THEN
+      RAISE EXCEPTION 'delivery slot unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+    END IF;
+
+    IF public.count_slot_bookings(_window.id, _delivery_date) >= _window.capacity THEN
+      RAISE EXCEPTION 'delivery slot is full' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF now() >= public.order_change_deadline(_zone.id, _delivery_date, _window.start_time) THEN
+      RAISE EXCEPTION 'that slot is too soon for the kitchen to take this order' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Usage limits were settled when the order was placed; only the minimum spend is checked again
+  IF _order.promotion_id IS NOT NULL THEN
+    SELECT * INTO _promotion FROM public.promotions WHERE id = _order.promotion_id;
+
+    IF FOUND AND _subtotal < _promotion.min_spend THEN
+      RAISE EXCEPTION 'promo code % needs a minimum spend of RM %', _promotion.code, _promotion.min_spend
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    _zone.delivery_fee,
+    _address.lat,
+    _address.lng,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    COALESCE(_promotion.discount_type = 'free_delivery', false)
+  );
+
+  _formatted_address := public.format_address(_address);
+
+  IF jsonb_array_length(_item_changes) > 0 THEN
+    _details := _details || jsonb_build_object('items', _item_changes);
+  END IF;
+
+  IF _address.id IS DISTINCT FROM _order.address_id OR _formatted_address IS DISTINCT FROM _order.delivery_address THEN
+    _details := _details || jsonb_build_object(
+      'address', jsonb_build_object('from', _order.delivery_address, 'to', _formatted_address)
+    );
+  END IF;
+
+  IF _slot_changed THEN
+    _details := _details || jsonb_build_object(
+      'slot', jsonb_build_object(
+        'from', jsonb_build_object(
+          'date', _order.delivery_date,
+          'start', _order.delivery_window_start,
+          'end', _order.delivery_window_end
+        ),
+        'to', jsonb_build_object(
+          'date', _delivery_date,
+          'start', _window.start_time,
+          'end', _window.end_time
+        )
+      )
+    );
+  END IF;
+
+  IF _instructions IS DISTINCT FROM _order.delivery_instructions THEN
+    _details := _details || jsonb_build_object(
+      'instructions', jsonb_build_object('from', _order.delivery_instructions, 'to', _instructions)
+    );
+  END IF;
+
+  IF _details = '{}' THEN
+    RAISE EXCEPTION 'nothing to change' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.orders
+  SET
+    subtotal = _pricing.subtotal,
+    discount_amount = _pricing.discount_amount,
+    service_charge = _pricing.service_charge,
+    delivery_fee = _pricing.delivery_fee,
+    delivery_distance_km = _pricing.delivery_distance_km,
+    sst_rate = _pricing.sst_rate,
+    sst_amount = _pricing.sst_amount,
+    total_price = _pricing.total_price,
+    delivery_zone_id = _zone.id,
+    delivery_address = _formatted_address,
+    address_id = _address.id,
+    delivery_address_snapshot = to_jsonb(_address) - 'id' - 'user_id' - 'is_default' - 'created_at' - 'updated_at',
+    delivery_date = _delivery_date,
+    delivery_window_id = _window.id,
+    delivery_window_start = _window.start_time,
+    delivery_window_end = _window.end_time,
+    delivery_instructions = _instructions,
+    updated_at = now()
+  WHERE id = _order.id;
+
+  IF _promotion.id IS NOT NULL THEN
+    UPDATE public.promotion_redemptions
+    SET discount_amount = _pricing.discount_amount
+    WHERE order_id = _order.id;
+  END IF;
+
+  RETURN public.record_order_change(_order, 'modified', _details, NULL, _pricing.total_price);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.modify_order(UUID, JSONB, UUID, DATE, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.modify_order_as(
+  _user_id UUID,
+  _order_id UUID,
+  _items JSONB,
+  _address_id UUID,
+  _delivery_date DATE,
+  _delivery_window_id UUID,
+  _delivery_instructions TEXT
+)
+RETURNS public.order_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  PERFORM set_config('request.jwt.claim.sub', _user_id::TEXT, true);
+  RETURN public.modify_order(
+    _order_id, _items, _address_id, _delivery_date, _delivery_window_id, _delivery_instructions
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.modify_order_as(UUID, UUID, JSONB, UUID, DATE, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.modify_order_as(UUID, UUID, JSONB, UUID, DATE, UUID, TEXT) TO service_role;
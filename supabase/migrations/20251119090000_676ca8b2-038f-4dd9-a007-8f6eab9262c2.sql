@@ -0,0 +1,180 @@
+-- Self-collect orders refuse free-delivery promos instead of spending a
+-- customer's use of one on a RM 0 discount
+CREATE OR REPLACE FUNCTION public.quote_pickup_order(_items JSONB, _pickup_point_id UUID, _promo_code TEXT DEFAULT NULL)
+RETURNS TABLE (
+  subtotal DECIMAL,
+  discount_amount DECIMAL,
+  service_charge DECIMAL,
+  delivery_fee DECIMAL,
+  delivery_distance_km DECIMAL,
+  sst_rate DECIMAL,
+  sst_amount DECIMAL,
+  total_price DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.pickup_points WHERE id = _pickup_point_id AND is_active) THEN
+    RAISE EXCEPTION 'choose a pickup point' USING ERRCODE = '22023';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, auth.uid(), _subtotal);
+  END IF;
+
+  -- Free delivery is worth nothing on a self-collect order, so it isn't spent on one
+  IF _promotion.discount_type = 'free_delivery' THEN
+    RAISE EXCEPTION 'promo code % is for free delivery, so it can''t be used for self-collect', _promotion.code
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.calculate_order_pricing(
+    _subtotal,
+    0,
+    NULL,
+    NULL,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    true
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.quote_pickup_order(JSONB, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_pickup_order(JSONB, UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_pickup_order(
+  _items JSONB,
+  _pickup_point_id UUID,
+  _pickup_date DATE,
+  _promo_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _point public.pickup_points;
+  _closed_reason TEXT;
+  _promotion public.promotions;
+  _pricing RECORD;
+  _order public.orders;
+  _subtotal DECIMAL(10,2);
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the point so concurrent checkouts can't overbook the day
+  SELECT * INTO _point
+  FROM public.pickup_points
+  WHERE id = _pickup_point_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _pickup_date IS NULL THEN
+    RAISE EXCEPTION 'choose a pickup point and day' USING ERRCODE = '22023';
+  END IF;
+
+  _closed_reason := public.pickup_closed_reason(_point, _pickup_date);
+  IF _closed_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'pickup day unavailable: %', _closed_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  IF public.count_pickup_bookings(_point.id, _pickup_date) >= _point.daily_capacity THEN
+    RAISE EXCEPTION '% is fully booked that day', _point.name USING ERRCODE = 'P0001';
+  END IF;
+
+  _subtotal := public.cart_subtotal(_items);
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) AS item
+    WHERE char_length(btrim(item->>'note')) > 200
+  ) THEN
+    RAISE EXCEPTION 'notes for the kitchen must be 200 characters or less' USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(btrim(_promo_code), '') IS NOT NULL THEN
+    _promotion := public.resolve_promotion(_promo_code, _user_id, _subtotal, true);
+  END IF;
+
+  -- Free delivery is worth nothing on a self-collect order, so it isn't spent on one
+  IF _promotion.discount_type = 'free_delivery' THEN
+    RAISE EXCEPTION 'promo code % is for free delivery, so it can''t be used for self-collect', _promotion.code
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO _pricing
+  FROM public.calculate_order_pricing(
+    _subtotal,
+    0,
+    NULL,
+    NULL,
+    COALESCE(public.promotion_discount(_promotion, _subtotal), 0),
+    true
+  );
+
+  INSERT INTO public.orders (
+    user_id, subtotal, discount_amount, service_charge, delivery_fee, delivery_distance_km,
+    sst_rate, sst_amount, total_price, promotion_id, promo_code, fulfilment_method, pickup_point_id,
+    pickup_code, delivery_address, delivery_date, delivery_window_start, delivery_window_end,
+    status, payment_status
+  )
+  VALUES (
+    _user_id,
+    _pricing.subtotal,
+    _pricing.discount_amount,
+    _pricing.service_charge,
+    _pricing.delivery_fee,
+    _pricing.delivery_distance_km,
+    _pricing.sst_rate,
+    _pricing.sst_amount,
+    _pricing.total_price,
+    _promotion.id,
+    _promotion.code,
+    'pickup',
+    _point.id,
+    public.generate_pickup_code(_point.id, _pickup_date),
+    _point.name || ', ' || _point.address,
+    _pickup_date,
+    _point.opens_at,
+    _point.closes_at,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, meal_id, option_ids, modifiers, quantity, price_at_purchase, note)
+  SELECT _order.id, c.meal_id, c.option_ids, p.modifiers, c.quantity, p.unit_price, c.note
+  FROM (
+    SELECT
+      (item->>'meal_id')::UUID AS meal_id,
+      public.cart_item_option_ids(item) AS option_ids,
+      SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity,
+      NULLIF(btrim(item->>'note'), '') AS note
+    FROM jsonb_array_elements(_items) AS item
+    GROUP BY 1, 2, 4
+  ) c
+  CROSS JOIN LATERAL public.price_meal_line(c.meal_id, c.option_ids) p;
+
+  -- A use is only counted when the promo took something off
+  IF _promotion.id IS NOT NULL AND _pricing.discount_amount > 0 THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+    VALUES (_promotion.id, _order.id, _user_id, _pricing.discount_amount);
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_pickup_order(JSONB, UUID, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_pickup_order(JSONB, UUID, DATE, TEXT) TO authenticated;